@@ -4,6 +4,7 @@ import React from 'react'
 import { useQuery } from 'convex/react'
 import { api } from '../../../convex/_generated/api'
 import { LoadingSpinner } from '../ui/LoadingSpinner'
+import { StalenessTrendChart } from './StalenessTrendChart'
 
 export function DashboardOverview() {
   const repositories = useQuery(api.repositories.getUserRepositories)
@@ -89,6 +90,9 @@ export function DashboardOverview() {
         ))}
       </div>
 
+      {/* Staleness Trend */}
+      {totalRepos > 0 && <StalenessTrendChart />}
+
       {/* Quick Actions */}
       <div className="card">
         <div className="flex items-center justify-between mb-4">
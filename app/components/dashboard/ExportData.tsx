@@ -0,0 +1,147 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useQuery } from 'convex/react'
+import { useAuthToken } from '@convex-dev/auth/react'
+import { api } from '../../../convex/_generated/api'
+
+type Dataset = 'stale-issues' | 'notifications'
+
+const statusOptions: Record<Dataset, string[]> = {
+  'stale-issues': ['open', 'closed'],
+  notifications: ['pending', 'sent', 'delivered', 'bounced', 'failed'],
+}
+
+// HTTP actions are served from the deployment's .site domain
+const exportBaseUrl = process.env.NEXT_PUBLIC_CONVEX_SITE_URL
+  ?? process.env.NEXT_PUBLIC_CONVEX_URL?.replace(/\.cloud$/, '.site')
+
+export function ExportData() {
+  const token = useAuthToken()
+  const repositories = useQuery(api.repositories.getUserRepositories)
+  const [dataset, setDataset] = useState<Dataset>('stale-issues')
+  const [format, setFormat] = useState<'csv' | 'json'>('csv')
+  const [repository, setRepository] = useState('')
+  const [label, setLabel] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [status, setStatus] = useState('')
+  const [isDownloading, setIsDownloading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleDownload = async () => {
+    if (!token || !exportBaseUrl) {
+      setError('Export is not available right now')
+      return
+    }
+
+    setError(null)
+    setIsDownloading(true)
+    try {
+      const params = new URLSearchParams({ format })
+      for (const [key, value] of Object.entries({ repository, label, from, to, status })) {
+        if (value) {
+          params.set(key, value)
+        }
+      }
+
+      const response = await fetch(`${exportBaseUrl}/export/${dataset}?${params}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      if (!response.ok) {
+        const body = await response.json().catch(() => null)
+        throw new Error(body?.error ?? 'Export failed')
+      }
+
+      // Save the response under the filename chosen by the server
+      const filename = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1]
+        ?? `${dataset}.${format}`
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed')
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Export</h2>
+        <div className="text-sm text-gray-600">Download for spreadsheets and triage meetings</div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <label className="text-sm text-gray-700">
+          Data
+          <select
+            value={dataset}
+            onChange={(e) => {
+              setDataset(e.target.value as Dataset)
+              setStatus('')
+            }}
+            className="input mt-1"
+          >
+            <option value="stale-issues">Stale issues</option>
+            <option value="notifications">Notification history</option>
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          Repository
+          <select value={repository} onChange={(e) => setRepository(e.target.value)} className="input mt-1">
+            <option value="">All repositories</option>
+            {repositories?.map(repo => (
+              <option key={repo._id} value={repo.fullName}>{repo.fullName}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          Label
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Any label"
+            className="input mt-1"
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Status
+          <select value={status} onChange={(e) => setStatus(e.target.value)} className="input mt-1">
+            <option value="">Any status</option>
+            {statusOptions[dataset].map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          {dataset === 'stale-issues' ? 'Last activity from' : 'Sent from'}
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="input mt-1" />
+        </label>
+        <label className="text-sm text-gray-700">
+          To
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="input mt-1" />
+        </label>
+        <label className="text-sm text-gray-700">
+          Format
+          <select value={format} onChange={(e) => setFormat(e.target.value as 'csv' | 'json')} className="input mt-1">
+            <option value="csv">CSV</option>
+            <option value="json">JSON</option>
+          </select>
+        </label>
+        <div className="flex items-end">
+          <button onClick={handleDownload} disabled={isDownloading} className="btn-primary w-full">
+            {isDownloading ? 'Preparing...' : 'Download'}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+    </div>
+  )
+}
@@ -71,6 +71,9 @@ export function NotificationHistory() {
                                             {notification.repositoryName || 'Unknown Repository'}
                                         </h4>
                                         {getStatusBadge(notification.status)}
+                                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                                            {notification.channel === 'slack' ? 'Slack' : 'Email'}
+                                        </span>
                                     </div>
 
                                     <div className="mt-2 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm text-gray-600">
@@ -83,7 +86,7 @@ export function NotificationHistory() {
                                             {notification.issueCount || 0}
                                         </div>
                                         <div>
-                                            <span className="font-medium">Email ID:</span>{' '}
+                                            <span className="font-medium">{notification.channel === 'slack' ? 'Delivery ID:' : 'Email ID:'}</span>{' '}
                                             <code className="text-xs bg-gray-100 px-1 rounded">
                                                 {notification.emailId?.substring(0, 8)}...
                                             </code>
@@ -0,0 +1,100 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useQuery, useMutation } from 'convex/react'
+import { api } from '../../../convex/_generated/api'
+import { LoadingSpinner } from '../ui/LoadingSpinner'
+
+interface RepositoryErrorsProps {
+  repositoryId: string
+}
+
+const severityColors: Record<string, string> = {
+  low: 'bg-gray-100 text-gray-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-orange-100 text-orange-800',
+  critical: 'bg-red-100 text-red-800',
+}
+
+export function RepositoryErrors({ repositoryId }: RepositoryErrorsProps) {
+  const [showResolved, setShowResolved] = useState(false)
+  const errors = useQuery(api.errors.getRepositoryErrors, {
+    repositoryId: repositoryId as any,
+    includeResolved: showResolved,
+    limit: 20,
+  })
+  const resolveError = useMutation(api.errors.resolveError)
+  const resolveAll = useMutation(api.errors.resolveRepositoryErrors)
+
+  if (errors === undefined) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <LoadingSpinner size="sm" />
+      </div>
+    )
+  }
+
+  const unresolvedCount = errors.filter(error => !error.resolved).length
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-gray-900">Error History</h4>
+        <div className="flex items-center space-x-3">
+          <label className="flex items-center text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={showResolved}
+              onChange={(e) => setShowResolved(e.target.checked)}
+              className="mr-1"
+            />
+            Show resolved
+          </label>
+          {unresolvedCount > 0 && (
+            <button
+              onClick={() => resolveAll({ repositoryId: repositoryId as any })}
+              className="btn-secondary text-xs"
+            >
+              Resolve All
+            </button>
+          )}
+        </div>
+      </div>
+
+      {errors.length === 0 ? (
+        <p className="text-sm text-gray-600">No errors recorded.</p>
+      ) : (
+        <ul className="space-y-2">
+          {errors.map((error) => (
+            <li key={error._id} className="flex items-start justify-between text-sm border border-gray-200 rounded p-2">
+              <div className="flex-1">
+                <div className="flex items-center space-x-2">
+                  <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${severityColors[error.severity]}`}>
+                    {error.severity}
+                  </span>
+                  <span className="font-medium text-gray-900">{error.type}</span>
+                  {error.retryCount > 0 && (
+                    <span className="text-xs text-gray-500">×{error.retryCount + 1}</span>
+                  )}
+                </div>
+                <p className="mt-1 text-gray-700">{error.message}</p>
+                <p className="text-xs text-gray-500">
+                  Last seen {new Date(error.lastOccurredAt).toLocaleString()}
+                  {error.resolved && error.resolvedAt && ` · resolved ${new Date(error.resolvedAt).toLocaleString()}`}
+                </p>
+              </div>
+              {!error.resolved && (
+                <button
+                  onClick={() => resolveError({ errorId: error._id })}
+                  className="btn-secondary text-xs ml-2"
+                >
+                  Resolve
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
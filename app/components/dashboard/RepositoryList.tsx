@@ -5,6 +5,132 @@ import { useQuery, useMutation } from 'convex/react'
 import { api } from '../../../convex/_generated/api'
 import { LoadingSpinner } from '../ui/LoadingSpinner'
 import { RuleManagement } from './RuleManagement'
+import { RepositoryErrors } from './RepositoryErrors'
+import { Doc } from '../../../convex/_generated/dataModel'
+import { getParticipantSettings } from '../../../convex/lib/participants'
+import { getActivitySettings } from '../../../convex/lib/activity'
+import type { ActivitySettings as ActivitySettingsValue, RepositoryPriority } from '../../../src/types'
+
+// Who besides the owner is emailed when issues go stale
+function ParticipantNotificationSettings({ repository }: { repository: Doc<'repositories'> }) {
+  const updateSettings = useMutation(api.repositories.updateRepositorySettings)
+  const settings = getParticipantSettings(repository)
+
+  const toggle = (key: 'assignees' | 'authors', value: boolean) => {
+    updateSettings({
+      repositoryId: repository._id,
+      settings: { participantNotifications: { ...settings, [key]: value } },
+    }).catch(error => console.error('Failed to update notification settings:', error))
+  }
+
+  return (
+    <div className="mb-4 flex flex-wrap gap-6 text-sm text-gray-700">
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={settings.assignees}
+          onChange={(e) => toggle('assignees', e.target.checked)}
+        />
+        Email assignees their stale issues
+      </label>
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={settings.authors}
+          onChange={(e) => toggle('authors', e.target.checked)}
+        />
+        Ask authors whether their stale issues are still relevant
+      </label>
+    </div>
+  )
+}
+
+// Order in which scheduled checks spend the GitHub rate limit
+function RepositoryPrioritySetting({ repository }: { repository: Doc<'repositories'> }) {
+  const updateSettings = useMutation(api.repositories.updateRepositorySettings)
+
+  return (
+    <label className="mb-4 flex items-center gap-2 text-sm text-gray-700">
+      Check priority
+      <select
+        value={repository.priority ?? 'normal'}
+        onChange={(e) => updateSettings({
+          repositoryId: repository._id,
+          settings: { priority: e.target.value as RepositoryPriority },
+        }).catch(error => console.error('Failed to update repository priority:', error))}
+        className="input"
+      >
+        <option value="high">High</option>
+        <option value="normal">Normal</option>
+        <option value="low">Low</option>
+      </select>
+    </label>
+  )
+}
+
+// What counts as activity when deciding whether an issue is stale
+function ActivitySettings({ repository }: { repository: Doc<'repositories'> }) {
+  const updateSettings = useMutation(api.repositories.updateRepositorySettings)
+  const settings = getActivitySettings(repository)
+  const [ignoredLogins, setIgnoredLogins] = useState(settings.ignoredLogins.join(', '))
+  const [error, setError] = useState<string | null>(null)
+
+  const save = async (activitySettings: ActivitySettingsValue) => {
+    setError(null)
+    try {
+      await updateSettings({ repositoryId: repository._id, settings: { activitySettings } })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update activity settings')
+    }
+  }
+
+  const toggle = (key: 'ignoreBots' | 'ignoreLabelChanges' | 'ignoreAssigneeChanges' | 'maintainerCommentsOnly', value: boolean) =>
+    save({ ...settings, [key]: value })
+
+  return (
+    <div className="mb-4 space-y-2 text-sm text-gray-700">
+      <div className="flex flex-wrap gap-6">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={settings.ignoreBots} onChange={(e) => toggle('ignoreBots', e.target.checked)} />
+          Ignore bots
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.ignoreLabelChanges}
+            onChange={(e) => toggle('ignoreLabelChanges', e.target.checked)}
+          />
+          Ignore label changes
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.ignoreAssigneeChanges}
+            onChange={(e) => toggle('ignoreAssigneeChanges', e.target.checked)}
+          />
+          Ignore assignee changes
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={settings.maintainerCommentsOnly}
+            onChange={(e) => toggle('maintainerCommentsOnly', e.target.checked)}
+          />
+          Only count maintainer comments
+        </label>
+      </div>
+      <input
+        type="text"
+        value={ignoredLogins}
+        onChange={(e) => setIgnoredLogins(e.target.value)}
+        onBlur={() => save({ ...settings, ignoredLogins: ignoredLogins.split(',') })}
+        placeholder="Ignored accounts, e.g. stalebot[bot], release-robot"
+        className="input w-full"
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
 
 export function RepositoryList() {
   const repositories = useQuery(api.repositories.getUserRepositories)
@@ -110,6 +236,18 @@ export function RepositoryList() {
                         </span>
                       )}
 
+                      {healthStatus?.hasRecentErrors && (
+                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-800">
+                          Errors
+                        </span>
+                      )}
+
+                      {healthStatus?.config.errors.length ? (
+                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                          Config errors
+                        </span>
+                      ) : null}
+
                       {!repo.isActive && (
                         <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
                           Inactive
@@ -117,6 +255,17 @@ export function RepositoryList() {
                       )}
                     </div>
 
+                    {healthStatus?.config.errors.length ? (
+                      <div className="mt-2 text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded p-2">
+                        <div className="font-medium">{healthStatus.config.path} could not be applied:</div>
+                        <ul className="list-disc list-inside">
+                          {healthStatus.config.errors.map((configError, index) => (
+                            <li key={index}>{configError}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    ) : null}
+
                     <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-4 text-sm text-gray-600">
                       <div>
                         <span className="font-medium">Last Check:</span>{' '}
@@ -165,6 +314,10 @@ export function RepositoryList() {
                 {/* Expanded rule management */}
                 {selectedRepo === repo._id && (
                   <div className="mt-4 pt-4 border-t border-gray-200">
+                    <RepositoryErrors repositoryId={repo._id} />
+                    <ParticipantNotificationSettings repository={repo} />
+                    <ActivitySettings repository={repo} />
+                    <RepositoryPrioritySetting repository={repo} />
                     <RuleManagement repositoryId={repo._id} repositoryName={repo.fullName} />
                   </div>
                 )}
@@ -4,12 +4,46 @@ import React, { useState } from 'react'
 import { useQuery, useMutation } from 'convex/react'
 import { api } from '../../../convex/_generated/api'
 import { LoadingSpinner } from '../ui/LoadingSpinner'
+import { parseRuleExpression, ExpressionError } from '../../../convex/lib/ruleExpression'
+
+// Show the condition with the span of the first error underlined
+function ConditionErrors({ condition, errors }: { condition: string; errors: ExpressionError[] }) {
+  const [first] = errors
+  const end = Math.max(first.span.end, first.span.start + 1)
+
+  return (
+    <div className="mt-2 text-sm">
+      <pre className="font-mono text-xs bg-white border border-red-200 rounded p-2 whitespace-pre-wrap break-all">
+        {condition.slice(0, first.span.start)}
+        <mark className="bg-red-200 text-red-900 underline decoration-wavy">
+          {condition.slice(first.span.start, end) || ' '}
+        </mark>
+        {condition.slice(end)}
+      </pre>
+      <ul className="mt-1 text-red-600 space-y-1">
+        {errors.map((error, index) => (
+          <li key={index}>Column {error.span.start + 1}: {error.message}</li>
+        ))}
+      </ul>
+    </div>
+  )
+}
 
 interface RuleManagementProps {
   repositoryId: string
   repositoryName: string
 }
 
+type CriterionChoice = 'any' | 'yes' | 'no'
+type PullRequestCriterion = 'draft' | 'reviewRequested' | 'checksFailing' | 'hasConflicts'
+
+const pullRequestCriteriaOptions: { key: PullRequestCriterion; label: string }[] = [
+  { key: 'draft', label: 'Draft' },
+  { key: 'reviewRequested', label: 'Review requested' },
+  { key: 'checksFailing', label: 'CI failing' },
+  { key: 'hasConflicts', label: 'Merge conflicts' },
+]
+
 interface RuleFormData {
   name: string
   inactivityDays: number
@@ -17,6 +51,43 @@ interface RuleFormData {
   issueStates: ('open' | 'closed')[]
   assigneeCondition: 'any' | 'assigned' | 'unassigned' | 'specific'
   specificAssignees: string[]
+  itemKind: 'any' | 'issue' | 'pull_request'
+  pullRequestCriteria: Record<PullRequestCriterion, CriterionChoice>
+  exemptLabels: string[]
+  exemptMilestoneMode: 'none' | 'any' | 'specific'
+  exemptMilestones: string[]
+  exemptLinkedPullRequests: boolean
+  exemptIssueNumbers: number[]
+  condition: string
+  postComment: boolean
+  commentMessage: string
+  addLabel: boolean
+  staleLabel: string
+  closeIssue: boolean
+  daysUntilClose: number
+}
+
+const defaultFormData: RuleFormData = {
+  name: '',
+  inactivityDays: 30,
+  labels: [],
+  issueStates: ['open'],
+  assigneeCondition: 'any',
+  specificAssignees: [],
+  itemKind: 'any',
+  pullRequestCriteria: { draft: 'any', reviewRequested: 'any', checksFailing: 'any', hasConflicts: 'any' },
+  exemptLabels: [],
+  exemptMilestoneMode: 'none',
+  exemptMilestones: [],
+  exemptLinkedPullRequests: false,
+  exemptIssueNumbers: [],
+  condition: '',
+  postComment: false,
+  commentMessage: '',
+  addLabel: false,
+  staleLabel: 'stale',
+  closeIssue: false,
+  daysUntilClose: 7,
 }
 
 export function RuleManagement({ repositoryId, repositoryName }: RuleManagementProps) {
@@ -29,24 +100,13 @@ export function RuleManagement({ repositoryId, repositoryName }: RuleManagementP
   const [editingRule, setEditingRule] = useState<string | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
   
-  const [formData, setFormData] = useState<RuleFormData>({
-    name: '',
-    inactivityDays: 30,
-    labels: [],
-    issueStates: ['open'],
-    assigneeCondition: 'any',
-    specificAssignees: [],
-  })
+  const [formData, setFormData] = useState<RuleFormData>(defaultFormData)
+
+  const conditionResult = formData.condition.trim() ? parseRuleExpression(formData.condition) : null
+  const conditionErrors = conditionResult && conditionResult.valid === false ? conditionResult.errors : []
 
   const resetForm = () => {
-    setFormData({
-      name: '',
-      inactivityDays: 30,
-      labels: [],
-      issueStates: ['open'],
-      assigneeCondition: 'any',
-      specificAssignees: [],
-    })
+    setFormData(defaultFormData)
     setShowCreateForm(false)
     setEditingRule(null)
   }
@@ -58,6 +118,27 @@ export function RuleManagement({ repositoryId, repositoryName }: RuleManagementP
     try {
       setIsSubmitting(true)
       
+      const hasActions = formData.postComment || formData.addLabel || formData.closeIssue
+      const actionPolicy = hasActions
+        ? {
+            postComment: formData.postComment,
+            commentMessage: formData.commentMessage.trim() || undefined,
+            addLabel: formData.addLabel,
+            staleLabel: formData.staleLabel.trim() || undefined,
+            closeIssue: formData.closeIssue,
+            daysUntilClose: formData.closeIssue ? formData.daysUntilClose : undefined,
+          }
+        : undefined
+
+      const criteria = Object.fromEntries(
+        pullRequestCriteriaOptions
+          .filter(({ key }) => formData.pullRequestCriteria[key] !== 'any')
+          .map(({ key }) => [key, formData.pullRequestCriteria[key] === 'yes'])
+      )
+      const pullRequestCriteria = formData.itemKind === 'pull_request' && Object.keys(criteria).length > 0
+        ? criteria
+        : undefined
+
       const ruleData = {
         repositoryId: repositoryId as any,
         name: formData.name.trim(),
@@ -67,15 +148,31 @@ export function RuleManagement({ repositoryId, repositoryName }: RuleManagementP
         assigneeCondition: formData.assigneeCondition === 'specific' 
           ? formData.specificAssignees 
           : formData.assigneeCondition,
+        itemKind: formData.itemKind,
+        exemptLabels: formData.exemptLabels,
+        exemptLinkedPullRequests: formData.exemptLinkedPullRequests,
+        exemptIssueNumbers: formData.exemptIssueNumbers,
       }
+      const condition = formData.condition.trim() || undefined
+      const exemptMilestones = formData.exemptMilestoneMode === 'any'
+        ? 'any' as const
+        : formData.exemptMilestoneMode === 'specific' && formData.exemptMilestones.length > 0
+          ? formData.exemptMilestones
+          : undefined
 
       if (editingRule) {
         await updateRule({
           ruleId: editingRule as any,
-          updates: ruleData,
+          updates: {
+            ...ruleData,
+            exemptMilestones: exemptMilestones ?? null,
+            condition: condition ?? null,
+            pullRequestCriteria: pullRequestCriteria ?? null,
+            actionPolicy: actionPolicy ?? null,
+          },
         })
       } else {
-        await createRule(ruleData)
+        await createRule({ ...ruleData, exemptMilestones, condition, pullRequestCriteria, actionPolicy })
       }
 
       resetForm()
@@ -94,6 +191,25 @@ export function RuleManagement({ repositoryId, repositoryName }: RuleManagementP
       issueStates: rule.issueStates,
       assigneeCondition: Array.isArray(rule.assigneeCondition) ? 'specific' : rule.assigneeCondition,
       specificAssignees: Array.isArray(rule.assigneeCondition) ? rule.assigneeCondition : [],
+      itemKind: rule.itemKind ?? 'any',
+      exemptLabels: rule.exemptLabels ?? [],
+      exemptMilestoneMode: rule.exemptMilestones === 'any' ? 'any' : rule.exemptMilestones ? 'specific' : 'none',
+      exemptMilestones: Array.isArray(rule.exemptMilestones) ? rule.exemptMilestones : [],
+      exemptLinkedPullRequests: rule.exemptLinkedPullRequests ?? false,
+      exemptIssueNumbers: rule.exemptIssueNumbers ?? [],
+      condition: rule.condition ?? '',
+      pullRequestCriteria: Object.fromEntries(
+        pullRequestCriteriaOptions.map(({ key }) => {
+          const value = rule.pullRequestCriteria?.[key]
+          return [key, value === undefined ? 'any' : value ? 'yes' : 'no']
+        })
+      ) as Record<PullRequestCriterion, CriterionChoice>,
+      postComment: rule.actionPolicy?.postComment ?? false,
+      commentMessage: rule.actionPolicy?.commentMessage ?? '',
+      addLabel: rule.actionPolicy?.addLabel ?? false,
+      staleLabel: rule.actionPolicy?.staleLabel ?? 'stale',
+      closeIssue: rule.actionPolicy?.closeIssue ?? false,
+      daysUntilClose: rule.actionPolicy?.daysUntilClose ?? 7,
     })
     setEditingRule(rule._id)
     setShowCreateForm(true)
@@ -114,6 +230,18 @@ export function RuleManagement({ repositoryId, repositoryName }: RuleManagementP
     setFormData(prev => ({ ...prev, labels }))
   }
 
+  const handleListInput = (field: 'exemptLabels' | 'exemptMilestones', value: string) => {
+    const values = value.split(',').map(v => v.trim()).filter(v => v.length > 0)
+    setFormData(prev => ({ ...prev, [field]: values }))
+  }
+
+  const handleIssueNumberInput = (value: string) => {
+    const numbers = value.split(',')
+      .map(n => parseInt(n.trim().replace(/^#/, '')))
+      .filter(n => Number.isInteger(n) && n > 0)
+    setFormData(prev => ({ ...prev, exemptIssueNumbers: numbers }))
+  }
+
   const handleAssigneeInput = (value: string) => {
     const assignees = value.split(',').map(a => a.trim()).filter(a => a.length > 0)
     setFormData(prev => ({ ...prev, specificAssignees: assignees }))
@@ -175,6 +303,48 @@ export function RuleManagement({ repositoryId, repositoryName }: RuleManagementP
             </div>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Applies To
+            </label>
+            <select
+              value={formData.itemKind}
+              onChange={(e) => setFormData(prev => ({ ...prev, itemKind: e.target.value as RuleFormData['itemKind'] }))}
+              className="input"
+            >
+              <option value="any">Issues and pull requests</option>
+              <option value="issue">Issues only</option>
+              <option value="pull_request">Pull requests only</option>
+            </select>
+          </div>
+
+          {formData.itemKind === 'pull_request' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Pull Request Criteria
+              </label>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {pullRequestCriteriaOptions.map((option) => (
+                  <div key={option.key}>
+                    <span className="block text-sm text-gray-600 mb-1">{option.label}</span>
+                    <select
+                      value={formData.pullRequestCriteria[option.key]}
+                      onChange={(e) => setFormData(prev => ({
+                        ...prev,
+                        pullRequestCriteria: { ...prev.pullRequestCriteria, [option.key]: e.target.value as CriterionChoice },
+                      }))}
+                      className="input"
+                    >
+                      <option value="any">Any</option>
+                      <option value="yes">Yes</option>
+                      <option value="no">No</option>
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Labels (comma-separated, leave empty for all)
@@ -264,6 +434,156 @@ export function RuleManagement({ repositoryId, repositoryName }: RuleManagementP
             )}
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Condition (optional)
+            </label>
+            <textarea
+              value={formData.condition}
+              onChange={(e) => setFormData(prev => ({ ...prev, condition: e.target.value }))}
+              className={`input font-mono text-sm ${conditionErrors.length > 0 ? 'border-red-400' : ''}`}
+              rows={2}
+              placeholder="label:bug AND NOT label:wontfix AND (unassigned OR assignee in [alice, bob]) AND comments < 3"
+            />
+            {conditionErrors.length > 0 ? (
+              <ConditionErrors condition={formData.condition} errors={conditionErrors} />
+            ) : (
+              <p className="mt-1 text-xs text-gray-500">
+                Combine label:, assignee:, milestone:, state:, kind:, assigned, unassigned, draft,
+                comments and days_inactive with AND, OR, NOT and parentheses.
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Exemptions
+            </label>
+            <div className="space-y-3">
+              <div>
+                <span className="block text-sm text-gray-600 mb-1">Exempt labels (comma-separated)</span>
+                <input
+                  type="text"
+                  value={formData.exemptLabels.join(', ')}
+                  onChange={(e) => handleListInput('exemptLabels', e.target.value)}
+                  className="input"
+                  placeholder="security, pinned, roadmap"
+                />
+              </div>
+
+              <div>
+                <span className="block text-sm text-gray-600 mb-1">Milestones</span>
+                <select
+                  value={formData.exemptMilestoneMode}
+                  onChange={(e) => setFormData(prev => ({ ...prev, exemptMilestoneMode: e.target.value as RuleFormData['exemptMilestoneMode'] }))}
+                  className="input"
+                >
+                  <option value="none">Don't exempt by milestone</option>
+                  <option value="any">Exempt issues in any milestone</option>
+                  <option value="specific">Exempt issues in specific milestones</option>
+                </select>
+                {formData.exemptMilestoneMode === 'specific' && (
+                  <input
+                    type="text"
+                    value={formData.exemptMilestones.join(', ')}
+                    onChange={(e) => handleListInput('exemptMilestones', e.target.value)}
+                    className="input mt-2"
+                    placeholder="v2.0, Roadmap"
+                  />
+                )}
+              </div>
+
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={formData.exemptLinkedPullRequests}
+                  onChange={(e) => setFormData(prev => ({ ...prev, exemptLinkedPullRequests: e.target.checked }))}
+                  className="mr-2"
+                />
+                Exempt issues with a linked open pull request
+              </label>
+
+              <div>
+                <span className="block text-sm text-gray-600 mb-1">Always exempt issue numbers (comma-separated)</span>
+                <input
+                  type="text"
+                  value={formData.exemptIssueNumbers.join(', ')}
+                  onChange={(e) => handleIssueNumberInput(e.target.value)}
+                  className="input"
+                  placeholder="1, 42"
+                />
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              GitHub Actions When Stale
+            </label>
+            <div className="space-y-2">
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={formData.postComment}
+                  onChange={(e) => setFormData(prev => ({ ...prev, postComment: e.target.checked }))}
+                  className="mr-2"
+                />
+                Post a warning comment
+              </label>
+              {formData.postComment && (
+                <textarea
+                  value={formData.commentMessage}
+                  onChange={(e) => setFormData(prev => ({ ...prev, commentMessage: e.target.value }))}
+                  className="input"
+                  rows={3}
+                  placeholder="Leave empty to use the default stale message"
+                />
+              )}
+
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={formData.addLabel}
+                  onChange={(e) => setFormData(prev => ({ ...prev, addLabel: e.target.checked }))}
+                  className="mr-2"
+                />
+                Add a stale label
+              </label>
+              {formData.addLabel && (
+                <input
+                  type="text"
+                  value={formData.staleLabel}
+                  onChange={(e) => setFormData(prev => ({ ...prev, staleLabel: e.target.value }))}
+                  className="input"
+                  placeholder="stale"
+                />
+              )}
+
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={formData.closeIssue}
+                  onChange={(e) => setFormData(prev => ({ ...prev, closeIssue: e.target.checked }))}
+                  className="mr-2"
+                />
+                Close after a grace period
+              </label>
+              {formData.closeIssue && (
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="number"
+                    min="0"
+                    max="365"
+                    value={formData.daysUntilClose}
+                    onChange={(e) => setFormData(prev => ({ ...prev, daysUntilClose: parseInt(e.target.value) }))}
+                    className="input w-24"
+                  />
+                  <span className="text-sm text-gray-600">days after being marked stale</span>
+                </div>
+              )}
+            </div>
+          </div>
+
           <div className="flex justify-end space-x-3">
             <button
               type="button"
@@ -274,7 +594,7 @@ export function RuleManagement({ repositoryId, repositoryName }: RuleManagementP
             </button>
             <button
               type="submit"
-              disabled={isSubmitting || !formData.name.trim() || formData.issueStates.length === 0}
+              disabled={isSubmitting || !formData.name.trim() || formData.issueStates.length === 0 || conditionErrors.length > 0}
               className="btn-primary disabled:opacity-50"
             >
               {isSubmitting ? (
@@ -308,6 +628,11 @@ export function RuleManagement({ repositoryId, repositoryName }: RuleManagementP
                         Inactive
                       </span>
                     )}
+                    {rule.source === 'config' && (
+                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                        Managed in .github/stalebot.yml
+                      </span>
+                    )}
                   </div>
                   
                   <div className="mt-2 text-sm text-gray-600 space-y-1">
@@ -317,6 +642,16 @@ export function RuleManagement({ repositoryId, repositoryName }: RuleManagementP
                     <div>
                       <span className="font-medium">States:</span> {rule.issueStates.join(', ')}
                     </div>
+                    {rule.itemKind && rule.itemKind !== 'any' && (
+                      <div>
+                        <span className="font-medium">Applies to:</span>{' '}
+                        {rule.itemKind === 'pull_request' ? 'pull requests' : 'issues'}
+                        {rule.pullRequestCriteria && pullRequestCriteriaOptions
+                          .filter(({ key }) => rule.pullRequestCriteria?.[key] !== undefined)
+                          .map(({ key, label }) => ` · ${label}: ${rule.pullRequestCriteria?.[key] ? 'yes' : 'no'}`)
+                          .join('')}
+                      </div>
+                    )}
                     {rule.labels.length > 0 && (
                       <div>
                         <span className="font-medium">Labels:</span> {rule.labels.join(', ')}
@@ -329,9 +664,48 @@ export function RuleManagement({ repositoryId, repositoryName }: RuleManagementP
                         : rule.assigneeCondition
                       }
                     </div>
+                    {rule.condition && (
+                      <div>
+                        <span className="font-medium">Condition:</span>{' '}
+                        <code className="text-xs bg-gray-100 px-1 rounded">{rule.condition}</code>
+                      </div>
+                    )}
+                    {rule.exemptLabels && rule.exemptLabels.length > 0 && (
+                      <div>
+                        <span className="font-medium">Exempt labels:</span> {rule.exemptLabels.join(', ')}
+                      </div>
+                    )}
+                    {rule.exemptMilestones && (
+                      <div>
+                        <span className="font-medium">Exempt milestones:</span>{' '}
+                        {rule.exemptMilestones === 'any' ? 'any' : rule.exemptMilestones.join(', ')}
+                      </div>
+                    )}
+                    {rule.exemptLinkedPullRequests && (
+                      <div>
+                        <span className="font-medium">Exempt:</span> issues with a linked open pull request
+                      </div>
+                    )}
+                    {rule.exemptIssueNumbers && rule.exemptIssueNumbers.length > 0 && (
+                      <div>
+                        <span className="font-medium">Exempt issues:</span>{' '}
+                        {rule.exemptIssueNumbers.map((number: number) => `#${number}`).join(', ')}
+                      </div>
+                    )}
+                    {rule.actionPolicy && (
+                      <div>
+                        <span className="font-medium">Actions:</span>{' '}
+                        {[
+                          rule.actionPolicy.postComment && 'comment',
+                          rule.actionPolicy.addLabel && `label "${rule.actionPolicy.staleLabel || 'stale'}"`,
+                          rule.actionPolicy.closeIssue && `close after ${rule.actionPolicy.daysUntilClose ?? 0} days`,
+                        ].filter(Boolean).join(', ')}
+                      </div>
+                    )}
                   </div>
                 </div>
 
+                {rule.source !== 'config' && (
                 <div className="flex items-center space-x-2">
                   <button
                     onClick={() => handleEdit(rule)}
@@ -346,6 +720,7 @@ export function RuleManagement({ repositoryId, repositoryName }: RuleManagementP
                     Delete
                   </button>
                 </div>
+                )}
               </div>
             </div>
           ))}
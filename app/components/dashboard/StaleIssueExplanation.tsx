@@ -0,0 +1,160 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import { api } from '../../../convex/_generated/api'
+import { LoadingSpinner } from '../ui/LoadingSpinner'
+
+interface StaleIssueExplanationProps {
+  issueId: string
+  onClose: () => void
+}
+
+const criterionLabels: Record<string, string> = {
+  inactivity: 'Inactivity',
+  state: 'State',
+  item_kind: 'Item kind',
+  labels: 'Labels',
+  exemption: 'Exemptions',
+  snooze: 'Snooze',
+  condition: 'Condition',
+  assignee: 'Assignee',
+}
+
+export function StaleIssueExplanation({ issueId, onClose }: StaleIssueExplanationProps) {
+  const explanation = useQuery(api.rules.getIssueStaleExplanation, { issueId: issueId as any })
+  const snoozeIssue = useMutation(api.issueSnooze.snoozeIssue)
+  const clearIssueSnooze = useMutation(api.issueSnooze.clearIssueSnooze)
+  const setIssueNeverStale = useMutation(api.issueSnooze.setIssueNeverStale)
+  const [snoozeDate, setSnoozeDate] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  if (explanation === undefined) {
+    return (
+      <div className="card">
+        <div className="flex items-center justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      </div>
+    )
+  }
+
+  const { issue, repository, evaluatedAt, matchedRules, rules } = explanation
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update issue')
+    }
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">
+            Why is this {issue.kind === 'pull_request' ? 'pull request' : 'issue'} {issue.isStale ? 'stale' : 'not stale'}?
+          </h2>
+          <p className="text-sm text-gray-600 mt-1">
+            {repository.fullName}{' '}
+            <a href={issue.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800">
+              #{issue.githubIssueId} {issue.title}
+            </a>
+            {' '}· last activity {issue.inactivityPeriod}
+          </p>
+        </div>
+        <button onClick={onClose} className="btn-secondary text-sm">
+          Close
+        </button>
+      </div>
+
+      <div className="border border-gray-200 rounded-lg p-4 mb-4">
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="font-medium text-gray-900">Keep quiet on purpose</h4>
+          <span className="text-sm text-gray-600">{issue.snoozeReason ?? 'Not snoozed'}</span>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            value={snoozeDate}
+            onChange={(e) => setSnoozeDate(e.target.value)}
+            className="input text-sm w-auto"
+          />
+          <button
+            onClick={() => run(() => snoozeIssue({ issueId: issue.id, until: new Date(snoozeDate).getTime() }))}
+            disabled={!snoozeDate}
+            className="btn-secondary text-sm"
+          >
+            Snooze until date
+          </button>
+          <button
+            onClick={() => run(() => snoozeIssue({ issueId: issue.id, untilActivity: true }))}
+            className="btn-secondary text-sm"
+          >
+            Snooze until next activity
+          </button>
+          {issue.snooze && (
+            <button onClick={() => run(() => clearIssueSnooze({ issueId: issue.id }))} className="btn-secondary text-sm">
+              Clear snooze
+            </button>
+          )}
+          <label className="flex items-center text-sm text-gray-700 ml-auto">
+            <input
+              type="checkbox"
+              checked={issue.neverStale}
+              onChange={(e) => run(() => setIssueNeverStale({ issueId: issue.id, neverStale: e.target.checked }))}
+              className="mr-2"
+            />
+            Never mark stale
+          </label>
+        </div>
+        {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+      </div>
+
+      {evaluatedAt === null ? (
+        <p className="text-sm text-gray-600">
+          This issue has not been evaluated since explanations were introduced. It will be explained after the next check.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div className={`rounded-lg p-3 text-sm ${issue.isStale ? 'bg-yellow-50 text-yellow-800' : 'bg-green-50 text-green-800'}`}>
+            {matchedRules.length > 0
+              ? matchedRules.map(rule => <div key={rule.ruleId}>{rule.summary}</div>)
+              : 'No active rule matched this issue.'}
+            <div className="text-xs mt-1 opacity-75">
+              Evaluated {new Date(evaluatedAt).toLocaleString()}
+            </div>
+          </div>
+
+          {rules.map(rule => (
+            <div key={rule.ruleId} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-center space-x-2 mb-2">
+                <h4 className="font-medium text-gray-900">{rule.ruleName}</h4>
+                <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+                  rule.matched ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-800'
+                }`}>
+                  {rule.matched ? 'Matched' : 'Not matched'}
+                </span>
+              </div>
+              <ul className="space-y-1 text-sm">
+                {rule.criteria.map(criterion => (
+                  <li key={criterion.criterion} className="flex items-start">
+                    <span className={`mr-2 ${criterion.passed ? 'text-green-600' : 'text-red-600'}`}>
+                      {criterion.passed ? '✓' : '✗'}
+                    </span>
+                    <span className="font-medium text-gray-700 w-28 flex-shrink-0">
+                      {criterionLabels[criterion.criterion] ?? criterion.criterion}
+                    </span>
+                    <span className="text-gray-600">{criterion.reason}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
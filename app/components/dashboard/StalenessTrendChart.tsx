@@ -0,0 +1,152 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useQuery } from 'convex/react'
+import { api } from '../../../convex/_generated/api'
+import { LoadingSpinner } from '../ui/LoadingSpinner'
+import type { StalenessTrendPoint, StalenessTrendRange } from '../../../src/types'
+
+interface StalenessTrendChartProps {
+  repositoryId?: string // all repositories when omitted
+}
+
+const ranges: StalenessTrendRange[] = [30, 90, 365]
+
+const CHART_WIDTH = 600
+const CHART_HEIGHT = 160
+
+function linePoints(points: StalenessTrendPoint[], value: (point: StalenessTrendPoint) => number | null, max: number) {
+  const step = points.length > 1 ? CHART_WIDTH / (points.length - 1) : 0
+  return points
+    .map((point, index) => {
+      const y = value(point)
+      return y === null ? null : `${index * step},${CHART_HEIGHT - (y / max) * CHART_HEIGHT}`
+    })
+    .filter(Boolean)
+    .join(' ')
+}
+
+export function StalenessTrendChart({ repositoryId }: StalenessTrendChartProps) {
+  const [range, setRange] = useState<StalenessTrendRange>(30)
+  const repositoryTrend = useQuery(
+    api.snapshots.getRepositoryStalenessTrend,
+    repositoryId ? { repositoryId: repositoryId as any, range } : 'skip'
+  )
+  const userTrend = useQuery(api.snapshots.getStalenessTrend, repositoryId ? 'skip' : { range })
+  const trend = repositoryId ? repositoryTrend : userTrend
+
+  const header = (
+    <div className="flex items-center justify-between mb-4">
+      <h3 className="text-lg font-medium text-gray-900">Staleness Trend</h3>
+      <div className="flex space-x-2">
+        {ranges.map(option => (
+          <button
+            key={option}
+            onClick={() => setRange(option)}
+            className={`px-3 py-1 rounded text-sm ${
+              range === option ? 'bg-blue-100 text-blue-800' : 'text-gray-600 hover:bg-gray-100'
+            }`}
+          >
+            {option}d
+          </button>
+        ))}
+      </div>
+    </div>
+  )
+
+  if (trend === undefined) {
+    return (
+      <div className="card">
+        {header}
+        <div className="flex items-center justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      </div>
+    )
+  }
+
+  if (!trend || trend.points.length === 0) {
+    return (
+      <div className="card">
+        {header}
+        <p className="text-sm text-gray-600">No snapshots yet. The first one is recorded at the end of the day.</p>
+      </div>
+    )
+  }
+
+  const { points, summary } = trend
+  const max = Math.max(1, ...points.map(point => point.openIssues ?? point.staleIssues ?? 0))
+  const latest = [...points].reverse().find(point => point.buckets !== null)
+
+  return (
+    <div className="card">
+      {header}
+
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-40" preserveAspectRatio="none">
+        <polyline
+          points={linePoints(points, point => point.openIssues, max)}
+          fill="none"
+          stroke="#3b82f6"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        <polyline
+          points={linePoints(points, point => point.staleIssues, max)}
+          fill="none"
+          stroke="#eab308"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{points[0].date}</span>
+        <span className="flex items-center space-x-3">
+          <span className="flex items-center"><span className="h-2 w-2 bg-blue-500 rounded-full mr-1"></span>Open</span>
+          <span className="flex items-center"><span className="h-2 w-2 bg-yellow-500 rounded-full mr-1"></span>Stale</span>
+        </span>
+        <span>{points[points.length - 1].date}</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
+        <div className="text-center p-3 bg-gray-50 rounded-lg">
+          <p className="text-xl font-bold text-gray-900">
+            {summary.staleChange === null ? '—' : `${summary.staleChange > 0 ? '+' : ''}${summary.staleChange}`}
+          </p>
+          <p className="text-sm text-gray-600">Stale change</p>
+        </div>
+        <div className="text-center p-3 bg-gray-50 rounded-lg">
+          <p className="text-xl font-bold text-gray-900">{summary.newlyStale}</p>
+          <p className="text-sm text-gray-600">Newly stale</p>
+        </div>
+        <div className="text-center p-3 bg-gray-50 rounded-lg">
+          <p className="text-xl font-bold text-gray-900">{summary.revived}</p>
+          <p className="text-sm text-gray-600">Revived</p>
+        </div>
+        <div className="text-center p-3 bg-gray-50 rounded-lg">
+          <p className="text-xl font-bold text-gray-900">{summary.closedWhileStale}</p>
+          <p className="text-sm text-gray-600">Closed while stale</p>
+        </div>
+      </div>
+
+      {latest?.buckets && (
+        <div className="mt-4">
+          <p className="text-sm font-medium text-gray-700 mb-2">Open issues by last activity ({latest.date})</p>
+          <div className="grid grid-cols-5 gap-2 text-center text-sm">
+            {[
+              ['< 1 week', latest.buckets.underOneWeek],
+              ['1-4 weeks', latest.buckets.oneToFourWeeks],
+              ['1-3 months', latest.buckets.oneToThreeMonths],
+              ['3-6 months', latest.buckets.threeToSixMonths],
+              ['6+ months', latest.buckets.overSixMonths],
+            ].map(([label, count]) => (
+              <div key={label} className="p-2 bg-gray-50 rounded">
+                <p className="font-semibold text-gray-900">{count}</p>
+                <p className="text-xs text-gray-600">{label}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
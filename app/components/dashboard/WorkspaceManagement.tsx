@@ -0,0 +1,184 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useMutation, useQuery } from 'convex/react'
+import { api } from '../../../convex/_generated/api'
+import { Id } from '../../../convex/_generated/dataModel'
+import type { WorkspaceRole } from '../../../src/types'
+
+const roles: WorkspaceRole[] = ['owner', 'admin', 'viewer']
+
+function WorkspaceMembers({ workspaceId, canManageMembers }: {
+  workspaceId: Id<'workspaces'>
+  canManageMembers: boolean
+}) {
+  const members = useQuery(api.workspaces.getWorkspaceMembers, { workspaceId })
+  const addMember = useMutation(api.workspaces.addWorkspaceMember)
+  const updateRole = useMutation(api.workspaces.updateWorkspaceMemberRole)
+  const removeMember = useMutation(api.workspaces.removeWorkspaceMember)
+  const [email, setEmail] = useState('')
+  const [role, setRole] = useState<WorkspaceRole>('viewer')
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (change: () => Promise<unknown>) => {
+    setError(null)
+    try {
+      await change()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Update failed')
+    }
+  }
+
+  return (
+    <div className="mt-3 space-y-2">
+      {members?.map(member => (
+        <div key={member._id} className="flex items-center justify-between text-sm">
+          <span className="text-gray-900">{member.name || member.email}</span>
+          {canManageMembers ? (
+            <div className="flex items-center gap-2">
+              <select
+                value={member.role}
+                onChange={(e) => run(() => updateRole({ memberId: member._id, role: e.target.value as WorkspaceRole }))}
+                className="input"
+              >
+                {roles.map(option => <option key={option} value={option}>{option}</option>)}
+              </select>
+              <button onClick={() => run(() => removeMember({ memberId: member._id }))} className="btn-secondary">
+                Remove
+              </button>
+            </div>
+          ) : (
+            <span className="text-gray-600">{member.role}</span>
+          )}
+        </div>
+      ))}
+
+      {canManageMembers && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault()
+            run(async () => {
+              await addMember({ workspaceId, email, role })
+              setEmail('')
+            })
+          }}
+          className="flex gap-2 pt-2"
+        >
+          <input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Member email"
+            className="input flex-1"
+            required
+          />
+          <select value={role} onChange={(e) => setRole(e.target.value as WorkspaceRole)} className="input">
+            {roles.map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+          <button type="submit" className="btn-primary">Add</button>
+        </form>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
+
+export function WorkspaceManagement() {
+  const workspaces = useQuery(api.workspaces.getUserWorkspaces)
+  const repositories = useQuery(api.repositories.getUserRepositories)
+  const createWorkspace = useMutation(api.workspaces.createWorkspace)
+  const setNotifications = useMutation(api.workspaces.setWorkspaceNotifications)
+  const moveRepository = useMutation(api.workspaces.moveRepositoryToWorkspace)
+  const [name, setName] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    try {
+      await createWorkspace({ name })
+      setName('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create workspace')
+    }
+  }
+
+  const handleMove = async (repositoryId: Id<'repositories'>, workspaceId: string) => {
+    setError(null)
+    try {
+      await moveRepository({
+        repositoryId,
+        workspaceId: workspaceId ? workspaceId as Id<'workspaces'> : undefined,
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not move repository')
+    }
+  }
+
+  return (
+    <div className="card">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Workspaces</h2>
+        <div className="text-sm text-gray-600">Share repositories and notifications with your team</div>
+      </div>
+
+      <div className="space-y-4">
+        {workspaces?.map(workspace => (
+          <div key={workspace._id} className="border border-gray-200 rounded-lg p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <span className="font-medium text-gray-900">{workspace.name}</span>
+                <span className="ml-2 text-sm text-gray-600">{workspace.role}</span>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={workspace.notifications}
+                  onChange={(e) => setNotifications({ workspaceId: workspace._id, enabled: e.target.checked })}
+                />
+                Email me about stale issues
+              </label>
+            </div>
+            <WorkspaceMembers workspaceId={workspace._id} canManageMembers={workspace.role === 'owner'} />
+          </div>
+        ))}
+
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="New workspace name"
+            className="input flex-1"
+            required
+          />
+          <button type="submit" className="btn-primary">Create workspace</button>
+        </form>
+
+        {!!workspaces?.length && !!repositories?.length && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-gray-900">Repository sharing</h3>
+            {repositories.map(repository => (
+              <div key={repository._id} className="flex items-center justify-between text-sm">
+                <span className="text-gray-900">{repository.fullName}</span>
+                <select
+                  value={repository.workspaceId ?? ''}
+                  onChange={(e) => handleMove(repository._id, e.target.value)}
+                  className="input"
+                >
+                  <option value="">Personal</option>
+                  {workspaces.map(workspace => (
+                    <option key={workspace._id} value={workspace._id}>{workspace.name}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+    </div>
+  )
+}
@@ -20,6 +20,7 @@ interface NotificationPrefs {
 export function NotificationPreferences() {
   const currentUser = useQuery(api.auth.getCurrentUser)
   const updateProfile = useMutation(api.auth.updateUserProfile)
+  const setSlackWebhook = useMutation(api.notificationPreferences.setSlackWebhook)
   
   const [preferences, setPreferences] = useState<NotificationPrefs>({
     emailFrequency: 'immediate',
@@ -30,6 +31,8 @@ export function NotificationPreferences() {
   
   const [isSaving, setIsSaving] = useState(false)
   const [saveMessage, setSaveMessage] = useState<string | null>(null)
+  const [slackWebhookUrl, setSlackWebhookUrl] = useState('')
+  const [slackMessage, setSlackMessage] = useState<string | null>(null)
 
   // Initialize preferences from user data
   useEffect(() => {
@@ -58,6 +61,20 @@ export function NotificationPreferences() {
     }
   }
 
+  const handleSlackSave = async (webhookUrl: string | null) => {
+    try {
+      setSlackMessage(null)
+      await setSlackWebhook({ webhookUrl })
+      setSlackWebhookUrl('')
+      setSlackMessage(webhookUrl ? 'Slack webhook saved successfully!' : 'Slack webhook removed successfully!')
+      setTimeout(() => setSlackMessage(null), 3000)
+    } catch (error) {
+      console.error('Failed to save Slack webhook:', error)
+      setSlackMessage('Failed to save Slack webhook. Check the URL and try again.')
+      setTimeout(() => setSlackMessage(null), 5000)
+    }
+  }
+
   const handleFrequencyChange = (frequency: EmailFrequency) => {
     setPreferences(prev => ({ ...prev, emailFrequency: frequency }))
   }
@@ -174,6 +191,47 @@ export function NotificationPreferences() {
           </p>
         </div>
 
+        {/* Slack */}
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 mb-4">Slack</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            {currentUser?.slackConfigured
+              ? 'Newly stale issues are also posted to your Slack incoming webhook.'
+              : 'Paste a Slack incoming webhook URL to also receive newly stale issues in Slack.'}
+          </p>
+          <div className="flex items-center space-x-2">
+            <input
+              type="url"
+              value={slackWebhookUrl}
+              onChange={(e) => setSlackWebhookUrl(e.target.value)}
+              placeholder="https://hooks.slack.com/services/..."
+              className="input flex-1"
+            />
+            <button
+              type="button"
+              onClick={() => handleSlackSave(slackWebhookUrl)}
+              disabled={!slackWebhookUrl}
+              className="btn-secondary disabled:opacity-50"
+            >
+              {currentUser?.slackConfigured ? 'Replace' : 'Connect'}
+            </button>
+            {currentUser?.slackConfigured && (
+              <button
+                type="button"
+                onClick={() => handleSlackSave(null)}
+                className="btn-secondary"
+              >
+                Disconnect
+              </button>
+            )}
+          </div>
+          {slackMessage && (
+            <p className={`text-sm mt-2 ${slackMessage.includes('success') ? 'text-green-600' : 'text-red-600'}`}>
+              {slackMessage}
+            </p>
+          )}
+        </div>
+
         {/* Pause Notifications */}
         <div>
           <div className="flex items-center justify-between">
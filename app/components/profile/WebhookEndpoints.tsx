@@ -0,0 +1,185 @@
+'use client'
+
+import React, { useState } from 'react'
+import { useQuery, useMutation } from 'convex/react'
+import { api } from '../../../convex/_generated/api'
+import { LoadingSpinner } from '../ui/LoadingSpinner'
+
+type WebhookEvent = 'issue.became_stale' | 'issue.unstaled' | 'notification.failed' | 'repository.deactivated'
+
+const eventOptions: { value: WebhookEvent; label: string }[] = [
+  { value: 'issue.became_stale', label: 'Issue became stale' },
+  { value: 'issue.unstaled', label: 'Issue no longer stale' },
+  { value: 'notification.failed', label: 'Notification failed' },
+  { value: 'repository.deactivated', label: 'Repository deactivated' },
+]
+
+const deliveryStatusColors: Record<string, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+}
+
+function WebhookDeliveries({ endpointId }: { endpointId: string }) {
+  const deliveries = useQuery(api.outboundWebhooks.getWebhookDeliveries, { endpointId: endpointId as any, limit: 10 })
+  const redeliver = useMutation(api.outboundWebhooks.redeliverWebhook)
+
+  if (deliveries === undefined) {
+    return <LoadingSpinner size="sm" />
+  }
+
+  if (deliveries.length === 0) {
+    return <p className="text-sm text-gray-600">No deliveries yet.</p>
+  }
+
+  return (
+    <ul className="space-y-1">
+      {deliveries.map((delivery) => (
+        <li key={delivery._id} className="flex items-center justify-between text-sm">
+          <div className="flex items-center space-x-2">
+            <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${deliveryStatusColors[delivery.status]}`}>
+              {delivery.status}
+            </span>
+            <code className="text-xs bg-gray-100 px-1 rounded">{delivery.event}</code>
+            <span className="text-gray-600">{new Date(delivery.createdAt).toLocaleString()}</span>
+            <span className="text-gray-500">
+              {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'}
+              {delivery.lastError && ` · ${delivery.lastError}`}
+            </span>
+          </div>
+          {delivery.status === 'failed' && (
+            <button onClick={() => redeliver({ deliveryId: delivery._id })} className="btn-secondary text-xs">
+              Redeliver
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export function WebhookEndpoints() {
+  const endpoints = useQuery(api.outboundWebhooks.listWebhookEndpoints)
+  const createEndpoint = useMutation(api.outboundWebhooks.createWebhookEndpoint)
+  const updateEndpoint = useMutation(api.outboundWebhooks.updateWebhookEndpoint)
+  const deleteEndpoint = useMutation(api.outboundWebhooks.deleteWebhookEndpoint)
+
+  const [url, setUrl] = useState('')
+  const [events, setEvents] = useState<WebhookEvent[]>(['issue.became_stale'])
+  const [newSecret, setNewSecret] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedEndpoint, setExpandedEndpoint] = useState<string | null>(null)
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents(prev => prev.includes(event) ? prev.filter(e => e !== event) : [...prev, event])
+  }
+
+  const handleCreate = async () => {
+    try {
+      setError(null)
+      const result = await createEndpoint({ url, events })
+      setNewSecret(result.secret)
+      setUrl('')
+    } catch (err) {
+      console.error('Failed to create webhook:', err)
+      setError(err instanceof Error ? err.message : 'Failed to create webhook')
+    }
+  }
+
+  if (endpoints === undefined) {
+    return (
+      <div className="card">
+        <div className="flex items-center justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="card">
+      <div className="mb-6">
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">Webhooks</h2>
+        <p className="text-gray-600">
+          Receive signed JSON events at your own endpoints. Verify the X-StaleBot-Signature header with the endpoint secret.
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        {endpoints.map((endpoint) => (
+          <div key={endpoint._id} className="border border-gray-200 rounded-lg p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="font-medium text-gray-900 break-all">{endpoint.url}</div>
+                <div className="text-sm text-gray-600">{endpoint.events.join(', ')}</div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => setExpandedEndpoint(expandedEndpoint === endpoint._id ? null : endpoint._id)}
+                  className="btn-secondary text-sm"
+                >
+                  {expandedEndpoint === endpoint._id ? 'Hide Deliveries' : 'Deliveries'}
+                </button>
+                <button
+                  onClick={() => updateEndpoint({ endpointId: endpoint._id, isActive: !endpoint.isActive })}
+                  className="btn-secondary text-sm"
+                >
+                  {endpoint.isActive ? 'Disable' : 'Enable'}
+                </button>
+                <button
+                  onClick={() => deleteEndpoint({ endpointId: endpoint._id })}
+                  className="btn-secondary text-sm text-red-600"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+            {expandedEndpoint === endpoint._id && (
+              <div className="mt-3 pt-3 border-t border-gray-200">
+                <WebhookDeliveries endpointId={endpoint._id} />
+              </div>
+            )}
+          </div>
+        ))}
+
+        {newSecret && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+            <p className="text-sm text-yellow-800 mb-1">Copy the signing secret now; it won't be shown again.</p>
+            <code className="text-xs break-all">{newSecret}</code>
+          </div>
+        )}
+
+        <div className="pt-4 border-t border-gray-200 space-y-3">
+          <input
+            type="url"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            placeholder="https://example.com/stalebot-webhook"
+            className="input w-full"
+          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {eventOptions.map((option) => (
+              <label key={option.value} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={events.includes(option.value)}
+                  onChange={() => toggleEvent(option.value)}
+                  className="mr-2"
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <button
+            onClick={handleCreate}
+            disabled={!url || events.length === 0}
+            className="btn-primary disabled:opacity-50"
+          >
+            Add Webhook
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
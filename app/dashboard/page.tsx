@@ -1,12 +1,28 @@
 'use client'
 
-import React, { useEffect } from 'react'
+import React, { Suspense, useEffect } from 'react'
 import { useConvexAuth } from 'convex/react'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { LoadingSpinner } from '../components/ui/LoadingSpinner'
 import { DashboardOverview } from '../components/dashboard/DashboardOverview'
 import { RepositoryList } from '../components/dashboard/RepositoryList'
 import { NotificationHistory } from '../components/dashboard/NotificationHistory'
+import { StaleIssueExplanation } from '../components/dashboard/StaleIssueExplanation'
+import { ExportData } from '../components/dashboard/ExportData'
+import { WorkspaceManagement } from '../components/dashboard/WorkspaceManagement'
+
+// Opened from the "Details" link next to each issue in stale issue emails
+function LinkedIssueExplanation() {
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const issueId = searchParams.get('issue')
+
+  if (!issueId) {
+    return null
+  }
+
+  return <StaleIssueExplanation issueId={issueId} onClose={() => router.replace('/dashboard')} />
+}
 
 export default function DashboardPage() {
   const { isAuthenticated, isLoading } = useConvexAuth()
@@ -47,14 +63,25 @@ export default function DashboardPage() {
           </div>
 
           <div className="space-y-8">
+            {/* Stale explanation linked from an email */}
+            <Suspense fallback={null}>
+              <LinkedIssueExplanation />
+            </Suspense>
+
             {/* Overview Section */}
             <DashboardOverview />
 
             {/* Repository Management */}
             <RepositoryList />
 
+            {/* Team Workspaces */}
+            <WorkspaceManagement />
+
             {/* Recent Notifications */}
             <NotificationHistory />
+
+            {/* CSV/JSON Export */}
+            <ExportData />
           </div>
         </div>
       </div>
@@ -6,6 +6,7 @@ import { useRouter } from 'next/navigation'
 import { LoadingSpinner } from '../components/ui/LoadingSpinner'
 import { UserProfileForm } from '../components/profile/UserProfileForm'
 import { NotificationPreferences } from '../components/profile/NotificationPreferences'
+import { WebhookEndpoints } from '../components/profile/WebhookEndpoints'
 
 export default function ProfilePage() {
   const { isAuthenticated, isLoading } = useConvexAuth()
@@ -48,6 +49,7 @@ export default function ProfilePage() {
           <div className="space-y-8">
             <UserProfileForm />
             <NotificationPreferences />
+            <WebhookEndpoints />
           </div>
         </div>
       </div>
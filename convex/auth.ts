@@ -44,6 +44,7 @@ export const getCurrentUser = query({
       avatarUrl: user.avatarUrl,
       repositories: user.repositories || [],
       notificationPreferences: user.notificationPreferences,
+      slackConfigured: !!user.slackWebhookUrl,
       createdAt: user.createdAt,
       lastActive: user.lastActive,
     };
@@ -160,8 +161,8 @@ export const storeGitHubTokens = mutation({
     }
 
     // Encrypt tokens before storing
-    const encryptedAccessToken = encryptToken(args.accessToken);
-    const encryptedRefreshToken = args.refreshToken ? encryptToken(args.refreshToken) : "";
+    const encryptedAccessToken = await encryptToken(args.accessToken);
+    const encryptedRefreshToken = args.refreshToken ? await encryptToken(args.refreshToken) : "";
 
     await ctx.db.patch(userId, {
       accessToken: encryptedAccessToken,
@@ -191,7 +192,7 @@ export const refreshGitHubToken = mutation({
 
     try {
       // Decrypt the refresh token for use
-      const actualRefreshToken = decryptToken(user.refreshToken);
+      const actualRefreshToken = await decryptToken(user.refreshToken);
 
       // Make request to GitHub to refresh the token
       const response = await fetch("https://github.com/login/oauth/access_token", {
@@ -220,8 +221,8 @@ export const refreshGitHubToken = mutation({
 
       // Store the new encrypted tokens
       await ctx.db.patch(userId, {
-        accessToken: encryptToken(tokenData.access_token),
-        refreshToken: tokenData.refresh_token ? encryptToken(tokenData.refresh_token) : user.refreshToken,
+        accessToken: await encryptToken(tokenData.access_token),
+        refreshToken: tokenData.refresh_token ? await encryptToken(tokenData.refresh_token) : user.refreshToken,
         lastActive: Date.now(),
       });
 
@@ -303,7 +304,7 @@ export const getGitHubAccessToken = query({
     }
 
     // Return decrypted token for API calls
-    return decryptToken(user.accessToken);
+    return await decryptToken(user.accessToken);
   },
 });
 
@@ -324,7 +325,7 @@ export const validateGitHubToken = mutation({
     }
 
     try {
-      const token = decryptToken(user.accessToken);
+      const token = await decryptToken(user.accessToken);
       
       // Test the token by making a simple API call to GitHub
       const response = await fetch("https://api.github.com/user", {
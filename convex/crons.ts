@@ -0,0 +1,43 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+// Convex only registers cron jobs exported from this file
+const crons = cronJobs();
+
+// Automated repository checking
+crons.interval(
+  "check all repositories",
+  { minutes: 60 }, // Run every hour
+  internal.processor.processAllRepositories,
+  {}
+);
+
+crons.daily(
+  "prune webhook replay records",
+  { hourUTC: 3, minuteUTC: 0 },
+  internal.notifications.pruneWebhookMessages,
+  {}
+);
+
+crons.daily(
+  "prune outbound webhook deliveries",
+  { hourUTC: 3, minuteUTC: 30 },
+  internal.outboundWebhooks.pruneWebhookDeliveries,
+  {}
+);
+
+crons.daily(
+  "prune used issue action links",
+  { hourUTC: 4, minuteUTC: 0 },
+  internal.issueSnooze.pruneUsedIssueActionLinks,
+  {}
+);
+
+crons.daily(
+  "capture repository snapshots",
+  { hourUTC: 23, minuteUTC: 50 },
+  internal.snapshots.captureDailySnapshots,
+  {}
+);
+
+export default crons;
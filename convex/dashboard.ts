@@ -2,6 +2,7 @@ import { query, mutation } from "./_generated/server";
 import type { QueryCtx, MutationCtx } from "./_generated/server";
 import { v } from "convex/values";
 import { Id } from "./_generated/dataModel";
+import { calculateDaysSinceActivity } from "./lib/rulesEngine";
 
 // Dashboard data aggregation functions for StaleBot
 // Requirements: 5.1, 5.2, 5.3, 5.7
@@ -117,7 +118,7 @@ export const getRepositoryStats = query({
     // Calculate average days since last activity for stale issues
     const now = Date.now();
     const staleDays = staleIssues.map(
-      (issue) => Math.floor((now - issue.lastActivity) / (24 * 60 * 60 * 1000))
+      (issue) => calculateDaysSinceActivity(issue.lastActivity, now)
     );
     const averageStaleDays = staleDays.length > 0
       ? Math.round(staleDays.reduce((sum, days) => sum + days, 0) / staleDays.length)
@@ -0,0 +1,248 @@
+import { internalMutation, mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { getCurrentUser, hasRepositoryPermission } from "./lib/auth_helpers";
+
+export type ErrorSeverityLevel = "low" | "medium" | "high" | "critical";
+
+export interface ErrorEntry {
+  type: string;
+  severity: ErrorSeverityLevel;
+  message: string;
+  operation?: string;
+  repositoryId?: Id<"repositories">;
+  userId?: Id<"users">;
+  details?: any;
+  timestamp?: number;
+}
+
+// Repeats of an unresolved error within this window update the existing record
+const ERROR_GROUPING_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export const errorSeverityValidator = v.union(
+  v.literal("low"),
+  v.literal("medium"),
+  v.literal("high"),
+  v.literal("critical")
+);
+
+/**
+ * Determine error severity based on error type
+ */
+export function getErrorSeverity(errorType: string): ErrorSeverityLevel {
+  switch (errorType) {
+    case "authentication":
+      return "high";
+    case "repository_access":
+      return "high";
+    case "rate_limit":
+      return "medium";
+    case "github_api":
+      return "medium";
+    case "database":
+      return "critical";
+    case "network":
+      return "medium";
+    default:
+      return "low";
+  }
+}
+
+/**
+ * Insert an error record, or bump retryCount on a matching unresolved one
+ */
+export async function recordErrorEntry(ctx: any, entry: ErrorEntry): Promise<Id<"errors">> {
+  const timestamp = entry.timestamp ?? Date.now();
+
+  // Attribute repository errors to the repository owner when no user is known
+  let userId = entry.userId;
+  if (!userId && entry.repositoryId) {
+    const repository: Doc<"repositories"> | null = await ctx.db.get(entry.repositoryId);
+    userId = repository?.userId;
+  }
+
+  const existing: Doc<"errors"> | null = await ctx.db
+    .query("errors")
+    .withIndex("by_repository", (q: any) =>
+      q.eq("repositoryId", entry.repositoryId).eq("resolved", false)
+    )
+    .filter((q: any) => q.and(
+      q.eq(q.field("type"), entry.type),
+      q.eq(q.field("userId"), userId),
+      q.gt(q.field("lastOccurredAt"), timestamp - ERROR_GROUPING_WINDOW_MS)
+    ))
+    .first();
+
+  if (existing) {
+    await ctx.db.patch(existing._id, {
+      message: entry.message,
+      severity: entry.severity,
+      operation: entry.operation ?? existing.operation,
+      details: entry.details ?? existing.details,
+      retryCount: existing.retryCount + 1,
+      lastOccurredAt: timestamp,
+    });
+    return existing._id;
+  }
+
+  return await ctx.db.insert("errors", {
+    type: entry.type,
+    severity: entry.severity,
+    message: entry.message,
+    operation: entry.operation,
+    repositoryId: entry.repositoryId,
+    userId,
+    details: entry.details,
+    retryCount: 0,
+    resolved: false,
+    createdAt: timestamp,
+    lastOccurredAt: timestamp,
+  });
+}
+
+/**
+ * Record an error from an action context
+ */
+export const recordError = internalMutation({
+  args: {
+    type: v.string(),
+    severity: errorSeverityValidator,
+    message: v.string(),
+    operation: v.optional(v.string()),
+    repositoryId: v.optional(v.id("repositories")),
+    userId: v.optional(v.id("users")),
+    details: v.optional(v.any()),
+    timestamp: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    return await recordErrorEntry(ctx, args);
+  },
+});
+
+/**
+ * Get error history for a repository, newest first
+ */
+export const getRepositoryErrors = query({
+  args: {
+    repositoryId: v.id("repositories"),
+    includeResolved: v.optional(v.boolean()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    const repository = await ctx.db.get(args.repositoryId);
+    if (!repository || !(await hasRepositoryPermission(ctx, user._id, repository, "view"))) {
+      return [];
+    }
+
+    const limit = args.limit || 50;
+    const errors = args.includeResolved
+      ? await ctx.db
+          .query("errors")
+          .withIndex("by_repository", (q) => q.eq("repositoryId", args.repositoryId))
+          .collect()
+      : await ctx.db
+          .query("errors")
+          .withIndex("by_repository", (q) => q.eq("repositoryId", args.repositoryId).eq("resolved", false))
+          .collect();
+
+    return errors
+      .sort((a, b) => b.lastOccurredAt - a.lastOccurredAt)
+      .slice(0, limit);
+  },
+});
+
+/**
+ * Mark a single error as resolved
+ */
+export const resolveError = mutation({
+  args: {
+    errorId: v.id("errors"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Authentication required");
+    }
+
+    const error = await ctx.db.get(args.errorId);
+    if (!error) {
+      throw new Error("Error not found or access denied");
+    }
+
+    // Repository errors can be resolved by anyone managing the repository
+    const repository = error.repositoryId ? await ctx.db.get(error.repositoryId) : null;
+    const canResolve = repository
+      ? await hasRepositoryPermission(ctx, user._id, repository, "manage")
+      : error.userId === user._id;
+    if (!canResolve) {
+      throw new Error("Error not found or access denied");
+    }
+
+    if (!error.resolved) {
+      await ctx.db.patch(args.errorId, {
+        resolved: true,
+        resolvedAt: Date.now(),
+        resolvedBy: user._id,
+      });
+    }
+
+    return { success: true };
+  },
+});
+
+/**
+ * Mark every unresolved error of a repository as resolved
+ */
+export const resolveRepositoryErrors = mutation({
+  args: {
+    repositoryId: v.id("repositories"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("Authentication required");
+    }
+
+    const repository = await ctx.db.get(args.repositoryId);
+    if (!repository || !(await hasRepositoryPermission(ctx, user._id, repository, "manage"))) {
+      throw new Error("Repository not found or access denied");
+    }
+
+    const openErrors = await ctx.db
+      .query("errors")
+      .withIndex("by_repository", (q) => q.eq("repositoryId", args.repositoryId).eq("resolved", false))
+      .collect();
+
+    const now = Date.now();
+    for (const error of openErrors) {
+      await ctx.db.patch(error._id, {
+        resolved: true,
+        resolvedAt: now,
+        resolvedBy: user._id,
+      });
+    }
+
+    return { success: true, resolvedCount: openErrors.length };
+  },
+});
+
+/**
+ * Whether a repository has unresolved errors since the given time
+ */
+export async function hasUnresolvedErrorsSince(
+  ctx: any,
+  repositoryId: Id<"repositories">,
+  since: number
+): Promise<boolean> {
+  const recent = await ctx.db
+    .query("errors")
+    .withIndex("by_repository", (q: any) => q.eq("repositoryId", repositoryId).eq("resolved", false))
+    .filter((q: any) => q.gt(q.field("lastOccurredAt"), since))
+    .first();
+  return recent !== null;
+}
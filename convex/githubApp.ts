@@ -0,0 +1,304 @@
+import { action, internalMutation, internalQuery } from "./_generated/server";
+import type { ActionCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import { GitHubService } from "../src/lib/github";
+import { GitHubRateLimit } from "../src/types/index";
+import { decryptToken, encryptToken } from "./lib/encryption";
+import { createAppJwt, getGitHubAppConfig, needsInstallationToken } from "./lib/githubApp";
+import { Logger } from "./lib/monitoring";
+
+const accountTypeValidator = v.union(v.literal("User"), v.literal("Organization"));
+
+async function findInstallation(ctx: any, installationId: number): Promise<Doc<"githubInstallations"> | null> {
+  return await ctx.db
+    .query("githubInstallations")
+    .withIndex("by_installation_id", (q: any) => q.eq("installationId", installationId))
+    .first();
+}
+
+/**
+ * Installation access token for a repository's GitHub App installation, minting and
+ * caching a new one when the cached token is missing or about to expire
+ * Returns null when the app is not configured or the installation is unknown or suspended
+ */
+export async function getInstallationAccessToken(ctx: ActionCtx, installationId: number): Promise<string | null> {
+  const config = getGitHubAppConfig();
+  const installation: Doc<"githubInstallations"> | null = await ctx.runQuery(
+    internal.githubApp.getInstallation,
+    { installationId }
+  );
+  if (!config || !installation || installation.suspendedAt) {
+    return null;
+  }
+
+  const now = Date.now();
+  if (installation.token && !needsInstallationToken(installation.tokenExpiresAt, now)) {
+    return await decryptToken(installation.token);
+  }
+
+  const githubService = new GitHubService();
+  const minted = await githubService.createInstallationToken(await createAppJwt(config, now), installationId);
+  await ctx.runMutation(internal.githubApp.storeInstallationToken, {
+    installationId,
+    token: await encryptToken(minted.token),
+    expiresAt: Date.parse(minted.expires_at),
+  });
+
+  Logger.info(`Minted installation token for ${installation.accountLogin}`, { installationId });
+  return minted.token;
+}
+
+export const getInstallation = internalQuery({
+  args: { installationId: v.number() },
+  handler: async (ctx, args) => {
+    return await findInstallation(ctx, args.installationId);
+  },
+});
+
+/**
+ * Record an installation, e.g. from an installation webhook or when linking a repository
+ */
+export const upsertInstallation = internalMutation({
+  args: {
+    installationId: v.number(),
+    accountLogin: v.string(),
+    accountType: accountTypeValidator,
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const existing = await findInstallation(ctx, args.installationId);
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        accountLogin: args.accountLogin,
+        accountType: args.accountType,
+        updatedAt: now,
+      });
+      return existing._id;
+    }
+
+    return await ctx.db.insert("githubInstallations", {
+      ...args,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Forget an uninstalled app installation; its repositories fall back to their owner's OAuth token
+ */
+export const removeInstallation = internalMutation({
+  args: { installationId: v.number() },
+  handler: async (ctx, args) => {
+    const installation = await findInstallation(ctx, args.installationId);
+    if (installation) {
+      await ctx.db.delete(installation._id);
+    }
+
+    const repositories = await ctx.db
+      .query("repositories")
+      .withIndex("by_installation", (q) => q.eq("installationId", args.installationId))
+      .collect();
+    for (const repository of repositories) {
+      await ctx.db.patch(repository._id, { installationId: undefined });
+    }
+
+    return { unlinkedRepositories: repositories.length };
+  },
+});
+
+/**
+ * Mark an installation suspended or active again; suspended installations mint no tokens
+ */
+export const setInstallationSuspended = internalMutation({
+  args: {
+    installationId: v.number(),
+    suspended: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const installation = await findInstallation(ctx, args.installationId);
+    if (!installation) {
+      return;
+    }
+
+    await ctx.db.patch(installation._id, {
+      suspendedAt: args.suspended ? Date.now() : undefined,
+      token: args.suspended ? undefined : installation.token,
+      tokenExpiresAt: args.suspended ? undefined : installation.tokenExpiresAt,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Link tracked repositories to an installation, or unlink them when it no longer covers them
+ */
+export const setRepositoriesInstallation = internalMutation({
+  args: {
+    installationId: v.number(),
+    githubRepoIds: v.array(v.number()),
+    linked: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    let updated = 0;
+
+    for (const githubRepoId of args.githubRepoIds) {
+      const repositories = await ctx.db
+        .query("repositories")
+        .withIndex("by_github_id", (q) => q.eq("githubId", githubRepoId))
+        .collect();
+
+      for (const repository of repositories) {
+        if (args.linked) {
+          await ctx.db.patch(repository._id, { installationId: args.installationId });
+          updated++;
+        } else if (repository.installationId === args.installationId) {
+          await ctx.db.patch(repository._id, { installationId: undefined });
+          updated++;
+        }
+      }
+    }
+
+    return { updated };
+  },
+});
+
+export const storeInstallationToken = internalMutation({
+  args: {
+    installationId: v.number(),
+    token: v.string(), // encrypted
+    expiresAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const installation = await findInstallation(ctx, args.installationId);
+    if (!installation) {
+      return;
+    }
+
+    await ctx.db.patch(installation._id, {
+      token: args.token,
+      tokenExpiresAt: args.expiresAt,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Drop a cached token GitHub rejected so the next run mints a new one
+ */
+export const clearInstallationToken = internalMutation({
+  args: { installationId: v.number() },
+  handler: async (ctx, args) => {
+    const installation = await findInstallation(ctx, args.installationId);
+    if (!installation) {
+      return;
+    }
+
+    await ctx.db.patch(installation._id, { token: undefined, tokenExpiresAt: undefined, updatedAt: Date.now() });
+  },
+});
+
+/**
+ * Store the rate limit last reported by GitHub for an installation
+ * Installations share one budget across all of their repositories
+ */
+export const recordInstallationRateLimit = internalMutation({
+  args: {
+    installationId: v.number(),
+    limit: v.number(),
+    remaining: v.number(),
+    resetAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const installation = await findInstallation(ctx, args.installationId);
+    if (!installation) {
+      return;
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(installation._id, {
+      rateLimit: { limit: args.limit, remaining: args.remaining, resetAt: args.resetAt, updatedAt: now },
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Persist the last rate limit observed during a run against an installation
+ */
+export async function saveInstallationRateLimit(
+  ctx: ActionCtx,
+  installationId: number | undefined,
+  rateLimit: GitHubRateLimit | undefined
+): Promise<void> {
+  if (installationId === undefined || !rateLimit) {
+    return;
+  }
+  await ctx.runMutation(internal.githubApp.recordInstallationRateLimit, { installationId, ...rateLimit });
+}
+
+export const getRepositoryForInstallationLink = internalQuery({
+  args: { repositoryId: v.id("repositories") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.repositoryId);
+  },
+});
+
+// Look up the GitHub App installation covering a repository and process it with installation tokens
+export const connectRepositoryInstallation = action({
+  args: { repositoryId: v.id("repositories") },
+  handler: async (ctx, args): Promise<{ installed: boolean; accountLogin?: string }> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const repository: Doc<"repositories"> | null = await ctx.runQuery(
+      internal.githubApp.getRepositoryForInstallationLink,
+      { repositoryId: args.repositoryId }
+    );
+    const canManage = await ctx.runQuery(internal.workspaces.canAccessRepository, {
+      userId,
+      repositoryId: args.repositoryId,
+      permission: "manage",
+    });
+    if (!repository || !canManage) {
+      throw new Error("Repository not found or access denied");
+    }
+
+    const config = getGitHubAppConfig();
+    if (!config) {
+      throw new Error("The GitHub App is not configured");
+    }
+
+    const [owner, repo] = repository.fullName.split("/");
+    const installation = await new GitHubService().fetchRepositoryInstallation(await createAppJwt(config), owner, repo);
+    if (!installation || !installation.account) {
+      if (repository.installationId !== undefined) {
+        await ctx.runMutation(internal.githubApp.setRepositoriesInstallation, {
+          installationId: repository.installationId,
+          githubRepoIds: [repository.githubId],
+          linked: false,
+        });
+      }
+      return { installed: false };
+    }
+
+    await ctx.runMutation(internal.githubApp.upsertInstallation, {
+      installationId: installation.id,
+      accountLogin: installation.account.login,
+      accountType: installation.account.type,
+    });
+    await ctx.runMutation(internal.githubApp.setRepositoriesInstallation, {
+      installationId: installation.id,
+      githubRepoIds: [repository.githubId],
+      linked: true,
+    });
+
+    return { installed: true, accountLogin: installation.account.login };
+  },
+});
@@ -1,7 +1,27 @@
 import { httpRouter } from "convex/server";
 import { httpAction } from "./_generated/server";
-import { internal } from "./_generated/api";
+import { api, internal } from "./_generated/api";
+import { getAuthUserId } from "@convex-dev/auth/server";
 import { auth } from "./auth.js";
+import { isSupportedGitHubEvent, parseGitHubWebhook, verifyGitHubSignature } from "./lib/githubWebhook";
+import { getSvixHeaders, verifySvixSignature } from "./lib/svixWebhook";
+import { describeIssueAction, verifyIssueActionToken } from "./lib/issueSnooze";
+import {
+  ExportColumn,
+  ExportFilters,
+  NOTIFICATION_COLUMNS,
+  NOTIFICATION_STATUSES,
+  STALE_ISSUE_COLUMNS,
+  STALE_ISSUE_STATUSES,
+  filterNotifications,
+  filterStaleIssues,
+  getExportFilename,
+  parseExportFilters,
+  toCsvLines,
+} from "./lib/exports";
+
+// Most recent notifications included in a history export
+const NOTIFICATION_EXPORT_LIMIT = 5000;
 
 const http = httpRouter();
 
@@ -14,19 +34,27 @@ http.route({
   method: "POST",
   handler: httpAction(async (ctx, request) => {
     try {
-      // Verify webhook signature if secret is provided
       const webhookSecret = process.env.RESEND_WEBHOOK_SECRET;
-      if (webhookSecret) {
-        const signature = request.headers.get("resend-signature");
-        if (!signature) {
-          return new Response("Missing signature", { status: 401 });
-        }
-        // In a production environment, you would verify the signature here
-        // For now, we'll skip signature verification for development
+      if (!webhookSecret) {
+        console.error("RESEND_WEBHOOK_SECRET is not configured");
+        return new Response("Webhook not configured", { status: 500 });
+      }
+
+      // Verify the Svix signature against the raw body before parsing it
+      const body = await request.text();
+      const verification = await verifySvixSignature(webhookSecret, getSvixHeaders(request.headers), body);
+      if (verification.valid === false) {
+        console.warn(`Rejected Resend webhook: ${verification.reason}`);
+        return new Response("Invalid signature", { status: 401 });
       }
 
       // Parse the webhook payload
-      const payload = await request.json();
+      let payload: any;
+      try {
+        payload = JSON.parse(body);
+      } catch {
+        return new Response("Invalid payload", { status: 400 });
+      }
       
       // Extract event data
       const { type, data } = payload;
@@ -42,6 +70,7 @@ http.route({
           type,
           data,
         },
+        webhookMessageId: verification.messageId,
       });
 
       return new Response("OK", { status: 200 });
@@ -52,4 +81,310 @@ http.route({
   }),
 });
 
+// GitHub webhook handler for real-time issue updates
+http.route({
+  path: "/webhook/github",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    try {
+      const webhookSecret = process.env.GITHUB_WEBHOOK_SECRET;
+      if (!webhookSecret) {
+        console.error("GITHUB_WEBHOOK_SECRET is not configured");
+        return new Response("Webhook not configured", { status: 500 });
+      }
+
+      // Verify the signature against the raw body before parsing it
+      const body = await request.text();
+      const signature = request.headers.get("x-hub-signature-256");
+      if (!(await verifyGitHubSignature(webhookSecret, body, signature))) {
+        return new Response("Invalid signature", { status: 401 });
+      }
+
+      const event = request.headers.get("x-github-event");
+      if (event === "ping") {
+        return new Response("pong", { status: 200 });
+      }
+      if (!isSupportedGitHubEvent(event)) {
+        return new Response("Event ignored", { status: 202 });
+      }
+
+      let payload: any;
+      try {
+        payload = JSON.parse(body);
+      } catch {
+        return new Response("Invalid payload", { status: 400 });
+      }
+
+      const update = parseGitHubWebhook(event, payload);
+      if (!update) {
+        return new Response("Event ignored", { status: 202 });
+      }
+
+      if (update.kind === "issue") {
+        await ctx.runMutation(internal.processor.ingestWebhookIssue, {
+          githubRepoId: update.githubRepoId,
+          issue: update.issue,
+          activity: update.activity,
+        });
+      } else if (update.kind === "label") {
+        await ctx.runMutation(internal.processor.applyWebhookLabelChange, {
+          githubRepoId: update.githubRepoId,
+          action: update.action,
+          labelName: update.labelName,
+          previousName: update.previousName,
+        });
+      } else if (update.action === "deleted") {
+        await ctx.runMutation(internal.githubApp.removeInstallation, { installationId: update.installationId });
+      } else if (update.action === "suspend" || update.action === "unsuspend") {
+        await ctx.runMutation(internal.githubApp.setInstallationSuspended, {
+          installationId: update.installationId,
+          suspended: update.action === "suspend",
+        });
+      } else {
+        await ctx.runMutation(internal.githubApp.upsertInstallation, {
+          installationId: update.installationId,
+          accountLogin: update.account.login,
+          accountType: update.account.type,
+        });
+        await ctx.runMutation(internal.githubApp.setRepositoriesInstallation, {
+          installationId: update.installationId,
+          githubRepoIds: update.addedRepoIds,
+          linked: true,
+        });
+        await ctx.runMutation(internal.githubApp.setRepositoriesInstallation, {
+          installationId: update.installationId,
+          githubRepoIds: update.removedRepoIds,
+          linked: false,
+        });
+      }
+
+      return new Response("OK", { status: 200 });
+    } catch (error) {
+      console.error("GitHub webhook error:", error);
+      return new Response("Internal server error", { status: 500 });
+    }
+  }),
+});
+
+// One-click snooze and "never stale" links from stale issue emails. Opening a link only
+// asks for confirmation, so mail scanners and prefetchers following it change nothing
+http.route({
+  path: "/issues/action",
+  method: "GET",
+  handler: httpAction(async (_ctx, request) => {
+    const secret = process.env.ISSUE_ACTION_SECRET;
+    if (!secret) {
+      console.error("ISSUE_ACTION_SECRET is not configured");
+      return issueActionPage("Link not available", "Issue links are not configured.", 500);
+    }
+
+    const token = new URL(request.url).searchParams.get("token");
+    const verification = await verifyIssueActionToken(secret, token);
+    if (verification.valid === false) {
+      return issueActionPage("Link not valid", `${verification.reason}. Manage the issue from your dashboard instead.`, 400);
+    }
+
+    return issueActionPage(
+      "Confirm",
+      `${describeIssueAction(verification.payload)}?`,
+      200,
+      { token: token!, label: "Confirm" }
+    );
+  }),
+});
+
+// Applies a confirmed issue action link; each link works once
+http.route({
+  path: "/issues/action",
+  method: "POST",
+  handler: httpAction(async (ctx, request) => {
+    try {
+      const secret = process.env.ISSUE_ACTION_SECRET;
+      if (!secret) {
+        console.error("ISSUE_ACTION_SECRET is not configured");
+        return issueActionPage("Link not available", "Issue links are not configured.", 500);
+      }
+
+      const token = new URLSearchParams(await request.text()).get("token");
+      const verification = await verifyIssueActionToken(secret, token);
+      if (verification.valid === false) {
+        return issueActionPage("Link not valid", `${verification.reason}. Manage the issue from your dashboard instead.`, 400);
+      }
+
+      const { issueId, action, days, nonce, expiresAt } = verification.payload;
+      const result = await ctx.runMutation(internal.issueSnooze.applyIssueActionLink, { issueId, action, days, nonce, expiresAt });
+      if (!result) {
+        return issueActionPage("Link already used", "This link has already been used. Manage the issue from your dashboard instead.", 410);
+      }
+
+      return issueActionPage(
+        "Done",
+        `${result.repositoryFullName}#${result.githubIssueId} "${result.title}" ${result.message}.`,
+        200
+      );
+    } catch (error) {
+      console.error("Issue action link error:", error);
+      return issueActionPage("Something went wrong", "The issue could not be updated. Please try again from your dashboard.", 500);
+    }
+  }),
+});
+
+// Export stale issues as CSV or JSON; authenticated with the dashboard session token
+http.route({
+  path: "/export/stale-issues",
+  method: "GET",
+  handler: httpAction(async (ctx, request) => {
+    try {
+      const userId = await getAuthUserId(ctx);
+      if (!userId) {
+        return exportError("Authentication required", 401);
+      }
+
+      const parsed = parseExportFilters(new URL(request.url).searchParams, STALE_ISSUE_STATUSES);
+      if (parsed.valid === false) {
+        return exportError(parsed.reason, 400);
+      }
+
+      const issues = await ctx.runQuery(api.rules.getAllStaleIssuesForUser, {});
+      return exportResponse("stale-issues", parsed.filters, STALE_ISSUE_COLUMNS, filterStaleIssues(issues, parsed.filters));
+    } catch (error) {
+      console.error("Stale issue export error:", error);
+      return exportError("Export failed", 500);
+    }
+  }),
+});
+
+// Export notification history as CSV or JSON; authenticated with the dashboard session token
+http.route({
+  path: "/export/notifications",
+  method: "GET",
+  handler: httpAction(async (ctx, request) => {
+    try {
+      const userId = await getAuthUserId(ctx);
+      if (!userId) {
+        return exportError("Authentication required", 401);
+      }
+
+      const parsed = parseExportFilters(new URL(request.url).searchParams, NOTIFICATION_STATUSES);
+      if (parsed.valid === false) {
+        return exportError(parsed.reason, 400);
+      }
+
+      const { filters } = parsed;
+      const notifications = await ctx.runQuery(api.notifications.getNotificationHistory, {
+        userId,
+        limit: NOTIFICATION_EXPORT_LIMIT,
+        status: filters.status as (typeof NOTIFICATION_STATUSES)[number] | undefined,
+        startDate: filters.from,
+        endDate: filters.to,
+      });
+      return exportResponse("notifications", filters, NOTIFICATION_COLUMNS, filterNotifications(notifications, filters));
+    } catch (error) {
+      console.error("Notification export error:", error);
+      return exportError("Export failed", 500);
+    }
+  }),
+});
+
+// CORS preflight for the export endpoints, which the dashboard calls with an Authorization header
+for (const path of ["/export/stale-issues", "/export/notifications"]) {
+  http.route({
+    path,
+    method: "OPTIONS",
+    handler: httpAction(async () => new Response(null, {
+      status: 204,
+      headers: {
+        ...exportCorsHeaders(),
+        "Access-Control-Allow-Methods": "GET",
+        "Access-Control-Allow-Headers": "Authorization",
+        "Access-Control-Max-Age": "86400",
+      },
+    })),
+  });
+}
+
+function exportResponse<T>(
+  name: string,
+  filters: ExportFilters,
+  columns: ExportColumn<T>[],
+  rows: T[]
+): Response {
+  const filename = getExportFilename(name, filters.format, Date.now());
+  const headers = {
+    ...exportCorsHeaders(),
+    "Content-Disposition": `attachment; filename="${filename}"`,
+  };
+
+  if (filters.format === "json") {
+    return new Response(JSON.stringify(rows), {
+      status: 200,
+      headers: { ...headers, "Content-Type": "application/json; charset=utf-8" },
+    });
+  }
+
+  // Stream the CSV row by row rather than building one large string
+  const lines = toCsvLines(columns, rows);
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const next = lines.next();
+      if (next.done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(next.value));
+      }
+    },
+  });
+
+  return new Response(body, {
+    status: 200,
+    headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" },
+  });
+}
+
+function exportError(message: string, status: number): Response {
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { ...exportCorsHeaders(), "Content-Type": "application/json; charset=utf-8" },
+  });
+}
+
+function exportCorsHeaders(): Record<string, string> {
+  return {
+    "Access-Control-Allow-Origin": process.env.SITE_URL || "*",
+    "Access-Control-Expose-Headers": "Content-Disposition",
+    Vary: "Origin",
+  };
+}
+
+function issueActionPage(
+  title: string,
+  message: string,
+  status: number,
+  confirm?: { token: string; label: string }
+): Response {
+  const escape = (text: string) => text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+  const dashboardUrl = `${process.env.SITE_URL || "https://stalebot.dev"}/dashboard`;
+
+  const html = `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>StaleBot - ${escape(title)}</title></head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif; max-width: 480px; margin: 80px auto; color: #24292f;">
+  <h1 style="font-size: 24px;">${escape(title)}</h1>
+  <p>${escape(message)}</p>${confirm ? `
+  <form method="post" action="/issues/action">
+    <input type="hidden" name="token" value="${escape(confirm.token)}">
+    <button type="submit" style="font-size: 16px; padding: 8px 16px; cursor: pointer;">${escape(confirm.label)}</button>
+  </form>` : ""}
+  <p><a href="${dashboardUrl}" style="color: #0969da;">Open dashboard</a></p>
+</body>
+</html>`;
+
+  return new Response(html, { status, headers: { "Content-Type": "text/html; charset=utf-8" } });
+}
+
 export default http;
\ No newline at end of file
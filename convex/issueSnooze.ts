@@ -0,0 +1,150 @@
+import { internalMutation, mutation } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { checkRepositoryOwnership } from "./lib/auth_helpers";
+import { EMAIL_SNOOZE_DAYS, snoozeUntilActivity, snoozeUntilDate } from "./lib/issueSnooze";
+import { reevaluateIssue } from "./processor";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Load an issue the current user can manage
+ */
+async function checkIssueOwnership(ctx: any, issueId: Id<"issues">): Promise<Doc<"issues">> {
+  const issue: Doc<"issues"> | null = await ctx.db.get(issueId);
+  if (!issue) {
+    throw new Error("Issue not found");
+  }
+
+  await checkRepositoryOwnership(ctx, issue.repositoryId);
+  return issue;
+}
+
+// Snooze an issue until a date, or until it sees new activity
+export const snoozeIssue = mutation({
+  args: {
+    issueId: v.id("issues"),
+    until: v.optional(v.number()),
+    untilActivity: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const issue = await checkIssueOwnership(ctx, args.issueId);
+
+    const byDate = args.until !== undefined;
+    if (byDate === (args.untilActivity === true)) {
+      throw new Error("Snooze either until a date or until next activity");
+    }
+
+    const now = Date.now();
+    const snooze = byDate
+      ? snoozeUntilDate(args.until!, now)
+      : snoozeUntilActivity(issue.lastActivity, now);
+
+    await ctx.db.patch(issue._id, { snooze, updatedAt: now });
+    await reevaluateIssue(ctx, issue._id);
+
+    return snooze;
+  },
+});
+
+// Remove an issue's snooze
+export const clearIssueSnooze = mutation({
+  args: { issueId: v.id("issues") },
+  handler: async (ctx, args) => {
+    const issue = await checkIssueOwnership(ctx, args.issueId);
+
+    await ctx.db.patch(issue._id, { snooze: undefined, updatedAt: Date.now() });
+    await reevaluateIssue(ctx, issue._id);
+  },
+});
+
+// Mark an issue as never stale, or clear the flag
+export const setIssueNeverStale = mutation({
+  args: {
+    issueId: v.id("issues"),
+    neverStale: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const issue = await checkIssueOwnership(ctx, args.issueId);
+
+    await ctx.db.patch(issue._id, { neverStale: args.neverStale || undefined, updatedAt: Date.now() });
+    await reevaluateIssue(ctx, issue._id);
+  },
+});
+
+/**
+ * Apply a verified one-click link from a stale issue email
+ * Returns null when the link was already used
+ */
+export const applyIssueActionLink = internalMutation({
+  args: {
+    issueId: v.string(),
+    action: v.union(v.literal("snooze"), v.literal("snooze_until_activity"), v.literal("never_stale")),
+    days: v.optional(v.number()),
+    nonce: v.string(),
+    expiresAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const issueId = ctx.db.normalizeId("issues", args.issueId);
+    const issue = issueId ? await ctx.db.get(issueId) : null;
+    if (!issue) {
+      throw new Error("Issue not found");
+    }
+
+    const used = await ctx.db
+      .query("usedIssueActionLinks")
+      .withIndex("by_nonce", (q) => q.eq("nonce", args.nonce))
+      .first();
+    if (used) {
+      return null;
+    }
+
+    const now = Date.now();
+    await ctx.db.insert("usedIssueActionLinks", {
+      nonce: args.nonce,
+      issueId: issue._id,
+      usedAt: now,
+      expiresAt: args.expiresAt,
+    });
+
+    let message: string;
+    if (args.action === "never_stale") {
+      await ctx.db.patch(issue._id, { neverStale: true, updatedAt: now });
+      message = "will never be marked stale";
+    } else if (args.action === "snooze_until_activity") {
+      await ctx.db.patch(issue._id, { snooze: snoozeUntilActivity(issue.lastActivity, now), updatedAt: now });
+      message = "is snoozed until its next activity";
+    } else {
+      const days = args.days ?? EMAIL_SNOOZE_DAYS;
+      await ctx.db.patch(issue._id, { snooze: snoozeUntilDate(now + days * DAY_MS, now), updatedAt: now });
+      message = `is snoozed for ${days} days`;
+    }
+
+    await reevaluateIssue(ctx, issue._id);
+
+    const repository = await ctx.db.get(issue.repositoryId);
+    return {
+      title: issue.title,
+      githubIssueId: issue.githubIssueId,
+      repositoryFullName: repository?.fullName ?? "Unknown repository",
+      message,
+    };
+  },
+});
+
+// Used nonces only need keeping until their links expire
+export const pruneUsedIssueActionLinks = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const expired = await ctx.db
+      .query("usedIssueActionLinks")
+      .withIndex("by_expires_at", (q) => q.lt("expiresAt", Date.now()))
+      .take(1000);
+
+    for (const link of expired) {
+      await ctx.db.delete(link._id);
+    }
+
+    return { deleted: expired.length };
+  },
+});
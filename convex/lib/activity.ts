@@ -0,0 +1,111 @@
+/**
+ * Activity definition
+ * Each repository decides what counts as activity on its issues: comments by bots and
+ * listed accounts, label and assignee changes, and comments by people who don't maintain
+ * the repository can be left out. Issues keep their timeline so lastActivity is recomputed
+ * whenever these settings change
+ */
+
+import { ActivityEvent, ActivitySettings } from "../../src/types/index";
+
+// Login StaleBot's GitHub App acts as
+export const STALEBOT_LOGIN = "stalebot[bot]";
+
+export const DEFAULT_ACTIVITY_SETTINGS: ActivitySettings = {
+  ignoreBots: true,
+  ignoredLogins: [STALEBOT_LOGIN],
+  ignoreLabelChanges: true,
+  ignoreAssigneeChanges: true,
+  maintainerCommentsOnly: false,
+};
+
+// Most recent timeline events stored per issue
+export const MAX_ACTIVITY_TIMELINE = 100;
+
+const MAX_IGNORED_LOGINS = 100;
+
+// GitHub logins, optionally with the [bot] suffix of GitHub Apps
+const LOGIN_PATTERN = /^[a-z\d](?:[a-z\d]|-(?=[a-z\d])){0,38}(\[bot\])?$/i;
+
+/**
+ * Activity settings of a repository, with defaults filled in
+ */
+export function getActivitySettings(repository: { activitySettings?: ActivitySettings }): ActivitySettings {
+  return repository.activitySettings ?? DEFAULT_ACTIVITY_SETTINGS;
+}
+
+/**
+ * Trim, lowercase and deduplicate ignored logins
+ */
+export function normalizeIgnoredLogins(logins: string[]): string[] {
+  return [...new Set(logins.map(login => login.trim().toLowerCase()).filter(login => login.length > 0))];
+}
+
+/**
+ * Validate activity settings, returning human readable errors
+ */
+export function validateActivitySettings(settings: ActivitySettings): string[] {
+  const errors: string[] = [];
+
+  if (settings.ignoredLogins.length > MAX_IGNORED_LOGINS) {
+    errors.push(`At most ${MAX_IGNORED_LOGINS} logins can be ignored`);
+  }
+  for (const login of settings.ignoredLogins) {
+    if (!LOGIN_PATTERN.test(login)) {
+      errors.push(`"${login}" is not a valid GitHub login`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Whether an event counts as activity under a repository's settings
+ * Opening an issue always counts, so every issue has a last activity
+ */
+export function countsAsActivity(event: ActivityEvent, settings: ActivitySettings): boolean {
+  if (event.type === "opened") {
+    return true;
+  }
+  if (settings.ignoreBots && event.bot) {
+    return false;
+  }
+  if (event.actor && settings.ignoredLogins.includes(event.actor.toLowerCase())) {
+    return false;
+  }
+  if (settings.ignoreLabelChanges && (event.type === "labeled" || event.type === "unlabeled")) {
+    return false;
+  }
+  if (settings.ignoreAssigneeChanges && (event.type === "assigned" || event.type === "unassigned")) {
+    return false;
+  }
+  if (settings.maintainerCommentsOnly && event.type === "comment" && !event.maintainer) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Last activity of an issue according to its timeline, or undefined for an empty timeline
+ */
+export function computeLastActivity(timeline: ActivityEvent[], settings: ActivitySettings): number | undefined {
+  let latest: number | undefined;
+  for (const event of timeline) {
+    if (countsAsActivity(event, settings) && (latest === undefined || event.at > latest)) {
+      latest = event.at;
+    }
+  }
+  return latest;
+}
+
+/**
+ * Keep the opening event and the most recent other events of a timeline
+ */
+export function trimActivityTimeline(timeline: ActivityEvent[]): ActivityEvent[] {
+  if (timeline.length <= MAX_ACTIVITY_TIMELINE) {
+    return timeline;
+  }
+  const opened = timeline.filter(event => event.type === "opened");
+  const rest = timeline.filter(event => event.type !== "opened");
+  return [...opened, ...rest.slice(rest.length - (MAX_ACTIVITY_TIMELINE - opened.length))];
+}
@@ -1,7 +1,9 @@
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { QueryCtx, MutationCtx } from "../_generated/server";
-import { Id } from "../_generated/dataModel";
+import { Doc, Id } from "../_generated/dataModel";
+import { WorkspacePermission, WorkspaceRole } from "../../src/types/index";
 import { decryptToken } from "./encryption";
+import { hasWorkspacePermission } from "./workspaces";
 
 /**
  * Get current authenticated user (returns null if not authenticated)
@@ -43,15 +45,130 @@ export async function getAuthenticatedUserToken(ctx: QueryCtx | MutationCtx) {
         throw new Error("GitHub access token not found");
     }
 
-    return decryptToken(user.accessToken);
+    return await decryptToken(user.accessToken);
 }
 
 /**
- * Check if user owns a repository
+ * User's role in a workspace, or null when they are not a member
+ */
+export async function getWorkspaceRole(
+    ctx: QueryCtx | MutationCtx,
+    userId: Id<"users">,
+    workspaceId: Id<"workspaces">
+): Promise<WorkspaceRole | null> {
+    const membership = await ctx.db
+        .query("workspaceMembers")
+        .withIndex("by_workspace_user", (q) => q.eq("workspaceId", workspaceId).eq("userId", userId))
+        .first();
+    return membership?.role ?? null;
+}
+
+/**
+ * User's role on a repository: their workspace role for shared repositories,
+ * owner for their own personal repositories, otherwise null
+ */
+export async function getRepositoryRole(
+    ctx: QueryCtx | MutationCtx,
+    userId: Id<"users">,
+    repository: Doc<"repositories">
+): Promise<WorkspaceRole | null> {
+    if (repository.workspaceId) {
+        return await getWorkspaceRole(ctx, userId, repository.workspaceId);
+    }
+    return repository.userId === userId ? "owner" : null;
+}
+
+/**
+ * Whether a user has a permission on a repository
+ */
+export async function hasRepositoryPermission(
+    ctx: QueryCtx | MutationCtx,
+    userId: Id<"users">,
+    repository: Doc<"repositories">,
+    permission: WorkspacePermission
+): Promise<boolean> {
+    return hasWorkspacePermission(await getRepositoryRole(ctx, userId, repository), permission);
+}
+
+/**
+ * Whether a user has a permission on a rule, through the rule's repository
+ */
+export async function hasRulePermission(
+    ctx: QueryCtx | MutationCtx,
+    userId: Id<"users">,
+    rule: Doc<"rules">,
+    permission: WorkspacePermission
+): Promise<boolean> {
+    const repository = await ctx.db.get(rule.repositoryId);
+    return !!repository && await hasRepositoryPermission(ctx, userId, repository, permission);
+}
+
+/**
+ * Repositories a user can see: their personal ones and those of their workspaces
+ */
+export async function getAccessibleRepositories(
+    ctx: QueryCtx | MutationCtx,
+    userId: Id<"users">
+): Promise<Doc<"repositories">[]> {
+    const personal = await ctx.db
+        .query("repositories")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .collect();
+
+    const memberships = await ctx.db
+        .query("workspaceMembers")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .collect();
+
+    const shared: Doc<"repositories">[] = [];
+    for (const membership of memberships) {
+        shared.push(...await ctx.db
+            .query("repositories")
+            .withIndex("by_workspace", (q) => q.eq("workspaceId", membership.workspaceId))
+            .collect());
+    }
+
+    // A user's own repository moved into their workspace shows up in both lists
+    const seen = new Set<string>();
+    return [...personal.filter(repository => !repository.workspaceId), ...shared].filter(repository => {
+        if (seen.has(repository._id)) {
+            return false;
+        }
+        seen.add(repository._id);
+        return true;
+    });
+}
+
+/**
+ * Check the current user's permission on a workspace
+ */
+export async function checkWorkspacePermission(
+    ctx: QueryCtx | MutationCtx,
+    workspaceId: Id<"workspaces">,
+    permission: WorkspacePermission
+) {
+    const user = await getAuthenticatedUser(ctx);
+
+    const workspace = await ctx.db.get(workspaceId);
+    if (!workspace) {
+        throw new Error("Workspace not found");
+    }
+
+    const role = await getWorkspaceRole(ctx, user._id, workspaceId);
+    if (!hasWorkspacePermission(role, permission)) {
+        throw new Error(`Access denied: You need ${permission} permission in this workspace`);
+    }
+
+    return { user, workspace, role: role! };
+}
+
+/**
+ * Check the current user's permission on a repository (manage by default)
  */
 export async function checkRepositoryOwnership(
     ctx: QueryCtx | MutationCtx,
-    repositoryId: Id<"repositories">
+    repositoryId: Id<"repositories">,
+    permission: WorkspacePermission = "manage"
 ) {
     const user = await getAuthenticatedUser(ctx);
 
@@ -60,19 +177,21 @@ export async function checkRepositoryOwnership(
         throw new Error("Repository not found");
     }
 
-    if (repository.userId !== user._id) {
-        throw new Error("Access denied: You don't own this repository");
+    const role = await getRepositoryRole(ctx, user._id, repository);
+    if (!hasWorkspacePermission(role, permission)) {
+        throw new Error(`Access denied: You need ${permission} permission on this repository`);
     }
 
-    return { user, repository };
+    return { user, repository, role: role! };
 }
 
 /**
- * Check if user owns a rule
+ * Check the current user's permission on a rule through its repository (manage by default)
  */
 export async function checkRuleOwnership(
     ctx: QueryCtx | MutationCtx,
-    ruleId: Id<"rules">
+    ruleId: Id<"rules">,
+    permission: WorkspacePermission = "manage"
 ) {
     const user = await getAuthenticatedUser(ctx);
 
@@ -81,8 +200,8 @@ export async function checkRuleOwnership(
         throw new Error("Rule not found");
     }
 
-    if (rule.userId !== user._id) {
-        throw new Error("Access denied: You don't own this rule");
+    if (!(await hasRulePermission(ctx, user._id, rule, permission))) {
+        throw new Error(`Access denied: You need ${permission} permission on this rule`);
     }
 
     return { user, rule };
@@ -0,0 +1,29 @@
+/**
+ * Shared retry policy for outbound notification deliveries
+ * Rate limits (429) and server errors (5xx) are retried with exponential backoff
+ */
+
+export const MAX_DELIVERY_ATTEMPTS = 3;
+
+// Upper bound on a Retry-After the receiver asks us to honour
+const MAX_RETRY_AFTER_MS = 5 * 60 * 1000;
+
+/**
+ * Whether a failed HTTP response is worth retrying
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 429;
+}
+
+/**
+ * Delay before the next attempt: 2s, 4s, 8s, or the receiver's Retry-After when given
+ */
+export function getRetryDelayMs(attempt: number, retryAfter?: string | null): number {
+  if (retryAfter) {
+    const seconds = parseInt(retryAfter, 10);
+    if (!isNaN(seconds) && seconds >= 0) {
+      return Math.min(seconds * 1000, MAX_RETRY_AFTER_MS);
+    }
+  }
+  return Math.pow(2, attempt) * 1000;
+}
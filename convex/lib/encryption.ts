@@ -1,33 +1,140 @@
 /**
  * Token encryption utilities
- * In production, use proper encryption libraries like crypto-js or node:crypto
+ * AES-GCM envelope encryption: every token gets its own data key, which is
+ * wrapped with a key encryption key (KEK) taken from the environment.
+ *
+ * Keys are configured as:
+ *   TOKEN_ENCRYPTION_KEYS="<keyId>:<base64 32-byte key>,<keyId>:<base64 32-byte key>"
+ *   TOKEN_ENCRYPTION_ACTIVE_KEY_ID="<keyId>"
+ *
+ * Stored format: v1:<keyId>:<wrapIv>:<wrappedDataKey>:<iv>:<ciphertext> (base64url parts)
  */
 
+const ENVELOPE_VERSION = "v1";
+const LEGACY_PREFIX = "encrypted:";
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const IV_LENGTH = 12;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Imported key encryption keys, cached per key id and key material
+const keyCache = new Map<string, CryptoKey>();
+
+type Bytes = Uint8Array<ArrayBuffer>;
+
+interface EnvelopeParts {
+  keyId: string;
+  wrapIv: Bytes;
+  wrappedKey: Bytes;
+  iv: Bytes;
+  ciphertext: Bytes;
+}
+
 /**
  * Encrypt a token for storage
- * This is a placeholder implementation - use proper encryption in production
  */
-export function encryptToken(token: string): string {
-  // In production, use proper encryption with a secret key
-  // For now, just prefix to indicate it's "encrypted"
-  return `encrypted:${token}`;
+export async function encryptToken(token: string): Promise<string> {
+  const keyId = getActiveKeyId();
+  const kek = await getKeyEncryptionKey(keyId);
+
+  // Fresh data key per token; only its wrapped form is stored
+  const dataKey = crypto.getRandomValues(new Uint8Array(32));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const dataCryptoKey = await crypto.subtle.importKey("raw", dataKey, "AES-GCM", false, ["encrypt"]);
+  const ciphertext = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData: encoder.encode(ENVELOPE_VERSION) },
+      dataCryptoKey,
+      encoder.encode(token)
+    )
+  );
+
+  const { wrapIv, wrappedKey } = await wrapDataKey(dataKey, keyId, kek);
+  return formatEnvelope({ keyId, wrapIv, wrappedKey, iv, ciphertext });
 }
 
 /**
  * Decrypt a token for use
- * This is a placeholder implementation - use proper decryption in production
+ * Values written before envelope encryption are still accepted until migrated
  */
-export function decryptToken(encryptedToken: string): string {
-  // In production, use proper decryption with a secret key
-  // For now, just remove the prefix
-  return encryptedToken.replace("encrypted:", "");
+export async function decryptToken(encryptedToken: string): Promise<string> {
+  if (!isTokenEncrypted(encryptedToken)) {
+    return encryptedToken.startsWith(LEGACY_PREFIX)
+      ? encryptedToken.slice(LEGACY_PREFIX.length)
+      : encryptedToken;
+  }
+
+  const parts = parseEnvelope(encryptedToken);
+  const dataKey = await unwrapDataKey(parts);
+  const dataCryptoKey = await crypto.subtle.importKey("raw", dataKey, "AES-GCM", false, ["decrypt"]);
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: parts.iv, additionalData: encoder.encode(ENVELOPE_VERSION) },
+      dataCryptoKey,
+      parts.ciphertext
+    );
+    return decoder.decode(plaintext);
+  } catch {
+    throw new Error("Token decryption failed: ciphertext is corrupted");
+  }
 }
 
 /**
- * Check if a token is encrypted
+ * Check if a token is stored with envelope encryption
  */
 export function isTokenEncrypted(token: string): boolean {
-  return token.startsWith("encrypted:");
+  return token.startsWith(`${ENVELOPE_VERSION}:`);
+}
+
+/**
+ * Key id a stored token is encrypted under, or null for legacy values
+ */
+export function getTokenKeyId(token: string): string | null {
+  return isTokenEncrypted(token) ? token.split(":")[1] ?? null : null;
+}
+
+/**
+ * Whether a stored token must be rewritten to be under the active key
+ */
+export function needsReencryption(token: string): boolean {
+  if (!token) {
+    return false;
+  }
+  return getTokenKeyId(token) !== getActiveKeyId();
+}
+
+/**
+ * Move a stored token under the active key
+ * Legacy values are encrypted; envelope values only have their data key re-wrapped
+ */
+export async function reencryptToken(token: string): Promise<string> {
+  if (!isTokenEncrypted(token)) {
+    return encryptToken(await decryptToken(token));
+  }
+
+  const parts = parseEnvelope(token);
+  const activeKeyId = getActiveKeyId();
+  if (parts.keyId === activeKeyId) {
+    return token;
+  }
+
+  const dataKey = await unwrapDataKey(parts);
+  const kek = await getKeyEncryptionKey(activeKeyId);
+  const { wrapIv, wrappedKey } = await wrapDataKey(dataKey, activeKeyId, kek);
+  return formatEnvelope({ ...parts, keyId: activeKeyId, wrapIv, wrappedKey });
+}
+
+/**
+ * Id of the key new tokens are encrypted with
+ */
+export function getActiveKeyId(): string {
+  const keyId = process.env.TOKEN_ENCRYPTION_ACTIVE_KEY_ID;
+  if (!keyId) {
+    throw new Error("TOKEN_ENCRYPTION_ACTIVE_KEY_ID is not configured");
+  }
+  return keyId;
 }
 
 /**
@@ -37,4 +144,126 @@ export function isValidGitHubToken(token: string): boolean {
   // GitHub personal access tokens start with 'ghp_' or 'gho_'
   // OAuth tokens are typically longer alphanumeric strings
   return token.length > 20 && /^[a-zA-Z0-9_]+$/.test(token);
-}
\ No newline at end of file
+}
+
+function loadKeyMaterial(keyId: string): Bytes {
+  const configured = process.env.TOKEN_ENCRYPTION_KEYS;
+  if (!configured) {
+    throw new Error("TOKEN_ENCRYPTION_KEYS is not configured");
+  }
+
+  for (const entry of configured.split(",")) {
+    const separator = entry.indexOf(":");
+    if (separator === -1) {
+      continue;
+    }
+    const id = entry.slice(0, separator).trim();
+    if (id !== keyId) {
+      continue;
+    }
+    if (!KEY_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid token encryption key id: ${id}`);
+    }
+
+    const material = base64ToBytes(entry.slice(separator + 1).trim());
+    if (material.length !== 32) {
+      throw new Error(`Token encryption key ${id} must be 32 bytes`);
+    }
+    return material;
+  }
+
+  throw new Error(`Token encryption key ${keyId} is not configured`);
+}
+
+async function getKeyEncryptionKey(keyId: string): Promise<CryptoKey> {
+  const material = loadKeyMaterial(keyId);
+  const cacheKey = `${keyId}:${bytesToBase64Url(material)}`;
+  const cached = keyCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const key = await crypto.subtle.importKey("raw", material, "AES-GCM", false, ["encrypt", "decrypt"]);
+  keyCache.set(cacheKey, key);
+  return key;
+}
+
+async function wrapDataKey(
+  dataKey: Bytes,
+  keyId: string,
+  kek: CryptoKey
+): Promise<{ wrapIv: Bytes; wrappedKey: Bytes }> {
+  const wrapIv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  // The key id is authenticated so a wrapped key cannot be relabelled
+  const wrappedKey = new Uint8Array(
+    await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv: wrapIv, additionalData: encoder.encode(`${ENVELOPE_VERSION}:${keyId}`) },
+      kek,
+      dataKey
+    )
+  );
+  return { wrapIv, wrappedKey };
+}
+
+async function unwrapDataKey(parts: EnvelopeParts): Promise<Bytes> {
+  const kek = await getKeyEncryptionKey(parts.keyId);
+  try {
+    return new Uint8Array(
+      await crypto.subtle.decrypt(
+        { name: "AES-GCM", iv: parts.wrapIv, additionalData: encoder.encode(`${ENVELOPE_VERSION}:${parts.keyId}`) },
+        kek,
+        parts.wrappedKey
+      )
+    );
+  } catch {
+    throw new Error(`Token decryption failed: data key could not be unwrapped with key ${parts.keyId}`);
+  }
+}
+
+function formatEnvelope(parts: EnvelopeParts): string {
+  return [
+    ENVELOPE_VERSION,
+    parts.keyId,
+    bytesToBase64Url(parts.wrapIv),
+    bytesToBase64Url(parts.wrappedKey),
+    bytesToBase64Url(parts.iv),
+    bytesToBase64Url(parts.ciphertext),
+  ].join(":");
+}
+
+function parseEnvelope(value: string): EnvelopeParts {
+  const segments = value.split(":");
+  if (segments.length !== 6 || segments[0] !== ENVELOPE_VERSION || !KEY_ID_PATTERN.test(segments[1])) {
+    throw new Error("Malformed encrypted token");
+  }
+
+  return {
+    keyId: segments[1],
+    wrapIv: base64UrlToBytes(segments[2]),
+    wrappedKey: base64UrlToBytes(segments[3]),
+    iv: base64UrlToBytes(segments[4]),
+    ciphertext: base64UrlToBytes(segments[5]),
+  };
+}
+
+function bytesToBase64Url(bytes: Bytes): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlToBytes(value: string): Bytes {
+  return base64ToBytes(value.replace(/-/g, "+").replace(/_/g, "/"));
+}
+
+function base64ToBytes(value: string): Bytes {
+  const padded = value + "=".repeat((4 - (value.length % 4)) % 4);
+  const binary = atob(padded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
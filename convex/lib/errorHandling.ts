@@ -1,6 +1,8 @@
 // Enhanced error handling system for StaleBot
 import { GitHubApiError, AuthenticationError, RateLimitError } from "../../src/lib/github";
 import { Id } from "../_generated/dataModel";
+import { internal } from "../_generated/api";
+import { recordErrorEntry } from "../errors";
 
 export interface ErrorContext {
   userId?: Id<"users">;
@@ -237,30 +239,27 @@ export class ErrorHandler {
    * Store error information in database for tracking and analysis
    */
   private static async storeErrorInDatabase(errorInfo: SystemError, ctx: any): Promise<void> {
-    // In a full implementation, this would store in an errors collection
-    // For now, we'll create a simple error tracking mechanism
-    
-    try {
-      // This would be a proper errors collection in production
-      const errorRecord = {
+    const entry = {
+      type: errorInfo.type,
+      severity: errorInfo.severity,
+      message: errorInfo.message,
+      operation: errorInfo.context.operation,
+      userId: errorInfo.context.userId,
+      repositoryId: errorInfo.context.repositoryId,
+      details: {
         errorId: errorInfo.id,
-        type: errorInfo.type,
-        severity: errorInfo.severity,
-        message: errorInfo.message,
-        operation: errorInfo.context.operation,
-        userId: errorInfo.context.userId,
-        repositoryId: errorInfo.context.repositoryId,
-        metadata: errorInfo.context.metadata,
-        timestamp: errorInfo.context.timestamp,
         retryable: errorInfo.retryable,
         retryCount: errorInfo.retryCount || 0,
-      };
+        metadata: errorInfo.context.metadata,
+      },
+      timestamp: errorInfo.context.timestamp,
+    };
 
-      // For now, we'll just log this - in production you'd insert into an errors table
-      console.log("Error record for database:", errorRecord);
-      
-    } catch (error) {
-      console.error("Failed to create error record:", error);
+    // Mutations write directly; actions go through the internal mutation
+    if (ctx.db && typeof ctx.db.insert === "function") {
+      await recordErrorEntry(ctx, entry);
+    } else if (typeof ctx.runMutation === "function") {
+      await ctx.runMutation(internal.errors.recordError, entry);
     }
   }
 
@@ -390,11 +389,11 @@ export class ErrorHandler {
 
 /**
  * Wrapper function for operations that need error handling
+ * Failed attempts are only logged; callers record the final error once
  */
 export async function withErrorHandling<T>(
   operation: () => Promise<T>,
   context: ErrorContext,
-  ctx?: any,
   maxRetries = 3
 ): Promise<T> {
   let lastError: any;
@@ -409,7 +408,7 @@ export async function withErrorHandling<T>(
       const errorResult = await ErrorHandler.handleError(error, {
         ...context,
         metadata: { ...context.metadata, retryCount },
-      }, ctx);
+      });
 
       if (!errorResult.shouldRetry || retryCount >= maxRetries) {
         throw error;
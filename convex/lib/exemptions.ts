@@ -0,0 +1,116 @@
+/**
+ * Rule exemptions
+ * Exemptions keep an issue from ever matching a rule, whatever its inactivity
+ */
+
+export type ExemptionType = "label" | "milestone" | "linked_pull_request" | "issue_number";
+
+export interface RuleExemption {
+  type: ExemptionType;
+  reason: string;
+}
+
+export interface ExemptionRule {
+  exemptLabels?: string[];
+  exemptMilestones?: "any" | string[]; // "any" exempts every issue with a milestone
+  exemptLinkedPullRequests?: boolean;
+  exemptIssueNumbers?: number[];
+}
+
+export interface ExemptionIssue {
+  githubIssueId: number;
+  labels: string[];
+  milestone?: string;
+  linkedPullRequests?: number[]; // open pull requests referencing the issue; undefined when not fetched
+}
+
+/**
+ * First exemption of the rule that applies to the issue, or null when none does
+ */
+export function getRuleExemption(issue: ExemptionIssue, rule: ExemptionRule): RuleExemption | null {
+  if (rule.exemptIssueNumbers?.includes(issue.githubIssueId)) {
+    return { type: "issue_number", reason: `Issue #${issue.githubIssueId} is always exempt` };
+  }
+
+  if (rule.exemptLabels && rule.exemptLabels.length > 0) {
+    const exemptLabel = issue.labels.find(issueLabel =>
+      rule.exemptLabels!.some(exemptLabel => exemptLabel.toLowerCase() === issueLabel.toLowerCase())
+    );
+    if (exemptLabel) {
+      return { type: "label", reason: `Has exempt label "${exemptLabel}"` };
+    }
+  }
+
+  if (rule.exemptMilestones && issue.milestone) {
+    const milestone = issue.milestone;
+    const isExempt = rule.exemptMilestones === "any" ||
+      rule.exemptMilestones.some(exemptMilestone => exemptMilestone.toLowerCase() === milestone.toLowerCase());
+    if (isExempt) {
+      return { type: "milestone", reason: `In milestone "${milestone}"` };
+    }
+  }
+
+  if (rule.exemptLinkedPullRequests && issue.linkedPullRequests && issue.linkedPullRequests.length > 0) {
+    const numbers = issue.linkedPullRequests.map(number => `#${number}`).join(", ");
+    return { type: "linked_pull_request", reason: `Linked to open pull request ${numbers}` };
+  }
+
+  return null;
+}
+
+/**
+ * Copy of a rule with every exemption removed, used to find issues an exemption saved
+ */
+export function withoutExemptions<T extends ExemptionRule>(rule: T): T {
+  return {
+    ...rule,
+    exemptLabels: undefined,
+    exemptMilestones: undefined,
+    exemptLinkedPullRequests: undefined,
+    exemptIssueNumbers: undefined,
+  };
+}
+
+/**
+ * True when a rule needs the open pull requests linked to each issue
+ */
+export function rulesNeedLinkedPullRequests(rules: ExemptionRule[]): boolean {
+  return rules.some(rule => rule.exemptLinkedPullRequests === true);
+}
+
+/**
+ * Validate the exemption fields of a rule
+ */
+export function validateExemptions(rule: {
+  exemptLabels?: unknown;
+  exemptMilestones?: unknown;
+  exemptLinkedPullRequests?: unknown;
+  exemptIssueNumbers?: unknown;
+}): string[] {
+  const errors: string[] = [];
+
+  if (rule.exemptLabels !== undefined && !isNonEmptyStringList(rule.exemptLabels)) {
+    errors.push("All exempt labels must be non-empty strings");
+  }
+
+  if (rule.exemptMilestones !== undefined && rule.exemptMilestones !== "any" && !isNonEmptyStringList(rule.exemptMilestones)) {
+    errors.push("Exempt milestones must be \"any\" or a list of milestone titles");
+  }
+
+  if (rule.exemptLinkedPullRequests !== undefined && typeof rule.exemptLinkedPullRequests !== "boolean") {
+    errors.push("Exempting issues with linked pull requests must be true or false");
+  }
+
+  if (rule.exemptIssueNumbers !== undefined) {
+    if (!Array.isArray(rule.exemptIssueNumbers) ||
+        rule.exemptIssueNumbers.some(number => !Number.isInteger(number) || number < 1)) {
+      errors.push("Exempt issue numbers must be positive whole numbers");
+    }
+  }
+
+  return errors;
+}
+
+function isNonEmptyStringList(value: unknown): boolean {
+  return Array.isArray(value) && value.every(item => typeof item === "string" && item.trim().length > 0);
+}
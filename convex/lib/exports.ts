@@ -0,0 +1,210 @@
+/**
+ * Stale issue and notification history exports
+ * Backs the authenticated /export/* HTTP endpoints. Filters come from the query string:
+ *
+ *   ?format=csv|json&repository=owner/repo&label=bug&from=YYYY-MM-DD&to=YYYY-MM-DD&status=open
+ *
+ * Dates are UTC days and both ends are inclusive. Stale issues filter their last activity
+ * and issue state; notifications filter when they were sent and their delivery status
+ */
+
+export type ExportFormat = "csv" | "json";
+
+export const STALE_ISSUE_STATUSES = ["open", "closed"] as const;
+export const NOTIFICATION_STATUSES = ["pending", "sent", "delivered", "bounced", "failed"] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface ExportFilters {
+  format: ExportFormat;
+  repository?: string; // full name, e.g. "owner/repo"
+  label?: string;
+  from?: number; // start of the first day
+  to?: number; // end of the last day
+  status?: string;
+}
+
+export type ExportFiltersResult =
+  | { valid: true; filters: ExportFilters }
+  | { valid: false; reason: string };
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+}
+
+// Stale issue fields read by the export, as returned by getAllStaleIssuesForUser
+export interface ExportStaleIssue {
+  repositoryFullName: string;
+  githubIssueId: number;
+  title: string;
+  url: string;
+  state: "open" | "closed";
+  kind?: "issue" | "pull_request";
+  labels: string[];
+  assignee?: string;
+  lastActivity: number;
+  daysSinceActivity: number;
+  lastNotified?: number;
+  staleReasons: string[];
+}
+
+// Notification fields read by the export, as returned by getNotificationHistory
+export interface ExportNotification {
+  sentAt: number;
+  deliveredAt?: number;
+  channel?: "email" | "slack";
+  status: string;
+  repository: { name: string; fullName: string } | null;
+  issues: { title: string; url: string; labels: string[] }[];
+  issueCount: number;
+}
+
+/**
+ * Read and validate export filters from a request's query string
+ */
+export function parseExportFilters(
+  params: URLSearchParams,
+  statuses: readonly string[]
+): ExportFiltersResult {
+  const format = params.get("format") || "csv";
+  if (format !== "csv" && format !== "json") {
+    return { valid: false, reason: "format must be csv or json" };
+  }
+
+  const filters: ExportFilters = { format };
+
+  const repository = params.get("repository")?.trim();
+  if (repository) {
+    filters.repository = repository;
+  }
+  const label = params.get("label")?.trim();
+  if (label) {
+    filters.label = label;
+  }
+
+  const status = params.get("status")?.trim();
+  if (status) {
+    if (!statuses.includes(status)) {
+      return { valid: false, reason: `status must be one of ${statuses.join(", ")}` };
+    }
+    filters.status = status;
+  }
+
+  for (const key of ["from", "to"] as const) {
+    const value = params.get(key);
+    if (!value) {
+      continue;
+    }
+    const start = DATE_PATTERN.test(value) ? Date.parse(`${value}T00:00:00Z`) : NaN;
+    if (Number.isNaN(start)) {
+      return { valid: false, reason: `${key} must be a date formatted YYYY-MM-DD` };
+    }
+    filters[key] = key === "from" ? start : start + DAY_MS - 1;
+  }
+
+  if (filters.from !== undefined && filters.to !== undefined && filters.from > filters.to) {
+    return { valid: false, reason: "from must not be after to" };
+  }
+
+  return { valid: true, filters };
+}
+
+/**
+ * Apply repository, label, last activity and state filters to stale issues
+ */
+export function filterStaleIssues<T extends ExportStaleIssue>(issues: T[], filters: ExportFilters): T[] {
+  return issues.filter(issue =>
+    (!filters.repository || issue.repositoryFullName === filters.repository) &&
+    (!filters.label || issue.labels.includes(filters.label)) &&
+    isInRange(issue.lastActivity, filters) &&
+    (!filters.status || issue.state === filters.status)
+  );
+}
+
+/**
+ * Apply repository, label, sent date and status filters to notifications
+ * A notification matches a label when any of its issues has it
+ */
+export function filterNotifications<T extends ExportNotification>(notifications: T[], filters: ExportFilters): T[] {
+  return notifications.filter(notification =>
+    (!filters.repository || notification.repository?.fullName === filters.repository) &&
+    (!filters.label || notification.issues.some(issue => issue.labels.includes(filters.label!))) &&
+    isInRange(notification.sentAt, filters) &&
+    (!filters.status || notification.status === filters.status)
+  );
+}
+
+export const STALE_ISSUE_COLUMNS: ExportColumn<ExportStaleIssue>[] = [
+  { header: "repository", value: issue => issue.repositoryFullName },
+  { header: "number", value: issue => issue.githubIssueId },
+  { header: "title", value: issue => issue.title },
+  { header: "url", value: issue => issue.url },
+  { header: "kind", value: issue => issue.kind ?? "issue" },
+  { header: "state", value: issue => issue.state },
+  { header: "labels", value: issue => issue.labels.join("; ") },
+  { header: "assignee", value: issue => issue.assignee },
+  { header: "last_activity", value: issue => formatTimestamp(issue.lastActivity) },
+  { header: "days_inactive", value: issue => issue.daysSinceActivity },
+  { header: "last_notified", value: issue => formatTimestamp(issue.lastNotified) },
+  { header: "stale_reasons", value: issue => issue.staleReasons.join("; ") },
+];
+
+export const NOTIFICATION_COLUMNS: ExportColumn<ExportNotification>[] = [
+  { header: "sent_at", value: notification => formatTimestamp(notification.sentAt) },
+  { header: "repository", value: notification => notification.repository?.fullName },
+  { header: "channel", value: notification => notification.channel ?? "email" },
+  { header: "status", value: notification => notification.status },
+  { header: "delivered_at", value: notification => formatTimestamp(notification.deliveredAt) },
+  { header: "issue_count", value: notification => notification.issueCount },
+  { header: "issues", value: notification => notification.issues.map(issue => issue.title).join("; ") },
+  { header: "issue_urls", value: notification => notification.issues.map(issue => issue.url).join(" ") },
+];
+
+/**
+ * CSV lines for rows, header first, each terminated by CRLF
+ */
+export function* toCsvLines<T>(columns: ExportColumn<T>[], rows: Iterable<T>): Generator<string> {
+  yield formatCsvLine(columns.map(column => column.header));
+  for (const row of rows) {
+    yield formatCsvLine(columns.map(column => column.value(row)));
+  }
+}
+
+/**
+ * Escape one CSV field
+ * Values a spreadsheet would run as a formula are prefixed with a quote, since titles
+ * and labels come from GitHub users
+ */
+export function escapeCsvValue(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Download filename for an export, e.g. "stale-issues-2024-06-01.csv"
+ */
+export function getExportFilename(name: string, format: ExportFormat, now: number): string {
+  return `${name}-${new Date(now).toISOString().slice(0, 10)}.${format}`;
+}
+
+function formatCsvLine(values: (string | number | null | undefined)[]): string {
+  return `${values.map(escapeCsvValue).join(",")}\r\n`;
+}
+
+function formatTimestamp(timestamp: number | undefined): string {
+  return timestamp ? new Date(timestamp).toISOString() : "";
+}
+
+function isInRange(timestamp: number, filters: ExportFilters): boolean {
+  return (filters.from === undefined || timestamp >= filters.from) &&
+    (filters.to === undefined || timestamp <= filters.to);
+}
@@ -0,0 +1,125 @@
+/**
+ * GitHub App authentication
+ * Repositories covered by a StaleBot GitHub App installation are processed with short-lived
+ * installation tokens instead of the owner's OAuth token, so processing keeps working when
+ * that person leaves or their token expires. Tokens are minted with a JWT signed by the
+ * app's private key (GITHUB_APP_ID, GITHUB_APP_PRIVATE_KEY) and cached until shortly
+ * before they expire
+ */
+
+// GitHub accepts app JWTs for at most 10 minutes; iat is backdated for clock drift
+const JWT_LIFETIME_SECONDS = 9 * 60;
+const JWT_CLOCK_DRIFT_SECONDS = 60;
+
+// Cached installation tokens are replaced this long before GitHub expires them
+export const INSTALLATION_TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// rsaEncryption AlgorithmIdentifier wrapped around PKCS#1 keys to make them PKCS#8
+const PKCS8_RSA_HEADER = [
+  0x02, 0x01, 0x00, // version 0
+  0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, 0x05, 0x00,
+];
+
+export interface GitHubAppConfig {
+  appId: string;
+  privateKey: string; // PEM, PKCS#1 as downloaded from GitHub or PKCS#8
+}
+
+export interface InstallationRateLimit {
+  limit: number;
+  remaining: number;
+  resetAt: number;
+  updatedAt: number;
+}
+
+/**
+ * App credentials from the environment, or null when the app is not configured
+ */
+export function getGitHubAppConfig(): GitHubAppConfig | null {
+  const appId = process.env.GITHUB_APP_ID;
+  const privateKey = process.env.GITHUB_APP_PRIVATE_KEY;
+  if (!appId || !privateKey) {
+    return null;
+  }
+  // Deployment env vars often carry the PEM with escaped newlines
+  return { appId, privateKey: privateKey.replace(/\\n/g, "\n") };
+}
+
+/**
+ * Sign the RS256 JWT that authenticates as the app itself
+ */
+export async function createAppJwt(config: GitHubAppConfig, now: number = Date.now()): Promise<string> {
+  const issuedAt = Math.floor(now / 1000) - JWT_CLOCK_DRIFT_SECONDS;
+  const header = encodeBase64Url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+  const payload = encodeBase64Url(JSON.stringify({
+    iat: issuedAt,
+    exp: issuedAt + JWT_CLOCK_DRIFT_SECONDS + JWT_LIFETIME_SECONDS,
+    iss: config.appId,
+  }));
+
+  const key = await crypto.subtle.importKey(
+    "pkcs8",
+    toPkcs8(config.privateKey),
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "RSASSA-PKCS1-v1_5",
+    key,
+    new TextEncoder().encode(`${header}.${payload}`)
+  );
+
+  return `${header}.${payload}.${encodeBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Whether a cached installation token must be replaced before use
+ */
+export function needsInstallationToken(expiresAt: number | undefined, now: number): boolean {
+  return expiresAt === undefined || expiresAt - INSTALLATION_TOKEN_REFRESH_MARGIN_MS <= now;
+}
+
+/**
+ * Whether the installation's last known rate limit is used up and not reset yet
+ */
+export function isRateLimitExhausted(rateLimit: InstallationRateLimit | undefined, now: number): boolean {
+  return !!rateLimit && rateLimit.remaining === 0 && rateLimit.resetAt > now;
+}
+
+/**
+ * DER bytes of a PEM private key, converting PKCS#1 ("RSA PRIVATE KEY") to PKCS#8
+ */
+export function toPkcs8(pem: string): Uint8Array<ArrayBuffer> {
+  const isPkcs1 = pem.includes("BEGIN RSA PRIVATE KEY");
+  const body = pem.replace(/-----(BEGIN|END) [A-Z ]+-----/g, "").replace(/\s+/g, "");
+  if (!body) {
+    throw new Error("GitHub App private key is empty");
+  }
+
+  const der = Uint8Array.from(atob(body), char => char.charCodeAt(0));
+  if (!isPkcs1) {
+    return der;
+  }
+
+  const privateKey = [0x04, ...encodeDerLength(der.length), ...der];
+  const content = [...PKCS8_RSA_HEADER, ...privateKey];
+  return Uint8Array.from([0x30, ...encodeDerLength(content.length), ...content]);
+}
+
+function encodeDerLength(length: number): number[] {
+  if (length < 0x80) {
+    return [length];
+  }
+  const bytes: number[] = [];
+  for (let remaining = length; remaining > 0; remaining >>= 8) {
+    bytes.unshift(remaining & 0xff);
+  }
+  return [0x80 | bytes.length, ...bytes];
+}
+
+function encodeBase64Url(value: string | Uint8Array): string {
+  const bytes = typeof value === "string" ? new TextEncoder().encode(value) : value;
+  const binary = Array.from(bytes, byte => String.fromCharCode(byte)).join("");
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
@@ -0,0 +1,262 @@
+/**
+ * GitHub webhook utilities
+ * Signature verification and payload parsing for the /webhook/github endpoint
+ */
+
+import { ActivityEvent, ActivityEventType, GitHubIssue, GitHubPullRequest, NormalizedIssue } from "../../src/types/index";
+import { normalizeGitHubIssue, summarizePullRequest } from "../../src/lib/github";
+
+// Events that can change the activity or labels of a tracked issue, and GitHub App
+// installation changes that decide which token a repository is processed with
+export const SUPPORTED_GITHUB_EVENTS = [
+  "issues",
+  "issue_comment",
+  "pull_request",
+  "label",
+  "installation",
+  "installation_repositories",
+] as const;
+
+export type SupportedGitHubEvent = typeof SUPPORTED_GITHUB_EVENTS[number];
+
+export type GitHubWebhookUpdate =
+  | {
+      kind: "issue";
+      githubRepoId: number;
+      issue: NormalizedIssue;
+      activity?: ActivityEvent; // appended to the stored timeline; unset for actions that aren't activity
+    }
+  | {
+      kind: "label";
+      githubRepoId: number;
+      action: "edited" | "deleted";
+      labelName: string;
+      previousName?: string;
+    }
+  | {
+      kind: "installation";
+      action: "created" | "deleted" | "suspend" | "unsuspend" | "added" | "removed";
+      installationId: number;
+      account: { login: string; type: "User" | "Organization" };
+      addedRepoIds: number[];
+      removedRepoIds: number[];
+    };
+
+/**
+ * Check whether an event name is one we ingest
+ */
+export function isSupportedGitHubEvent(event: string | null): event is SupportedGitHubEvent {
+  return !!event && (SUPPORTED_GITHUB_EVENTS as readonly string[]).includes(event);
+}
+
+/**
+ * Compute the X-Hub-Signature-256 header value for a payload
+ */
+export async function computeGitHubSignature(secret: string, payload: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(payload));
+  const hex = Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+  return `sha256=${hex}`;
+}
+
+/**
+ * Verify the X-Hub-Signature-256 header against the raw request body
+ */
+export async function verifyGitHubSignature(
+  secret: string,
+  payload: string,
+  signatureHeader: string | null
+): Promise<boolean> {
+  if (!signatureHeader || !signatureHeader.startsWith("sha256=")) {
+    return false;
+  }
+
+  const expected = await computeGitHubSignature(secret, payload);
+  return timingSafeEqual(expected, signatureHeader);
+}
+
+/**
+ * Constant-time string comparison to avoid leaking signature prefixes
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
+
+/**
+ * Extract the issue or label change carried by a webhook payload
+ * Returns null when the payload does not affect any tracked issue
+ */
+export function parseGitHubWebhook(event: SupportedGitHubEvent, payload: any): GitHubWebhookUpdate | null {
+  if (event === "installation" || event === "installation_repositories") {
+    return parseInstallationWebhook(event, payload);
+  }
+
+  const githubRepoId = payload?.repository?.id;
+  if (typeof githubRepoId !== "number") {
+    return null;
+  }
+
+  switch (event) {
+    case "issues":
+    case "issue_comment": {
+      const issue = payload.issue as GitHubIssue | undefined;
+      if (!issue || typeof issue.number !== "number") {
+        return null;
+      }
+      return {
+        kind: "issue",
+        githubRepoId,
+        issue: normalizeGitHubIssue(issue),
+        activity: toActivityEvent(event, payload),
+      };
+    }
+    case "pull_request": {
+      const pullRequest = payload.pull_request as (GitHubIssue & GitHubPullRequest) | undefined;
+      if (!pullRequest || typeof pullRequest.number !== "number") {
+        return null;
+      }
+      // Pull request payloads carry review and mergeability state but not CI results
+      const issue = normalizeGitHubIssue({
+        ...pullRequest,
+        pull_request: { url: pullRequest.url, html_url: pullRequest.html_url },
+      });
+      return {
+        kind: "issue",
+        githubRepoId,
+        issue: { ...issue, pullRequest: summarizePullRequest(pullRequest) },
+        activity: toActivityEvent(event, payload),
+      };
+    }
+    case "label": {
+      // Only renames and deletions change the labels stored on issues
+      const labelName = payload.label?.name;
+      if (typeof labelName !== "string") {
+        return null;
+      }
+      if (payload.action === "edited") {
+        const previousName = payload.changes?.name?.from;
+        if (typeof previousName !== "string" || previousName === labelName) {
+          return null;
+        }
+        return { kind: "label", githubRepoId, action: "edited", labelName, previousName };
+      }
+      if (payload.action === "deleted") {
+        return { kind: "label", githubRepoId, action: "deleted", labelName };
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+// Webhook actions that are activity events, per event
+const WEBHOOK_ACTIVITY_TYPES: Record<string, Record<string, ActivityEventType>> = {
+  issues: {
+    opened: "opened",
+    closed: "closed",
+    reopened: "reopened",
+    labeled: "labeled",
+    unlabeled: "unlabeled",
+    assigned: "assigned",
+    unassigned: "unassigned",
+  },
+  issue_comment: { created: "comment" },
+  pull_request: {
+    opened: "opened",
+    closed: "closed",
+    reopened: "reopened",
+    labeled: "labeled",
+    unlabeled: "unlabeled",
+    assigned: "assigned",
+    unassigned: "unassigned",
+    synchronize: "commit",
+  },
+};
+
+// Author associations of people who maintain a repository
+const MAINTAINER_ASSOCIATIONS = ["OWNER", "MEMBER", "COLLABORATOR"];
+
+/**
+ * Activity event described by an issue, comment or pull request webhook
+ */
+export function toActivityEvent(event: "issues" | "issue_comment" | "pull_request", payload: any): ActivityEvent | undefined {
+  let type: ActivityEventType | undefined = WEBHOOK_ACTIVITY_TYPES[event][payload.action];
+  if (event === "issues" && payload.action === "edited" && payload.changes?.title) {
+    type = "renamed";
+  }
+  if (!type) {
+    return undefined;
+  }
+
+  const item = payload.issue ?? payload.pull_request;
+  const at = type === "comment"
+    ? payload.comment?.created_at
+    : type === "opened" ? item?.created_at : item?.updated_at;
+  const actor = type === "comment" ? payload.comment?.user : payload.sender;
+  if (typeof at !== "string") {
+    return undefined;
+  }
+
+  return {
+    type,
+    at: Date.parse(at),
+    actor: typeof actor?.login === "string" ? actor.login : undefined,
+    bot: actor?.type === "Bot" || /\[bot\]$/i.test(actor?.login ?? "") || undefined,
+    maintainer: type === "comment"
+      ? MAINTAINER_ASSOCIATIONS.includes(payload.comment?.author_association)
+      : undefined,
+  };
+}
+
+/**
+ * Extract an app installation change; installation events carry no repository field
+ */
+function parseInstallationWebhook(
+  event: "installation" | "installation_repositories",
+  payload: any
+): GitHubWebhookUpdate | null {
+  const installationId = payload?.installation?.id;
+  const account = payload?.installation?.account;
+  if (typeof installationId !== "number" || typeof account?.login !== "string") {
+    return null;
+  }
+
+  const actions = event === "installation"
+    ? ["created", "deleted", "suspend", "unsuspend"]
+    : ["added", "removed"];
+  if (!actions.includes(payload.action)) {
+    return null;
+  }
+
+  const repoIds = (repositories: unknown): number[] => Array.isArray(repositories)
+    ? repositories.map((repository: any) => repository?.id).filter((id): id is number => typeof id === "number")
+    : [];
+
+  return {
+    kind: "installation",
+    action: payload.action,
+    installationId,
+    account: { login: account.login, type: account.type === "Organization" ? "Organization" : "User" },
+    // "created" lists the repositories selected at install time
+    addedRepoIds: repoIds(event === "installation" ? payload.repositories : payload.repositories_added),
+    removedRepoIds: repoIds(payload.repositories_removed),
+  };
+}
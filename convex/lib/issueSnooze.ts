@@ -0,0 +1,201 @@
+/**
+ * Per-issue snooze and "never stale"
+ * Maintainers can quiet a single issue without editing rules: snooze it until a date or
+ * until it sees new activity, or mark it as never stale. Stale issue emails carry signed
+ * one-click links for the same actions:
+ *
+ *   <CONVEX_SITE_URL>/issues/action?token=<base64url payload>.<hex HMAC-SHA256>
+ *
+ * Links are signed with ISSUE_ACTION_SECRET and expire after ISSUE_ACTION_LINK_TTL_MS.
+ * Opening a link only shows a confirmation page, so mail scanners and link prefetchers
+ * cannot act on it; the change is applied when the page is submitted. Each link carries
+ * a nonce that is recorded once used, so a link works only once
+ */
+
+import { IssueSnooze } from "../../src/types/index";
+import { timingSafeEqual } from "./githubWebhook";
+
+export const ISSUE_ACTION_LINK_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+export const EMAIL_SNOOZE_DAYS = 30;
+export const MAX_SNOOZE_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type IssueAction = "snooze" | "snooze_until_activity" | "never_stale";
+
+export interface IssueActionPayload {
+  issueId: string;
+  action: IssueAction;
+  days?: number; // snooze length for "snooze"
+  nonce: string; // makes the link single-use
+  expiresAt: number;
+}
+
+export type IssueActionTokenResult =
+  | { valid: true; payload: IssueActionPayload }
+  | { valid: false; reason: string };
+
+/**
+ * Why the issue is currently kept from going stale, or null when it is not
+ * Date snoozes lapse on their own; activity snoozes lapse once the issue sees new activity
+ */
+export function getSnoozeReason(
+  issue: { snooze?: IssueSnooze; neverStale?: boolean; lastActivity: number },
+  now: number
+): string | null {
+  if (issue.neverStale) {
+    return "Marked as never stale";
+  }
+
+  const snooze = issue.snooze;
+  if (!snooze) {
+    return null;
+  }
+  if (snooze.type === "until_date") {
+    return now < snooze.until ? `Snoozed until ${formatDate(snooze.until)}` : null;
+  }
+  return issue.lastActivity <= snooze.lastActivity ? "Snoozed until next activity" : null;
+}
+
+/**
+ * Snooze until a date, rejecting dates in the past or too far ahead
+ */
+export function snoozeUntilDate(until: number, now: number): IssueSnooze {
+  if (!Number.isFinite(until) || until <= now) {
+    throw new Error("Snooze date must be in the future");
+  }
+  if (until - now > MAX_SNOOZE_DAYS * DAY_MS) {
+    throw new Error(`Issues can be snoozed for at most ${MAX_SNOOZE_DAYS} days`);
+  }
+  return { type: "until_date", until, snoozedAt: now };
+}
+
+/**
+ * Snooze until the issue sees activity newer than what it has now
+ */
+export function snoozeUntilActivity(lastActivity: number, now: number): IssueSnooze {
+  return { type: "until_activity", lastActivity, snoozedAt: now };
+}
+
+export interface IssueActionLinks {
+  snooze: string;
+  snoozeUntilActivity: string;
+  neverStale: string;
+}
+
+/**
+ * Signed one-click links for a stale issue email, or null when links are not configured
+ */
+export async function buildIssueActionLinks(
+  issueId: string,
+  now: number = Date.now()
+): Promise<IssueActionLinks | null> {
+  const secret = process.env.ISSUE_ACTION_SECRET;
+  const siteUrl = process.env.CONVEX_SITE_URL;
+  if (!secret || !siteUrl) {
+    return null;
+  }
+
+  const expiresAt = now + ISSUE_ACTION_LINK_TTL_MS;
+  const link = async (action: IssueAction, days?: number) => {
+    const token = await createIssueActionToken(secret, { issueId, action, days, nonce: crypto.randomUUID(), expiresAt });
+    return `${siteUrl}/issues/action?token=${encodeURIComponent(token)}`;
+  };
+
+  return {
+    snooze: await link("snooze", EMAIL_SNOOZE_DAYS),
+    snoozeUntilActivity: await link("snooze_until_activity"),
+    neverStale: await link("never_stale"),
+  };
+}
+
+/**
+ * Sign a one-click issue action link token
+ */
+export async function createIssueActionToken(secret: string, payload: IssueActionPayload): Promise<string> {
+  const encoded = encodeBase64Url(JSON.stringify(payload));
+  return `${encoded}.${await computeSignature(secret, encoded)}`;
+}
+
+/**
+ * Verify a one-click issue action link token and return its payload
+ */
+export async function verifyIssueActionToken(
+  secret: string,
+  token: string | null,
+  now: number = Date.now()
+): Promise<IssueActionTokenResult> {
+  if (!token) {
+    return { valid: false, reason: "Missing token" };
+  }
+
+  const separator = token.lastIndexOf(".");
+  if (separator <= 0) {
+    return { valid: false, reason: "Malformed token" };
+  }
+
+  const encoded = token.slice(0, separator);
+  const signature = token.slice(separator + 1);
+  if (!timingSafeEqual(signature, await computeSignature(secret, encoded))) {
+    return { valid: false, reason: "Invalid signature" };
+  }
+
+  let payload: IssueActionPayload;
+  try {
+    payload = JSON.parse(decodeBase64Url(encoded));
+  } catch {
+    return { valid: false, reason: "Malformed token" };
+  }
+
+  if (typeof payload.nonce !== "string" || !payload.nonce) {
+    return { valid: false, reason: "Malformed token" };
+  }
+  if (typeof payload.expiresAt !== "number" || payload.expiresAt <= now) {
+    return { valid: false, reason: "Link has expired" };
+  }
+  if (!["snooze", "snooze_until_activity", "never_stale"].includes(payload.action)) {
+    return { valid: false, reason: "Unknown action" };
+  }
+  return { valid: true, payload };
+}
+
+/**
+ * What a link will do, for its confirmation page
+ */
+export function describeIssueAction(payload: Pick<IssueActionPayload, "action" | "days">): string {
+  if (payload.action === "never_stale") {
+    return "Never mark this issue as stale";
+  }
+  if (payload.action === "snooze_until_activity") {
+    return "Snooze this issue until its next activity";
+  }
+  return `Snooze this issue for ${payload.days ?? EMAIL_SNOOZE_DAYS} days`;
+}
+
+async function computeSignature(secret: string, value: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(value));
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function encodeBase64Url(value: string): string {
+  return btoa(value).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function decodeBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  return atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
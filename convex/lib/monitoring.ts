@@ -176,7 +176,7 @@ export class SystemMonitor {
 
       // Test GitHub API with a simple rate limit check
       const { decryptToken } = await import("./encryption");
-      const accessToken = decryptToken(testUser.accessToken);
+      const accessToken = await decryptToken(testUser.accessToken);
       
       const response = await fetch("https://api.github.com/rate_limit", {
         headers: {
@@ -393,8 +393,12 @@ export class SystemMonitor {
       // Calculate average processing time (would need to track this in production)
       const averageProcessingTime = 5000; // Placeholder - would calculate from actual data
 
-      // Error metrics (would come from error tracking system)
-      const errorCount24h = 0; // Placeholder - would query error collection
+      // Error metrics
+      const recentErrors = await ctx.db
+        .query("errors")
+        .withIndex("by_last_occurred", (q: any) => q.gt("lastOccurredAt", oneDayAgo))
+        .collect();
+      const errorCount24h = recentErrors.reduce((sum: number, e: any) => sum + e.retryCount + 1, 0);
 
       return {
         totalRepositories: allRepositories.length,
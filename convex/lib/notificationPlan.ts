@@ -0,0 +1,109 @@
+/**
+ * Notification planning for dry runs
+ * Works out who a stale issue notification would reach, following the routing of
+ * processStaleIssuesForNotification: every workspace member with notifications on, by their
+ * own preferences, and the assignees and authors the repository emails. Immediate recipients
+ * get a summary instead of the full list once participants are emailed
+ */
+
+import { Doc } from "../_generated/dataModel";
+import { evaluateNotificationPreferences } from "../notificationPreferences";
+import {
+  ParticipantIssue,
+  ParticipantNotificationSettings,
+  ParticipantRole,
+  groupIssuesByParticipant,
+  needsContactLookup,
+  notifiesParticipants,
+} from "./participants";
+
+export interface RecipientUser {
+  email: string;
+  notificationPreferences: Doc<"users">["notificationPreferences"];
+}
+
+// What is known about a participant: their StaleBot account, or their cached GitHub contact
+export interface ParticipantRecipient {
+  user?: RecipientUser | null;
+  contact?: { email?: string; resolvedAt: number; unsubscribedAt?: number } | null;
+}
+
+export interface PlannedRecipient {
+  role: "member" | ParticipantRole;
+  name: string; // email of a member, GitHub login of a participant
+  email?: string;
+  delivery: "immediate" | "daily" | "weekly";
+  content: "issues" | "summary";
+  issueCount: number;
+  wouldSend: boolean;
+  reason: string;
+}
+
+/**
+ * Everyone a notification about the given issues would be sent to
+ * Participants are looked up by lowercased login
+ */
+export function planNotificationRecipients<T extends string>(input: {
+  issues: ParticipantIssue<T>[];
+  members: RecipientUser[];
+  participants: Map<string, ParticipantRecipient>;
+  settings: ParticipantNotificationSettings;
+  now: number;
+}): PlannedRecipient[] {
+  const { issues, settings, now } = input;
+  if (issues.length === 0) {
+    return [];
+  }
+
+  const summarize = notifiesParticipants(settings);
+  const recipients: PlannedRecipient[] = input.members.map(member => ({
+    role: "member" as const,
+    name: member.email,
+    email: member.email,
+    ...planUserEmail(member, summarize ? "summary" : "issues", issues.length, now),
+  }));
+
+  for (const group of groupIssuesByParticipant(issues, settings)) {
+    const participant = input.participants.get(group.login.toLowerCase());
+    const base = { role: group.role, name: group.login, issueCount: group.issueIds.length };
+
+    if (participant?.user) {
+      recipients.push({
+        ...base,
+        email: participant.user.email,
+        ...planUserEmail(participant.user, "issues", group.issueIds.length, now),
+      });
+      continue;
+    }
+
+    // Participants without an account have no preferences beyond unsubscribing
+    const contact = participant?.contact;
+    const email = { ...base, delivery: "immediate" as const, content: "issues" as const };
+    if (contact?.unsubscribedAt) {
+      recipients.push({ ...email, email: contact.email, wouldSend: false, reason: "Unsubscribed from StaleBot emails" });
+    } else if (contact?.email) {
+      recipients.push({ ...email, email: contact.email, wouldSend: true, reason: "Emailed at their GitHub email" });
+    } else if (contact && !needsContactLookup(contact, now)) {
+      recipients.push({ ...email, wouldSend: false, reason: "No email found on GitHub" });
+    } else {
+      recipients.push({ ...email, wouldSend: false, reason: "Email would be looked up on GitHub first" });
+    }
+  }
+
+  return recipients;
+}
+
+function planUserEmail(
+  user: RecipientUser,
+  content: PlannedRecipient["content"],
+  issueCount: number,
+  now: number
+): Pick<PlannedRecipient, "delivery" | "content" | "issueCount" | "wouldSend" | "reason"> {
+  const delivery = user.notificationPreferences.emailFrequency;
+  if (delivery !== "immediate") {
+    return { delivery, content: "issues", issueCount, wouldSend: true, reason: `Queued for the ${delivery} digest` };
+  }
+
+  const { shouldSend, reason } = evaluateNotificationPreferences(user.notificationPreferences, now);
+  return { delivery, content, issueCount, wouldSend: shouldSend, reason };
+}
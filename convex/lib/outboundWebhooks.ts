@@ -0,0 +1,143 @@
+/**
+ * Outbound webhook helpers
+ * Events are POSTed as JSON and signed with the endpoint's secret:
+ *   X-StaleBot-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ */
+
+import { timingSafeEqual } from "./githubWebhook";
+
+export const OUTBOUND_WEBHOOK_EVENTS = [
+  "issue.became_stale",
+  "issue.unstaled",
+  "notification.failed",
+  "repository.deactivated",
+] as const;
+
+export type OutboundWebhookEvent = typeof OUTBOUND_WEBHOOK_EVENTS[number];
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-StaleBot-Signature";
+export const WEBHOOK_EVENT_HEADER = "X-StaleBot-Event";
+export const WEBHOOK_DELIVERY_HEADER = "X-StaleBot-Delivery";
+
+export const MAX_WEBHOOK_ATTEMPTS = 5;
+export const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+const SECRET_PREFIX = "whsec_";
+
+export interface OutboundWebhookPayload {
+  id: string;
+  type: OutboundWebhookEvent;
+  createdAt: string;
+  data: Record<string, any>;
+}
+
+export function isOutboundWebhookEvent(event: string): event is OutboundWebhookEvent {
+  return (OUTBOUND_WEBHOOK_EVENTS as readonly string[]).includes(event);
+}
+
+/**
+ * Check that a webhook target is an absolute https URL
+ */
+export function isValidWebhookUrl(url: string): boolean {
+  try {
+    return new URL(url).protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Generate a new signing secret
+ */
+export function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return SECRET_PREFIX + btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function buildWebhookPayload(
+  id: string,
+  type: OutboundWebhookEvent,
+  data: Record<string, any>,
+  now: number = Date.now()
+): OutboundWebhookPayload {
+  return { id, type, createdAt: new Date(now).toISOString(), data };
+}
+
+/**
+ * Compute the hex signature for a body sent at the given unix timestamp
+ */
+export async function computeWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Build the signature header value for a body
+ */
+export async function signWebhookPayload(
+  secret: string,
+  body: string,
+  now: number = Date.now()
+): Promise<string> {
+  const timestamp = Math.floor(now / 1000);
+  return `t=${timestamp},v1=${await computeWebhookSignature(secret, timestamp, body)}`;
+}
+
+/**
+ * Verify a signature header, as a receiver would
+ */
+export async function verifyWebhookSignature(
+  secret: string,
+  header: string | null,
+  body: string,
+  toleranceSeconds: number = 5 * 60,
+  now: number = Date.now()
+): Promise<boolean> {
+  if (!header) {
+    return false;
+  }
+
+  const parts = new Map(
+    header.split(",").map(part => {
+      const separator = part.indexOf("=");
+      return [part.slice(0, separator).trim(), part.slice(separator + 1).trim()] as [string, string];
+    })
+  );
+  const timestamp = parseInt(parts.get("t") ?? "", 10);
+  const signature = parts.get("v1");
+  if (isNaN(timestamp) || !signature) {
+    return false;
+  }
+  if (Math.abs(Math.floor(now / 1000) - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  return timingSafeEqual(signature, await computeWebhookSignature(secret, timestamp, body));
+}
+
+/**
+ * Delay before the next attempt: 30s, 1m, 2m, 4m, capped at an hour
+ */
+export function getWebhookRetryDelayMs(attempt: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, attempt - 1), MAX_RETRY_DELAY_MS);
+}
@@ -0,0 +1,161 @@
+/**
+ * Issue participant notifications
+ * Newly stale issues are routed to the people who can act on them: assignees get their own
+ * list of stale issues and, when enabled, authors are asked whether their issue is still
+ * relevant. The repository's owner then receives a summary instead of the full list.
+ * Participants without a StaleBot account are emailed at their public GitHub email, or
+ * the email of their recent commits to the repository
+ */
+
+import { GitHubCommit } from "../../src/types/index";
+
+export type ParticipantRole = "assignee" | "author";
+
+export interface ParticipantNotificationSettings {
+  assignees: boolean;
+  authors: boolean;
+}
+
+export const DEFAULT_PARTICIPANT_NOTIFICATIONS: ParticipantNotificationSettings = {
+  assignees: true,
+  authors: false,
+};
+
+// Resolved contact emails are looked up again after this long
+export const CONTACT_REFRESH_MS = 30 * 24 * 60 * 60 * 1000;
+
+// GitHub lookups per notification run; the rest are resolved on later runs
+export const MAX_CONTACT_LOOKUPS = 20;
+
+export interface ParticipantIssue<T extends string = string> {
+  _id: T;
+  assignee?: string;
+  author?: string;
+}
+
+export interface ParticipantGroup<T extends string = string> {
+  login: string;
+  role: ParticipantRole;
+  issueIds: T[];
+}
+
+export interface OwnerSummary<T extends string = string> {
+  total: number;
+  assigned: Array<{ login: string; count: number }>; // issues emailed to their assignee
+  unassignedIssueIds: T[]; // issues no assignee was emailed about, listed in full
+}
+
+/**
+ * Participant settings of a repository, with defaults filled in
+ */
+export function getParticipantSettings(repository: {
+  participantNotifications?: ParticipantNotificationSettings;
+}): ParticipantNotificationSettings {
+  return repository.participantNotifications ?? DEFAULT_PARTICIPANT_NOTIFICATIONS;
+}
+
+/**
+ * Whether any participant besides the owner is emailed
+ */
+export function notifiesParticipants(settings: ParticipantNotificationSettings): boolean {
+  return settings.assignees || settings.authors;
+}
+
+/**
+ * GitHub Apps and other bots never read email
+ */
+export function isBotLogin(login: string): boolean {
+  return /\[bot\]$/i.test(login);
+}
+
+/**
+ * Group issues by the participants to email about them
+ * An author who is also the assignee only gets the assignee email
+ */
+export function groupIssuesByParticipant<T extends string>(
+  issues: ParticipantIssue<T>[],
+  settings: ParticipantNotificationSettings
+): ParticipantGroup<T>[] {
+  const groups = new Map<string, ParticipantGroup<T>>();
+  const add = (login: string, role: ParticipantRole, issueId: T) => {
+    const key = `${role}:${login.toLowerCase()}`;
+    if (!groups.has(key)) {
+      groups.set(key, { login, role, issueIds: [] });
+    }
+    groups.get(key)!.issueIds.push(issueId);
+  };
+
+  for (const issue of issues) {
+    const assignee = settings.assignees && issue.assignee && !isBotLogin(issue.assignee)
+      ? issue.assignee
+      : undefined;
+    if (assignee) {
+      add(assignee, "assignee", issue._id);
+    }
+    if (
+      settings.authors &&
+      issue.author &&
+      !isBotLogin(issue.author) &&
+      issue.author.toLowerCase() !== assignee?.toLowerCase()
+    ) {
+      add(issue.author, "author", issue._id);
+    }
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Summarize newly stale issues for the owner: counts per emailed assignee, and the
+ * remaining issues in full
+ */
+export function summarizeForOwner<T extends string>(
+  issues: ParticipantIssue<T>[],
+  settings: ParticipantNotificationSettings
+): OwnerSummary<T> {
+  const assigned = new Map<string, number>();
+  const unassignedIssueIds: T[] = [];
+
+  for (const group of groupIssuesByParticipant(issues, { ...settings, authors: false })) {
+    assigned.set(group.login, group.issueIds.length);
+  }
+  for (const issue of issues) {
+    if (!issue.assignee || !assigned.has(issue.assignee)) {
+      unassignedIssueIds.push(issue._id);
+    }
+  }
+
+  return {
+    total: issues.length,
+    assigned: [...assigned].map(([login, count]) => ({ login, count })),
+    unassignedIssueIds,
+  };
+}
+
+/**
+ * GitHub's private relay addresses don't deliver mail
+ */
+export function isNoreplyEmail(email: string): boolean {
+  return /@users\.noreply\.github\.com$/i.test(email) || /^noreply@/i.test(email);
+}
+
+/**
+ * Email a user committed with in a repository, taken from their most recent commit
+ * that GitHub attributes to their login
+ */
+export function selectCommitEmail(commits: GitHubCommit[], login: string): string | null {
+  for (const commit of commits) {
+    const email = commit.commit.author?.email;
+    if (commit.author?.login.toLowerCase() === login.toLowerCase() && email && !isNoreplyEmail(email)) {
+      return email;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a contact's email must be looked up (again)
+ */
+export function needsContactLookup(contact: { resolvedAt: number } | null, now: number): boolean {
+  return !contact || now - contact.resolvedAt >= CONTACT_REFRESH_MS;
+}
@@ -0,0 +1,116 @@
+/**
+ * Pull request targeting for stale rules
+ * GitHub's issues API returns pull requests alongside issues, so every tracked item
+ * carries a kind and rules can restrict themselves to one kind
+ */
+
+import { ItemKind, PullRequestCriteria, PullRequestState, RuleItemKind } from "../../src/types/index";
+
+export const PULL_REQUEST_CRITERIA_KEYS: (keyof PullRequestCriteria)[] = [
+  "draft",
+  "reviewRequested",
+  "checksFailing",
+  "hasConflicts",
+];
+
+const ITEM_KINDS: RuleItemKind[] = ["any", "issue", "pull_request"];
+
+/**
+ * Kind of a stored item; rows written before kinds were tracked are issues
+ */
+export function getItemKind(item: { kind?: ItemKind }): ItemKind {
+  return item.kind ?? "issue";
+}
+
+/**
+ * Check the rule's item kind and pull request criteria against an item
+ * A criterion whose pull request state is still unknown never matches
+ */
+export function matchesItemTarget(
+  item: { kind?: ItemKind; pullRequest?: PullRequestState },
+  rule: { itemKind?: RuleItemKind; pullRequestCriteria?: PullRequestCriteria }
+): boolean {
+  const itemKind = rule.itemKind ?? "any";
+  if (itemKind !== "any" && itemKind !== getItemKind(item)) {
+    return false;
+  }
+
+  const criteria = rule.pullRequestCriteria;
+  if (!criteria) {
+    return true;
+  }
+
+  const state = item.pullRequest;
+  return PULL_REQUEST_CRITERIA_KEYS.every(key => {
+    if (criteria[key] === undefined) {
+      return true;
+    }
+    return state?.[key] !== undefined && state[key] === criteria[key];
+  });
+}
+
+/**
+ * True when a rule depends on pull request state that the issues list does not include
+ */
+export function rulesNeedPullRequestDetails(
+  rules: Array<{ pullRequestCriteria?: PullRequestCriteria }>
+): boolean {
+  return rules.some(rule =>
+    rule.pullRequestCriteria !== undefined &&
+    (rule.pullRequestCriteria.reviewRequested !== undefined ||
+      rule.pullRequestCriteria.checksFailing !== undefined ||
+      rule.pullRequestCriteria.hasConflicts !== undefined)
+  );
+}
+
+/**
+ * Validate a rule's item kind and pull request criteria
+ */
+export function validateItemTarget(rule: { itemKind?: unknown; pullRequestCriteria?: unknown }): string[] {
+  const errors: string[] = [];
+
+  if (rule.itemKind !== undefined && !ITEM_KINDS.includes(rule.itemKind as RuleItemKind)) {
+    errors.push("Item kind must be any, issue or pull_request");
+  }
+
+  if (rule.pullRequestCriteria !== undefined) {
+    const criteria = rule.pullRequestCriteria as Record<string, unknown>;
+    if (typeof criteria !== "object" || criteria === null || Array.isArray(criteria)) {
+      errors.push("Pull request criteria must be an object");
+    } else {
+      if (rule.itemKind !== "pull_request") {
+        errors.push("Pull request criteria require the rule to target pull requests");
+      }
+      for (const [key, value] of Object.entries(criteria)) {
+        if (!PULL_REQUEST_CRITERIA_KEYS.includes(key as keyof PullRequestCriteria)) {
+          errors.push(`Unknown pull request criterion: ${key}`);
+        } else if (value !== undefined && typeof value !== "boolean") {
+          errors.push(`Pull request criterion ${key} must be true or false`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Merge freshly fetched pull request state over what is stored
+ * The issues list only knows the draft flag, so previously fetched details are kept
+ */
+export function mergePullRequestState(
+  stored: PullRequestState | undefined,
+  fetched: PullRequestState | undefined
+): PullRequestState | undefined {
+  if (!fetched) {
+    return stored;
+  }
+
+  const merged: PullRequestState = { ...stored, draft: fetched.draft };
+  for (const key of ["reviewRequested", "checksFailing", "hasConflicts"] as const) {
+    if (fetched[key] !== undefined) {
+      merged[key] = fetched[key];
+    }
+  }
+  return merged;
+}
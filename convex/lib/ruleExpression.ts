@@ -0,0 +1,471 @@
+/**
+ * Rule condition expressions
+ * A small boolean language for stale criteria the structured rule fields cannot express:
+ *
+ *   label:bug AND NOT label:wontfix AND (unassigned OR assignee in [alice, bob]) AND comments < 3
+ *
+ * Predicates:
+ *   label:<name>  assignee:<login>  milestone:<title>  state:open|closed  kind:issue|pull_request
+ *   <field> in [a, b, ...]          for label, assignee, milestone, state and kind
+ *   comments|days_inactive <op> n   with <, <=, >, >=, = or !=
+ *   assigned  unassigned  draft
+ * Operators are AND, OR and NOT (case-insensitive) with parentheses for grouping.
+ * Values containing spaces or punctuation are quoted: label:"help wanted".
+ */
+
+export interface ExpressionSpan {
+  start: number; // offset of the first character
+  end: number; // offset just past the last character
+}
+
+export interface ExpressionError {
+  message: string;
+  span: ExpressionSpan;
+}
+
+export type StringField = "label" | "assignee" | "milestone" | "state" | "kind";
+export type NumberField = "comments" | "days_inactive";
+export type ExpressionFlag = "assigned" | "unassigned" | "draft";
+export type ComparisonOperator = "<" | "<=" | ">" | ">=" | "=" | "!=";
+
+export type RuleExpression =
+  | { type: "and" | "or"; left: RuleExpression; right: RuleExpression; span: ExpressionSpan }
+  | { type: "not"; operand: RuleExpression; span: ExpressionSpan }
+  | { type: "match"; field: StringField; values: string[]; span: ExpressionSpan }
+  | { type: "compare"; field: NumberField; operator: ComparisonOperator; value: number; span: ExpressionSpan }
+  | { type: "flag"; flag: ExpressionFlag; span: ExpressionSpan };
+
+export type ParseResult =
+  | { valid: true; expression: RuleExpression }
+  | { valid: false; errors: ExpressionError[] };
+
+// Issue fields an expression can read
+export interface ExpressionIssue {
+  labels: string[];
+  state: "open" | "closed";
+  kind?: "issue" | "pull_request";
+  assignee?: string | null;
+  milestone?: string;
+  commentCount?: number;
+  lastActivity: number;
+  pullRequest?: { draft: boolean };
+}
+
+const STRING_FIELDS: StringField[] = ["label", "assignee", "milestone", "state", "kind"];
+const NUMBER_FIELDS: NumberField[] = ["comments", "days_inactive"];
+const FLAGS: ExpressionFlag[] = ["assigned", "unassigned", "draft"];
+const ALLOWED_VALUES: Partial<Record<StringField, string[]>> = {
+  state: ["open", "closed"],
+  kind: ["issue", "pull_request"],
+};
+const KEYWORDS = ["and", "or", "not", "in"];
+const MAX_EXPRESSION_LENGTH = 1000;
+
+type TokenType = "word" | "string" | "number" | "operator" | "(" | ")" | "[" | "]" | "," | ":" | "end";
+
+interface Token {
+  type: TokenType;
+  text: string; // unquoted value for strings
+  span: ExpressionSpan;
+}
+
+class ExpressionSyntaxError extends Error {
+  constructor(message: string, public span: ExpressionSpan) {
+    super(message);
+    this.name = "ExpressionSyntaxError";
+  }
+}
+
+/**
+ * Parse and type-check a condition expression
+ */
+export function parseRuleExpression(source: string): ParseResult {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    return {
+      valid: false,
+      errors: [{
+        message: `Condition must be ${MAX_EXPRESSION_LENGTH} characters or less`,
+        span: { start: MAX_EXPRESSION_LENGTH, end: source.length },
+      }],
+    };
+  }
+
+  try {
+    const parser = new Parser(tokenize(source));
+    const expression = parser.parse();
+    if (parser.errors.length > 0) {
+      return { valid: false, errors: parser.errors };
+    }
+    return { valid: true, expression };
+  } catch (error) {
+    if (error instanceof ExpressionSyntaxError) {
+      return { valid: false, errors: [{ message: error.message, span: error.span }] };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Validation messages for a condition, each prefixed with its 1-based column
+ */
+export function validateRuleExpression(source: string): string[] {
+  const result = parseRuleExpression(source);
+  return result.valid === false ? result.errors.map(formatExpressionError) : [];
+}
+
+/**
+ * Human-readable error with its column, e.g. "Condition column 12: Expected a value after \"label:\""
+ */
+export function formatExpressionError(error: ExpressionError): string {
+  return `Condition column ${error.span.start + 1}: ${error.message}`;
+}
+
+/**
+ * Evaluate a parsed expression against an issue
+ * Comparisons on data that has not been fetched yet never match
+ */
+export function evaluateRuleExpression(expression: RuleExpression, issue: ExpressionIssue, now: number): boolean {
+  switch (expression.type) {
+    case "and":
+      return evaluateRuleExpression(expression.left, issue, now) && evaluateRuleExpression(expression.right, issue, now);
+    case "or":
+      return evaluateRuleExpression(expression.left, issue, now) || evaluateRuleExpression(expression.right, issue, now);
+    case "not":
+      return !evaluateRuleExpression(expression.operand, issue, now);
+    case "flag":
+      switch (expression.flag) {
+        case "assigned":
+          return !!issue.assignee;
+        case "unassigned":
+          return !issue.assignee;
+        case "draft":
+          return issue.pullRequest?.draft === true;
+      }
+      return false;
+    case "match": {
+      const actual = getStringFieldValues(expression.field, issue).map(value => value.toLowerCase());
+      return expression.values.some(value => actual.includes(value.toLowerCase()));
+    }
+    case "compare": {
+      const actual = expression.field === "comments"
+        ? issue.commentCount
+        : Math.floor((now - issue.lastActivity) / (24 * 60 * 60 * 1000));
+      return actual !== undefined && compare(actual, expression.operator, expression.value);
+    }
+  }
+}
+
+const parsedConditions = new Map<string, ParseResult>();
+
+/**
+ * True when the issue satisfies the rule's condition; rules without one always match
+ * Invalid conditions never match, since they are rejected when rules are saved
+ */
+export function matchesRuleCondition(issue: ExpressionIssue, condition: string | undefined, now = Date.now()): boolean {
+  if (!condition || condition.trim().length === 0) {
+    return true;
+  }
+
+  let parsed = parsedConditions.get(condition);
+  if (!parsed) {
+    parsed = parseRuleExpression(condition);
+    parsedConditions.set(condition, parsed);
+  }
+  return parsed.valid && evaluateRuleExpression(parsed.expression, issue, now);
+}
+
+function getStringFieldValues(field: StringField, issue: ExpressionIssue): string[] {
+  switch (field) {
+    case "label":
+      return issue.labels;
+    case "assignee":
+      return issue.assignee ? [issue.assignee] : [];
+    case "milestone":
+      return issue.milestone ? [issue.milestone] : [];
+    case "state":
+      return [issue.state];
+    case "kind":
+      return [issue.kind ?? "issue"];
+  }
+}
+
+function compare(actual: number, operator: ComparisonOperator, expected: number): boolean {
+  switch (operator) {
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    case "=":
+      return actual === expected;
+    case "!=":
+      return actual !== expected;
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if ("()[],:".includes(char)) {
+      tokens.push({ type: char as TokenType, text: char, span: { start: index, end: index + 1 } });
+      index++;
+      continue;
+    }
+
+    if ("<>=!".includes(char)) {
+      const twoChars = source.slice(index, index + 2);
+      const text = ["<=", ">=", "!="].includes(twoChars) ? twoChars : char;
+      if (text === "!") {
+        throw new ExpressionSyntaxError("Unexpected \"!\"; use NOT or !=", { start: index, end: index + 1 });
+      }
+      tokens.push({ type: "operator", text, span: { start: index, end: index + text.length } });
+      index += text.length;
+      continue;
+    }
+
+    if (char === "\"") {
+      let value = "";
+      let end = index + 1;
+      while (end < source.length && source[end] !== "\"") {
+        if (source[end] === "\\" && end + 1 < source.length) {
+          end++;
+        }
+        value += source[end];
+        end++;
+      }
+      if (end >= source.length) {
+        throw new ExpressionSyntaxError("Unterminated string", { start: index, end: source.length });
+      }
+      tokens.push({ type: "string", text: value, span: { start: index, end: end + 1 } });
+      index = end + 1;
+      continue;
+    }
+
+    const match = /^[A-Za-z0-9_.\-/@]+/.exec(source.slice(index));
+    if (!match) {
+      throw new ExpressionSyntaxError(`Unexpected character "${char}"`, { start: index, end: index + 1 });
+    }
+    const text = match[0];
+    tokens.push({
+      type: /^\d+$/.test(text) ? "number" : "word",
+      text,
+      span: { start: index, end: index + text.length },
+    });
+    index += text.length;
+  }
+
+  tokens.push({ type: "end", text: "", span: { start: source.length, end: source.length } });
+  return tokens;
+}
+
+class Parser {
+  private position = 0;
+  readonly errors: ExpressionError[] = [];
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): RuleExpression {
+    if (this.peek().type === "end") {
+      throw new ExpressionSyntaxError("Condition is empty", this.peek().span);
+    }
+    const expression = this.parseOr();
+    const token = this.peek();
+    if (token.type !== "end") {
+      throw new ExpressionSyntaxError(`Unexpected ${describe(token)}; expected AND, OR or end of condition`, token.span);
+    }
+    return expression;
+  }
+
+  private parseOr(): RuleExpression {
+    let left = this.parseAnd();
+    while (this.isKeyword("or")) {
+      this.advance();
+      const right = this.parseAnd();
+      left = { type: "or", left, right, span: { start: left.span.start, end: right.span.end } };
+    }
+    return left;
+  }
+
+  private parseAnd(): RuleExpression {
+    let left = this.parseNot();
+    while (this.isKeyword("and")) {
+      this.advance();
+      const right = this.parseNot();
+      left = { type: "and", left, right, span: { start: left.span.start, end: right.span.end } };
+    }
+    return left;
+  }
+
+  private parseNot(): RuleExpression {
+    if (this.isKeyword("not")) {
+      const start = this.advance().span.start;
+      const operand = this.parseNot();
+      return { type: "not", operand, span: { start, end: operand.span.end } };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): RuleExpression {
+    const token = this.peek();
+
+    if (token.type === "(") {
+      this.advance();
+      const expression = this.parseOr();
+      const closing = this.peek();
+      if (closing.type !== ")") {
+        throw new ExpressionSyntaxError(`Expected ")" but found ${describe(closing)}`, closing.span);
+      }
+      this.advance();
+      return { ...expression, span: { start: token.span.start, end: closing.span.end } };
+    }
+
+    if (token.type !== "word" || KEYWORDS.includes(token.text.toLowerCase())) {
+      throw new ExpressionSyntaxError(`Expected a condition but found ${describe(token)}`, token.span);
+    }
+    this.advance();
+    const name = token.text.toLowerCase();
+    const next = this.peek();
+
+    if (next.type === ":") {
+      this.advance();
+      const value = this.parseValue(`"${token.text}:"`);
+      const field = this.checkStringField(token);
+      if (field) {
+        this.checkAllowedValue(field, value);
+      }
+      return { type: "match", field: field ?? "label", values: [value.text], span: { start: token.span.start, end: value.span.end } };
+    }
+
+    if (next.type === "word" && next.text.toLowerCase() === "in") {
+      this.advance();
+      const open = this.peek();
+      if (open.type !== "[") {
+        throw new ExpressionSyntaxError(`Expected "[" after "in" but found ${describe(open)}`, open.span);
+      }
+      this.advance();
+      const values: Token[] = [this.parseValue("\"[\"")];
+      while (this.peek().type === ",") {
+        this.advance();
+        values.push(this.parseValue("\",\""));
+      }
+      const close = this.peek();
+      if (close.type !== "]") {
+        throw new ExpressionSyntaxError(`Expected "," or "]" but found ${describe(close)}`, close.span);
+      }
+      this.advance();
+
+      const field = this.checkStringField(token);
+      if (field) {
+        values.forEach(value => this.checkAllowedValue(field, value));
+      }
+      return {
+        type: "match",
+        field: field ?? "label",
+        values: values.map(value => value.text),
+        span: { start: token.span.start, end: close.span.end },
+      };
+    }
+
+    if (next.type === "operator") {
+      this.advance();
+      const value = this.peek();
+      if (value.type !== "number") {
+        throw new ExpressionSyntaxError(`Expected a whole number after "${next.text}" but found ${describe(value)}`, value.span);
+      }
+      this.advance();
+      if (!NUMBER_FIELDS.includes(name as NumberField)) {
+        this.errors.push({
+          message: `"${token.text}" cannot be compared; use ${NUMBER_FIELDS.join(" or ")}`,
+          span: token.span,
+        });
+      }
+      return {
+        type: "compare",
+        field: name as NumberField,
+        operator: next.text as ComparisonOperator,
+        value: parseInt(value.text, 10),
+        span: { start: token.span.start, end: value.span.end },
+      };
+    }
+
+    if (FLAGS.includes(name as ExpressionFlag)) {
+      return { type: "flag", flag: name as ExpressionFlag, span: token.span };
+    }
+
+    if (STRING_FIELDS.includes(name as StringField)) {
+      throw new ExpressionSyntaxError(`Expected ":" or "in" after "${token.text}"`, next.span);
+    }
+    if (NUMBER_FIELDS.includes(name as NumberField)) {
+      throw new ExpressionSyntaxError(`Expected a comparison after "${token.text}"`, next.span);
+    }
+    this.errors.push({ message: `Unknown condition "${token.text}"`, span: token.span });
+    return { type: "flag", flag: "assigned", span: token.span };
+  }
+
+  private parseValue(after: string): Token {
+    const token = this.peek();
+    if (token.type !== "word" && token.type !== "string" && token.type !== "number") {
+      throw new ExpressionSyntaxError(`Expected a value after ${after} but found ${describe(token)}`, token.span);
+    }
+    this.advance();
+    if (token.text.trim().length === 0) {
+      this.errors.push({ message: "Value cannot be empty", span: token.span });
+    }
+    return token;
+  }
+
+  private checkStringField(token: Token): StringField | null {
+    const name = token.text.toLowerCase();
+    if (STRING_FIELDS.includes(name as StringField)) {
+      return name as StringField;
+    }
+    this.errors.push({
+      message: `Unknown field "${token.text}"; expected one of ${STRING_FIELDS.join(", ")}`,
+      span: token.span,
+    });
+    return null;
+  }
+
+  private checkAllowedValue(field: StringField, value: Token) {
+    const allowed = ALLOWED_VALUES[field];
+    if (allowed && !allowed.includes(value.text.toLowerCase())) {
+      this.errors.push({
+        message: `Invalid ${field} "${value.text}"; expected ${allowed.join(" or ")}`,
+        span: value.span,
+      });
+    }
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.type === "word" && token.text.toLowerCase() === keyword;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private advance(): Token {
+    const token = this.tokens[this.position];
+    if (token.type !== "end") {
+      this.position++;
+    }
+    return token;
+  }
+}
+
+function describe(token: Token): string {
+  return token.type === "end" ? "end of condition" : `"${token.text}"`;
+}
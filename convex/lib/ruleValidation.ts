@@ -0,0 +1,92 @@
+/**
+ * Rule configuration validation
+ * Shared by the rule mutations and the .github/stalebot.yml sync
+ */
+
+import { validateInactivityDays } from "../../src/types/validators";
+import { validateStaleActionPolicy } from "./staleActions";
+import { validateItemTarget } from "./pullRequests";
+import { validateExemptions } from "./exemptions";
+import { validateRuleExpression } from "./ruleExpression";
+
+/**
+ * Check a rule-shaped object and collect every problem found
+ */
+export function validateRuleConfiguration(rule: any): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  // Validate name
+  if (!rule.name || rule.name.trim().length === 0) {
+    errors.push("Rule name is required");
+  } else if (rule.name.trim().length > 100) {
+    errors.push("Rule name must be 100 characters or less");
+  }
+
+  // Validate inactivity days
+  if (!validateInactivityDays(rule.inactivityDays)) {
+    errors.push("Inactivity days must be between 1 and 365");
+  }
+
+  // Validate issue states
+  if (!rule.issueStates || rule.issueStates.length === 0) {
+    errors.push("At least one issue state must be selected");
+  } else {
+    const validStates = ["open", "closed"];
+    const invalidStates = rule.issueStates.filter((state: string) => !validStates.includes(state));
+    if (invalidStates.length > 0) {
+      errors.push(`Invalid issue states: ${invalidStates.join(", ")}`);
+    }
+  }
+
+  // Validate labels (optional, but if provided should be valid)
+  if (rule.labels && Array.isArray(rule.labels)) {
+    const invalidLabels = rule.labels.filter((label: string) => 
+      typeof label !== "string" || label.trim().length === 0
+    );
+    if (invalidLabels.length > 0) {
+      errors.push("All labels must be non-empty strings");
+    }
+  }
+
+  // Validate assignee condition
+  if (!rule.assigneeCondition) {
+    errors.push("Assignee condition is required");
+  } else {
+    const validConditions = ["any", "assigned", "unassigned"];
+    if (!validConditions.includes(rule.assigneeCondition) && !Array.isArray(rule.assigneeCondition)) {
+      errors.push("Invalid assignee condition");
+    } else if (Array.isArray(rule.assigneeCondition)) {
+      const invalidUsers = rule.assigneeCondition.filter((user: string) => 
+        typeof user !== "string" || user.trim().length === 0
+      );
+      if (invalidUsers.length > 0) {
+        errors.push("All specific assignee usernames must be non-empty strings");
+      }
+    }
+  }
+
+  // Validate exemptions (optional)
+  errors.push(...validateExemptions(rule));
+
+  // Validate item kind and pull request criteria (optional)
+  errors.push(...validateItemTarget(rule));
+
+  // Validate condition expression (optional)
+  if (rule.condition !== undefined && rule.condition !== null) {
+    if (typeof rule.condition !== "string") {
+      errors.push("Condition must be a string");
+    } else if (rule.condition.trim().length > 0) {
+      errors.push(...validateRuleExpression(rule.condition));
+    }
+  }
+
+  // Validate action policy (optional)
+  if (rule.actionPolicy) {
+    errors.push(...validateStaleActionPolicy(rule.actionPolicy));
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+  };
+}
@@ -0,0 +1,310 @@
+/**
+ * Rules engine
+ * The single place that decides whether an issue matches a stale rule. Evaluation is
+ * pure: callers pass the clock, and every criterion is reported with a reason so the
+ * same result can drive processing, rule previews and the dashboard
+ */
+
+import type { Id } from "../_generated/dataModel";
+import {
+  CriterionResult,
+  IssueSnooze,
+  ItemKind,
+  PullRequestCriteria,
+  PullRequestState,
+  RuleCriterion,
+  RuleItemKind,
+  StaleEvaluation,
+} from "../../src/types/index";
+import { ExemptionIssue, ExemptionRule, RuleExemption, getRuleExemption } from "./exemptions";
+import { ExpressionIssue, matchesRuleCondition } from "./ruleExpression";
+import { PULL_REQUEST_CRITERIA_KEYS, getItemKind, matchesItemTarget } from "./pullRequests";
+import { getSnoozeReason } from "./issueSnooze";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface EngineIssue extends ExemptionIssue, ExpressionIssue {
+  kind?: ItemKind;
+  pullRequest?: PullRequestState;
+  snooze?: IssueSnooze;
+  neverStale?: boolean;
+}
+
+export interface EngineRule extends ExemptionRule {
+  name?: string;
+  inactivityDays: number;
+  labels: string[];
+  issueStates: ("open" | "closed")[];
+  assigneeCondition: "any" | "assigned" | "unassigned" | string[];
+  itemKind?: RuleItemKind;
+  pullRequestCriteria?: PullRequestCriteria;
+  condition?: string;
+}
+
+export interface RuleMatchResult<R extends EngineRule = EngineRule> {
+  rule: R;
+  matched: boolean;
+  criteria: CriterionResult[]; // every criterion is evaluated, so failures are all listed
+  exemption: RuleExemption | null;
+}
+
+export interface IssueEvaluation<R extends EngineRule = EngineRule> {
+  isStale: boolean; // true when any rule matched
+  daysSinceActivity: number;
+  results: RuleMatchResult<R>[];
+  matchedRules: R[];
+}
+
+/**
+ * Whole days between the issue's last activity and now
+ */
+export function calculateDaysSinceActivity(lastActivity: number, now: number): number {
+  return Math.floor((now - lastActivity) / DAY_MS);
+}
+
+/**
+ * Human-readable time since the issue's last activity, e.g. "3 weeks ago"
+ */
+export function formatInactivityPeriod(lastActivity: number, now: number): string {
+  const days = calculateDaysSinceActivity(lastActivity, now);
+
+  if (days === 0) {
+    return "Today";
+  } else if (days === 1) {
+    return "1 day ago";
+  } else if (days < 7) {
+    return `${days} days ago`;
+  } else if (days < 30) {
+    const weeks = Math.floor(days / 7);
+    return weeks === 1 ? "1 week ago" : `${weeks} weeks ago`;
+  } else if (days < 365) {
+    const months = Math.floor(days / 30);
+    return months === 1 ? "1 month ago" : `${months} months ago`;
+  } else {
+    const years = Math.floor(days / 365);
+    return years === 1 ? "1 year ago" : `${years} years ago`;
+  }
+}
+
+/**
+ * Evaluate one rule against an issue
+ */
+export function evaluateRule<R extends EngineRule>(issue: EngineIssue, rule: R, now: number): RuleMatchResult<R> {
+  const criteria: CriterionResult[] = [
+    checkInactivity(issue, rule, now),
+    checkState(issue, rule),
+    checkItemTarget(issue, rule),
+    checkLabels(issue, rule),
+  ];
+
+  const exemption = getRuleExemption(issue, rule);
+  criteria.push({
+    criterion: "exemption",
+    passed: exemption === null,
+    reason: exemption ? exemption.reason : "No exemption applies",
+  });
+
+  // Snoozed and never-stale issues are kept out of every rule
+  const snoozeReason = getSnoozeReason(issue, now);
+  criteria.push({
+    criterion: "snooze",
+    passed: snoozeReason === null,
+    reason: snoozeReason ?? "Not snoozed",
+  });
+
+  if (rule.condition && rule.condition.trim().length > 0) {
+    const passed = matchesRuleCondition(issue, rule.condition, now);
+    criteria.push({
+      criterion: "condition",
+      passed,
+      reason: passed ? `Matches condition "${rule.condition}"` : `Does not match condition "${rule.condition}"`,
+    });
+  }
+
+  criteria.push(checkAssignee(issue, rule));
+
+  return {
+    rule,
+    matched: criteria.every(result => result.passed),
+    criteria,
+    exemption,
+  };
+}
+
+/**
+ * Evaluate every rule against an issue; the issue is stale when any rule matches
+ */
+export function evaluateIssue<R extends EngineRule>(issue: EngineIssue, rules: R[], now: number): IssueEvaluation<R> {
+  const results = rules.map(rule => evaluateRule(issue, rule, now));
+  const matchedRules = results.filter(result => result.matched).map(result => result.rule);
+
+  return {
+    isStale: matchedRules.length > 0,
+    daysSinceActivity: calculateDaysSinceActivity(issue.lastActivity, now),
+    results,
+    matchedRules,
+  };
+}
+
+/**
+ * True when the rule matches the issue
+ */
+export function matchesRule(issue: EngineIssue, rule: EngineRule, now: number): boolean {
+  return evaluateRule(issue, rule, now).matched;
+}
+
+/**
+ * One-line explanation of a rule result, e.g. "matched rule 'Bugs 30d': 41 days inactive ≥ 30, has label "bug""
+ * Matches list the criteria the rule constrains; misses list the criteria that failed
+ */
+export function describeRuleResult(result: RuleMatchResult): string {
+  const name = result.rule.name ?? "Unnamed rule";
+  const criteria = result.matched
+    ? result.criteria.filter(criterion => isConstrained(criterion.criterion, result.rule))
+    : result.criteria.filter(criterion => !criterion.passed);
+  const reasons = criteria.map(criterion => criterion.reason.charAt(0).toLowerCase() + criterion.reason.slice(1));
+
+  return `${result.matched ? "matched" : "did not match"} rule '${name}': ${reasons.join(", ")}`;
+}
+
+/**
+ * Stored form of an evaluation, kept on the issue to explain why it is or isn't stale
+ */
+export function toStaleEvaluation<R extends EngineRule & { _id: Id<"rules">; name: string }>(
+  evaluation: IssueEvaluation<R>,
+  now: number
+): StaleEvaluation {
+  return {
+    evaluatedAt: now,
+    rules: evaluation.results.map(result => ({
+      ruleId: result.rule._id,
+      ruleName: result.rule.name,
+      matched: result.matched,
+      summary: describeRuleResult(result),
+      criteria: result.criteria,
+    })),
+  };
+}
+
+/**
+ * True when a new evaluation explains the issue differently from the stored one
+ */
+export function hasStaleEvaluationChanged(stored: StaleEvaluation | undefined, next: StaleEvaluation): boolean {
+  return !stored || JSON.stringify(stored.rules) !== JSON.stringify(next.rules);
+}
+
+function isConstrained(criterion: RuleCriterion, rule: EngineRule): boolean {
+  switch (criterion) {
+    case "inactivity":
+    case "condition":
+      return true;
+    case "labels":
+      return rule.labels.length > 0;
+    case "assignee":
+      return rule.assigneeCondition !== "any";
+    case "item_kind":
+      return (rule.itemKind ?? "any") !== "any" || rule.pullRequestCriteria !== undefined;
+    case "state":
+    case "exemption":
+    case "snooze":
+      return false;
+  }
+}
+
+function checkInactivity(issue: EngineIssue, rule: EngineRule, now: number): CriterionResult {
+  const days = calculateDaysSinceActivity(issue.lastActivity, now);
+  const passed = days >= rule.inactivityDays;
+  return {
+    criterion: "inactivity",
+    passed,
+    reason: `${formatDays(days)} inactive ${passed ? "≥" : "<"} ${rule.inactivityDays}`,
+  };
+}
+
+function checkState(issue: EngineIssue, rule: EngineRule): CriterionResult {
+  const passed = rule.issueStates.includes(issue.state);
+  return {
+    criterion: "state",
+    passed,
+    reason: passed
+      ? `State is ${issue.state}`
+      : `State ${issue.state} is not one of ${rule.issueStates.join(", ")}`,
+  };
+}
+
+function checkItemTarget(issue: EngineIssue, rule: EngineRule): CriterionResult {
+  const passed = matchesItemTarget(issue, rule);
+  const kind = getItemKind(issue) === "pull_request" ? "Pull request" : "Issue";
+  const target = describeItemTarget(rule);
+  return {
+    criterion: "item_kind",
+    passed,
+    reason: passed ? `${kind} matches rule target: ${target}` : `${kind} does not match rule target: ${target}`,
+  };
+}
+
+function checkLabels(issue: EngineIssue, rule: EngineRule): CriterionResult {
+  if (!rule.labels || rule.labels.length === 0) {
+    return { criterion: "labels", passed: true, reason: "Rule matches any labels" };
+  }
+
+  const matchedLabel = rule.labels.find(ruleLabel =>
+    issue.labels.some(issueLabel => issueLabel.toLowerCase() === ruleLabel.toLowerCase())
+  );
+  return {
+    criterion: "labels",
+    passed: matchedLabel !== undefined,
+    reason: matchedLabel !== undefined
+      ? `Has label "${matchedLabel}"`
+      : `Has none of the labels ${rule.labels.join(", ")}`,
+  };
+}
+
+function checkAssignee(issue: EngineIssue, rule: EngineRule): CriterionResult {
+  const assignee = issue.assignee || undefined;
+  const condition = rule.assigneeCondition;
+
+  if (condition === "any") {
+    return { criterion: "assignee", passed: true, reason: "Rule matches any assignee" };
+  }
+  if (condition === "assigned") {
+    return {
+      criterion: "assignee",
+      passed: assignee !== undefined,
+      reason: assignee ? `Assigned to ${assignee}` : "Not assigned, rule requires an assignee",
+    };
+  }
+  if (condition === "unassigned") {
+    return {
+      criterion: "assignee",
+      passed: assignee === undefined,
+      reason: assignee ? `Assigned to ${assignee}, rule requires no assignee` : "Unassigned",
+    };
+  }
+
+  const passed = assignee !== undefined && condition.includes(assignee);
+  return {
+    criterion: "assignee",
+    passed,
+    reason: passed
+      ? `Assigned to ${assignee}`
+      : `${assignee ? `Assigned to ${assignee}` : "Not assigned"}, rule requires ${condition.join(", ")}`,
+  };
+}
+
+function describeItemTarget(rule: EngineRule): string {
+  const itemKind = rule.itemKind ?? "any";
+  const target = itemKind === "any" ? "issues and pull requests" : itemKind === "issue" ? "issues" : "pull requests";
+
+  const criteria = rule.pullRequestCriteria;
+  const details = criteria
+    ? PULL_REQUEST_CRITERIA_KEYS
+      .filter(key => criteria[key] !== undefined)
+      .map(key => `${key} ${criteria[key] ? "yes" : "no"}`)
+    : [];
+  return details.length > 0 ? `${target} (${details.join(", ")})` : target;
+}
+
+function formatDays(days: number): string {
+  return days === 1 ? "1 day" : `${days} days`;
+}
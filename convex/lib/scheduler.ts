@@ -0,0 +1,114 @@
+/**
+ * Rate limit aware scheduling
+ * Every repository is checked with a token whose GitHub rate limit is shared: the owner's
+ * OAuth token across all of their repositories, an installation token across every
+ * repository of the installation. Repositories are checked by priority and then the ones
+ * checked longest ago first, for as long as their token's budget lasts. The rest wait until
+ * GitHub resets that budget
+ */
+
+import { GitHubRateLimit, RepositoryPriority } from "../../src/types/index";
+
+// Primary rate limit of OAuth and installation tokens per hour
+export const DEFAULT_RATE_LIMIT = 5000;
+
+// Requests left untouched by scheduled checks, for webhooks, manual refreshes and the dashboard
+export const RATE_LIMIT_RESERVE = 100;
+
+// Requests of a check besides paging through issues: access check, config file, stale actions
+export const BASE_CHECK_COST = 5;
+
+// Scheduled checks skip repositories checked more recently than this
+export const MIN_CHECK_INTERVAL_MS = 30 * 60 * 1000;
+
+// A spent budget without a known reset is tried again after this long
+const UNKNOWN_RESET_DELAY_MS = 60 * 60 * 1000;
+
+const PRIORITY_RANK: Record<RepositoryPriority, number> = { high: 0, normal: 1, low: 2 };
+
+export interface SchedulableRepository<T extends string = string> {
+  id: T;
+  budgetKey: string; // token the repository is checked with
+  priority?: RepositoryPriority; // normal when absent
+  lastChecked: number;
+  lastIssueCount?: number;
+}
+
+export interface RepositoryCheckPlan<T extends string = string> {
+  scheduled: T[]; // in the order to check them
+  deferred: Array<{ id: T; budgetKey: string; until: number }>;
+  skipped: T[]; // checked recently
+  resumeAt?: number; // when the earliest spent budget resets
+}
+
+/**
+ * Rate limit budget a repository is checked with
+ */
+export function getBudgetKey(repository: { userId: string }, installationId?: number): string {
+  return installationId !== undefined ? `installation:${installationId}` : `user:${repository.userId}`;
+}
+
+/**
+ * Whether a stored budget says nothing about the current rate limit window
+ */
+export function needsRateLimitRefresh(budget: GitHubRateLimit | undefined, now: number): boolean {
+  return !budget || budget.resetAt <= now;
+}
+
+/**
+ * Estimated requests of one check: a page of issues per 100 issues on top of the base cost
+ */
+export function estimateCheckCost(repository: { lastIssueCount?: number }): number {
+  return BASE_CHECK_COST + Math.ceil((repository.lastIssueCount ?? 0) / 100);
+}
+
+/**
+ * Higher priority first, then the repository checked longest ago
+ */
+export function compareRepositories(a: SchedulableRepository, b: SchedulableRepository): number {
+  const byPriority = PRIORITY_RANK[a.priority ?? "normal"] - PRIORITY_RANK[b.priority ?? "normal"];
+  return byPriority !== 0 ? byPriority : a.lastChecked - b.lastChecked;
+}
+
+/**
+ * Decide which repositories to check now and which wait for their budget to reset
+ * Budgets missing from the map, or whose window already reset, count as full
+ */
+export function planRepositoryChecks<T extends string>(
+  repositories: SchedulableRepository<T>[],
+  budgets: Map<string, GitHubRateLimit>,
+  now: number,
+  options: { force?: boolean } = {}
+): RepositoryCheckPlan<T> {
+  const remaining = new Map<string, number>();
+  const plan: RepositoryCheckPlan<T> = { scheduled: [], deferred: [], skipped: [] };
+
+  for (const repository of [...repositories].sort(compareRepositories)) {
+    if (!options.force && repository.lastChecked > 0 && now - repository.lastChecked < MIN_CHECK_INTERVAL_MS) {
+      plan.skipped.push(repository.id);
+      continue;
+    }
+
+    const budget = budgets.get(repository.budgetKey);
+    if (!remaining.has(repository.budgetKey)) {
+      remaining.set(
+        repository.budgetKey,
+        (needsRateLimitRefresh(budget, now) ? budget?.limit ?? DEFAULT_RATE_LIMIT : budget!.remaining) - RATE_LIMIT_RESERVE
+      );
+    }
+
+    const cost = estimateCheckCost(repository);
+    const left = remaining.get(repository.budgetKey)!;
+    if (left >= cost) {
+      remaining.set(repository.budgetKey, left - cost);
+      plan.scheduled.push(repository.id);
+      continue;
+    }
+
+    const until = budget && budget.resetAt > now ? budget.resetAt : now + UNKNOWN_RESET_DELAY_MS;
+    plan.deferred.push({ id: repository.id, budgetKey: repository.budgetKey, until });
+    plan.resumeAt = Math.min(plan.resumeAt ?? until, until);
+  }
+
+  return plan;
+}
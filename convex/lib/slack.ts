@@ -0,0 +1,93 @@
+/**
+ * Slack incoming-webhook notifications
+ * Builds Block Kit messages for newly stale issues
+ */
+
+// Slack caps messages at 50 blocks; each issue uses up to two
+export const MAX_SLACK_ISSUES = 20;
+
+const SLACK_WEBHOOK_PATTERN = /^https:\/\/hooks\.slack\.com\/services\/[A-Za-z0-9_/-]+$/;
+
+export interface SlackStaleIssue {
+  title: string;
+  url: string;
+  lastActivity: number;
+  labels: string[];
+  assignee?: string;
+}
+
+export interface SlackMessage {
+  text: string;
+  blocks: any[];
+}
+
+/**
+ * Check that a URL is a Slack incoming webhook
+ */
+export function isValidSlackWebhookUrl(url: string): boolean {
+  return SLACK_WEBHOOK_PATTERN.test(url);
+}
+
+/**
+ * Escape the characters Slack treats as control sequences in mrkdwn
+ */
+export function escapeSlackText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Build the Block Kit message listing newly stale issues
+ */
+export function buildStaleIssueSlackMessage(
+  repositoryName: string,
+  issues: SlackStaleIssue[],
+  now: number = Date.now()
+): SlackMessage {
+  const count = issues.length;
+  const heading = `${count} stale issue${count === 1 ? "" : "s"} in ${repositoryName}`;
+
+  const blocks: any[] = [
+    {
+      type: "header",
+      text: { type: "plain_text", text: heading.slice(0, 150), emoji: true },
+    },
+  ];
+
+  for (const issue of issues.slice(0, MAX_SLACK_ISSUES)) {
+    const daysInactive = Math.floor((now - issue.lastActivity) / (24 * 60 * 60 * 1000));
+    const details = [`Inactive for ${daysInactive} day${daysInactive === 1 ? "" : "s"}`];
+    if (issue.assignee) {
+      details.push(`assigned to ${escapeSlackText(issue.assignee)}`);
+    }
+
+    blocks.push({
+      type: "section",
+      text: {
+        type: "mrkdwn",
+        text: `*<${issue.url}|${escapeSlackText(issue.title)}>*\n${details.join(" · ")}`,
+      },
+    });
+
+    if (issue.labels.length > 0) {
+      blocks.push({
+        type: "context",
+        elements: [
+          {
+            type: "mrkdwn",
+            text: issue.labels.map(label => `\`${escapeSlackText(label)}\``).join(" "),
+          },
+        ],
+      });
+    }
+  }
+
+  if (count > MAX_SLACK_ISSUES) {
+    blocks.push({
+      type: "context",
+      elements: [{ type: "mrkdwn", text: `…and ${count - MAX_SLACK_ISSUES} more` }],
+    });
+  }
+
+  // Plain text fallback for notifications and clients without Block Kit
+  return { text: heading, blocks };
+}
@@ -0,0 +1,166 @@
+/**
+ * Daily repository snapshots
+ * One row per repository per UTC day records the open and stale totals, how open issues
+ * spread over time since last activity, and the stale transitions seen during the day.
+ * Transitions are counted as they happen; totals and buckets are captured once a day
+ */
+
+import { StalenessBuckets, StalenessTrend, StalenessTrendPoint, StalenessTrendRange } from "../../src/types/index";
+import { calculateDaysSinceActivity } from "./rulesEngine";
+
+export const SNAPSHOT_RANGES: StalenessTrendRange[] = [30, 90, 365];
+
+export type StaleTransition = "newlyStale" | "revived" | "closedWhileStale";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stored snapshot fields the trend queries read
+export interface SnapshotRecord {
+  date: string;
+  openIssues?: number;
+  staleIssues?: number;
+  newlyStale: number;
+  revived: number;
+  closedWhileStale: number;
+  buckets?: StalenessBuckets;
+}
+
+/**
+ * UTC day of a timestamp, formatted YYYY-MM-DD
+ */
+export function getSnapshotDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * First day included in a trend range ending today
+ */
+export function getRangeStartDate(range: StalenessTrendRange, now: number): string {
+  return getSnapshotDate(now - (range - 1) * DAY_MS);
+}
+
+export function emptyStalenessBuckets(): StalenessBuckets {
+  return {
+    underOneWeek: 0,
+    oneToFourWeeks: 0,
+    oneToThreeMonths: 0,
+    threeToSixMonths: 0,
+    overSixMonths: 0,
+  };
+}
+
+/**
+ * Bucket a number of inactive days
+ */
+export function getStalenessBucket(daysSinceActivity: number): keyof StalenessBuckets {
+  if (daysSinceActivity < 7) {
+    return "underOneWeek";
+  } else if (daysSinceActivity < 30) {
+    return "oneToFourWeeks";
+  } else if (daysSinceActivity < 90) {
+    return "oneToThreeMonths";
+  } else if (daysSinceActivity < 180) {
+    return "threeToSixMonths";
+  }
+  return "overSixMonths";
+}
+
+/**
+ * Count open issues per staleness bucket
+ */
+export function countStalenessBuckets(issues: { lastActivity: number }[], now: number): StalenessBuckets {
+  const buckets = emptyStalenessBuckets();
+  for (const issue of issues) {
+    buckets[getStalenessBucket(calculateDaysSinceActivity(issue.lastActivity, now))]++;
+  }
+  return buckets;
+}
+
+/**
+ * Classify a change of an issue's stale flag, or null when it is not a transition
+ * A stale issue that stops being stale is "closed while stale" when it was closed, otherwise "revived"
+ */
+export function classifyStaleTransition(
+  wasStale: boolean,
+  isStale: boolean,
+  state: "open" | "closed"
+): StaleTransition | null {
+  if (wasStale === isStale) {
+    return null;
+  }
+  if (isStale) {
+    return "newlyStale";
+  }
+  return state === "closed" ? "closedWhileStale" : "revived";
+}
+
+/**
+ * Sum snapshots of several repositories into one row per day, in date order
+ * Totals stay null for a day until every repository with a row that day has captured them
+ */
+export function mergeSnapshotsByDate(snapshots: SnapshotRecord[]): StalenessTrendPoint[] {
+  const byDate = new Map<string, StalenessTrendPoint>();
+
+  for (const snapshot of snapshots) {
+    const point = byDate.get(snapshot.date);
+    const next = toTrendPoint(snapshot);
+    if (!point) {
+      byDate.set(snapshot.date, next);
+      continue;
+    }
+
+    point.newlyStale += next.newlyStale;
+    point.revived += next.revived;
+    point.closedWhileStale += next.closedWhileStale;
+    point.openIssues = addTotals(point.openIssues, next.openIssues);
+    point.staleIssues = addTotals(point.staleIssues, next.staleIssues);
+    point.buckets = point.buckets && next.buckets
+      ? {
+          underOneWeek: point.buckets.underOneWeek + next.buckets.underOneWeek,
+          oneToFourWeeks: point.buckets.oneToFourWeeks + next.buckets.oneToFourWeeks,
+          oneToThreeMonths: point.buckets.oneToThreeMonths + next.buckets.oneToThreeMonths,
+          threeToSixMonths: point.buckets.threeToSixMonths + next.buckets.threeToSixMonths,
+          overSixMonths: point.buckets.overSixMonths + next.buckets.overSixMonths,
+        }
+      : null;
+  }
+
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Build a chartable trend from the snapshots of a range
+ */
+export function buildStalenessTrend(range: StalenessTrendRange, snapshots: SnapshotRecord[]): StalenessTrend {
+  const points = mergeSnapshotsByDate(snapshots);
+  const captured = points.filter(point => point.staleIssues !== null);
+
+  return {
+    range,
+    points,
+    summary: {
+      staleChange: captured.length > 0
+        ? captured[captured.length - 1].staleIssues! - captured[0].staleIssues!
+        : null,
+      newlyStale: points.reduce((sum, point) => sum + point.newlyStale, 0),
+      revived: points.reduce((sum, point) => sum + point.revived, 0),
+      closedWhileStale: points.reduce((sum, point) => sum + point.closedWhileStale, 0),
+    },
+  };
+}
+
+function toTrendPoint(snapshot: SnapshotRecord): StalenessTrendPoint {
+  return {
+    date: snapshot.date,
+    openIssues: snapshot.openIssues ?? null,
+    staleIssues: snapshot.staleIssues ?? null,
+    newlyStale: snapshot.newlyStale,
+    revived: snapshot.revived,
+    closedWhileStale: snapshot.closedWhileStale,
+    buckets: snapshot.buckets ? { ...snapshot.buckets } : null,
+  };
+}
+
+function addTotals(a: number | null, b: number | null): number | null {
+  return a === null || b === null ? null : a + b;
+}
@@ -0,0 +1,153 @@
+/**
+ * Stale action planning
+ * Decides which GitHub writes a rule's action policy requires for an issue
+ */
+
+import { StaleActionPolicy, StaleActionState } from "../../src/types/index";
+
+export const DEFAULT_STALE_LABEL = "stale";
+
+export const DEFAULT_STALE_COMMENT =
+  "This issue has been automatically marked as stale because it has not had recent activity. " +
+  "It will be closed if no further activity occurs.";
+
+// Activity reported this soon after one of our own writes is attributed to StaleBot
+export const BOT_ACTIVITY_WINDOW_MS = 2 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PlannedStaleAction =
+  | { type: "comment"; body: string; marker: string }
+  | { type: "label"; label: string }
+  | { type: "close" }
+  | { type: "unlabel"; label: string };
+
+export interface StaleActionPlan {
+  actions: PlannedStaleAction[];
+  // Clear the recorded action state once the issue is active again
+  resetState: boolean;
+}
+
+interface PlannableIssue {
+  state: "open" | "closed";
+  labels: string[];
+  isStale: boolean;
+  staleActions?: StaleActionState;
+}
+
+/**
+ * Hidden marker identifying the warning comment for one stale period
+ */
+export function getStaleCommentMarker(markedAt: number): string {
+  return `<!-- stalebot:stale-warning:${markedAt} -->`;
+}
+
+/**
+ * Work out which actions are still outstanding for an issue
+ * Actions already recorded in staleActions are never planned again
+ */
+export function planStaleActions(
+  issue: PlannableIssue,
+  policy: StaleActionPolicy | undefined,
+  now: number
+): StaleActionPlan {
+  const state = issue.staleActions;
+
+  // Issues we closed keep their label while closed; open issues, including ones reopened after
+  // we closed them, get it removed and start a new stale period once activity returns
+  if (state && issue.state === "open" && (!issue.isStale || state.closedAt)) {
+    const actions: PlannedStaleAction[] = [];
+    if (state.labelName && hasLabel(issue.labels, state.labelName)) {
+      actions.push({ type: "unlabel", label: state.labelName });
+    }
+    return { actions, resetState: true };
+  }
+
+  if (!issue.isStale) {
+    return { actions: [], resetState: false };
+  }
+
+  if (!policy) {
+    return { actions: [], resetState: false };
+  }
+
+  const markedAt = state?.markedAt ?? now;
+  const actions: PlannedStaleAction[] = [];
+
+  if (policy.postComment && !state?.commentedAt) {
+    actions.push({
+      type: "comment",
+      body: policy.commentMessage?.trim() || DEFAULT_STALE_COMMENT,
+      marker: getStaleCommentMarker(markedAt),
+    });
+  }
+
+  if (policy.addLabel) {
+    const label = policy.staleLabel?.trim() || DEFAULT_STALE_LABEL;
+    if (!hasLabel(issue.labels, label)) {
+      actions.push({ type: "label", label });
+    }
+  }
+
+  if (policy.closeIssue && issue.state === "open" && !state?.closedAt) {
+    const daysUntilClose = policy.daysUntilClose ?? 0;
+    if (now - markedAt >= daysUntilClose * DAY_MS) {
+      actions.push({ type: "close" });
+    }
+  }
+
+  return { actions, resetState: false };
+}
+
+/**
+ * Ignore activity timestamps caused by StaleBot's own comments, labels and closes
+ */
+export function resolveLastActivity(
+  previousLastActivity: number | undefined,
+  incomingLastActivity: number,
+  staleActions: StaleActionState | undefined
+): number {
+  if (
+    previousLastActivity !== undefined &&
+    staleActions &&
+    incomingLastActivity <= staleActions.lastActionAt + BOT_ACTIVITY_WINDOW_MS
+  ) {
+    return previousLastActivity;
+  }
+  return incomingLastActivity;
+}
+
+/**
+ * Validate an action policy, returning human readable errors
+ */
+export function validateStaleActionPolicy(policy: StaleActionPolicy): string[] {
+  const errors: string[] = [];
+
+  if (!policy.postComment && !policy.addLabel && !policy.closeIssue) {
+    errors.push("Action policy must enable at least one action");
+  }
+
+  if (policy.commentMessage !== undefined && policy.commentMessage.length > 65536) {
+    errors.push("Stale comment must be 65536 characters or less");
+  }
+
+  if (policy.staleLabel !== undefined) {
+    const label = policy.staleLabel.trim();
+    if (label.length === 0 || label.length > 50) {
+      errors.push("Stale label must be between 1 and 50 characters");
+    }
+  }
+
+  if (policy.closeIssue) {
+    const days = policy.daysUntilClose;
+    if (days === undefined || !Number.isInteger(days) || days < 0 || days > 365) {
+      errors.push("Days until close must be a whole number between 0 and 365");
+    }
+  }
+
+  return errors;
+}
+
+function hasLabel(labels: string[], label: string): boolean {
+  return labels.some(existing => existing.toLowerCase() === label.toLowerCase());
+}
@@ -0,0 +1,226 @@
+/**
+ * Repository config-as-code
+ * Maintainers can commit .github/stalebot.yml to manage rules from the repository:
+ *
+ *   rules:
+ *     - name: Stale bugs
+ *       inactivityDays: 30
+ *       labels: [bug]
+ *       issueStates: [open]
+ *       assigneeCondition: unassigned   # any | assigned | unassigned | [user, ...]
+ *       condition: NOT label:wontfix AND comments < 3
+ *       exemptions:
+ *         labels: [pinned, security]
+ *         milestones: any               # any | [v2.0, ...]
+ *         linkedPullRequests: true
+ *         issues: [1, 42]
+ *       actions:
+ *         addLabel: true
+ *         staleLabel: stale
+ *     - name: Abandoned pull requests
+ *       inactivityDays: 14
+ *       itemKind: pull_request          # any | issue | pull_request
+ *       pullRequestCriteria:
+ *         draft: false
+ *         checksFailing: true           # also reviewRequested, hasConflicts
+ */
+
+import { parse, YAMLParseError } from "yaml";
+import { PullRequestCriteria, RuleItemKind, StaleActionPolicy } from "../../src/types/index";
+import { validateRuleConfiguration } from "./ruleValidation";
+
+export const STALEBOT_CONFIG_PATH = ".github/stalebot.yml";
+
+const RULE_KEYS = [
+  "name",
+  "inactivityDays",
+  "labels",
+  "issueStates",
+  "assigneeCondition",
+  "condition",
+  "itemKind",
+  "pullRequestCriteria",
+  "exemptions",
+  "actions",
+];
+const EXEMPTION_KEYS = ["labels", "milestones", "linkedPullRequests", "issues"];
+const ACTION_KEYS = ["postComment", "commentMessage", "addLabel", "staleLabel", "closeIssue", "daysUntilClose"];
+
+export interface ConfigRule {
+  name: string;
+  inactivityDays: number;
+  labels: string[];
+  issueStates: ("open" | "closed")[];
+  assigneeCondition: "any" | "assigned" | "unassigned" | string[];
+  exemptLabels: string[];
+  exemptMilestones?: "any" | string[];
+  exemptLinkedPullRequests?: boolean;
+  exemptIssueNumbers?: number[];
+  condition?: string;
+  itemKind: RuleItemKind;
+  pullRequestCriteria?: PullRequestCriteria;
+  actionPolicy?: StaleActionPolicy;
+}
+
+export type StalebotConfigResult =
+  | { valid: true; rules: ConfigRule[] }
+  | { valid: false; errors: string[] };
+
+/**
+ * Parse and validate the contents of .github/stalebot.yml
+ * Every problem is reported so maintainers can fix the file in one pass
+ */
+export function parseStalebotConfig(source: string): StalebotConfigResult {
+  let document: unknown;
+  try {
+    document = parse(source);
+  } catch (error) {
+    if (error instanceof YAMLParseError) {
+      const position = error.linePos?.[0];
+      const location = position ? ` (line ${position.line}, column ${position.col})` : "";
+      return { valid: false, errors: [`Invalid YAML${location}: ${error.message.split("\n")[0]}`] };
+    }
+    return { valid: false, errors: [`Invalid YAML: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  if (!isPlainObject(document)) {
+    return { valid: false, errors: ["Config must be a mapping with a top-level `rules` list"] };
+  }
+
+  const errors: string[] = [];
+  for (const key of Object.keys(document)) {
+    if (key !== "rules") {
+      errors.push(`Unknown top-level key \`${key}\``);
+    }
+  }
+
+  const rawRules = document.rules;
+  if (!Array.isArray(rawRules)) {
+    errors.push("`rules` must be a list");
+    return { valid: false, errors };
+  }
+
+  const rules: ConfigRule[] = [];
+  const seenNames = new Set<string>();
+
+  rawRules.forEach((rawRule, index) => {
+    const label = `rules[${index}]`;
+    if (!isPlainObject(rawRule)) {
+      errors.push(`${label}: must be a mapping`);
+      return;
+    }
+
+    const ruleErrors: string[] = [];
+    ruleErrors.push(...unknownKeys(rawRule, RULE_KEYS, ""));
+
+    const exemptions = rawRule.exemptions ?? {};
+    if (!isPlainObject(exemptions)) {
+      ruleErrors.push("`exemptions` must be a mapping");
+    } else {
+      ruleErrors.push(...unknownKeys(exemptions, EXEMPTION_KEYS, "exemptions."));
+    }
+
+    const actions = rawRule.actions;
+    if (actions !== undefined && !isPlainObject(actions)) {
+      ruleErrors.push("`actions` must be a mapping");
+    } else if (isPlainObject(actions)) {
+      ruleErrors.push(...unknownKeys(actions, ACTION_KEYS, "actions."));
+    }
+
+    const rule: ConfigRule = {
+      name: typeof rawRule.name === "string" ? rawRule.name.trim() : "",
+      inactivityDays: rawRule.inactivityDays as number,
+      labels: stringList(rawRule.labels, "labels", ruleErrors),
+      issueStates: (rawRule.issueStates === undefined
+        ? ["open"]
+        : stringList(rawRule.issueStates, "issueStates", ruleErrors)) as ConfigRule["issueStates"],
+      assigneeCondition: rawRule.assigneeCondition === undefined
+        ? "any"
+        : Array.isArray(rawRule.assigneeCondition)
+          ? stringList(rawRule.assigneeCondition, "assigneeCondition", ruleErrors)
+          : rawRule.assigneeCondition as ConfigRule["assigneeCondition"],
+      exemptLabels: isPlainObject(exemptions) ? stringList(exemptions.labels, "exemptions.labels", ruleErrors) : [],
+      itemKind: (rawRule.itemKind ?? "any") as RuleItemKind,
+    };
+
+    // A non-string condition is reported by rule validation
+    if (rawRule.condition !== undefined && rawRule.condition !== null) {
+      rule.condition = typeof rawRule.condition === "string"
+        ? rawRule.condition.trim() || undefined
+        : rawRule.condition as string;
+    }
+
+    // Malformed exemptions are reported by rule validation
+    if (isPlainObject(exemptions)) {
+      if (exemptions.milestones !== undefined) {
+        rule.exemptMilestones = exemptions.milestones as ConfigRule["exemptMilestones"];
+      }
+      if (exemptions.linkedPullRequests !== undefined) {
+        rule.exemptLinkedPullRequests = exemptions.linkedPullRequests as boolean;
+      }
+      if (exemptions.issues !== undefined) {
+        rule.exemptIssueNumbers = exemptions.issues as number[];
+      }
+    }
+
+    // Unknown criteria and non-boolean values are reported by rule validation
+    if (rawRule.pullRequestCriteria !== undefined) {
+      rule.pullRequestCriteria = rawRule.pullRequestCriteria as PullRequestCriteria;
+    }
+
+    if (isPlainObject(actions)) {
+      rule.actionPolicy = {
+        postComment: actions.postComment === true,
+        commentMessage: actions.commentMessage as string | undefined,
+        addLabel: actions.addLabel === true,
+        staleLabel: actions.staleLabel as string | undefined,
+        closeIssue: actions.closeIssue === true,
+        daysUntilClose: actions.daysUntilClose as number | undefined,
+      };
+    }
+
+    if (typeof rule.inactivityDays !== "number") {
+      ruleErrors.push("`inactivityDays` must be a number");
+    }
+    if (typeof rule.assigneeCondition === "string" && !["any", "assigned", "unassigned"].includes(rule.assigneeCondition)) {
+      ruleErrors.push("`assigneeCondition` must be any, assigned, unassigned or a list of usernames");
+    }
+
+    ruleErrors.push(...validateRuleConfiguration(rule).errors);
+
+    if (rule.name && seenNames.has(rule.name)) {
+      ruleErrors.push(`Duplicate rule name "${rule.name}"`);
+    }
+    seenNames.add(rule.name);
+
+    const ruleLabel = rule.name ? `${label} "${rule.name}"` : label;
+    errors.push(...[...new Set(ruleErrors)].map(error => `${ruleLabel}: ${error}`));
+    rules.push(rule);
+  });
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  return { valid: true, rules };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function unknownKeys(value: Record<string, unknown>, allowed: string[], prefix: string): string[] {
+  return Object.keys(value)
+    .filter(key => !allowed.includes(key))
+    .map(key => `Unknown key \`${prefix}${key}\``);
+}
+
+function stringList(value: unknown, field: string, errors: string[]): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.some(item => typeof item !== "string")) {
+    errors.push(`\`${field}\` must be a list of strings`);
+    return [];
+  }
+  return value.map(item => item.trim()).filter(item => item.length > 0);
+}
@@ -0,0 +1,66 @@
+/**
+ * Team workspaces
+ * A workspace owns repositories (and, through them, their rules) on behalf of its members.
+ * Members have a role:
+ *
+ *   owner   view, manage repositories/rules/issues, manage members
+ *   admin   view, manage repositories/rules/issues
+ *   viewer  view
+ *
+ * Repositories outside a workspace stay personal: their connecting user acts as owner.
+ * Members opt in to stale issue notifications per workspace
+ */
+
+import { WorkspacePermission, WorkspaceRole } from "../../src/types/index";
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ["owner", "admin", "viewer"];
+
+const ROLE_PERMISSIONS: Record<WorkspaceRole, WorkspacePermission[]> = {
+  owner: ["view", "manage", "manage_members"],
+  admin: ["view", "manage"],
+  viewer: ["view"],
+};
+
+export const MAX_WORKSPACE_NAME_LENGTH = 100;
+
+/**
+ * Whether a role grants a permission; no role grants nothing
+ */
+export function hasWorkspacePermission(role: WorkspaceRole | null, permission: WorkspacePermission): boolean {
+  return role !== null && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * Validate a membership change against the workspace's current roles
+ * Every workspace keeps at least one owner, so the last owner cannot be demoted or removed
+ */
+export function validateMembershipChange(
+  memberRoles: WorkspaceRole[],
+  currentRole: WorkspaceRole | null, // null when adding a member
+  nextRole: WorkspaceRole | null // null when removing a member
+): { valid: true } | { valid: false; reason: string } {
+  if (nextRole !== null && !WORKSPACE_ROLES.includes(nextRole)) {
+    return { valid: false, reason: `Role must be one of ${WORKSPACE_ROLES.join(", ")}` };
+  }
+
+  const owners = memberRoles.filter(role => role === "owner").length;
+  if (currentRole === "owner" && nextRole !== "owner" && owners <= 1) {
+    return { valid: false, reason: "A workspace needs at least one owner" };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Trim and validate a workspace name
+ */
+export function normalizeWorkspaceName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Workspace name is required");
+  }
+  if (trimmed.length > MAX_WORKSPACE_NAME_LENGTH) {
+    throw new Error(`Workspace name must be at most ${MAX_WORKSPACE_NAME_LENGTH} characters`);
+  }
+  return trimmed;
+}
@@ -266,31 +266,58 @@ export const getErrorSummary = query({
     }
 
     try {
-      // In production, this would query an errors collection
-      // For now, we'll return a placeholder structure
-      
+      const errors = await ctx.db
+        .query("errors")
+        .withIndex("by_user", (q) => q.eq("userId", userId))
+        .filter((q) => q.gte(q.field("lastOccurredAt"), cutoffTime))
+        .collect();
+
+      const errorsByType: Record<string, number> = {
+        authentication: 0,
+        rate_limit: 0,
+        repository_access: 0,
+        github_api: 0,
+        database: 0,
+        email_delivery: 0,
+        network: 0,
+        unknown: 0,
+      };
+      const errorsBySeverity = {
+        low: 0,
+        medium: 0,
+        high: 0,
+        critical: 0,
+      };
+      const messageCounts = new Map<string, number>();
+      const affectedRepositories = new Set<string>();
+
+      // Each record also counts the repeats folded into it
+      let totalErrors = 0;
+      for (const error of errors) {
+        const occurrences = error.retryCount + 1;
+        totalErrors += occurrences;
+        errorsByType[error.type] = (errorsByType[error.type] || 0) + occurrences;
+        errorsBySeverity[error.severity] += occurrences;
+        messageCounts.set(error.message, (messageCounts.get(error.message) || 0) + occurrences);
+        if (error.repositoryId) {
+          affectedRepositories.add(error.repositoryId);
+        }
+      }
+
+      const topErrorMessages = Array.from(messageCounts.entries())
+        .map(([message, count]) => ({ message, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 5);
+
       const errorSummary = {
         timeRange,
-        totalErrors: 0,
-        errorsByType: {
-          authentication: 0,
-          rate_limit: 0,
-          repository_access: 0,
-          github_api: 0,
-          database: 0,
-          email_delivery: 0,
-          network: 0,
-          unknown: 0,
-        },
-        errorsBySeverity: {
-          low: 0,
-          medium: 0,
-          high: 0,
-          critical: 0,
-        },
-        topErrorMessages: [],
-        affectedRepositories: 0,
-        affectedUsers: 0,
+        totalErrors,
+        unresolvedErrors: errors.filter(error => !error.resolved).length,
+        errorsByType,
+        errorsBySeverity,
+        topErrorMessages,
+        affectedRepositories: affectedRepositories.size,
+        affectedUsers: errors.length > 0 ? 1 : 0,
         timestamp: now,
       };
 
@@ -1,6 +1,9 @@
 import { mutation, query, internalMutation } from "./_generated/server";
 import { v } from "convex/values";
-import { Id } from "./_generated/dataModel";
+import { Doc, Id } from "./_generated/dataModel";
+import { getCurrentUser } from "./lib/auth_helpers";
+import { encryptToken } from "./lib/encryption";
+import { isValidSlackWebhookUrl } from "./lib/slack";
 
 // Default notification preferences for new users
 export const DEFAULT_NOTIFICATION_PREFERENCES = {
@@ -144,6 +147,78 @@ export const resumeNotifications = mutation({
   },
 });
 
+// Set or clear the user's Slack incoming webhook
+export const setSlackWebhook = mutation({
+  args: {
+    webhookUrl: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("User not authenticated");
+    }
+
+    if (args.webhookUrl === null) {
+      await ctx.db.patch(user._id, { slackWebhookUrl: undefined });
+      return { slackConfigured: false };
+    }
+
+    const webhookUrl = args.webhookUrl.trim();
+    if (!isValidSlackWebhookUrl(webhookUrl)) {
+      throw new Error("Slack webhook URL must start with https://hooks.slack.com/services/");
+    }
+
+    await ctx.db.patch(user._id, {
+      slackWebhookUrl: await encryptToken(webhookUrl),
+    });
+    return { slackConfigured: true };
+  },
+});
+
+// Decide whether preferences allow sending at a given time without writing anything
+export function evaluateNotificationPreferences(
+  preferences: Doc<"users">["notificationPreferences"],
+  now: number
+): { shouldSend: boolean; reason: string; pauseExpired: boolean } {
+  // Check if notifications are paused
+  if (preferences.pauseNotifications) {
+    // Check if temporary pause has expired
+    if (preferences.pauseUntil && now > preferences.pauseUntil) {
+      return { shouldSend: true, reason: "Pause expired, notifications resumed", pauseExpired: true };
+    }
+    return { shouldSend: false, reason: "Notifications are paused", pauseExpired: false };
+  }
+
+  // Check bounce count - pause if too many bounces
+  if (preferences.bounceCount && preferences.bounceCount >= 3) {
+    return { shouldSend: false, reason: "Too many email bounces", pauseExpired: false };
+  }
+
+  // Check quiet hours
+  if (preferences.quietHours) {
+    const timezone = preferences.quietHours.timezone || "UTC";
+    const currentHour = new Date(now).toLocaleString("en-US", {
+      timeZone: timezone,
+      hour12: false,
+      hour: "numeric",
+    });
+    const hour = parseInt(currentHour);
+
+    const { start, end } = preferences.quietHours;
+    
+    // Handle quiet hours that span midnight
+    const isInQuietHours = start > end 
+      ? (hour >= start || hour < end)  // e.g., 22:00 to 08:00
+      : (hour >= start && hour < end); // e.g., 08:00 to 22:00
+
+    if (isInQuietHours) {
+      return { shouldSend: false, reason: "Currently in quiet hours", pauseExpired: false };
+    }
+  }
+
+  return { shouldSend: true, reason: "All checks passed", pauseExpired: false };
+}
+
 // Check if notifications should be sent based on user preferences
 export const shouldSendNotification = internalMutation({
   args: {
@@ -158,52 +233,20 @@ export const shouldSendNotification = internalMutation({
 
     const preferences = user.notificationPreferences;
     const now = args.currentTime || Date.now();
-
-    // Check if notifications are paused
-    if (preferences.pauseNotifications) {
-      // Check if temporary pause has expired
-      if (preferences.pauseUntil && now > preferences.pauseUntil) {
-        // Auto-resume notifications
-        await ctx.db.patch(args.userId, {
-          notificationPreferences: {
-            ...preferences,
-            pauseNotifications: false,
-            pauseUntil: undefined,
-          },
-        });
-        return { shouldSend: true, reason: "Pause expired, notifications resumed" };
-      }
-      return { shouldSend: false, reason: "Notifications are paused" };
-    }
-
-    // Check bounce count - pause if too many bounces
-    if (preferences.bounceCount && preferences.bounceCount >= 3) {
-      return { shouldSend: false, reason: "Too many email bounces" };
-    }
-
-    // Check quiet hours
-    if (preferences.quietHours) {
-      const timezone = preferences.quietHours.timezone || "UTC";
-      const currentHour = new Date(now).toLocaleString("en-US", {
-        timeZone: timezone,
-        hour12: false,
-        hour: "numeric",
+    const result = evaluateNotificationPreferences(preferences, now);
+
+    if (result.pauseExpired) {
+      // Auto-resume notifications
+      await ctx.db.patch(args.userId, {
+        notificationPreferences: {
+          ...preferences,
+          pauseNotifications: false,
+          pauseUntil: undefined,
+        },
       });
-      const hour = parseInt(currentHour);
-
-      const { start, end } = preferences.quietHours;
-      
-      // Handle quiet hours that span midnight
-      const isInQuietHours = start > end 
-        ? (hour >= start || hour < end)  // e.g., 22:00 to 08:00
-        : (hour >= start && hour < end); // e.g., 08:00 to 22:00
-
-      if (isInQuietHours) {
-        return { shouldSend: false, reason: "Currently in quiet hours" };
-      }
     }
 
-    return { shouldSend: true, reason: "All checks passed" };
+    return { shouldSend: result.shouldSend, reason: result.reason };
   },
 });
 
@@ -247,7 +290,21 @@ export const handleUnsubscribe = internalMutation({
       .first();
 
     if (!user) {
-      throw new Error("Invalid unsubscribe token");
+      // Assignees and authors without a StaleBot account unsubscribe through their contact
+      const contact = await ctx.db
+        .query("githubContacts")
+        .withIndex("by_unsubscribe_token", (q) => q.eq("unsubscribeToken", args.token))
+        .first();
+      if (!contact) {
+        throw new Error("Invalid unsubscribe token");
+      }
+
+      await ctx.db.patch(contact._id, { unsubscribedAt: Date.now() });
+      return {
+        success: true,
+        message: "Successfully unsubscribed from notifications",
+        userEmail: contact.email,
+      };
     }
 
     // Pause notifications
@@ -1,16 +1,52 @@
 import { internalAction, internalMutation, internalQuery, mutation, query } from "./_generated/server";
 import { internal } from "./_generated/api";
 import { v } from "convex/values";
-import { Id } from "./_generated/dataModel";
+import { Doc, Id } from "./_generated/dataModel";
+import { MAX_DELIVERY_ATTEMPTS, getRetryDelayMs, isRetryableStatus } from "./lib/delivery";
+import { buildStaleIssueSlackMessage, SlackStaleIssue } from "./lib/slack";
+import { decryptToken } from "./lib/encryption";
+import { EMAIL_SNOOZE_DAYS, IssueActionLinks, buildIssueActionLinks } from "./lib/issueSnooze";
+import { evaluateNotificationPreferences } from "./notificationPreferences";
+import { emitWebhookEvent } from "./outboundWebhooks";
+import { getNotificationRecipients } from "./workspaces";
+import { findContact, findUserByLogin, getParticipantGroups } from "./participants";
+import {
+  ParticipantRole,
+  getParticipantSettings,
+  notifiesParticipants,
+  summarizeForOwner,
+} from "./lib/participants";
 
 // Email event handler for delivery status tracking with enhanced bounce management
 export const handleEmailEvent = internalMutation({
   args: {
     id: v.string(),
     event: v.any(),
+    webhookMessageId: v.optional(v.string()), // svix-id, used to reject replays
   },
   handler: async (ctx, args) => {
     console.log("Email event received:", args.id, args.event);
+
+    // Reject replays of an already processed webhook message
+    if (args.webhookMessageId) {
+      const existingMessage = await ctx.db
+        .query("webhookMessages")
+        .withIndex("by_provider_message", (q) =>
+          q.eq("provider", "resend").eq("messageId", args.webhookMessageId!)
+        )
+        .first();
+
+      if (existingMessage) {
+        console.warn(`Ignoring replayed webhook message: ${args.webhookMessageId}`);
+        return { duplicate: true };
+      }
+
+      await ctx.db.insert("webhookMessages", {
+        provider: "resend",
+        messageId: args.webhookMessageId,
+        receivedAt: Date.now(),
+      });
+    }
     
     // Find the notification record by email ID
     const notification = await ctx.db
@@ -37,6 +73,13 @@ export const handleEmailEvent = internalMutation({
         break;
       case "email.bounced":
         status = "bounced";
+        if (notification.contactId) {
+          // Participants without an account are not emailed again after a hard bounce
+          if (args.event.data?.bounce_type === "hard") {
+            await ctx.db.patch(notification.contactId, { unsubscribedAt: Date.now() });
+          }
+          break;
+        }
         // Handle bounce by updating user preferences
         await ctx.runMutation(internal.notificationPreferences.handleEmailBounce, {
           userId: notification.userId,
@@ -48,6 +91,10 @@ export const handleEmailEvent = internalMutation({
         console.log(`Email delivery delayed for ${args.id}`);
         return;
       case "email.complained":
+        if (notification.contactId) {
+          await ctx.db.patch(notification.contactId, { unsubscribedAt: Date.now() });
+          return;
+        }
         // Handle spam complaints by pausing notifications for user
         const user = await ctx.db.get(notification.userId);
         if (user) {
@@ -82,6 +129,28 @@ export const handleEmailEvent = internalMutation({
   },
 });
 
+// Remove webhook message ids older than the retention window
+export const pruneWebhookMessages = internalMutation({
+  args: {
+    maxAge: v.optional(v.number()), // milliseconds
+  },
+  handler: async (ctx, args) => {
+    // Signed timestamps older than a few minutes are already rejected, so a day is ample
+    const cutoff = Date.now() - (args.maxAge ?? 24 * 60 * 60 * 1000);
+
+    const expired = await ctx.db
+      .query("webhookMessages")
+      .withIndex("by_received_at", (q) => q.lt("receivedAt", cutoff))
+      .take(1000);
+
+    for (const message of expired) {
+      await ctx.db.delete(message._id);
+    }
+
+    return { deleted: expired.length };
+  },
+});
+
 // Manual function to update notification delivery status
 export const updateNotificationDeliveryStatus = internalMutation({
   args: {
@@ -202,7 +271,7 @@ export const sendEmailAction = internalAction({
   },
   handler: async (ctx, args) => {
     const retryAttempt = args.retryAttempt || 1;
-    const maxRetries = 3;
+    const maxRetries = MAX_DELIVERY_ATTEMPTS;
 
     try {
       // Validate required environment variable
@@ -243,13 +312,13 @@ export const sendEmailAction = internalAction({
         const errorMessage = `Resend API error: ${response.status} - ${JSON.stringify(errorData)}`;
         
         // Check if this is a retryable error
-        const isRetryable = response.status >= 500 || response.status === 429;
+        const isRetryable = isRetryableStatus(response.status);
         
         if (isRetryable && retryAttempt < maxRetries) {
           console.log(`Retryable error, scheduling retry ${retryAttempt + 1}/${maxRetries}`);
           
           // Schedule retry with exponential backoff
-          const delayMs = Math.pow(2, retryAttempt) * 1000; // 2s, 4s, 8s
+          const delayMs = getRetryDelayMs(retryAttempt); // 2s, 4s, 8s
           await ctx.scheduler.runAfter(delayMs, internal.notifications.sendEmailAction, {
             ...args,
             retryAttempt: retryAttempt + 1,
@@ -311,24 +380,133 @@ export const updateNotificationStatus = internalMutation({
     ),
   },
   handler: async (ctx, args) => {
+    const notification = await ctx.db.get(args.notificationId);
     await ctx.db.patch(args.notificationId, {
       emailId: args.emailId,
       status: args.status,
     });
+
+    if (notification && notification.status !== "failed" && args.status === "failed") {
+      await emitNotificationFailed(ctx, { ...notification, status: "failed" });
+    }
+  },
+});
+
+// Emit the notification.failed webhook event for a notification record
+async function emitNotificationFailed(ctx: any, notification: Doc<"notifications">) {
+  const repository = await ctx.db.get(notification.repositoryId);
+  await emitWebhookEvent(ctx, {
+    userId: notification.userId,
+    repositoryId: notification.repositoryId,
+    type: "notification.failed",
+    data: {
+      notification: {
+        id: notification._id,
+        channel: notification.channel || "email",
+        issueIds: notification.issueIds,
+        sentAt: new Date(notification.sentAt).toISOString(),
+      },
+      repository: repository ? { id: repository._id, fullName: repository.fullName } : null,
+    },
+  });
+}
+
+
+
+// Action to post a Slack message to an incoming webhook, retried like sendEmailAction
+export const sendSlackAction = internalAction({
+  args: {
+    notificationId: v.id("notifications"),
+    webhookUrl: v.string(), // encrypted
+    message: v.object({
+      text: v.string(),
+      blocks: v.array(v.any()),
+    }),
+    retryAttempt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const retryAttempt = args.retryAttempt || 1;
+    const maxRetries = MAX_DELIVERY_ATTEMPTS;
+
+    try {
+      const webhookUrl = await decryptToken(args.webhookUrl);
+
+      console.log(`Posting Slack message (attempt ${retryAttempt}/${maxRetries}): ${args.message.text}`);
+
+      const response = await fetch(webhookUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(args.message),
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text().catch(() => "Unknown error");
+        const errorMessage = `Slack webhook error: ${response.status} - ${errorBody}`;
+
+        if (isRetryableStatus(response.status) && retryAttempt < maxRetries) {
+          console.log(`Retryable error, scheduling retry ${retryAttempt + 1}/${maxRetries}`);
+
+          // Slack sends Retry-After with 429 responses
+          const delayMs = getRetryDelayMs(retryAttempt, response.headers.get("retry-after"));
+          await ctx.scheduler.runAfter(delayMs, internal.notifications.sendSlackAction, {
+            ...args,
+            retryAttempt: retryAttempt + 1,
+          });
+
+          return { id: `retry-scheduled-${retryAttempt}`, retrying: true };
+        }
+
+        throw new Error(errorMessage);
+      }
+
+      // Incoming webhooks return no message id, so record our own
+      const deliveryId = `slack-${Date.now()}`;
+      await ctx.runMutation(internal.notifications.updateNotificationStatus, {
+        notificationId: args.notificationId,
+        emailId: deliveryId,
+        status: "sent",
+      });
+
+      console.log(`Slack message sent successfully (attempt ${retryAttempt})`);
+      return { id: deliveryId, success: true, attempt: retryAttempt };
+
+    } catch (error) {
+      console.error(`Failed to post Slack message (attempt ${retryAttempt}/${maxRetries}):`, error);
+
+      // Retryable responses return above, so anything thrown here is final
+      await ctx.runMutation(internal.notifications.updateNotificationStatus, {
+        notificationId: args.notificationId,
+        emailId: `failed-${Date.now()}`,
+        status: "failed",
+      });
+
+      throw error;
+    }
   },
 });
 
+// Dashboard link explaining why an issue was flagged as stale
+export const getStaleExplanationUrl = (issueId: string): string => {
+  return `${process.env.SITE_URL || 'https://stalebot.dev'}/dashboard?issue=${encodeURIComponent(issueId)}`;
+};
 
+// Summaries of the rules an issue matched when it was last evaluated
+const getStaleReasons = (issue: Doc<"issues">): string[] => {
+  return issue.staleEvaluation?.rules.filter(rule => rule.matched).map(rule => rule.summary) ?? [];
+};
 
 // Email template system for stale issue notifications
 export const generateStaleIssueEmailHtml = (
   repositoryName: string,
   staleIssues: Array<{
+    id?: string;
     title: string;
     url: string;
     lastActivity: number;
     labels: string[];
     assignee?: string;
+    staleReasons?: string[]; // summaries of the rules the issue matched
+    actionLinks?: IssueActionLinks | null; // signed one-click snooze links
   }>,
   userPreferences: {
     emailTemplate: string;
@@ -412,6 +590,23 @@ export const generateStaleIssueEmailHtml = (
             : `👤 Unassigned`
         }
       </div>
+      ${
+        issue.staleReasons && issue.staleReasons.length > 0
+          ? `<div style="font-size: 13px; color: #656d76; margin-top: 8px;">
+               Why stale: ${issue.staleReasons.map(escapeHtml).join("; ")}
+               ${issue.id ? ` · <a href="${escapeHtml(getStaleExplanationUrl(issue.id))}" style="color: #0969da; text-decoration: none;">Details</a>` : ""}
+             </div>`
+          : ""
+      }
+      ${
+        issue.actionLinks
+          ? `<div style="font-size: 13px; margin-top: 8px;">
+               <a href="${escapeHtml(issue.actionLinks.snooze)}" style="color: #0969da; text-decoration: none;">Snooze ${EMAIL_SNOOZE_DAYS} days</a> ·
+               <a href="${escapeHtml(issue.actionLinks.snoozeUntilActivity)}" style="color: #0969da; text-decoration: none;">Snooze until next activity</a> ·
+               <a href="${escapeHtml(issue.actionLinks.neverStale)}" style="color: #0969da; text-decoration: none;">Never mark stale</a>
+             </div>`
+          : ""
+      }
     </div>
   `;
     })
@@ -487,11 +682,14 @@ export const generateStaleIssueEmailHtml = (
 export const generateStaleIssueEmailText = (
   repositoryName: string,
   staleIssues: Array<{
+    id?: string;
     title: string;
     url: string;
     lastActivity: number;
     labels: string[];
     assignee?: string;
+    staleReasons?: string[];
+    actionLinks?: IssueActionLinks | null;
   }>
 ): string => {
   // Input validation
@@ -554,6 +752,19 @@ export const generateStaleIssueEmailText = (
     } else {
       text += `   Status: Unassigned\n`;
     }
+
+    if (issue.staleReasons && issue.staleReasons.length > 0) {
+      text += `   Why stale: ${issue.staleReasons.join("; ")}\n`;
+      if (issue.id) {
+        text += `   Details: ${getStaleExplanationUrl(issue.id)}\n`;
+      }
+    }
+
+    if (issue.actionLinks) {
+      text += `   Snooze ${EMAIL_SNOOZE_DAYS} days: ${issue.actionLinks.snooze}\n`;
+      text += `   Snooze until next activity: ${issue.actionLinks.snoozeUntilActivity}\n`;
+      text += `   Never mark stale: ${issue.actionLinks.neverStale}\n`;
+    }
     text += "\n";
   });
 
@@ -570,6 +781,132 @@ export const generateStaleIssueEmailText = (
   return text;
 };
 
+interface SummaryIssue {
+  title: string;
+  url: string;
+  lastActivity: number;
+}
+
+const escapeEmailHtml = (text: string) => {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+};
+
+const daysSince = (timestamp: number) => Math.floor((Date.now() - timestamp) / (1000 * 60 * 60 * 24));
+
+const wrapEmailHtml = (title: string, body: string, footerLinksHtml: string) => `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeEmailHtml(title)}</title>
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif; line-height: 1.5; color: #24292f; max-width: 600px; margin: 0 auto; padding: 20px; background-color: #ffffff;">
+  <h1 style="font-size: 22px; margin: 0 0 16px 0;">${escapeEmailHtml(title)}</h1>
+  ${body}
+  <div style="border-top: 1px solid #d1d9e0; padding-top: 16px; margin-top: 24px; text-align: center; color: #656d76; font-size: 14px;">
+    ${footerLinksHtml}
+  </div>
+</body>
+</html>
+`;
+
+const summaryIssueListHtml = (issues: SummaryIssue[]) => `
+  <ul style="padding-left: 20px;">
+    ${issues.map(issue => `<li style="margin-bottom: 8px;"><a href="${escapeEmailHtml(issue.url)}" style="color: #0969da; text-decoration: none;">${escapeEmailHtml(issue.title)}</a> <span style="color: #656d76;">(${daysSince(issue.lastActivity)} days inactive)</span></li>`).join("\n    ")}
+  </ul>`;
+
+// Owner email when assignees are emailed their own issues: counts per assignee plus the remaining issues
+export const generateOwnerSummaryEmailHtml = (
+  repositoryName: string,
+  summary: {
+    total: number;
+    assigned: Array<{ login: string; count: number }>;
+    unassignedIssues: SummaryIssue[];
+  },
+  unsubscribeToken?: string
+): string => {
+  const siteUrl = process.env.SITE_URL || "https://stalebot.dev";
+  const assignedHtml = summary.assigned.length > 0
+    ? `<h2 style="font-size: 16px;">Sent to their assignees</h2>
+  <ul style="padding-left: 20px;">
+    ${summary.assigned.map(({ login, count }) => `<li>@${escapeEmailHtml(login)}: ${count} issue${count === 1 ? "" : "s"}</li>`).join("\n    ")}
+  </ul>`
+    : "";
+  const unassignedHtml = summary.unassignedIssues.length > 0
+    ? `<h2 style="font-size: 16px;">Not assigned to anyone we could email</h2>${summaryIssueListHtml(summary.unassignedIssues)}`
+    : "";
+
+  return wrapEmailHtml(
+    `${summary.total} issue${summary.total === 1 ? "" : "s"} went stale in ${repositoryName}`,
+    `${assignedHtml}\n  ${unassignedHtml}`,
+    `<a href="${siteUrl}/unsubscribe?token=${encodeURIComponent(unsubscribeToken ?? "")}" style="color: #0969da; text-decoration: none;">Unsubscribe</a> |
+    <a href="${siteUrl}/dashboard" style="color: #0969da; text-decoration: none;">View dashboard</a>`
+  );
+};
+
+export const generateOwnerSummaryEmailText = (
+  repositoryName: string,
+  summary: {
+    total: number;
+    assigned: Array<{ login: string; count: number }>;
+    unassignedIssues: SummaryIssue[];
+  }
+): string => {
+  let text = `${summary.total} issue${summary.total === 1 ? "" : "s"} went stale in ${repositoryName}\n\n`;
+
+  if (summary.assigned.length > 0) {
+    text += "Sent to their assignees:\n";
+    for (const { login, count } of summary.assigned) {
+      text += `  @${login}: ${count} issue${count === 1 ? "" : "s"}\n`;
+    }
+    text += "\n";
+  }
+
+  if (summary.unassignedIssues.length > 0) {
+    text += "Not assigned to anyone we could email:\n";
+    for (const issue of summary.unassignedIssues) {
+      text += `  ${issue.title} (${daysSince(issue.lastActivity)} days inactive)\n  ${issue.url}\n`;
+    }
+    text += "\n";
+  }
+
+  text += "---\n";
+  text += "Visit your dashboard to manage notification preferences.\n";
+  return text;
+};
+
+// Email asking an issue's author whether their inactive issues are still relevant
+export const generateAuthorCheckInEmailHtml = (
+  repositoryName: string,
+  issues: SummaryIssue[],
+  unsubscribeToken?: string
+): string => {
+  const siteUrl = process.env.SITE_URL || "https://stalebot.dev";
+  return wrapEmailHtml(
+    `Is this still relevant? Your issue${issues.length === 1 ? "" : "s"} in ${repositoryName}`,
+    `<p>The following issue${issues.length === 1 ? "" : "s"} you opened ${issues.length === 1 ? "has" : "have"} had no activity for a while.
+  If ${issues.length === 1 ? "it is" : "they are"} still relevant, leave a comment with an update; otherwise consider closing ${issues.length === 1 ? "it" : "them"}.</p>
+  ${summaryIssueListHtml(issues)}`,
+    `<a href="${siteUrl}/unsubscribe?token=${encodeURIComponent(unsubscribeToken ?? "")}" style="color: #0969da; text-decoration: none;">Unsubscribe</a>`
+  );
+};
+
+export const generateAuthorCheckInEmailText = (repositoryName: string, issues: SummaryIssue[]): string => {
+  let text = `Is this still relevant? Your issue${issues.length === 1 ? "" : "s"} in ${repositoryName}\n\n`;
+  text += `The following issue${issues.length === 1 ? "" : "s"} you opened ${issues.length === 1 ? "has" : "have"} had no activity for a while. `;
+  text += "Leave a comment with an update if it is still relevant, or close it otherwise.\n\n";
+  for (const issue of issues) {
+    text += `  ${issue.title} (${daysSince(issue.lastActivity)} days inactive)\n  ${issue.url}\n`;
+  }
+  return text;
+};
+
 // Query to get notification history for a user with filtering and search
 export const getNotificationHistory = query({
   args: {
@@ -756,12 +1093,44 @@ export const getPendingNotifications = internalQuery({
 });
 
 // Helper function that contains the implementation logic
+// Issues not already emailed about in the last 24 hours; issues stamped with notifiedAt belong to
+// the current fan-out and are still sent to its other recipients
+async function loadNotifiableIssues(
+  ctx: any,
+  issueIds: Id<"issues">[],
+  notifiedAt?: number
+): Promise<Doc<"issues">[]> {
+  const twentyFourHours = 24 * 60 * 60 * 1000;
+  const issues: Doc<"issues">[] = [];
+  for (const issueId of issueIds) {
+    const issue: Doc<"issues"> | null = await ctx.db.get(issueId);
+    if (!issue) continue;
+    if (
+      issue.lastNotified &&
+      issue.lastNotified !== notifiedAt &&
+      (Date.now() - issue.lastNotified) < twentyFourHours
+    ) {
+      continue;
+    }
+    issues.push(issue);
+  }
+  return issues;
+}
+
+// Unsubscribe token of a user, generated on first use
+async function getUnsubscribeToken(ctx: any, user: Doc<"users">): Promise<string> {
+  return user.notificationPreferences.unsubscribeToken ??
+    await ctx.runMutation(internal.notificationPreferences.generateUnsubscribeToken, { userId: user._id });
+}
+
 async function sendStaleIssueNotificationImpl(
   ctx: any,
   args: {
     userId: Id<"users">;
     repositoryId: Id<"repositories">;
     staleIssueIds: Id<"issues">[];
+    // Shared by every recipient of one fan-out so the first send doesn't suppress the others
+    notifiedAt?: number;
   }
 ): Promise<Id<"notifications"> | null> {
   try {
@@ -784,17 +1153,9 @@ async function sendStaleIssueNotificationImpl(
     }
 
     // Get stale issues data and filter out recently notified issues
+    const notifiableIssues = await loadNotifiableIssues(ctx, args.staleIssueIds, args.notifiedAt);
     const staleIssues = await Promise.all(
-      args.staleIssueIds.map(async (issueId) => {
-        const issue = await ctx.db.get(issueId);
-        if (!issue) return null;
-        
-        // Skip issues that were notified recently (within last 24 hours)
-        const twentyFourHours = 24 * 60 * 60 * 1000;
-        if (issue.lastNotified && (Date.now() - issue.lastNotified) < twentyFourHours) {
-          return null;
-        }
-        
+      notifiableIssues.map(async (issue) => {
         return {
           id: issue._id,
           title: issue.title,
@@ -802,6 +1163,8 @@ async function sendStaleIssueNotificationImpl(
           lastActivity: issue.lastActivity,
           labels: issue.labels,
           assignee: issue.assignee,
+          staleReasons: getStaleReasons(issue),
+          actionLinks: await buildIssueActionLinks(issue._id),
         };
       })
     );
@@ -814,12 +1177,7 @@ async function sendStaleIssueNotificationImpl(
     }
 
     // Generate unsubscribe token if not exists
-    let unsubscribeToken = user.notificationPreferences.unsubscribeToken;
-    if (!unsubscribeToken) {
-      unsubscribeToken = await ctx.runMutation(internal.notificationPreferences.generateUnsubscribeToken, {
-        userId: args.userId,
-      });
-    }
+    const unsubscribeToken = await getUnsubscribeToken(ctx, user);
 
     // Generate email content
     const emailHtml = generateStaleIssueEmailHtml(
@@ -839,6 +1197,7 @@ async function sendStaleIssueNotificationImpl(
       userId: args.userId,
       repositoryId: args.repositoryId,
       issueIds: validStaleIssues.map(issue => issue.id),
+      channel: "email",
       emailId: `pending-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
       status: "pending",
       sentAt: Date.now(),
@@ -863,7 +1222,7 @@ async function sendStaleIssueNotificationImpl(
     await Promise.all(
       validStaleIssues.map((issue) =>
         ctx.db.patch(issue.id, {
-          lastNotified: Date.now(),
+          lastNotified: args.notifiedAt ?? Date.now(),
         })
       )
     );
@@ -879,15 +1238,87 @@ async function sendStaleIssueNotificationImpl(
       userId: args.userId,
       repositoryId: args.repositoryId,
       issueIds: args.staleIssueIds,
+      channel: "email",
       emailId: `failed-${Date.now()}`,
       status: "failed",
       sentAt: Date.now(),
     });
 
+    const failedNotification = await ctx.db.get(notificationId);
+    if (failedNotification) {
+      await emitNotificationFailed(ctx, failedNotification);
+    }
+
     return notificationId;
   }
 }
 
+// Helper function that posts newly stale issues to the Slack webhook, if one is configured
+// The repository's webhook takes precedence over the user's
+async function sendSlackNotificationImpl(
+  ctx: any,
+  args: {
+    user: Doc<"users">;
+    repository: Doc<"repositories">;
+    staleIssueIds: Id<"issues">[];
+  }
+): Promise<Id<"notifications"> | null> {
+  const webhookUrl = args.repository.slackWebhookUrl || args.user.slackWebhookUrl;
+  if (!webhookUrl) {
+    return null;
+  }
+
+  // Pauses and quiet hours apply to Slack too; bounces only concern email
+  const preferenceCheck = evaluateNotificationPreferences(
+    { ...args.user.notificationPreferences, bounceCount: 0 },
+    Date.now()
+  );
+  if (!preferenceCheck.shouldSend) {
+    console.log(`Slack notification not sent for user ${args.user._id}: ${preferenceCheck.reason}`);
+    return null;
+  }
+
+  const twentyFourHours = 24 * 60 * 60 * 1000;
+  const issues: Doc<"issues">[] = [];
+  for (const issueId of args.staleIssueIds) {
+    const issue = await ctx.db.get(issueId);
+    if (issue && !(issue.lastNotified && (Date.now() - issue.lastNotified) < twentyFourHours)) {
+      issues.push(issue);
+    }
+  }
+
+  if (issues.length === 0) {
+    return null;
+  }
+
+  const slackIssues: SlackStaleIssue[] = issues.map(issue => ({
+    title: issue.title,
+    url: issue.url,
+    lastActivity: issue.lastActivity,
+    labels: issue.labels,
+    assignee: issue.assignee,
+  }));
+
+  const notificationId = await ctx.db.insert("notifications", {
+    userId: args.user._id,
+    repositoryId: args.repository._id,
+    issueIds: issues.map(issue => issue._id),
+    channel: "slack",
+    emailId: `pending-slack-${Date.now()}`,
+    status: "pending",
+    sentAt: Date.now(),
+  });
+
+  await ctx.scheduler.runAfter(0, internal.notifications.sendSlackAction, {
+    notificationId,
+    webhookUrl,
+    message: buildStaleIssueSlackMessage(args.repository.fullName, slackIssues),
+  });
+
+  console.log(`Scheduled Slack notification for repository ${args.repository.fullName} (${issues.length} issues)`);
+  return notificationId;
+}
+
 // Main function to send stale issue notification email
 export const sendStaleIssueNotification = internalMutation({
   args: {
@@ -900,6 +1331,212 @@ export const sendStaleIssueNotification = internalMutation({
   },
 });
 
+// Helper function that emails a repository owner a summary of newly stale issues whose
+// assignees are emailed separately, listing only the remaining issues in full
+async function sendOwnerSummaryImpl(
+  ctx: any,
+  args: {
+    user: Doc<"users">;
+    repository: Doc<"repositories">;
+    staleIssueIds: Id<"issues">[];
+    notifiedAt: number;
+  }
+): Promise<Id<"notifications"> | null> {
+  const { user, repository } = args;
+
+  const shouldSendResult = await ctx.runMutation(internal.notificationPreferences.shouldSendNotification, {
+    userId: user._id,
+  });
+  if (!shouldSendResult.shouldSend) {
+    console.log(`Notifications not sent for user ${user._id}: ${shouldSendResult.reason}`);
+    return null;
+  }
+
+  const issues = await loadNotifiableIssues(ctx, args.staleIssueIds, args.notifiedAt);
+  if (issues.length === 0) {
+    return null;
+  }
+
+  const summary = summarizeForOwner(issues, getParticipantSettings(repository));
+  const emailSummary = {
+    total: summary.total,
+    assigned: summary.assigned,
+    unassignedIssues: issues.filter(issue => summary.unassignedIssueIds.includes(issue._id)),
+  };
+
+  const notificationId = await ctx.db.insert("notifications", {
+    userId: user._id,
+    repositoryId: repository._id,
+    issueIds: issues.map(issue => issue._id),
+    channel: "email",
+    emailId: `pending-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    status: "pending",
+    sentAt: Date.now(),
+    recipientRole: "owner",
+  });
+
+  await ctx.scheduler.runAfter(0, internal.notifications.sendEmailAction, {
+    notificationId,
+    to: user.email,
+    subject: `${summary.total} Stale Issue${summary.total === 1 ? "" : "s"} in ${repository.name}`,
+    html: generateOwnerSummaryEmailHtml(repository.fullName, emailSummary, await getUnsubscribeToken(ctx, user)),
+    text: generateOwnerSummaryEmailText(repository.fullName, emailSummary),
+    tags: [
+      { name: "type", value: "stale-issues-summary" },
+      { name: "repository", value: repository.fullName },
+      { name: "user", value: user.githubId },
+    ],
+  });
+
+  await Promise.all(issues.map(issue => ctx.db.patch(issue._id, { lastNotified: args.notifiedAt })));
+  return notificationId;
+}
+
+// Helper function that emails an assignee their stale issues, or asks an author whether theirs
+// are still relevant. Recipients without a StaleBot account are recorded under the repository owner
+async function sendParticipantEmailImpl(
+  ctx: any,
+  args: {
+    repository: Doc<"repositories">;
+    role: ParticipantRole;
+    issueIds: Id<"issues">[];
+    notifiedAt: number;
+    user?: Doc<"users">;
+    contact?: Doc<"githubContacts">;
+  }
+): Promise<Id<"notifications"> | null> {
+  const { repository, role, user, contact } = args;
+  const email = user?.email ?? contact?.email;
+  if (!email) {
+    return null;
+  }
+
+  if (user) {
+    const shouldSendResult = await ctx.runMutation(internal.notificationPreferences.shouldSendNotification, {
+      userId: user._id,
+    });
+    if (!shouldSendResult.shouldSend) {
+      console.log(`Notifications not sent for user ${user._id}: ${shouldSendResult.reason}`);
+      return null;
+    }
+  }
+
+  const issues = await loadNotifiableIssues(ctx, args.issueIds, args.notifiedAt);
+  if (issues.length === 0) {
+    return null;
+  }
+
+  const unsubscribeToken = user ? await getUnsubscribeToken(ctx, user) : contact!.unsubscribeToken;
+  const count = `${issues.length} ${issues.length === 1 ? "issue" : "issues"}`;
+  const message = role === "assignee"
+    ? {
+        subject: `${count} assigned to you went stale in ${repository.name}`,
+        html: generateStaleIssueEmailHtml(
+          repository.fullName,
+          issues.map(issue => ({
+            title: issue.title,
+            url: issue.url,
+            lastActivity: issue.lastActivity,
+            labels: issue.labels,
+            assignee: issue.assignee,
+            staleReasons: getStaleReasons(issue),
+          })),
+          user?.notificationPreferences ?? { emailTemplate: "default" },
+          unsubscribeToken
+        ),
+        text: generateStaleIssueEmailText(repository.fullName, issues),
+      }
+    : {
+        subject: `Is this still relevant? ${count} you opened in ${repository.name}`,
+        html: generateAuthorCheckInEmailHtml(repository.fullName, issues, unsubscribeToken),
+        text: generateAuthorCheckInEmailText(repository.fullName, issues),
+      };
+
+  const notificationId = await ctx.db.insert("notifications", {
+    userId: user?._id ?? repository.userId,
+    repositoryId: repository._id,
+    issueIds: issues.map(issue => issue._id),
+    channel: "email",
+    emailId: `pending-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    status: "pending",
+    sentAt: Date.now(),
+    recipientRole: role,
+    contactId: contact?._id,
+  });
+
+  await ctx.scheduler.runAfter(0, internal.notifications.sendEmailAction, {
+    notificationId,
+    to: email,
+    subject: message.subject,
+    html: message.html,
+    text: message.text,
+    tags: [
+      { name: "type", value: `stale-issues-${role}` },
+      { name: "repository", value: repository.fullName },
+    ],
+  });
+
+  await Promise.all(issues.map(issue => ctx.db.patch(issue._id, { lastNotified: args.notifiedAt })));
+  return notificationId;
+}
+
+// Email the assignees and authors of newly stale issues, each according to their own preferences
+export const sendParticipantNotifications = internalMutation({
+  args: {
+    repositoryId: v.id("repositories"),
+    staleIssueIds: v.array(v.id("issues")),
+    notifiedAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const repository = await ctx.db.get(args.repositoryId);
+    if (!repository) {
+      return [];
+    }
+
+    const results = [];
+    for (const group of await getParticipantGroups(ctx, repository, args.staleIssueIds)) {
+      try {
+        const user = await findUserByLogin(ctx, group.login);
+        if (user) {
+          const { emailFrequency } = user.notificationPreferences;
+          if (emailFrequency === "immediate") {
+            results.push(await sendParticipantEmailImpl(ctx, {
+              repository,
+              role: group.role,
+              issueIds: group.issueIds,
+              notifiedAt: args.notifiedAt,
+              user,
+            }));
+          } else {
+            results.push(...await createDigestNotificationsImpl(ctx, {
+              userId: user._id,
+              repositoryNotifications: [{ repositoryId: repository._id, staleIssueIds: group.issueIds }],
+              digestType: emailFrequency,
+            }));
+          }
+          continue;
+        }
+
+        // Participants without an account have no preferences beyond unsubscribing
+        const contact = await findContact(ctx, group.login);
+        if (contact?.email && !contact.unsubscribedAt) {
+          results.push(await sendParticipantEmailImpl(ctx, {
+            repository,
+            role: group.role,
+            issueIds: group.issueIds,
+            notifiedAt: args.notifiedAt,
+            contact,
+          }));
+        }
+      } catch (error) {
+        console.error(`Failed to notify ${group.role} ${group.login} in ${repository.fullName}:`, error);
+      }
+    }
+
+    return results.filter(Boolean);
+  },
+});
+
 // Helper function for sending grouped notifications
 async function sendGroupedNotificationsImpl(ctx: any, args: {
   userId: Id<"users">;
@@ -987,6 +1624,7 @@ async function createDigestNotificationsImpl(
         userId: args.userId,
         repositoryId: repoNotification.repositoryId,
         issueIds: repoNotification.staleIssueIds,
+        channel: "email",
         emailId: `digest-${args.digestType}-${Date.now()}`,
         status: "pending",
         sentAt: Date.now(),
@@ -1026,11 +1664,11 @@ export const sendDigestEmail = internalMutation({
         return null;
       }
 
-      // Get pending digest notifications
+      // Get pending digest notifications (Slack messages are never batched)
       const pendingNotifications = await ctx.db
         .query("notifications")
         .withIndex("by_user", (q) => q.eq("userId", args.userId))
-        .filter((q) => q.eq(q.field("status"), "pending"))
+        .filter((q) => q.and(q.eq(q.field("status"), "pending"), q.neq(q.field("channel"), "slack")))
         .collect();
 
       if (pendingNotifications.length === 0) {
@@ -1104,6 +1742,7 @@ export const sendDigestEmail = internalMutation({
         userId: args.userId,
         repositoryId: pendingNotifications[0].repositoryId, // Use first repo as reference
         issueIds: pendingNotifications.flatMap(n => n.issueIds),
+        channel: "email",
         emailId: `digest-${args.digestType}-${Date.now()}`,
         status: "pending",
         sentAt: Date.now(),
@@ -1332,28 +1971,68 @@ export const processStaleIssuesForNotification = internalMutation({
 
       console.log(`Processing ${args.staleIssueIds.length} stale issues for notification in ${repository.fullName}`);
 
-      // Send notification based on user preferences
-      const { emailFrequency } = user.notificationPreferences;
-      
-      if (emailFrequency === "immediate") {
-        // Send immediate notification
-        return await sendStaleIssueNotificationImpl(ctx, {
-          userId: repository.userId,
-          repositoryId: args.repositoryId,
+      // Slack is posted right away regardless of the email frequency
+      try {
+        await sendSlackNotificationImpl(ctx, {
+          user,
+          repository,
           staleIssueIds: args.staleIssueIds,
         });
-      } else {
-        // Store for digest processing
-        return await createDigestNotificationsImpl(ctx, {
-          userId: repository.userId,
-          repositoryNotifications: [{
+      } catch (error) {
+        console.error(`Failed to schedule Slack notification for ${repository.fullName}:`, error);
+      }
+
+      // Email every recipient according to their own preferences; when assignees and authors
+      // are emailed their issues, immediate recipients get a summary instead of the full list
+      const notifiedAt = Date.now();
+      const summarize = notifiesParticipants(getParticipantSettings(repository));
+      const recipientIds = await getNotificationRecipients(ctx, repository);
+      const results = [];
+      for (const recipientId of recipientIds) {
+        const recipient = await ctx.db.get(recipientId);
+        if (!recipient) {
+          continue;
+        }
+
+        const { emailFrequency } = recipient.notificationPreferences;
+        if (emailFrequency === "immediate" && summarize) {
+          results.push(await sendOwnerSummaryImpl(ctx, {
+            user: recipient,
+            repository,
+            staleIssueIds: args.staleIssueIds,
+            notifiedAt,
+          }));
+        } else if (emailFrequency === "immediate") {
+          results.push(await sendStaleIssueNotificationImpl(ctx, {
+            userId: recipientId,
             repositoryId: args.repositoryId,
             staleIssueIds: args.staleIssueIds,
-          }],
-          digestType: emailFrequency,
+            notifiedAt,
+          }));
+        } else {
+          // Store for digest processing
+          results.push(...await createDigestNotificationsImpl(ctx, {
+            userId: recipientId,
+            repositoryNotifications: [{
+              repositoryId: args.repositoryId,
+              staleIssueIds: args.staleIssueIds,
+            }],
+            digestType: emailFrequency,
+          }));
+        }
+      }
+
+      if (summarize) {
+        // Participant emails may first need their addresses looked up on GitHub
+        await ctx.scheduler.runAfter(0, internal.participants.notifyIssueParticipants, {
+          repositoryId: args.repositoryId,
+          staleIssueIds: args.staleIssueIds,
+          notifiedAt,
         });
       }
 
+      return results.filter(Boolean);
+
     } catch (error) {
       console.error("Error processing stale issues for notification:", error);
       return null;
@@ -1420,10 +2099,11 @@ export const retryFailedNotifications = internalMutation({
   handler: async (ctx, args) => {
     const maxRetries = args.maxRetries || 3;
     
-    // Get failed notifications that haven't exceeded retry limit
+    // Get failed email notifications that haven't exceeded retry limit
     const failedNotifications = await ctx.db
       .query("notifications")
       .withIndex("by_status", (q) => q.eq("status", "failed"))
+      .filter((q) => q.neq(q.field("channel"), "slack"))
       .collect();
 
     const retryResults = [];
@@ -0,0 +1,523 @@
+import { internalAction, internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { getCurrentUser, hasRepositoryPermission } from "./lib/auth_helpers";
+import { decryptToken, encryptToken } from "./lib/encryption";
+import { isRetryableStatus } from "./lib/delivery";
+import { getItemKind } from "./lib/pullRequests";
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  OutboundWebhookEvent,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMEOUT_MS,
+  buildWebhookPayload,
+  generateWebhookSecret,
+  getWebhookRetryDelayMs,
+  isValidWebhookUrl,
+  signWebhookPayload,
+} from "./lib/outboundWebhooks";
+
+// Deliveries older than this are removed by the daily cleanup
+const DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface DeliveryContext {
+  delivery: Doc<"webhookDeliveries">;
+  endpoint: Doc<"webhookEndpoints"> | null;
+}
+
+export const outboundWebhookEventValidator = v.union(
+  v.literal("issue.became_stale"),
+  v.literal("issue.unstaled"),
+  v.literal("notification.failed"),
+  v.literal("repository.deactivated")
+);
+
+/**
+ * Queue an event for every active endpoint subscribed to it
+ * A repository's events go to the endpoints of every member of its workspace, or of the user
+ * who connected it when it is personal. Endpoints scoped to a repository only receive that
+ * repository's events
+ */
+export async function emitWebhookEvent(
+  ctx: any,
+  event: {
+    userId: Id<"users">;
+    repositoryId?: Id<"repositories">;
+    type: OutboundWebhookEvent;
+    data: Record<string, any>;
+  }
+): Promise<number> {
+  const endpoints: Doc<"webhookEndpoints">[] = [];
+  for (const userId of await getEventRecipientIds(ctx, event)) {
+    endpoints.push(...await ctx.db
+      .query("webhookEndpoints")
+      .withIndex("by_user", (q: any) => q.eq("userId", userId))
+      .filter((q: any) => q.eq(q.field("isActive"), true))
+      .collect());
+  }
+
+  const subscribed = endpoints.filter(endpoint =>
+    endpoint.events.includes(event.type) &&
+    (!endpoint.repositoryId || endpoint.repositoryId === event.repositoryId)
+  );
+  if (subscribed.length === 0) {
+    return 0;
+  }
+
+  // One event id shared by every endpoint so receivers can deduplicate
+  const now = Date.now();
+  const eventId = `evt_${now.toString(36)}${Math.random().toString(36).substr(2, 9)}`;
+  const payload = JSON.stringify(buildWebhookPayload(eventId, event.type, event.data, now));
+
+  for (const endpoint of subscribed) {
+    const deliveryId = await ctx.db.insert("webhookDeliveries", {
+      endpointId: endpoint._id,
+      userId: endpoint.userId,
+      event: event.type,
+      payload,
+      status: "pending",
+      attempts: 0,
+      createdAt: now,
+    });
+
+    await ctx.scheduler.runAfter(0, internal.outboundWebhooks.deliverWebhook, { deliveryId });
+  }
+
+  return subscribed.length;
+}
+
+/**
+ * Users whose endpoints receive an event
+ */
+async function getEventRecipientIds(
+  ctx: any,
+  event: { userId: Id<"users">; repositoryId?: Id<"repositories"> }
+): Promise<Id<"users">[]> {
+  const repository: Doc<"repositories"> | null = event.repositoryId ? await ctx.db.get(event.repositoryId) : null;
+  if (!repository?.workspaceId) {
+    return [repository?.userId ?? event.userId];
+  }
+
+  const members: Doc<"workspaceMembers">[] = await ctx.db
+    .query("workspaceMembers")
+    .withIndex("by_workspace", (q: any) => q.eq("workspaceId", repository.workspaceId))
+    .collect();
+  return members.map(member => member.userId);
+}
+
+/**
+ * Issue fields included in issue event payloads
+ */
+export function toWebhookIssue(issue: Doc<"issues">) {
+  return {
+    id: issue._id,
+    githubIssueId: issue.githubIssueId,
+    title: issue.title,
+    url: issue.url,
+    kind: getItemKind(issue),
+    state: issue.state,
+    labels: issue.labels,
+    assignee: issue.assignee ?? null,
+    lastActivity: new Date(issue.lastActivity).toISOString(),
+  };
+}
+
+/**
+ * Queue an event from an action context
+ */
+export const emitEvent = internalMutation({
+  args: {
+    userId: v.id("users"),
+    repositoryId: v.optional(v.id("repositories")),
+    type: outboundWebhookEventValidator,
+    data: v.any(),
+  },
+  handler: async (ctx, args) => {
+    return await emitWebhookEvent(ctx, args);
+  },
+});
+
+export const getDeliveryContext = internalQuery({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+  },
+  handler: async (ctx, args) => {
+    const delivery = await ctx.db.get(args.deliveryId);
+    if (!delivery) {
+      return null;
+    }
+    const endpoint = await ctx.db.get(delivery.endpointId);
+    return { delivery, endpoint };
+  },
+});
+
+export const recordDeliveryAttempt = internalMutation({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+    status: v.union(v.literal("pending"), v.literal("succeeded"), v.literal("failed")),
+    attempts: v.number(),
+    responseStatus: v.optional(v.number()),
+    lastError: v.optional(v.string()),
+    nextAttemptAt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.deliveryId, {
+      status: args.status,
+      attempts: args.attempts,
+      responseStatus: args.responseStatus,
+      lastError: args.lastError,
+      nextAttemptAt: args.nextAttemptAt,
+      completedAt: args.status === "pending" ? undefined : Date.now(),
+    });
+  },
+});
+
+/**
+ * POST a queued delivery, retrying timeouts, network errors, 429 and 5xx with exponential backoff
+ */
+export const deliverWebhook = internalAction({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+  },
+  handler: async (ctx, args): Promise<{ success?: boolean; skipped?: boolean; retrying?: boolean; attempt?: number }> => {
+    const context: DeliveryContext | null = await ctx.runQuery(internal.outboundWebhooks.getDeliveryContext, {
+      deliveryId: args.deliveryId,
+    });
+    if (!context || context.delivery.status !== "pending") {
+      return { skipped: true };
+    }
+
+    const { delivery, endpoint } = context;
+    const attempt = delivery.attempts + 1;
+
+    if (!endpoint || !endpoint.isActive) {
+      await ctx.runMutation(internal.outboundWebhooks.recordDeliveryAttempt, {
+        deliveryId: args.deliveryId,
+        status: "failed",
+        attempts: delivery.attempts,
+        lastError: "Endpoint was removed or disabled",
+      });
+      return { success: false };
+    }
+
+    let responseStatus: number | undefined;
+    let lastError: string | undefined;
+    let retryable = true;
+
+    try {
+      const secret = await decryptToken(endpoint.secret);
+      const controller = new AbortController();
+      const timeout = setTimeout(() => controller.abort(), WEBHOOK_TIMEOUT_MS);
+
+      try {
+        const response = await fetch(endpoint.url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "User-Agent": "StaleBot-Webhooks",
+            [WEBHOOK_EVENT_HEADER]: delivery.event,
+            [WEBHOOK_DELIVERY_HEADER]: delivery._id,
+            [WEBHOOK_SIGNATURE_HEADER]: await signWebhookPayload(secret, delivery.payload),
+          },
+          body: delivery.payload,
+          signal: controller.signal,
+        });
+        responseStatus = response.status;
+
+        if (!response.ok) {
+          lastError = `Endpoint responded with ${response.status}`;
+          retryable = isRetryableStatus(response.status);
+        }
+      } finally {
+        clearTimeout(timeout);
+      }
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : "Unknown error";
+    }
+
+    if (!lastError) {
+      await ctx.runMutation(internal.outboundWebhooks.recordDeliveryAttempt, {
+        deliveryId: args.deliveryId,
+        status: "succeeded",
+        attempts: attempt,
+        responseStatus,
+      });
+      return { success: true, attempt };
+    }
+
+    if (retryable && attempt < MAX_WEBHOOK_ATTEMPTS) {
+      const delayMs = getWebhookRetryDelayMs(attempt);
+      console.log(`Webhook delivery ${args.deliveryId} failed (${lastError}), retrying in ${delayMs}ms`);
+
+      await ctx.runMutation(internal.outboundWebhooks.recordDeliveryAttempt, {
+        deliveryId: args.deliveryId,
+        status: "pending",
+        attempts: attempt,
+        responseStatus,
+        lastError,
+        nextAttemptAt: Date.now() + delayMs,
+      });
+      await ctx.scheduler.runAfter(delayMs, internal.outboundWebhooks.deliverWebhook, {
+        deliveryId: args.deliveryId,
+      });
+      return { success: false, retrying: true, attempt };
+    }
+
+    console.error(`Webhook delivery ${args.deliveryId} permanently failed after ${attempt} attempts: ${lastError}`);
+    await ctx.runMutation(internal.outboundWebhooks.recordDeliveryAttempt, {
+      deliveryId: args.deliveryId,
+      status: "failed",
+      attempts: attempt,
+      responseStatus,
+      lastError,
+    });
+    return { success: false, attempt };
+  },
+});
+
+/**
+ * Register a webhook endpoint; the signing secret is only returned here
+ */
+export const createWebhookEndpoint = mutation({
+  args: {
+    url: v.string(),
+    events: v.array(outboundWebhookEventValidator),
+    repositoryId: v.optional(v.id("repositories")),
+    description: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("User not authenticated");
+    }
+
+    await validateEndpointSettings(ctx, user._id, args);
+
+    const secret = generateWebhookSecret();
+    const now = Date.now();
+    const endpointId = await ctx.db.insert("webhookEndpoints", {
+      userId: user._id,
+      repositoryId: args.repositoryId,
+      url: args.url,
+      secret: await encryptToken(secret),
+      events: [...new Set(args.events)],
+      description: args.description,
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    return { endpointId, secret };
+  },
+});
+
+/**
+ * Update a webhook endpoint's target, events or active flag
+ */
+export const updateWebhookEndpoint = mutation({
+  args: {
+    endpointId: v.id("webhookEndpoints"),
+    url: v.optional(v.string()),
+    events: v.optional(v.array(outboundWebhookEventValidator)),
+    description: v.optional(v.string()),
+    isActive: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const { user, endpoint } = await getOwnedEndpoint(ctx, args.endpointId);
+
+    const url = args.url ?? endpoint.url;
+    const events = args.events ? [...new Set(args.events)] : endpoint.events;
+    await validateEndpointSettings(ctx, user._id, { url, events, repositoryId: endpoint.repositoryId });
+
+    await ctx.db.patch(args.endpointId, {
+      url,
+      events,
+      description: args.description ?? endpoint.description,
+      isActive: args.isActive ?? endpoint.isActive,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Replace an endpoint's signing secret
+ */
+export const rotateWebhookSecret = mutation({
+  args: {
+    endpointId: v.id("webhookEndpoints"),
+  },
+  handler: async (ctx, args) => {
+    await getOwnedEndpoint(ctx, args.endpointId);
+
+    const secret = generateWebhookSecret();
+    await ctx.db.patch(args.endpointId, {
+      secret: await encryptToken(secret),
+      updatedAt: Date.now(),
+    });
+
+    return { secret };
+  },
+});
+
+/**
+ * Delete an endpoint together with its delivery log
+ */
+export const deleteWebhookEndpoint = mutation({
+  args: {
+    endpointId: v.id("webhookEndpoints"),
+  },
+  handler: async (ctx, args) => {
+    await getOwnedEndpoint(ctx, args.endpointId);
+
+    const deliveries = await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("by_endpoint", (q) => q.eq("endpointId", args.endpointId))
+      .collect();
+    for (const delivery of deliveries) {
+      await ctx.db.delete(delivery._id);
+    }
+
+    await ctx.db.delete(args.endpointId);
+    return { success: true };
+  },
+});
+
+/**
+ * List the current user's endpoints without their secrets
+ */
+export const listWebhookEndpoints = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    const endpoints = await ctx.db
+      .query("webhookEndpoints")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    return endpoints.map(({ secret, ...endpoint }) => endpoint);
+  },
+});
+
+/**
+ * Recent deliveries for an endpoint, newest first
+ */
+export const getWebhookDeliveries = query({
+  args: {
+    endpointId: v.id("webhookEndpoints"),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    const endpoint = await ctx.db.get(args.endpointId);
+    if (!endpoint || endpoint.userId !== user._id) {
+      return [];
+    }
+
+    return await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("by_endpoint", (q) => q.eq("endpointId", args.endpointId))
+      .order("desc")
+      .take(args.limit || 20);
+  },
+});
+
+/**
+ * Queue a failed delivery again with a fresh set of attempts
+ */
+export const redeliverWebhook = mutation({
+  args: {
+    deliveryId: v.id("webhookDeliveries"),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("User not authenticated");
+    }
+
+    const delivery = await ctx.db.get(args.deliveryId);
+    if (!delivery || delivery.userId !== user._id) {
+      throw new Error("Delivery not found or access denied");
+    }
+    if (delivery.status !== "failed") {
+      throw new Error("Only failed deliveries can be redelivered");
+    }
+
+    await ctx.db.patch(args.deliveryId, {
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: undefined,
+      completedAt: undefined,
+    });
+    await ctx.scheduler.runAfter(0, internal.outboundWebhooks.deliverWebhook, {
+      deliveryId: args.deliveryId,
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Remove old deliveries from the log
+ */
+export const pruneWebhookDeliveries = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const cutoff = Date.now() - DELIVERY_RETENTION_MS;
+    const expired = await ctx.db
+      .query("webhookDeliveries")
+      .withIndex("by_created_at", (q) => q.lt("createdAt", cutoff))
+      .take(500);
+
+    for (const delivery of expired) {
+      await ctx.db.delete(delivery._id);
+    }
+
+    return { deleted: expired.length };
+  },
+});
+
+async function getOwnedEndpoint(ctx: any, endpointId: Id<"webhookEndpoints">) {
+  const user = await getCurrentUser(ctx);
+  if (!user) {
+    throw new Error("User not authenticated");
+  }
+
+  const endpoint: Doc<"webhookEndpoints"> | null = await ctx.db.get(endpointId);
+  if (!endpoint || endpoint.userId !== user._id) {
+    throw new Error("Webhook endpoint not found or access denied");
+  }
+
+  return { user, endpoint };
+}
+
+async function validateEndpointSettings(
+  ctx: any,
+  userId: Id<"users">,
+  settings: { url: string; events: string[]; repositoryId?: Id<"repositories"> }
+) {
+  if (!isValidWebhookUrl(settings.url)) {
+    throw new Error("Webhook URL must be an absolute https:// URL");
+  }
+  if (settings.events.length === 0) {
+    throw new Error("Select at least one event");
+  }
+  if (settings.repositoryId) {
+    const repository = await ctx.db.get(settings.repositoryId);
+    if (!repository || !(await hasRepositoryPermission(ctx, userId, repository, "manage"))) {
+      throw new Error("Repository not found or access denied");
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import { internalAction, internalMutation, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { GitHubService } from "../src/lib/github";
+import { Logger } from "./lib/monitoring";
+import {
+  MAX_CONTACT_LOOKUPS,
+  getParticipantSettings,
+  groupIssuesByParticipant,
+  needsContactLookup,
+  selectCommitEmail,
+} from "./lib/participants";
+import { resolveGitHubCredentials } from "./processor";
+
+/**
+ * Cached contact of a GitHub user without a StaleBot account
+ */
+export async function findContact(ctx: any, login: string): Promise<Doc<"githubContacts"> | null> {
+  return await ctx.db
+    .query("githubContacts")
+    .withIndex("by_login", (q: any) => q.eq("login", login.toLowerCase()))
+    .first();
+}
+
+/**
+ * StaleBot user signed in with a GitHub login
+ */
+export async function findUserByLogin(ctx: any, login: string): Promise<Doc<"users"> | null> {
+  return await ctx.db
+    .query("users")
+    .withIndex("by_github_id", (q: any) => q.eq("githubId", login))
+    .first();
+}
+
+/**
+ * Participants of newly stale issues, grouped per recipient
+ */
+export async function getParticipantGroups(
+  ctx: any,
+  repository: Doc<"repositories">,
+  staleIssueIds: Id<"issues">[]
+) {
+  const issues: Doc<"issues">[] = [];
+  for (const issueId of staleIssueIds) {
+    const issue: Doc<"issues"> | null = await ctx.db.get(issueId);
+    if (issue) {
+      issues.push(issue);
+    }
+  }
+  return groupIssuesByParticipant(issues, getParticipantSettings(repository));
+}
+
+export const getParticipantContext = internalQuery({
+  args: {
+    repositoryId: v.id("repositories"),
+    staleIssueIds: v.array(v.id("issues")),
+  },
+  handler: async (ctx, args) => {
+    const repository = await ctx.db.get(args.repositoryId);
+    if (!repository) {
+      return { repository: null, user: null, unresolvedLogins: [] };
+    }
+
+    // Logins without a StaleBot account whose email is unknown or due for a refresh
+    const now = Date.now();
+    const unresolvedLogins = new Set<string>();
+    for (const group of await getParticipantGroups(ctx, repository, args.staleIssueIds)) {
+      if (await findUserByLogin(ctx, group.login)) {
+        continue;
+      }
+      if (needsContactLookup(await findContact(ctx, group.login), now)) {
+        unresolvedLogins.add(group.login);
+      }
+    }
+
+    return {
+      repository,
+      user: await ctx.db.get(repository.userId),
+      unresolvedLogins: [...unresolvedLogins],
+    };
+  },
+});
+
+export const storeGitHubContacts = internalMutation({
+  args: {
+    contacts: v.array(v.object({
+      login: v.string(),
+      email: v.optional(v.string()),
+      emailSource: v.optional(v.union(v.literal("public"), v.literal("commit"))),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    for (const contact of args.contacts) {
+      const existing = await findContact(ctx, contact.login);
+      if (existing) {
+        await ctx.db.patch(existing._id, {
+          email: contact.email,
+          emailSource: contact.emailSource,
+          resolvedAt: now,
+        });
+      } else {
+        await ctx.db.insert("githubContacts", {
+          login: contact.login.toLowerCase(),
+          email: contact.email,
+          emailSource: contact.emailSource,
+          resolvedAt: now,
+          unsubscribeToken: crypto.randomUUID(),
+        });
+      }
+    }
+  },
+});
+
+/**
+ * Resolve the emails of participants without a StaleBot account, then email every participant
+ */
+export const notifyIssueParticipants = internalAction({
+  args: {
+    repositoryId: v.id("repositories"),
+    staleIssueIds: v.array(v.id("issues")),
+    notifiedAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const context = await ctx.runQuery(internal.participants.getParticipantContext, {
+      repositoryId: args.repositoryId,
+      staleIssueIds: args.staleIssueIds,
+    });
+    if (!context.repository || !context.user) {
+      return;
+    }
+
+    const logins = context.unresolvedLogins.slice(0, MAX_CONTACT_LOOKUPS);
+    if (logins.length > 0) {
+      const contacts: Array<{ login: string; email?: string; emailSource?: "public" | "commit" }> = [];
+      try {
+        const githubService = new GitHubService();
+        const { token } = await resolveGitHubCredentials(ctx, context.repository, context.user);
+        const [owner, repo] = context.repository.fullName.split("/");
+
+        for (const login of logins) {
+          const publicEmail = await githubService.fetchUserPublicEmail(token, login);
+          if (publicEmail) {
+            contacts.push({ login, email: publicEmail, emailSource: "public" });
+            continue;
+          }
+          const commits = await githubService.fetchCommitsByAuthor(token, owner, repo, login);
+          const commitEmail = selectCommitEmail(commits, login);
+          contacts.push(commitEmail ? { login, email: commitEmail, emailSource: "commit" } : { login });
+        }
+      } catch (error) {
+        // Participants whose email is still unknown are skipped this time
+        Logger.warn(`Could not resolve participant emails for ${context.repository.fullName}`, error);
+      }
+
+      if (contacts.length > 0) {
+        await ctx.runMutation(internal.participants.storeGitHubContacts, { contacts });
+      }
+    }
+
+    await ctx.runMutation(internal.notifications.sendParticipantNotifications, args);
+  },
+});
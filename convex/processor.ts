@@ -1,168 +1,1156 @@
-import { cronJobs } from "convex/server";
 import { internal } from "./_generated/api";
-import { internalMutation, internalQuery } from "./_generated/server";
+import { action, internalAction, internalMutation, internalQuery } from "./_generated/server";
+import type { ActionCtx } from "./_generated/server";
 import { v } from "convex/values";
-import { Id } from "./_generated/dataModel";
-import { GitHubService, GitHubApiError, AuthenticationError, RateLimitError } from "../src/lib/github";
+import { Doc, Id } from "./_generated/dataModel";
+import { GitHubService, GitHubApiError, AuthenticationError, NotModifiedError, RateLimitError, normalizeGitHubIssue } from "../src/lib/github";
+import { getAuthUserId } from "@convex-dev/auth/server";
+import {
+  ActivityEvent,
+  CacheValidators,
+  GitHubIssue,
+  GitHubRateLimit,
+  IssueSnooze,
+  IssueSyncResult,
+  ItemKind,
+  NormalizedIssue,
+  PullRequestCriteria,
+  RuleItemKind,
+  StaleActionPolicy,
+  StaleActionState,
+} from "../src/types/index";
+import {
+  activityEventValidator,
+  assigneeConditionValidator,
+  configRuleValidator,
+  exemptMilestonesValidator,
+  issueSyncResumeValidator,
+  normalizedIssueValidator,
+  pullRequestCriteriaValidator,
+  ruleItemKindValidator,
+  staleActionPolicyValidator,
+} from "../src/types/validators";
 import { ErrorHandler, ErrorType, ErrorSeverity, withErrorHandling, CircuitBreaker } from "./lib/errorHandling";
 import { Logger } from "./lib/monitoring";
-import { decryptToken } from "./lib/encryption";
-
-// Cron job for automated repository checking
-const crons = cronJobs();
+import { decryptToken, encryptToken } from "./lib/encryption";
+import { planStaleActions, resolveLastActivity, PlannedStaleAction } from "./lib/staleActions";
+import { getErrorSeverity, recordErrorEntry } from "./errors";
+import { emitWebhookEvent, toWebhookIssue } from "./outboundWebhooks";
+import { recordStaleTransition } from "./snapshots";
+import { getInstallationAccessToken, saveInstallationRateLimit } from "./githubApp";
+import { getGitHubAppConfig, isRateLimitExhausted } from "./lib/githubApp";
+import {
+  SchedulableRepository,
+  getBudgetKey,
+  needsRateLimitRefresh,
+  planRepositoryChecks,
+} from "./lib/scheduler";
+import { parseStalebotConfig, STALEBOT_CONFIG_PATH } from "./lib/stalebotConfig";
+import { getItemKind, mergePullRequestState, rulesNeedPullRequestDetails } from "./lib/pullRequests";
+import { rulesNeedLinkedPullRequests } from "./lib/exemptions";
+import { computeLastActivity, getActivitySettings, trimActivityTimeline } from "./lib/activity";
+import { evaluateIssue, hasStaleEvaluationChanged, matchesRule, toStaleEvaluation } from "./lib/rulesEngine";
+import { getParticipantSettings, groupIssuesByParticipant } from "./lib/participants";
+import { ParticipantRecipient, PlannedRecipient, planNotificationRecipients } from "./lib/notificationPlan";
+import { findContact, findUserByLogin } from "./participants";
+import { getNotificationRecipients } from "./workspaces";
+
+// Checks started together and the spacing between them
+const SCHEDULE_BATCH_SIZE = 5;
+const SCHEDULE_BATCH_DELAY_MS = 1000;
+
+// Maximum number of issues written per upsert mutation call
+const ISSUE_UPSERT_CHUNK_SIZE = 100;
+
+const repositoryErrorValidator = v.object({
+  type: v.string(),
+  message: v.string(),
+  timestamp: v.number(),
+  checkType: v.optional(v.string()),
+  details: v.optional(v.any()),
+});
 
-crons.interval(
-  "check all repositories",
-  { minutes: 60 }, // Run every hour
-  internal.processor.processAllRepositories
-);
+type RepositoryProcessingResult = {
+  success: boolean;
+  repositoryName: string;
+  skipped?: boolean;
+  reason?: string;
+  error?: string;
+  errorType?: string;
+  checkType?: string;
+  requiresReauth?: boolean;
+  repositoryDeactivated?: boolean;
+  retryAfter?: number;
+  statistics?: {
+    totalIssues: number;
+    newIssues: number;
+    updatedIssues: number;
+    staleIssues: number;
+    staleStatusChanges: number;
+    rulesApplied: number;
+    staleActionsApplied: number;
+    staleActionsFailed: number;
+  };
+  duration?: number;
+};
+
+type ScheduledCheckResult = {
+  success: boolean;
+  message?: string;
+  error?: string;
+  scheduledCount: number;
+  deferredCount?: number;
+  skippedCount?: number;
+  totalRepositories?: number;
+  resumeAt?: number;
+  duration: number;
+  timestamp?: number;
+};
+
+const simulationRuleValidator = v.object({
+  name: v.string(),
+  inactivityDays: v.number(),
+  labels: v.array(v.string()),
+  issueStates: v.array(v.union(v.literal("open"), v.literal("closed"))),
+  assigneeCondition: assigneeConditionValidator,
+  exemptLabels: v.optional(v.array(v.string())),
+  exemptMilestones: v.optional(exemptMilestonesValidator),
+  exemptLinkedPullRequests: v.optional(v.boolean()),
+  exemptIssueNumbers: v.optional(v.array(v.number())),
+  condition: v.optional(v.string()),
+  itemKind: v.optional(ruleItemKindValidator),
+  pullRequestCriteria: v.optional(pullRequestCriteriaValidator),
+  actionPolicy: v.optional(staleActionPolicyValidator),
+});
 
-export default crons;
+type SimulationRule = {
+  name: string;
+  source: "active" | "candidate";
+  inactivityDays: number;
+  labels: string[];
+  issueStates: ("open" | "closed")[];
+  assigneeCondition: "any" | "assigned" | "unassigned" | string[];
+  exemptLabels?: string[];
+  exemptMilestones?: "any" | string[];
+  exemptLinkedPullRequests?: boolean;
+  exemptIssueNumbers?: number[];
+  condition?: string;
+  itemKind?: RuleItemKind;
+  pullRequestCriteria?: PullRequestCriteria;
+  actionPolicy?: StaleActionPolicy;
+};
+
+type RepositorySimulationPlan = {
+  repositoryName: string;
+  simulatedAt: number;
+  source: "github" | "cache";
+  warnings: string[];
+  rules: Array<{ name: string; source: "active" | "candidate"; hasActionPolicy: boolean }>;
+  summary: {
+    totalIssues: number;
+    fetchedIssues: number;
+    newIssues: number;
+    staleIssues: number;
+    becameStale: number;
+    noLongerStale: number;
+    githubActions: number;
+  };
+  issues: Array<{
+    githubIssueId: number;
+    title: string;
+    url: string;
+    kind: ItemKind;
+    isNew: boolean;
+    currentlyStale: boolean;
+    wouldBeStale: boolean;
+    transition: "became_stale" | "no_longer_stale" | "still_stale";
+    matchedRules: string[];
+    daysSinceActivity: number;
+  }>;
+  notification: {
+    wouldSend: boolean;
+    reason: string;
+    recipients: PlannedRecipient[];
+    subject?: string;
+    issues: Array<{ githubIssueId: number; title: string; url: string }>;
+    skippedRecentlyNotified: number;
+  };
+  githubActions: Array<{
+    githubIssueId: number;
+    title: string;
+    ruleName?: string;
+    actions: PlannedStaleAction[];
+  }>;
+};
 
 /**
- * Main processing function that iterates through all active repositories
- * This is called by the cron job and handles batch processing with error isolation
+ * Main scheduling function that fans out checks for active repositories
+ * This is called by the cron job, and by itself with the repositories it deferred once their
+ * token's rate limit resets; each repository is processed by its own action
  */
-export const processAllRepositories = internalMutation({
-  args: {},
-  handler: async (ctx) => {
+export const processAllRepositories = internalAction({
+  args: {
+    repositoryIds: v.optional(v.array(v.id("repositories"))), // deferred repositories; all when absent
+  },
+  handler: async (ctx, args): Promise<ScheduledCheckResult> => {
     const startTime = Date.now();
     Logger.info("Starting scheduled repository check", { timestamp: new Date(startTime).toISOString() });
 
     try {
-      // Get all repositories that need checking
-      const repositoriesNeedingCheck = await ctx.db
-        .query("repositories")
-        .withIndex("by_active", (q) => q.eq("isActive", true))
-        .collect();
+      const context = await ctx.runQuery(internal.processor.getSchedulingContext, {
+        repositoryIds: args.repositoryIds,
+      });
 
-      if (repositoriesNeedingCheck.length === 0) {
+      if (context.repositories.length === 0) {
         Logger.info("No active repositories found for checking");
         return {
           success: true,
           message: "No active repositories to check",
-          processedCount: 0,
-          errorCount: 0,
+          scheduledCount: 0,
           duration: Date.now() - startTime,
         };
       }
 
-      Logger.info(`Found ${repositoriesNeedingCheck.length} active repositories to check`);
+      // Ask GitHub for budgets not observed since their last reset
+      const budgets = new Map<string, GitHubRateLimit>();
+      for (const { budgetKey, rateLimit, repositoryId } of context.budgets) {
+        const budget = rateLimit ?? await refreshRateLimitBudget(ctx, repositoryId);
+        if (budget) {
+          budgets.set(budgetKey, budget);
+        }
+      }
 
-      // Process repositories in batches to avoid timeouts
-      const batchSize = 5; // Process 5 repositories at a time
-      let processedCount = 0;
-      let errorCount = 0;
-      let skippedCount = 0;
+      const plan = planRepositoryChecks(context.repositories, budgets, startTime, {
+        force: args.repositoryIds !== undefined,
+      });
 
-      for (let i = 0; i < repositoriesNeedingCheck.length; i += batchSize) {
-        const batch = repositoriesNeedingCheck.slice(i, i + batchSize);
-        const batchNumber = Math.floor(i / batchSize) + 1;
-        const totalBatches = Math.ceil(repositoriesNeedingCheck.length / batchSize);
-        
-        Logger.info(`Processing batch ${batchNumber} of ${totalBatches}`, {
-          batchSize: batch.length,
-          repositoryIds: batch.map(r => r._id),
+      // Space checks out so one token is not hit by many repositories at once
+      for (let i = 0; i < plan.scheduled.length; i++) {
+        await ctx.scheduler.runAfter(Math.floor(i / SCHEDULE_BATCH_SIZE) * SCHEDULE_BATCH_DELAY_MS, internal.processor.processRepository, {
+          repositoryId: plan.scheduled[i],
+          isScheduledCheck: true,
         });
+      }
 
-        // Process batch with error isolation
-        const batchResults = await Promise.allSettled(
-          batch.map(repo =>
-            processRepositoryInternal(ctx, {
-              repositoryId: repo._id,
-              isScheduledCheck: true,
-            })
-          )
-        );
-
-        // Track results with detailed logging
-        for (let j = 0; j < batchResults.length; j++) {
-          const result = batchResults[j];
-          const repository = batch[j];
-          
-          if (result.status === "fulfilled") {
-            const repoResult = result.value;
-            if (repoResult.success) {
-              if ('skipped' in repoResult && repoResult.skipped) {
-                skippedCount++;
-                Logger.debug(`Repository skipped: ${repository.fullName}`, { 
-                  reason: 'reason' in repoResult ? repoResult.reason : 'Unknown' 
-                });
-              } else {
-                processedCount++;
-                Logger.debug(`Repository processed successfully: ${repository.fullName}`, 
-                  'statistics' in repoResult ? repoResult.statistics : {}
-                );
-              }
-            } else {
-              errorCount++;
-              Logger.error(`Repository processing failed: ${repository.fullName}`, {
-                error: repoResult.error,
-                errorType: 'errorType' in repoResult ? repoResult.errorType : 'unknown',
-              });
-            }
-          } else {
-            errorCount++;
-            Logger.error(`Batch processing error for ${repository.fullName}:`, result.reason);
-          }
-        }
-
-        // Add small delay between batches to be respectful of rate limits
-        if (i + batchSize < repositoriesNeedingCheck.length) {
-          Logger.debug(`Waiting 1 second before next batch...`);
-          await new Promise(resolve => setTimeout(resolve, 1000));
-        }
+      if (plan.resumeAt !== undefined) {
+        Logger.warn(`Deferring ${plan.deferred.length} repositories until their rate limit resets`, {
+          resumeAt: new Date(plan.resumeAt).toISOString(),
+          budgets: [...new Set(plan.deferred.map(entry => entry.budgetKey))],
+        });
+        await ctx.scheduler.runAt(plan.resumeAt, internal.processor.processAllRepositories, {
+          repositoryIds: plan.deferred.map(entry => entry.id),
+        });
       }
 
       const duration = Date.now() - startTime;
-      const successRate = Math.round((processedCount / repositoriesNeedingCheck.length) * 100);
-      
-      Logger.operation("scheduled_repository_check", duration, errorCount === 0, {
-        totalRepositories: repositoriesNeedingCheck.length,
-        processedCount,
-        errorCount,
-        skippedCount,
-        successRate,
+
+      Logger.operation("scheduled_repository_check", duration, true, {
+        totalRepositories: context.repositories.length,
+        scheduledCount: plan.scheduled.length,
+        deferredCount: plan.deferred.length,
+        skippedCount: plan.skipped.length,
       });
 
       return {
         success: true,
-        processedCount,
-        errorCount,
-        skippedCount,
-        totalRepositories: repositoriesNeedingCheck.length,
-        successRate,
+        scheduledCount: plan.scheduled.length,
+        deferredCount: plan.deferred.length,
+        skippedCount: plan.skipped.length,
+        totalRepositories: context.repositories.length,
+        resumeAt: plan.resumeAt,
+        duration,
+        timestamp: startTime,
+      };
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      Logger.error("Critical error in processAllRepositories", error);
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+        scheduledCount: 0,
         duration,
         timestamp: startTime,
       };
+    }
+  },
+});
+
+/**
+ * Active repositories to schedule with the rate limit budget each is checked with
+ */
+export const getSchedulingContext = internalQuery({
+  args: {
+    repositoryIds: v.optional(v.array(v.id("repositories"))),
+  },
+  handler: async (ctx, args) => {
+    let repositories: Doc<"repositories">[];
+    if (args.repositoryIds) {
+      repositories = [];
+      for (const repositoryId of args.repositoryIds) {
+        const repository = await ctx.db.get(repositoryId);
+        if (repository?.isActive) {
+          repositories.push(repository);
+        }
+      }
+    } else {
+      repositories = await ctx.db
+        .query("repositories")
+        .withIndex("by_active", (q) => q.eq("isActive", true))
+        .collect();
+    }
+
+    const now = Date.now();
+    const appConfigured = getGitHubAppConfig() !== null;
+    const budgets = new Map<string, { budgetKey: string; rateLimit?: GitHubRateLimit; repositoryId: Id<"repositories"> }>();
+    const schedulable: SchedulableRepository<Id<"repositories">>[] = [];
+
+    for (const repository of repositories) {
+      // Mirrors resolveGitHubCredentials: usable installations are preferred over the owner's token
+      const installationId = repository.installationId;
+      const installation = installationId === undefined || !appConfigured
+        ? null
+        : await ctx.db
+            .query("githubInstallations")
+            .withIndex("by_installation_id", (q) => q.eq("installationId", installationId))
+            .first();
+      const usesInstallation = !!installation && !installation.suspendedAt;
+      const budgetKey = getBudgetKey(repository, usesInstallation ? installationId : undefined);
+
+      if (!budgets.has(budgetKey)) {
+        const stored = usesInstallation ? installation!.rateLimit : (await ctx.db.get(repository.userId))?.rateLimit;
+        budgets.set(budgetKey, {
+          budgetKey,
+          rateLimit: stored && !needsRateLimitRefresh(stored, now)
+            ? { limit: stored.limit, remaining: stored.remaining, resetAt: stored.resetAt }
+            : undefined,
+          repositoryId: repository._id,
+        });
+      }
+
+      schedulable.push({
+        id: repository._id,
+        budgetKey,
+        priority: repository.priority,
+        lastChecked: repository.lastChecked,
+        lastIssueCount: repository.lastIssueCount,
+      });
+    }
+
+    return { repositories: schedulable, budgets: [...budgets.values()] };
+  },
+});
+
+/**
+ * Record the rate limit last observed for a user's OAuth token
+ */
+export const recordUserRateLimit = internalMutation({
+  args: {
+    userId: v.id("users"),
+    limit: v.number(),
+    remaining: v.number(),
+    resetAt: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const user = await ctx.db.get(args.userId);
+    if (!user) {
+      return;
+    }
+
+    await ctx.db.patch(args.userId, {
+      rateLimit: { limit: args.limit, remaining: args.remaining, resetAt: args.resetAt, updatedAt: Date.now() },
+    });
+  },
+});
+
+/**
+ * Process a single repository - fetch issues, apply rules, identify stale issues
+ */
+export const processRepository = internalAction({
+  args: {
+    repositoryId: v.id("repositories"),
+    isScheduledCheck: v.optional(v.boolean()),
+    isManualRefresh: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args): Promise<RepositoryProcessingResult> => {
+    return await processRepositoryInternal(ctx, args);
+  },
+});
+
+/**
+ * Simulate processing a repository without writing to issues or notifications,
+ * sending email or changing anything on GitHub
+ * Candidate rules are evaluated alongside the active ones so new rules can be previewed
+ */
+export const simulateRepository = action({
+  args: {
+    repositoryId: v.id("repositories"),
+    candidateRules: v.optional(v.array(simulationRuleValidator)),
+    fetchFromGitHub: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args): Promise<RepositorySimulationPlan> => {
+    const userId = await getAuthUserId(ctx);
+    if (!userId) {
+      throw new Error("Authentication required");
+    }
+
+    const context = await ctx.runQuery(internal.processor.getSimulationContext, {
+      repositoryId: args.repositoryId,
+    });
+    const canView = await ctx.runQuery(internal.workspaces.canAccessRepository, {
+      userId,
+      repositoryId: args.repositoryId,
+      permission: "view",
+    });
+    if (!context.repository || !canView) {
+      throw new Error("Repository not found or access denied");
+    }
+    if (!context.user) {
+      throw new Error("User not found");
+    }
+
+    const { repository, user } = context;
+    const warnings: string[] = [];
+    let fetchedIssues: NormalizedIssue[] = [];
+    let source: "github" | "cache" = "cache";
+
+    // Read-only fetch; a refreshed token would need to be stored, so no refresh is attempted
+    if (args.fetchFromGitHub !== false) {
+      try {
+        const githubService = new GitHubService();
+        const [owner, repo] = repository.fullName.split("/");
+        const { token: accessToken } = await resolveGitHubCredentials(ctx, repository, user);
+
+        // Same issue source as a real check: the GraphQL sync, or the REST issue list when it fails
+        const issueSync = await syncIssuesThroughGraphQL(ctx, githubService, accessToken, repository, false, { dryRun: true });
+        if (issueSync) {
+          fetchedIssues = issueSync.issues;
+          if (!issueSync.complete) {
+            warnings.push("Not every changed issue could be fetched from GitHub; the rest use cached data");
+          }
+        } else {
+          const since = repository.lastChecked > 0 ? new Date(repository.lastChecked) : undefined;
+          const issues = since
+            ? await githubService.fetchRecentRepositoryIssues(accessToken, owner, repo, since)
+            : await githubService.fetchAllRepositoryIssues(accessToken, owner, repo);
+          fetchedIssues = issues.map(normalizeGitHubIssue);
+          const simulatedRules = [...context.rules, ...(args.candidateRules ?? [])];
+          if (rulesNeedPullRequestDetails(simulatedRules)) {
+            fetchedIssues = await fetchPullRequestDetails(githubService, accessToken, owner, repo, fetchedIssues);
+          }
+          if (rulesNeedLinkedPullRequests(simulatedRules)) {
+            fetchedIssues = await fetchIssueLinkedPullRequests(githubService, accessToken, owner, repo, fetchedIssues);
+          }
+        }
+        source = "github";
+      } catch (error) {
+        warnings.push(
+          `Could not fetch issues from GitHub, using cached issues: ${error instanceof Error ? error.message : "Unknown error"}`
+        );
+      }
+    }
+
+    // Participants of any issue that could go stale, in case it does
+    const participantLogins = new Set<string>();
+    for (const group of groupIssuesByParticipant(
+      [...context.issues, ...fetchedIssues.map(issue => ({ ...issue, _id: String(issue.githubIssueId) }))]
+        .filter(issue => issue.state === "open"),
+      getParticipantSettings(repository)
+    )) {
+      participantLogins.add(group.login.toLowerCase());
+    }
+    const participants = await ctx.runQuery(internal.processor.getSimulationParticipants, {
+      logins: [...participantLogins],
+    });
+
+    return buildSimulationPlan({
+      repository,
+      members: context.members,
+      participants: new Map(participants.map(({ login, ...participant }) => [login, participant])),
+      storedIssues: context.issues,
+      fetchedIssues,
+      activeRules: context.rules,
+      candidateRules: args.candidateRules ?? [],
+      source,
+      warnings,
+      now: Date.now(),
+    });
+  },
+});
+
+/**
+ * Load everything a simulation needs in a single read
+ */
+export const getSimulationContext = internalQuery({
+  args: {
+    repositoryId: v.id("repositories"),
+  },
+  handler: async (ctx, args) => {
+    const repository = await ctx.db.get(args.repositoryId);
+    if (!repository) {
+      return { repository: null, user: null, members: [], rules: [], issues: [] };
+    }
+
+    const user = await ctx.db.get(repository.userId);
+    const rules = await getActiveRules(ctx, args.repositoryId);
+    const issues = await ctx.db
+      .query("issues")
+      .withIndex("by_repository", (q) => q.eq("repositoryId", args.repositoryId))
+      .collect();
+
+    // Everyone the notification path emails regardless of which issues go stale
+    const members: Doc<"users">[] = [];
+    for (const memberId of await getNotificationRecipients(ctx, repository)) {
+      const member = await ctx.db.get(memberId);
+      if (member) {
+        members.push(member);
+      }
+    }
+
+    return { repository, user, members, rules, issues };
+  },
+});
+
+/**
+ * Look up the StaleBot accounts and cached GitHub contacts of issue participants
+ */
+export const getSimulationParticipants = internalQuery({
+  args: {
+    logins: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const participants = [];
+    for (const login of args.logins) {
+      participants.push({
+        login,
+        user: await findUserByLogin(ctx, login),
+        contact: await findContact(ctx, login),
+      });
+    }
+    return participants;
+  },
+});
+
+/**
+ * Load the repository, its owner and active rules for a processing run
+ */
+export const getRepositoryProcessingContext = internalQuery({
+  args: {
+    repositoryId: v.id("repositories"),
+  },
+  handler: async (ctx, args) => {
+    const repository = await ctx.db.get(args.repositoryId);
+    if (!repository) {
+      return { repository: null, user: null, rules: [], installation: null, responseValidators: [] };
+    }
+
+    const user = await ctx.db.get(repository.userId);
+
+    const rules = await getActiveRules(ctx, args.repositoryId);
+
+    const installationId = repository.installationId;
+    const installation = installationId === undefined
+      ? null
+      : await ctx.db
+          .query("githubInstallations")
+          .withIndex("by_installation_id", (q) => q.eq("installationId", installationId))
+          .first();
+
+    const responseValidators = await ctx.db
+      .query("githubResponseValidators")
+      .withIndex("by_repository_endpoint", (q) => q.eq("repositoryId", args.repositoryId))
+      .collect();
+
+    return { repository, user, rules, installation, responseValidators };
+  },
+});
+
+/**
+ * Upsert a chunk of normalized GitHub issues into the issues table
+ */
+export const upsertRepositoryIssues = internalMutation({
+  args: {
+    repositoryId: v.id("repositories"),
+    issues: v.array(normalizedIssueValidator),
+  },
+  handler: async (ctx, args) => {
+    const repository = await ctx.db.get(args.repositoryId);
+    if (!repository) {
+      throw new Error(`Repository ${args.repositoryId} not found`);
+    }
+
+    let updatedIssueCount = 0;
+    let newIssueCount = 0;
+
+    for (const normalizedIssue of args.issues) {
+      const result = await upsertIssue(ctx, repository, normalizedIssue);
+      if (result.inserted) {
+        newIssueCount++;
+      } else {
+        updatedIssueCount++;
+      }
+    }
+
+    return { newIssueCount, updatedIssueCount };
+  },
+});
+
+/**
+ * Apply stale detection rules to every stored issue of a repository
+ * and schedule notifications for issues that just became stale
+ */
+export const evaluateRepositoryStaleness = internalMutation({
+  args: {
+    repositoryId: v.id("repositories"),
+  },
+  handler: async (ctx, args) => {
+    const repository = await ctx.db.get(args.repositoryId);
+    if (!repository) {
+      throw new Error(`Repository ${args.repositoryId} not found`);
+    }
+
+    const rules = await getActiveRules(ctx, args.repositoryId);
+
+    const allIssues = await ctx.db
+      .query("issues")
+      .withIndex("by_repository", (q) => q.eq("repositoryId", args.repositoryId))
+      .collect();
+
+    let staleIssueCount = 0;
+    let staleStatusChanges = 0;
+    const newlyStaleIssues: Id<"issues">[] = [];
+
+    for (const issue of allIssues) {
+      const evaluation = await applyStaleEvaluation(ctx, repository, issue, rules);
+
+      if (evaluation.changed) {
+        staleStatusChanges++;
+      }
+      // Track newly stale issues for notification
+      if (evaluation.becameStale) {
+        newlyStaleIssues.push(issue._id);
+      }
+      if (evaluation.isStale) {
+        staleIssueCount++;
+      }
+    }
+
+    // Send notifications for newly stale issues
+    await scheduleStaleNotifications(ctx, repository, newlyStaleIssues);
+
+    // Update repository status
+    await ctx.db.patch(args.repositoryId, {
+      lastChecked: Date.now(),
+      lastIssueCount: allIssues.length,
+    });
+
+    return {
+      totalIssues: allIssues.length,
+      staleIssueCount,
+      staleStatusChanges,
+      rulesApplied: rules.length,
+    };
+  },
+});
+
+/**
+ * Recompute lastActivity from the stored timelines after a repository's activity settings
+ * changed, and re-evaluate the issues whose activity moved
+ * Leaves lastChecked alone so the next sync still picks up everything since the last one
+ */
+export const recomputeRepositoryActivity = internalMutation({
+  args: {
+    repositoryId: v.id("repositories"),
+  },
+  handler: async (ctx, args) => {
+    const repository = await ctx.db.get(args.repositoryId);
+    if (!repository) {
+      return { recomputedIssues: 0 };
+    }
+
+    const settings = getActivitySettings(repository);
+    const rules = await getActiveRules(ctx, args.repositoryId);
+    const issues = await ctx.db
+      .query("issues")
+      .withIndex("by_repository", (q) => q.eq("repositoryId", args.repositoryId))
+      .collect();
+
+    let recomputedIssues = 0;
+    const newlyStaleIssues: Id<"issues">[] = [];
+
+    for (const issue of issues) {
+      const computed = issue.activityTimeline && computeLastActivity(issue.activityTimeline, settings);
+      if (computed === undefined || computed === issue.lastActivity) {
+        continue;
+      }
+
+      const lastActivity = resolveLastActivity(issue.lastActivity, computed, issue.staleActions);
+      if (lastActivity === issue.lastActivity) {
+        continue;
+      }
+      await ctx.db.patch(issue._id, { lastActivity, updatedAt: Date.now() });
+      recomputedIssues++;
+
+      const evaluation = await applyStaleEvaluation(ctx, repository, { ...issue, lastActivity }, rules);
+      if (evaluation.becameStale) {
+        newlyStaleIssues.push(issue._id);
+      }
+    }
+
+    await scheduleStaleNotifications(ctx, repository, newlyStaleIssues);
+
+    return { recomputedIssues };
+  },
+});
+
+/**
+ * Upsert a single issue delivered by a GitHub webhook and re-evaluate only that issue
+ */
+export const ingestWebhookIssue = internalMutation({
+  args: {
+    githubRepoId: v.number(),
+    issue: normalizedIssueValidator,
+    activity: v.optional(activityEventValidator),
+  },
+  handler: async (ctx, args) => {
+    const repositories = await getActiveRepositoriesByGitHubId(ctx, args.githubRepoId);
+    const results = [];
+
+    // The same GitHub repository can be tracked by several users
+    for (const repository of repositories) {
+      const { issueId, inserted } = await upsertIssue(ctx, repository, args.issue, {
+        webhookActivity: args.activity ?? null,
+      });
+      const issue = await ctx.db.get(issueId);
+      if (!issue) {
+        continue;
+      }
+
+      const rules = await getActiveRules(ctx, repository._id);
+      const evaluation = await applyStaleEvaluation(ctx, repository, issue, rules);
+
+      if (evaluation.becameStale) {
+        await scheduleStaleNotifications(ctx, repository, [issue._id]);
+      }
+
+      results.push({
+        repositoryId: repository._id,
+        issueId,
+        inserted,
+        isStale: evaluation.isStale,
+        staleStatusChanged: evaluation.changed,
+      });
+    }
+
+    return { matchedRepositories: repositories.length, results };
+  },
+});
+
+/**
+ * Apply a label rename or deletion delivered by a GitHub webhook to stored issues
+ */
+export const applyWebhookLabelChange = internalMutation({
+  args: {
+    githubRepoId: v.number(),
+    action: v.union(v.literal("edited"), v.literal("deleted")),
+    labelName: v.string(),
+    previousName: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const repositories = await getActiveRepositoriesByGitHubId(ctx, args.githubRepoId);
+    const affectedLabel = (args.action === "edited" ? args.previousName : args.labelName) ?? args.labelName;
+    let updatedIssueCount = 0;
+
+    for (const repository of repositories) {
+      const issues = await ctx.db
+        .query("issues")
+        .withIndex("by_repository", (q) => q.eq("repositoryId", repository._id))
+        .collect();
+      const rules = await getActiveRules(ctx, repository._id);
+      const newlyStaleIssues: Id<"issues">[] = [];
+
+      for (const issue of issues) {
+        if (!issue.labels.includes(affectedLabel)) {
+          continue;
+        }
+
+        const labels = args.action === "edited"
+          ? issue.labels.map((label) => (label === affectedLabel ? args.labelName : label))
+          : issue.labels.filter((label) => label !== affectedLabel);
+
+        await ctx.db.patch(issue._id, { labels, updatedAt: Date.now() });
+        updatedIssueCount++;
+
+        const evaluation = await applyStaleEvaluation(ctx, repository, { ...issue, labels }, rules);
+        if (evaluation.becameStale) {
+          newlyStaleIssues.push(issue._id);
+        }
+      }
+
+      await scheduleStaleNotifications(ctx, repository, newlyStaleIssues);
+    }
+
+    return { matchedRepositories: repositories.length, updatedIssueCount };
+  },
+});
+
+/**
+ * List the outstanding stale actions for every issue of a repository
+ */
+export const getStaleActionPlans = internalQuery({
+  args: {
+    repositoryId: v.id("repositories"),
+  },
+  handler: async (ctx, args) => {
+    const rules = await getActiveRules(ctx, args.repositoryId);
+    const policyRules = rules.filter(rule => rule.actionPolicy);
+    const now = Date.now();
+
+    const issues = await ctx.db
+      .query("issues")
+      .withIndex("by_repository", (q) => q.eq("repositoryId", args.repositoryId))
+      .collect();
+
+    const plans = [];
+    for (const issue of issues) {
+      // Only issues that are stale or were previously acted on can need actions
+      if (!issue.isStale && !issue.staleActions) {
+        continue;
+      }
+
+      const rule = issue.isStale
+        ? policyRules.find(candidate => matchesRule(issue, candidate, now))
+        : undefined;
+      const plan = planStaleActions(issue, rule?.actionPolicy, now);
+
+      if (plan.actions.length === 0 && !plan.resetState) {
+        continue;
+      }
+
+      plans.push({
+        issueId: issue._id,
+        githubIssueId: issue.githubIssueId,
+        ruleId: rule?._id ?? issue.staleActions?.ruleId,
+        markedAt: issue.staleActions?.markedAt ?? now,
+        actions: plan.actions,
+        resetState: plan.resetState,
+      });
+    }
+
+    return plans;
+  },
+});
+
+/**
+ * Stamp issues before stale actions run so webhook activity from our own writes is ignored
+ */
+export const startStaleActions = internalMutation({
+  args: {
+    issues: v.array(v.object({
+      issueId: v.id("issues"),
+      ruleId: v.id("rules"),
+      markedAt: v.number(),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+
+    for (const entry of args.issues) {
+      const issue = await ctx.db.get(entry.issueId);
+      if (!issue) {
+        continue;
+      }
+
+      await ctx.db.patch(entry.issueId, {
+        staleActions: {
+          ...issue.staleActions,
+          ruleId: issue.staleActions?.ruleId ?? entry.ruleId,
+          markedAt: issue.staleActions?.markedAt ?? entry.markedAt,
+          lastActionAt: now,
+        },
+      });
+    }
+  },
+});
+
+/**
+ * Record the stale actions that were applied to an issue on GitHub
+ */
+export const recordStaleActions = internalMutation({
+  args: {
+    issueId: v.id("issues"),
+    resetState: v.boolean(),
+    commentId: v.optional(v.number()),
+    commented: v.optional(v.boolean()),
+    labelName: v.optional(v.string()),
+    closed: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const issue = await ctx.db.get(args.issueId);
+    if (!issue) {
+      return;
+    }
+
+    if (args.resetState) {
+      await ctx.db.patch(args.issueId, { staleActions: undefined, updatedAt: Date.now() });
+      return;
+    }
+
+    if (!issue.staleActions) {
+      return;
+    }
+
+    const now = Date.now();
+    const labels = args.labelName && !issue.labels.includes(args.labelName)
+      ? [...issue.labels, args.labelName]
+      : issue.labels;
+
+    await ctx.db.patch(args.issueId, {
+      labels,
+      state: args.closed ? "closed" : issue.state,
+      staleActions: {
+        ...issue.staleActions,
+        commentId: args.commentId ?? issue.staleActions.commentId,
+        commentedAt: args.commented ? now : issue.staleActions.commentedAt,
+        labelName: args.labelName ?? issue.staleActions.labelName,
+        labeledAt: args.labelName ? now : issue.staleActions.labeledAt,
+        closedAt: args.closed ? now : issue.staleActions.closedAt,
+        lastActionAt: now,
+      },
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Apply the result of reading .github/stalebot.yml to the repository's rules
+ * Valid files replace the file-managed rules; invalid files keep the last good rules
+ * and only record the errors. Returns the number of active rules afterwards.
+ */
+export const syncRepositoryConfig = internalMutation({
+  args: {
+    repositoryId: v.id("repositories"),
+    found: v.optional(v.boolean()), // undefined when the file could not be fetched
+    sha: v.optional(v.string()),
+    rules: v.optional(v.array(configRuleValidator)),
+    errors: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const repository = await ctx.db.get(args.repositoryId);
+    if (!repository) {
+      throw new Error(`Repository ${args.repositoryId} not found`);
+    }
+
+    const existingRules = await ctx.db
+      .query("rules")
+      .withIndex("by_repository", (q) => q.eq("repositoryId", args.repositoryId))
+      .collect();
+    const configRules = existingRules.filter(rule => rule.source === "config");
+    let ruleIds = repository.rules;
+
+    // A removed file removes the rules it managed; a valid file replaces them
+    const desiredRules = args.found === false ? [] : args.rules;
+    if (desiredRules && args.errors.length === 0) {
+      const now = Date.now();
+      const desiredNames = new Set(desiredRules.map(rule => rule.name));
+
+      for (const rule of configRules) {
+        if (!desiredNames.has(rule.name)) {
+          await ctx.db.delete(rule._id);
+          ruleIds = ruleIds.filter(ruleId => ruleId !== rule._id);
+        }
+      }
+
+      for (const desired of desiredRules) {
+        const fields = {
+          name: desired.name,
+          inactivityDays: desired.inactivityDays,
+          labels: desired.labels,
+          issueStates: desired.issueStates,
+          assigneeCondition: desired.assigneeCondition,
+          exemptLabels: desired.exemptLabels,
+          exemptMilestones: desired.exemptMilestones,
+          exemptLinkedPullRequests: desired.exemptLinkedPullRequests,
+          exemptIssueNumbers: desired.exemptIssueNumbers,
+          condition: desired.condition,
+          itemKind: desired.itemKind,
+          pullRequestCriteria: desired.pullRequestCriteria,
+          actionPolicy: desired.actionPolicy,
+        };
+        const existing = configRules.find(rule => rule.name === desired.name);
+
+        if (existing) {
+          await ctx.db.patch(existing._id, { ...fields, isActive: true, updatedAt: now });
+        } else {
+          const ruleId = await ctx.db.insert("rules", {
+            userId: repository.userId,
+            repositoryId: args.repositoryId,
+            ...fields,
+            source: "config",
+            isActive: true,
+            createdAt: now,
+            updatedAt: now,
+          });
+          ruleIds = [...ruleIds, ruleId];
+        }
+      }
+    }
+
+    const found = args.found ?? repository.configStatus?.found ?? false;
+    await ctx.db.patch(args.repositoryId, {
+      rules: ruleIds,
+      configStatus: {
+        found,
+        sha: found ? args.sha ?? repository.configStatus?.sha : undefined,
+        ruleCount: found ? desiredRules?.length ?? repository.configStatus?.ruleCount ?? 0 : 0,
+        errors: args.errors,
+        checkedAt: Date.now(),
+      },
+    });
+
+    return await getActiveRules(ctx, args.repositoryId);
+  },
+});
+
+/**
+ * Record that a repository was checked without touching its issues
+ */
+export const markRepositoryChecked = internalMutation({
+  args: {
+    repositoryId: v.id("repositories"),
+  },
+  handler: async (ctx, args) => {
+    const repository = await ctx.db.get(args.repositoryId);
+    if (!repository) {
+      return;
+    }
+
+    await ctx.db.patch(args.repositoryId, {
+      lastChecked: Date.now(),
+    });
+  },
+});
+
+/**
+ * Store the ETag and Last-Modified of GitHub responses for a repository's conditional requests
+ */
+export const saveResponseValidators = internalMutation({
+  args: {
+    repositoryId: v.id("repositories"),
+    validators: v.array(v.object({
+      endpoint: v.string(),
+      etag: v.optional(v.string()),
+      lastModified: v.optional(v.string()),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    for (const { endpoint, etag, lastModified } of args.validators) {
+      const existing = await ctx.db
+        .query("githubResponseValidators")
+        .withIndex("by_repository_endpoint", (q) => q.eq("repositoryId", args.repositoryId).eq("endpoint", endpoint))
+        .first();
+      if (existing) {
+        await ctx.db.patch(existing._id, { etag, lastModified, updatedAt: now });
+      } else {
+        await ctx.db.insert("githubResponseValidators", {
+          repositoryId: args.repositoryId,
+          endpoint,
+          etag,
+          lastModified,
+          updatedAt: now,
+        });
+      }
+    }
+  },
+});
+
+/**
+ * Record how far the GraphQL issue sync of a repository got
+ */
+export const saveIssueSyncState = internalMutation({
+  args: {
+    repositoryId: v.id("repositories"),
+    syncedThrough: v.optional(v.number()),
+    resume: v.optional(issueSyncResumeValidator),
+  },
+  handler: async (ctx, args) => {
+    const repository = await ctx.db.get(args.repositoryId);
+    if (!repository) {
+      return;
+    }
+
+    await ctx.db.patch(args.repositoryId, {
+      issueSync: {
+        syncedThrough: args.syncedThrough ?? repository.issueSync?.syncedThrough,
+        resume: args.resume,
+      },
+    });
+  },
+});
+
+/**
+ * Deactivate a repository after access or authentication loss and record why
+ */
+export const deactivateRepository = internalMutation({
+  args: {
+    repositoryId: v.id("repositories"),
+    error: repositoryErrorValidator,
+  },
+  handler: async (ctx, args) => {
+    const repository = await ctx.db.get(args.repositoryId);
+    if (!repository) {
+      return;
+    }
 
-    } catch (error) {
-      const duration = Date.now() - startTime;
-      Logger.error("Critical error in processAllRepositories", error);
+    await ctx.db.patch(args.repositoryId, {
+      isActive: false,
+      lastChecked: Date.now(),
+    });
 
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : "Unknown error",
-        processedCount: 0,
-        errorCount: 1,
-        duration,
-        timestamp: startTime,
-      };
+    await trackRepositoryError(ctx, args.repositoryId, args.error);
+
+    if (repository.isActive) {
+      await emitWebhookEvent(ctx, {
+        userId: repository.userId,
+        repositoryId: repository._id,
+        type: "repository.deactivated",
+        data: {
+          repository: { id: repository._id, fullName: repository.fullName },
+          reason: { type: args.error.type, message: args.error.message },
+        },
+      });
     }
   },
 });
 
 /**
- * Process a single repository - fetch issues, apply rules, identify stale issues
+ * Record a repository processing error
  */
-export const processRepository = internalMutation({
+export const recordRepositoryError = internalMutation({
   args: {
     repositoryId: v.id("repositories"),
-    isScheduledCheck: v.optional(v.boolean()),
-    isManualRefresh: v.optional(v.boolean()),
+    error: repositoryErrorValidator,
   },
   handler: async (ctx, args) => {
-    return await processRepositoryInternal(ctx, args);
+    await trackRepositoryError(ctx, args.repositoryId, args.error);
+  },
+});
+
+/**
+ * Store a refreshed GitHub access token for a user
+ */
+export const updateUserAccessToken = internalMutation({
+  args: {
+    userId: v.id("users"),
+    encryptedAccessToken: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.userId, {
+      accessToken: args.encryptedAccessToken,
+      lastActive: Date.now(),
+    });
   },
 });
 
@@ -171,14 +1159,16 @@ const githubCircuitBreaker = new CircuitBreaker(5, 60000, 300000);
 
 /**
  * Internal function to process a single repository with enhanced error handling
+ * GitHub is only called from here; all database writes go through internal mutations
  */
-async function processRepositoryInternal(ctx: any, args: {
+async function processRepositoryInternal(ctx: ActionCtx, args: {
   repositoryId: Id<"repositories">;
   isScheduledCheck?: boolean;
   isManualRefresh?: boolean;
-}) {
+}): Promise<RepositoryProcessingResult> {
   const startTime = Date.now();
   const checkType = args.isManualRefresh ? "manual" : (args.isScheduledCheck ? "scheduled" : "unknown");
+  let repositoryName = "Unknown";
 
   Logger.info(`Starting ${checkType} check for repository`, { repositoryId: args.repositoryId });
 
@@ -190,12 +1180,16 @@ async function processRepositoryInternal(ctx: any, args: {
   );
 
   try {
-    return await withErrorHandling(async () => {
-    // Get repository and user information
-    const repository = await ctx.db.get(args.repositoryId);
+    return await withErrorHandling(async (): Promise<RepositoryProcessingResult> => {
+    // Get repository, user and rule information
+    const { repository, user, rules, installation, responseValidators } = await ctx.runQuery(
+      internal.processor.getRepositoryProcessingContext,
+      { repositoryId: args.repositoryId }
+    );
     if (!repository) {
       throw new Error(`Repository ${args.repositoryId} not found`);
     }
+    repositoryName = repository.fullName;
 
     if (!repository.isActive) {
       Logger.info(`Skipping inactive repository: ${repository.fullName}`);
@@ -207,7 +1201,6 @@ async function processRepositoryInternal(ctx: any, args: {
       };
     }
 
-    const user = await ctx.db.get(repository.userId);
     if (!user) {
       throw new Error(`User ${repository.userId} not found for repository ${repository.fullName}`);
     }
@@ -215,33 +1208,45 @@ async function processRepositoryInternal(ctx: any, args: {
     // Update error context with user information
     errorContext.userId = user._id;
 
-    // Get active rules for this repository
-    const rules = await ctx.db
-      .query("rules")
-      .withIndex("by_repository", (q: any) => q.eq("repositoryId", args.repositoryId))
-      .filter((q: any) => q.eq(q.field("isActive"), true))
-      .collect();
-
-    if (rules.length === 0) {
-      Logger.info(`No active rules found for repository: ${repository.fullName}`);
-      await ctx.db.patch(args.repositoryId, {
-        lastChecked: Date.now(),
+    // Installations share one rate limit across their repositories; skip until it resets
+    if (installation && isRateLimitExhausted(installation.rateLimit, Date.now())) {
+      Logger.warn(`Installation rate limit exhausted, skipping ${repository.fullName}`, {
+        installationId: installation.installationId,
+        resetAt: installation.rateLimit!.resetAt,
       });
       return {
-        success: true,
-        skipped: true,
-        reason: "No active rules",
+        success: false,
+        error: "GitHub App installation rate limit exceeded - will retry later",
         repositoryName: repository.fullName,
+        retryAfter: installation.rateLimit!.resetAt,
       };
     }
 
-    // Initialize GitHub service
-    const githubService = new GitHubService();
+    // Initialize GitHub service, tracking the rate limit GitHub reports
+    // Validators of new responses are only stored once the check succeeded, so a failed check
+    // doesn't make the next one believe nothing changed
+    let observedRateLimit: GitHubRateLimit | undefined;
+    const cachedValidators = new Map<string, CacheValidators>(
+      responseValidators.map(({ endpoint, etag, lastModified }) => [endpoint, { etag, lastModified }])
+    );
+    const receivedValidators = new Map<string, CacheValidators>();
+    const githubService = new GitHubService({
+      onRateLimit: (rateLimit) => {
+        observedRateLimit = rateLimit;
+      },
+      conditionalCache: {
+        get: (endpoint) => cachedValidators.get(endpoint),
+        set: (endpoint, validators) => receivedValidators.set(endpoint, validators),
+      },
+    });
     const [owner, repo] = repository.fullName.split("/");
 
-    // Decrypt access token
-    const accessToken = decryptToken(user.accessToken);
-    const refreshToken = user.refreshToken ? decryptToken(user.refreshToken) : "";
+    // Prefer the GitHub App installation token; OAuth tokens are only refreshed for the owner's token
+    const credentials = await resolveGitHubCredentials(ctx, repository, user);
+    const accessToken = credentials.token;
+    const refreshToken = credentials.source === "user" && user.refreshToken
+      ? await decryptToken(user.refreshToken)
+      : "";
 
     // Validate repository access with circuit breaker
     const hasAccess = await githubCircuitBreaker.execute(async () => {
@@ -250,18 +1255,16 @@ async function processRepositoryInternal(ctx: any, args: {
 
     if (!hasAccess) {
       Logger.warn(`Access lost to repository: ${repository.fullName}`, { owner, repo });
-      await ctx.db.patch(args.repositoryId, {
-        isActive: false,
-        lastChecked: Date.now(),
-      });
-      
-      // Track repository access error
-      await trackRepositoryError(ctx, args.repositoryId, {
-        type: "repository_access",
-        message: "Repository access has been revoked",
-        timestamp: Date.now(),
-        checkType,
-        details: { owner, repo },
+
+      await ctx.runMutation(internal.processor.deactivateRepository, {
+        repositoryId: args.repositoryId,
+        error: {
+          type: "repository_access",
+          message: "Repository access has been revoked",
+          timestamp: Date.now(),
+          checkType,
+          details: { owner, repo },
+        },
       });
 
       return {
@@ -271,23 +1274,57 @@ async function processRepositoryInternal(ctx: any, args: {
       };
     }
 
+    // Rules committed in .github/stalebot.yml are synced whenever the file changed
+    const activeRules = await syncRepositoryConfigFile(
+      ctx,
+      githubService,
+      accessToken,
+      owner,
+      repo,
+      args.repositoryId,
+      rules
+    );
+
+    if (activeRules.length === 0) {
+      Logger.info(`No active rules found for repository: ${repository.fullName}`);
+      await ctx.runMutation(internal.processor.markRepositoryChecked, {
+        repositoryId: args.repositoryId,
+      });
+      return {
+        success: true,
+        skipped: true,
+        reason: "No active rules",
+        repositoryName: repository.fullName,
+      };
+    }
+
     // Fetch issues from GitHub with enhanced error handling and token refresh
-    let issues: any[] = [];
+    let issues: GitHubIssue[] = [];
+    let issueSync: IssueSyncResult | null = null;
+    let issuesUnchanged = false;
     let tokenWasRefreshed = false;
     let newAccessToken = accessToken;
 
     try {
       const since = repository.lastChecked > 0 ? new Date(repository.lastChecked) : undefined;
+
+      // A 304 for the most recently updated issue means nothing changed since the last check
+      issuesUnchanged = await hasNoIssueChanges(githubService, newAccessToken, repository);
+
+      // The GraphQL sync tells human activity apart from bot and label noise; REST is the fallback
+      issueSync = issuesUnchanged ? null : await githubCircuitBreaker.execute(() =>
+        syncIssuesThroughGraphQL(ctx, githubService, newAccessToken, repository, !!refreshToken)
+      );
       
       // Use circuit breaker for GitHub API calls
-      const fetchResult = await githubCircuitBreaker.execute(async () => {
+      const fetchResult = issueSync || issuesUnchanged ? [] : await githubCircuitBreaker.execute(async () => {
         if (refreshToken && process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET) {
           // Use token refresh capability if available
           const endpoint = since 
             ? `/repos/${owner}/${repo}/issues?since=${since.toISOString()}&state=all&sort=updated&direction=desc`
             : `/repos/${owner}/${repo}/issues?state=all&sort=updated&direction=desc`;
           
-          const result = await githubService.makeRequestWithTokenRefresh(
+          const result = await githubService.makeRequestWithTokenRefresh<GitHubIssue[]>(
             endpoint,
             newAccessToken,
             refreshToken,
@@ -309,248 +1346,921 @@ async function processRepositoryInternal(ctx: any, args: {
         }
       });
 
-      issues = Array.isArray(fetchResult) ? fetchResult : [];
-      Logger.info(`Fetched ${issues.length} issues from ${repository.fullName}`, {
-        issueCount: issues.length,
-        incrementalUpdate: !!since,
-        tokenRefreshed: tokenWasRefreshed,
-      });
+      issues = Array.isArray(fetchResult) ? fetchResult : [];
+      Logger.info(`Fetched ${issueSync?.issues.length ?? issues.length} issues from ${repository.fullName}`, {
+        issueCount: issueSync?.issues.length ?? issues.length,
+        incrementalUpdate: !!since,
+        unchanged: issuesUnchanged,
+        graphqlCost: issueSync?.cost,
+        tokenRefreshed: tokenWasRefreshed,
+      });
+
+      // Update stored access token if it was refreshed
+      if (tokenWasRefreshed && newAccessToken !== accessToken) {
+        Logger.info(`Access token refreshed for user ${user._id}`);
+        await ctx.runMutation(internal.processor.updateUserAccessToken, {
+          userId: user._id,
+          encryptedAccessToken: await encryptToken(newAccessToken),
+        });
+      }
+
+    } catch (error) {
+      // Handle specific GitHub API errors
+      if (ErrorHandler.isAuthenticationExpiredError(error) && credentials.installationId !== undefined) {
+        // A rejected installation token says nothing about the owner; mint a new one next run
+        Logger.warn(`Installation token rejected for repository ${repository.fullName}`, error);
+        await ctx.runMutation(internal.githubApp.clearInstallationToken, {
+          installationId: credentials.installationId,
+        });
+        await ctx.runMutation(internal.processor.recordRepositoryError, {
+          repositoryId: args.repositoryId,
+          error: {
+            type: "authentication",
+            message: "GitHub App installation token was rejected",
+            timestamp: Date.now(),
+            checkType,
+            details: { owner, repo, installationId: credentials.installationId },
+          },
+        });
+
+        return {
+          success: false,
+          error: "GitHub App installation token was rejected - will retry with a new token",
+          repositoryName: repository.fullName,
+        };
+      }
+
+      if (ErrorHandler.isAuthenticationExpiredError(error)) {
+        Logger.error(`Authentication failed for repository ${repository.fullName}`, error);
+        
+        // Mark repository as needing re-authentication
+        await ctx.runMutation(internal.processor.deactivateRepository, {
+          repositoryId: args.repositoryId,
+          error: {
+            type: "authentication",
+            message: "GitHub authentication expired - user needs to re-authenticate",
+            timestamp: Date.now(),
+            checkType,
+            details: { owner, repo, error: error instanceof Error ? error.message : String(error) },
+          },
+        });
+
+        return {
+          success: false,
+          error: "GitHub authentication expired - please re-authenticate",
+          repositoryName: repository.fullName,
+          requiresReauth: true,
+        };
+      }
+
+      if (ErrorHandler.isRateLimitError(error)) {
+        Logger.warn(`Rate limit hit for repository ${repository.fullName}`, error);
+        await saveTokenRateLimit(ctx, credentials, user._id, observedRateLimit);
+        
+        await ctx.runMutation(internal.processor.recordRepositoryError, {
+          repositoryId: args.repositoryId,
+          error: {
+            type: "rate_limit",
+            message: "GitHub API rate limit exceeded",
+            timestamp: Date.now(),
+            checkType,
+            details: { 
+              owner, 
+              repo, 
+              resetTime: error instanceof RateLimitError ? error.resetTime : undefined,
+              remaining: error instanceof RateLimitError ? error.remaining : undefined,
+            },
+          },
+        });
+
+        return {
+          success: false,
+          error: "GitHub API rate limit exceeded - will retry later",
+          repositoryName: repository.fullName,
+          retryAfter: error instanceof RateLimitError ? error.resetTime : Date.now() + 60000,
+        };
+      }
+
+      if (ErrorHandler.isRepositoryAccessError(error)) {
+        Logger.error(`Repository access error for ${repository.fullName}`, error);
+        
+        // Deactivate repository
+        await ctx.runMutation(internal.processor.deactivateRepository, {
+          repositoryId: args.repositoryId,
+          error: {
+            type: "repository_access",
+            message: "Repository access denied or repository not found",
+            timestamp: Date.now(),
+            checkType,
+            details: { owner, repo, error: error instanceof Error ? error.message : String(error) },
+          },
+        });
+
+        return {
+          success: false,
+          error: "Repository access denied or repository not found",
+          repositoryName: repository.fullName,
+          repositoryDeactivated: true,
+        };
+      }
+
+      // Re-throw other errors to be handled by the outer error handler
+      throw error;
+    }
+
+    // Review, mergeability and CI state costs extra REST requests, so it is only fetched when a rule
+    // uses it; the GraphQL sync already includes it
+    let normalizedIssues: NormalizedIssue[] = issueSync?.issues ?? issues.map(normalizeGitHubIssue);
+    if (!issueSync && rulesNeedPullRequestDetails(activeRules)) {
+      normalizedIssues = await fetchPullRequestDetails(githubService, newAccessToken, owner, repo, normalizedIssues);
+    }
+    if (!issueSync && rulesNeedLinkedPullRequests(activeRules)) {
+      normalizedIssues = await fetchIssueLinkedPullRequests(githubService, newAccessToken, owner, repo, normalizedIssues);
+    }
+
+    // Hand normalized issues to the write mutation in chunks
+    let updatedIssueCount = 0;
+    let newIssueCount = 0;
+
+    for (let i = 0; i < normalizedIssues.length; i += ISSUE_UPSERT_CHUNK_SIZE) {
+      const chunkResult = await ctx.runMutation(internal.processor.upsertRepositoryIssues, {
+        repositoryId: args.repositoryId,
+        issues: normalizedIssues.slice(i, i + ISSUE_UPSERT_CHUNK_SIZE),
+      });
+      newIssueCount += chunkResult.newIssueCount;
+      updatedIssueCount += chunkResult.updatedIssueCount;
+    }
+
+    // Only move the sync forward once its issues are stored
+    if (issueSync) {
+      await ctx.runMutation(internal.processor.saveIssueSyncState, {
+        repositoryId: args.repositoryId,
+        syncedThrough: issueSync.complete ? issueSync.startedAt : undefined,
+        resume: issueSync.resume,
+      });
+      if (!issueSync.complete) {
+        Logger.info(`GraphQL issue sync of ${repository.fullName} paused after spending ${issueSync.cost} points`);
+      }
+    }
+
+    if (receivedValidators.size > 0) {
+      await ctx.runMutation(internal.processor.saveResponseValidators, {
+        repositoryId: args.repositoryId,
+        validators: [...receivedValidators].map(([endpoint, validators]) => ({ endpoint, ...validators })),
+      });
+    }
+
+    // Issues go stale as time passes, so rules are applied even when nothing changed on GitHub
+    const evaluation = await ctx.runMutation(internal.processor.evaluateRepositoryStaleness, {
+      repositoryId: args.repositoryId,
+    });
+
+    // Comment, label, close or unlabel on GitHub according to rule action policies
+    const staleActions = await runStaleActions(
+      ctx,
+      githubService,
+      newAccessToken,
+      owner,
+      repo,
+      args.repositoryId
+    );
+
+    await saveTokenRateLimit(ctx, credentials, user._id, observedRateLimit);
+
+    const duration = Date.now() - startTime;
+    console.log(`Completed ${checkType} check for ${repository.fullName} in ${duration}ms`);
+
+    return {
+      success: true,
+      repositoryName: repository.fullName,
+      checkType,
+      statistics: {
+        totalIssues: evaluation.totalIssues,
+        newIssues: newIssueCount,
+        updatedIssues: updatedIssueCount,
+        staleIssues: evaluation.staleIssueCount,
+        staleStatusChanges: evaluation.staleStatusChanges,
+        rulesApplied: evaluation.rulesApplied,
+        staleActionsApplied: staleActions.applied,
+        staleActionsFailed: staleActions.failed,
+      },
+      duration,
+    };
+    }, errorContext, 3); // Close the withErrorHandling call
+  } catch (error) {
+    const duration = Date.now() - startTime;
+    Logger.error(`Error processing repository ${args.repositoryId}`, error);
+
+    try {
+      // Track the error
+      await ctx.runMutation(internal.processor.recordRepositoryError, {
+        repositoryId: args.repositoryId,
+        error: {
+          type: getErrorType(error),
+          message: error instanceof Error ? error.message : "Unknown error",
+          timestamp: Date.now(),
+          checkType,
+          details: error instanceof GitHubApiError ? {
+            status: error.status,
+            code: error.code,
+            rateLimitRemaining: error.rateLimitRemaining,
+            rateLimitReset: error.rateLimitReset,
+          } : undefined,
+        },
+      });
+
+      // Update last checked time even on error to prevent constant retries
+      await ctx.runMutation(internal.processor.markRepositoryChecked, {
+        repositoryId: args.repositoryId,
+      });
+    } catch (trackingError) {
+      Logger.error(`Failed to record processing error for ${args.repositoryId}`, trackingError);
+    }
+
+    return {
+      success: false,
+      repositoryName,
+      error: error instanceof Error ? error.message : "Unknown error",
+      errorType: getErrorType(error),
+      duration,
+      checkType,
+    };
+  }
+}
+
+/**
+ * Token to process a repository with: its GitHub App installation token when the app covers
+ * it, otherwise the owner's OAuth token. installationId is set only when the installation
+ * token is used
+ */
+export async function resolveGitHubCredentials(
+  ctx: ActionCtx,
+  repository: Doc<"repositories">,
+  user: Doc<"users">
+): Promise<{ token: string; source: "installation" | "user"; installationId?: number }> {
+  let installationToken: string | null = null;
+  if (repository.installationId !== undefined) {
+    try {
+      installationToken = await getInstallationAccessToken(ctx, repository.installationId);
+    } catch (error) {
+      Logger.warn(`Could not mint an installation token for ${repository.fullName}, using the owner's token`, error);
+    }
+  }
+
+  const { token, source } = GitHubService.selectAccessToken({
+    installationToken,
+    userToken: await decryptToken(user.accessToken),
+  });
+  return { token, source, installationId: source === "installation" ? repository.installationId : undefined };
+}
+
+/**
+ * Persist the last rate limit observed during a run against the token it was observed on
+ */
+async function saveTokenRateLimit(
+  ctx: ActionCtx,
+  credentials: { source: "installation" | "user"; installationId?: number },
+  userId: Id<"users">,
+  rateLimit: GitHubRateLimit | undefined
+): Promise<void> {
+  if (credentials.source === "installation") {
+    await saveInstallationRateLimit(ctx, credentials.installationId, rateLimit);
+  } else if (rateLimit) {
+    await ctx.runMutation(internal.processor.recordUserRateLimit, { userId, ...rateLimit });
+  }
+}
+
+/**
+ * Look up the current rate limit of the token a repository is checked with
+ * Calls to /rate_limit don't count against the limit. Returns null when it can't be looked up
+ */
+async function refreshRateLimitBudget(
+  ctx: ActionCtx,
+  repositoryId: Id<"repositories">
+): Promise<GitHubRateLimit | null> {
+  const { repository, user } = await ctx.runQuery(internal.processor.getRepositoryProcessingContext, { repositoryId });
+  if (!repository || !user) {
+    return null;
+  }
+
+  try {
+    const credentials = await resolveGitHubCredentials(ctx, repository, user);
+    const status = await new GitHubService().getRateLimitStatus(credentials.token);
+    const rateLimit = { limit: status.limit, remaining: status.remaining, resetAt: status.reset * 1000 };
+    await saveTokenRateLimit(ctx, credentials, user._id, rateLimit);
+    return rateLimit;
+  } catch (error) {
+    Logger.warn(`Could not look up the rate limit for ${repository.fullName}`, error);
+    return null;
+  }
+}
+
+/**
+ * Active repositories tracking the given GitHub repository
+ */
+async function getActiveRepositoriesByGitHubId(ctx: any, githubRepoId: number): Promise<Doc<"repositories">[]> {
+  return await ctx.db
+    .query("repositories")
+    .withIndex("by_github_id", (q: any) => q.eq("githubId", githubRepoId))
+    .filter((q: any) => q.eq(q.field("isActive"), true))
+    .collect();
+}
+
+/**
+ * Active rules configured for a repository
+ */
+async function getActiveRules(ctx: any, repositoryId: Id<"repositories">): Promise<Doc<"rules">[]> {
+  return await ctx.db
+    .query("rules")
+    .withIndex("by_repository", (q: any) => q.eq("repositoryId", repositoryId))
+    .filter((q: any) => q.eq(q.field("isActive"), true))
+    .collect();
+}
+
+/**
+ * Evaluate one issue against the active rules, persist a changed stale flag and
+ * its explanation, count the transition in today's snapshot and emit the matching
+ * outbound webhook event
+ */
+async function applyStaleEvaluation(
+  ctx: any,
+  repository: Doc<"repositories">,
+  issue: Doc<"issues">,
+  rules: Doc<"rules">[]
+): Promise<{ isStale: boolean; changed: boolean; becameStale: boolean }> {
+  const now = Date.now();
+  const wasStale = issue.isStale;
+  const evaluation = evaluateIssue(issue, rules, now);
+  const isNowStale = evaluation.isStale;
+  const staleEvaluation = toStaleEvaluation(evaluation, now);
+
+  if (wasStale !== isNowStale || hasStaleEvaluationChanged(issue.staleEvaluation, staleEvaluation)) {
+    await ctx.db.patch(issue._id, {
+      isStale: isNowStale,
+      staleEvaluation,
+      updatedAt: now,
+    });
+  }
+
+  if (wasStale !== isNowStale) {
+    await recordStaleTransition(ctx, repository, { wasStale, isStale: isNowStale, state: issue.state }, now);
+    await emitWebhookEvent(ctx, {
+      userId: repository.userId,
+      repositoryId: repository._id,
+      type: isNowStale ? "issue.became_stale" : "issue.unstaled",
+      data: {
+        repository: { id: repository._id, fullName: repository.fullName },
+        issue: toWebhookIssue({ ...issue, isStale: isNowStale }),
+      },
+    });
+  }
+
+  return {
+    isStale: isNowStale,
+    changed: wasStale !== isNowStale,
+    becameStale: !wasStale && isNowStale,
+  };
+}
+
+/**
+ * Re-evaluate one stored issue against its repository's active rules, e.g. after a maintainer snoozed it
+ */
+export async function reevaluateIssue(
+  ctx: any,
+  issueId: Id<"issues">
+): Promise<{ isStale: boolean; changed: boolean; becameStale: boolean } | null> {
+  const issue: Doc<"issues"> | null = await ctx.db.get(issueId);
+  const repository: Doc<"repositories"> | null = issue ? await ctx.db.get(issue.repositoryId) : null;
+  if (!issue || !repository) {
+    return null;
+  }
+
+  const rules = await getActiveRules(ctx, repository._id);
+  return await applyStaleEvaluation(ctx, repository, issue, rules);
+}
+
+/**
+ * Schedule notification processing for issues that just became stale
+ */
+async function scheduleStaleNotifications(
+  ctx: any,
+  repository: Doc<"repositories">,
+  staleIssueIds: Id<"issues">[]
+) {
+  if (staleIssueIds.length === 0) {
+    return;
+  }
+
+  console.log(`Found ${staleIssueIds.length} newly stale issues in ${repository.fullName}, sending notifications`);
 
-      // Update stored access token if it was refreshed
-      if (tokenWasRefreshed && newAccessToken !== accessToken) {
-        Logger.info(`Access token refreshed for user ${user._id}`);
-        const { encryptToken } = await import("./lib/encryption");
-        await ctx.db.patch(user._id, {
-          accessToken: encryptToken(newAccessToken),
-          lastActive: Date.now(),
-        });
-      }
+  try {
+    await ctx.scheduler.runAfter(0, internal.notifications.processStaleIssuesForNotification, {
+      repositoryId: repository._id,
+      staleIssueIds,
+    });
+  } catch (notificationError) {
+    console.error(`Failed to schedule notifications for ${repository.fullName}:`, notificationError);
+    // Don't fail the entire processing if notifications fail
+  }
+}
 
-    } catch (error) {
-      // Handle specific GitHub API errors
-      if (ErrorHandler.isAuthenticationExpiredError(error)) {
-        Logger.error(`Authentication failed for repository ${repository.fullName}`, error);
-        
-        // Mark repository as needing re-authentication
-        await ctx.db.patch(args.repositoryId, {
-          isActive: false,
-          lastChecked: Date.now(),
-        });
+/**
+ * Build a simulation plan by replaying the processing pipeline in memory
+ */
+function buildSimulationPlan(input: {
+  repository: Doc<"repositories">;
+  members: Doc<"users">[];
+  participants: Map<string, ParticipantRecipient>; // keyed by lowercased login
+  storedIssues: Doc<"issues">[];
+  fetchedIssues: NormalizedIssue[];
+  activeRules: Doc<"rules">[];
+  candidateRules: Omit<SimulationRule, "source">[];
+  source: "github" | "cache";
+  warnings: string[];
+  now: number;
+}): RepositorySimulationPlan {
+  const { repository, now } = input;
+  const activitySettings = getActivitySettings(repository);
+  const rules: SimulationRule[] = [
+    ...input.activeRules.map(rule => ({ ...rule, source: "active" as const })),
+    ...input.candidateRules.map(rule => ({ ...rule, source: "candidate" as const })),
+  ];
+
+  // Apply fetched issues on top of the cached ones, as upsertRepositoryIssues would
+  const issuesByNumber = new Map<number, {
+    stored?: Doc<"issues">;
+    current: NormalizedIssue & { isStale: boolean; staleActions?: StaleActionState; snooze?: IssueSnooze; neverStale?: boolean };
+  }>();
+  for (const stored of input.storedIssues) {
+    issuesByNumber.set(stored.githubIssueId, { stored, current: { ...stored, kind: getItemKind(stored), isStale: stored.isStale } });
+  }
+  let newIssues = 0;
+  for (const fetched of input.fetchedIssues) {
+    const existing = issuesByNumber.get(fetched.githubIssueId);
+    if (!existing) {
+      newIssues++;
+    }
+    // Synced timelines count only the activity the repository's settings count, as upsertIssue does
+    const fetchedLastActivity = fetched.activityTimeline
+      ? computeLastActivity(trimActivityTimeline(fetched.activityTimeline), activitySettings) ?? fetched.lastActivity
+      : fetched.lastActivity;
+    issuesByNumber.set(fetched.githubIssueId, {
+      stored: existing?.stored,
+      current: {
+        ...fetched,
+        pullRequest: mergePullRequestState(existing?.stored?.pullRequest, fetched.pullRequest),
+        linkedPullRequests: fetched.linkedPullRequests ?? existing?.stored?.linkedPullRequests,
+        lastActivity: resolveLastActivity(existing?.stored?.lastActivity, fetchedLastActivity, existing?.stored?.staleActions),
+        isStale: existing?.stored?.isStale ?? false,
+        staleActions: existing?.stored?.staleActions,
+        snooze: existing?.stored?.snooze,
+        neverStale: existing?.stored?.neverStale,
+      },
+    });
+  }
 
-        await trackRepositoryError(ctx, args.repositoryId, {
-          type: "authentication",
-          message: "GitHub authentication expired - user needs to re-authenticate",
-          timestamp: Date.now(),
-          checkType,
-          details: { owner, repo, error: error instanceof Error ? error.message : String(error) },
-        });
+  const issues: RepositorySimulationPlan["issues"] = [];
+  const githubActions: RepositorySimulationPlan["githubActions"] = [];
+  const newlyStale: Array<{
+    githubIssueId: number;
+    title: string;
+    url: string;
+    assignee?: string;
+    author?: string;
+    lastNotified?: number;
+  }> = [];
+  let staleIssues = 0;
+  let noLongerStale = 0;
+
+  for (const { stored, current } of issuesByNumber.values()) {
+    const { matchedRules, isStale: wouldBeStale, daysSinceActivity } = evaluateIssue(current, rules, now);
+    const currentlyStale = stored?.isStale ?? false;
+
+    if (wouldBeStale) {
+      staleIssues++;
+    }
 
-        return {
-          success: false,
-          error: "GitHub authentication expired - please re-authenticate",
-          repositoryName: repository.fullName,
-          requiresReauth: true,
-        };
+    if (wouldBeStale || currentlyStale) {
+      const transition = wouldBeStale
+        ? (currentlyStale ? "still_stale" : "became_stale")
+        : "no_longer_stale";
+      if (transition === "became_stale") {
+        newlyStale.push({ ...current, lastNotified: stored?.lastNotified });
+      } else if (transition === "no_longer_stale") {
+        noLongerStale++;
       }
 
-      if (ErrorHandler.isRateLimitError(error)) {
-        Logger.warn(`Rate limit hit for repository ${repository.fullName}`, error);
-        
-        await trackRepositoryError(ctx, args.repositoryId, {
-          type: "rate_limit",
-          message: "GitHub API rate limit exceeded",
-          timestamp: Date.now(),
-          checkType,
-          details: { 
-            owner, 
-            repo, 
-            resetTime: error instanceof RateLimitError ? error.resetTime : undefined,
-            remaining: error instanceof RateLimitError ? error.remaining : undefined,
-          },
-        });
+      issues.push({
+        githubIssueId: current.githubIssueId,
+        title: current.title,
+        url: current.url,
+        kind: current.kind,
+        isNew: !stored,
+        currentlyStale,
+        wouldBeStale,
+        transition,
+        matchedRules: matchedRules.map(rule => rule.name),
+        daysSinceActivity,
+      });
+    }
 
-        return {
-          success: false,
-          error: "GitHub API rate limit exceeded - will retry later",
-          repositoryName: repository.fullName,
-          retryAfter: error instanceof RateLimitError ? error.resetTime : Date.now() + 60000,
-        };
-      }
+    const policyRule = matchedRules.find(rule => rule.actionPolicy);
+    const plan = planStaleActions({ ...current, isStale: wouldBeStale }, policyRule?.actionPolicy, now);
+    if (plan.actions.length > 0) {
+      githubActions.push({
+        githubIssueId: current.githubIssueId,
+        title: current.title,
+        ruleName: policyRule?.name,
+        actions: plan.actions,
+      });
+    }
+  }
 
-      if (ErrorHandler.isRepositoryAccessError(error)) {
-        Logger.error(`Repository access error for ${repository.fullName}`, error);
-        
-        // Deactivate repository
-        await ctx.db.patch(args.repositoryId, {
-          isActive: false,
-          lastChecked: Date.now(),
-        });
+  // Mirror the notification path: skip issues notified in the last 24 hours, then route them to
+  // workspace members and participants by their own preferences
+  const twentyFourHours = 24 * 60 * 60 * 1000;
+  const notifiable = newlyStale.filter(issue => !issue.lastNotified || now - issue.lastNotified >= twentyFourHours);
+  const recipients = planNotificationRecipients({
+    issues: notifiable.map(issue => ({ ...issue, _id: String(issue.githubIssueId) })),
+    members: input.members,
+    participants: input.participants,
+    settings: getParticipantSettings(repository),
+    now,
+  });
+  let notificationReason: string;
+  if (newlyStale.length === 0) {
+    notificationReason = "No issues would become stale";
+  } else if (notifiable.length === 0) {
+    notificationReason = "All newly stale issues were notified recently";
+  } else if (recipients.length === 0) {
+    notificationReason = "Nobody has notifications turned on";
+  } else {
+    const sending = recipients.filter(recipient => recipient.wouldSend).length;
+    notificationReason = `${sending} of ${recipients.length} recipient${recipients.length === 1 ? "" : "s"} would be emailed`;
+  }
+  const wouldSend = recipients.some(recipient => recipient.wouldSend);
+
+  return {
+    repositoryName: repository.fullName,
+    simulatedAt: now,
+    source: input.source,
+    warnings: input.warnings,
+    rules: rules.map(rule => ({ name: rule.name, source: rule.source, hasActionPolicy: !!rule.actionPolicy })),
+    summary: {
+      totalIssues: issuesByNumber.size,
+      fetchedIssues: input.fetchedIssues.length,
+      newIssues,
+      staleIssues,
+      becameStale: newlyStale.length,
+      noLongerStale,
+      githubActions: githubActions.reduce((total, entry) => total + entry.actions.length, 0),
+    },
+    issues,
+    notification: {
+      wouldSend,
+      reason: notificationReason,
+      recipients,
+      subject: notifiable.length > 0
+        ? `${notifiable.length} Stale Issue${notifiable.length === 1 ? "" : "s"} in ${repository.name}`
+        : undefined,
+      issues: notifiable.map(issue => ({ githubIssueId: issue.githubIssueId, title: issue.title, url: issue.url })),
+      skippedRecentlyNotified: newlyStale.length - notifiable.length,
+    },
+    githubActions,
+  };
+}
 
-        await trackRepositoryError(ctx, args.repositoryId, {
-          type: "repository_access",
-          message: "Repository access denied or repository not found",
-          timestamp: Date.now(),
-          checkType,
-          details: { owner, repo, error: error instanceof Error ? error.message : String(error) },
-        });
+/**
+ * Fetch .github/stalebot.yml, validate it and sync it into the rules table
+ * Config problems are recorded on the repository rather than failing the check
+ * An unchanged file keeps the active rules as they are
+ */
+async function syncRepositoryConfigFile(
+  ctx: ActionCtx,
+  githubService: GitHubService,
+  accessToken: string,
+  owner: string,
+  repo: string,
+  repositoryId: Id<"repositories">,
+  activeRules: Doc<"rules">[]
+): Promise<Doc<"rules">[]> {
+  let file: { content: string; sha: string } | null;
+  try {
+    file = await githubService.fetchRepositoryFile(accessToken, owner, repo, STALEBOT_CONFIG_PATH);
+  } catch (error) {
+    if (error instanceof NotModifiedError) {
+      return activeRules;
+    }
+    Logger.warn(`Could not fetch ${STALEBOT_CONFIG_PATH} for ${owner}/${repo}`, error);
+    return await ctx.runMutation(internal.processor.syncRepositoryConfig, {
+      repositoryId,
+      errors: [`Could not fetch ${STALEBOT_CONFIG_PATH}: ${error instanceof Error ? error.message : String(error)}`],
+    });
+  }
 
-        return {
-          success: false,
-          error: "Repository access denied or repository not found",
-          repositoryName: repository.fullName,
-          repositoryDeactivated: true,
-        };
-      }
+  if (!file) {
+    return await ctx.runMutation(internal.processor.syncRepositoryConfig, {
+      repositoryId,
+      found: false,
+      errors: [],
+    });
+  }
 
-      // Re-throw other errors to be handled by the outer error handler
+  const parsed = parseStalebotConfig(file.content);
+  if (parsed.valid === false) {
+    Logger.warn(`Invalid ${STALEBOT_CONFIG_PATH} in ${owner}/${repo}`, { errors: parsed.errors });
+  }
+
+  return await ctx.runMutation(internal.processor.syncRepositoryConfig, {
+    repositoryId,
+    found: true,
+    sha: file.sha,
+    rules: parsed.valid ? parsed.rules : undefined,
+    errors: parsed.valid === false ? parsed.errors : [],
+  });
+}
+
+/**
+ * Whether a repository's issues are known to be unchanged since its last check
+ * Unfinished syncs still have to continue, and a failed probe counts as a change so the
+ * issue fetch can handle it, e.g. by refreshing an expired token
+ */
+async function hasNoIssueChanges(
+  githubService: GitHubService,
+  accessToken: string,
+  repository: Doc<"repositories">
+): Promise<boolean> {
+  if (repository.lastChecked === 0 || repository.issueSync?.resume) {
+    return false;
+  }
+
+  const [owner, repo] = repository.fullName.split("/");
+  try {
+    return !(await githubService.hasRepositoryIssueChanges(accessToken, owner, repo));
+  } catch (error) {
+    if (error instanceof RateLimitError) {
       throw error;
     }
+    Logger.warn(`Could not check ${repository.fullName} for issue changes`, error);
+    return false;
+  }
+}
 
-    // Update or insert issues in database
-    let updatedIssueCount = 0;
-    let newIssueCount = 0;
+/**
+ * Sync issues changed since the last complete sync through GraphQL, continuing an unfinished
+ * sync where its cost budget ran out
+ * Returns null when the REST issue list should be used instead; dry runs leave the sync state alone
+ */
+async function syncIssuesThroughGraphQL(
+  ctx: ActionCtx,
+  githubService: GitHubService,
+  accessToken: string,
+  repository: Doc<"repositories">,
+  canRefreshToken: boolean,
+  options: { dryRun?: boolean } = {}
+): Promise<IssueSyncResult | null> {
+  const [owner, repo] = repository.fullName.split("/");
+  const since = repository.issueSync?.syncedThrough ?? (repository.lastChecked > 0 ? repository.lastChecked : undefined);
 
-    for (const githubIssue of issues) {
-      // Check if issue already exists
-      const existingIssue = await ctx.db
-        .query("issues")
-        .withIndex("by_repository", (q: any) => q.eq("repositoryId", args.repositoryId))
-        .filter((q: any) => q.eq(q.field("githubIssueId"), githubIssue.number))
-        .first();
+  try {
+    return await githubService.syncRepositoryIssues(accessToken, owner, repo, {
+      since,
+      resume: repository.issueSync?.resume,
+    });
+  } catch (error) {
+    // Expired user tokens are refreshed by the REST path
+    if (error instanceof AuthenticationError && canRefreshToken) {
+      return null;
+    }
+    if (error instanceof GitHubApiError) {
+      Logger.warn(`GraphQL issue sync failed for ${repository.fullName}, falling back to REST`, error);
+      // Start over next time rather than resuming from a cursor GitHub may keep rejecting
+      if (!options.dryRun) {
+        await ctx.runMutation(internal.processor.saveIssueSyncState, { repositoryId: repository._id });
+      }
+      return null;
+    }
+    throw error;
+  }
+}
 
-      const issueData = {
-        repositoryId: args.repositoryId,
-        githubIssueId: githubIssue.number,
-        title: githubIssue.title,
-        url: githubIssue.html_url,
-        state: githubIssue.state as "open" | "closed",
-        labels: githubIssue.labels.map((label: any) => label.name),
-        assignee: githubIssue.assignee?.login,
-        lastActivity: new Date(githubIssue.updated_at).getTime(),
-        updatedAt: Date.now(),
-      };
+/**
+ * Fill in review, mergeability and CI state for fetched open pull requests
+ * A pull request whose details cannot be fetched keeps its previously stored state
+ */
+async function fetchPullRequestDetails(
+  githubService: GitHubService,
+  accessToken: string,
+  owner: string,
+  repo: string,
+  issues: NormalizedIssue[]
+): Promise<NormalizedIssue[]> {
+  const detailed: NormalizedIssue[] = [];
+
+  for (const issue of issues) {
+    if (issue.kind !== "pull_request" || issue.state !== "open") {
+      detailed.push(issue);
+      continue;
+    }
 
-      if (existingIssue) {
-        // Update existing issue
-        await ctx.db.patch(existingIssue._id, issueData);
-        updatedIssueCount++;
-      } else {
-        // Insert new issue
-        await ctx.db.insert("issues", {
-          ...issueData,
-          isStale: false, // Will be evaluated below
-          createdAt: Date.now(),
-        });
-        newIssueCount++;
+    try {
+      const pullRequest = await githubService.fetchPullRequestState(accessToken, owner, repo, issue.githubIssueId);
+      detailed.push({ ...issue, pullRequest });
+    } catch (error) {
+      if (error instanceof RateLimitError || error instanceof AuthenticationError) {
+        throw error;
       }
+      Logger.warn(`Could not fetch pull request #${issue.githubIssueId} in ${owner}/${repo}`, error);
+      detailed.push(issue);
     }
+  }
 
-    // Apply stale detection rules to all issues in the repository
-    const allIssues = await ctx.db
-      .query("issues")
-      .withIndex("by_repository", (q: any) => q.eq("repositoryId", args.repositoryId))
-      .collect();
+  return detailed;
+}
 
-    let staleIssueCount = 0;
-    let staleStatusChanges = 0;
-    const newlyStaleIssues: any[] = [];
+/**
+ * Look up the open pull requests referencing each fetched open issue
+ * An issue whose timeline cannot be fetched keeps its previously stored links
+ */
+async function fetchIssueLinkedPullRequests(
+  githubService: GitHubService,
+  accessToken: string,
+  owner: string,
+  repo: string,
+  issues: NormalizedIssue[]
+): Promise<NormalizedIssue[]> {
+  const linked: NormalizedIssue[] = [];
+
+  for (const issue of issues) {
+    if (issue.kind !== "issue" || issue.state !== "open") {
+      linked.push(issue);
+      continue;
+    }
 
-    for (const issue of allIssues) {
-      const wasStale = issue.isStale;
-      const isNowStale = evaluateIssueAgainstMultipleRules(issue, rules);
+    try {
+      const linkedPullRequests = await githubService.fetchLinkedPullRequests(accessToken, owner, repo, issue.githubIssueId);
+      linked.push({ ...issue, linkedPullRequests });
+    } catch (error) {
+      if (error instanceof RateLimitError || error instanceof AuthenticationError) {
+        throw error;
+      }
+      Logger.warn(`Could not fetch linked pull requests for #${issue.githubIssueId} in ${owner}/${repo}`, error);
+      linked.push(issue);
+    }
+  }
 
-      if (wasStale !== isNowStale) {
-        await ctx.db.patch(issue._id, {
-          isStale: isNowStale,
-          updatedAt: Date.now(),
-        });
-        staleStatusChanges++;
+  return linked;
+}
 
-        // Track newly stale issues for notification
-        if (!wasStale && isNowStale) {
-          newlyStaleIssues.push(issue._id);
-        }
-      }
+/**
+ * Execute outstanding stale actions for a repository through the GitHub API
+ * Each write is idempotent, so a partially failed run is safely repeated next time
+ */
+async function runStaleActions(
+  ctx: ActionCtx,
+  githubService: GitHubService,
+  accessToken: string,
+  owner: string,
+  repo: string,
+  repositoryId: Id<"repositories">
+): Promise<{ applied: number; failed: number }> {
+  const plans = await ctx.runQuery(internal.processor.getStaleActionPlans, { repositoryId });
+  if (plans.length === 0) {
+    return { applied: 0, failed: 0 };
+  }
 
-      if (isNowStale) {
-        staleIssueCount++;
-      }
-    }
+  const startEntries = plans
+    .filter(plan => !plan.resetState && plan.ruleId)
+    .map(plan => ({ issueId: plan.issueId, ruleId: plan.ruleId!, markedAt: plan.markedAt }));
+  if (startEntries.length > 0) {
+    await ctx.runMutation(internal.processor.startStaleActions, { issues: startEntries });
+  }
 
-    // Send notifications for newly stale issues
-    if (newlyStaleIssues.length > 0) {
-      console.log(`Found ${newlyStaleIssues.length} newly stale issues in ${repository.fullName}, sending notifications`);
+  let applied = 0;
+  let failed = 0;
+
+  for (const plan of plans) {
+    const result: { commentId?: number; commented?: boolean; labelName?: string; closed?: boolean } = {};
+    let planFailed = false;
 
+    for (const action of plan.actions as PlannedStaleAction[]) {
       try {
-        await ctx.scheduler.runAfter(0, internal.notifications.processStaleIssuesForNotification, {
-          repositoryId: args.repositoryId,
-          staleIssueIds: newlyStaleIssues,
-        });
-      } catch (notificationError) {
-        console.error(`Failed to schedule notifications for ${repository.fullName}:`, notificationError);
-        // Don't fail the entire processing if notifications fail
+        switch (action.type) {
+          case "comment": {
+            const comment = await githubService.createIssueCommentOnce(
+              accessToken, owner, repo, plan.githubIssueId, action.body, action.marker
+            );
+            result.commentId = comment.commentId;
+            result.commented = true;
+            break;
+          }
+          case "label":
+            await githubService.addIssueLabel(accessToken, owner, repo, plan.githubIssueId, action.label);
+            result.labelName = action.label;
+            break;
+          case "close":
+            await githubService.closeIssue(accessToken, owner, repo, plan.githubIssueId);
+            result.closed = true;
+            break;
+          case "unlabel":
+            await githubService.removeIssueLabel(accessToken, owner, repo, plan.githubIssueId, action.label);
+            break;
+        }
+        applied++;
+      } catch (error) {
+        failed++;
+        planFailed = true;
+        Logger.warn(`Stale action ${action.type} failed for ${owner}/${repo}#${plan.githubIssueId}`, error);
+
+        // Stop on rate limits and auth errors; later actions would fail the same way
+        if (ErrorHandler.isRateLimitError(error) || ErrorHandler.isAuthenticationExpiredError(error)) {
+          return { applied, failed };
+        }
+        break;
       }
     }
 
-    // Update repository status
-    await ctx.db.patch(args.repositoryId, {
-      lastChecked: Date.now(),
-      lastIssueCount: allIssues.length,
+    await ctx.runMutation(internal.processor.recordStaleActions, {
+      issueId: plan.issueId,
+      resetState: plan.resetState && !planFailed,
+      ...result,
     });
+  }
 
-    const duration = Date.now() - startTime;
-    console.log(`Completed ${checkType} check for ${repository.fullName} in ${duration}ms`);
-
-    return {
-      success: true,
-      repositoryName: repository.fullName,
-      checkType,
-      statistics: {
-        totalIssues: allIssues.length,
-        newIssues: newIssueCount,
-        updatedIssues: updatedIssueCount,
-        staleIssues: staleIssueCount,
-        staleStatusChanges,
-        rulesApplied: rules.length,
-      },
-      duration,
-    };
-    }, errorContext, ctx, 3); // Close the withErrorHandling call
-  } catch (error) {
-    const duration = Date.now() - startTime;
-    Logger.error(`Error processing repository ${args.repositoryId}`, error);
+  Logger.info(`Applied ${applied} stale actions for ${owner}/${repo}`, { applied, failed });
+  return { applied, failed };
+}
 
-    // Track the error
-    await trackRepositoryError(ctx, args.repositoryId, {
-      type: getErrorType(error),
-      message: error instanceof Error ? error.message : "Unknown error",
-      timestamp: Date.now(),
-      checkType,
-      details: error instanceof GitHubApiError ? {
-        status: error.status,
-        code: error.code,
-        rateLimitRemaining: error.rateLimitRemaining,
-        rateLimitReset: error.rateLimitReset,
-      } : undefined,
-    });
+/**
+ * Insert or update a single issue row from its normalized GitHub data
+ */
+async function upsertIssue(
+  ctx: any,
+  repository: Doc<"repositories">,
+  normalizedIssue: NormalizedIssue,
+  options: { webhookActivity?: ActivityEvent | null } = {}
+): Promise<{ issueId: Id<"issues">; inserted: boolean; previous: Doc<"issues"> | null }> {
+  const repositoryId = repository._id;
+
+  // Check if issue already exists
+  const existingIssue: Doc<"issues"> | null = await ctx.db
+    .query("issues")
+    .withIndex("by_repository", (q: any) => q.eq("repositoryId", repositoryId))
+    .filter((q: any) => q.eq(q.field("githubIssueId"), normalizedIssue.githubIssueId))
+    .first();
+
+  // The GraphQL sync delivers the whole timeline and webhooks add their event to the stored one;
+  // otherwise updated_at is the best signal there is, and a stored timeline is outdated
+  let activityTimeline = normalizedIssue.activityTimeline;
+  if (!activityTimeline && options.webhookActivity !== undefined && existingIssue?.activityTimeline) {
+    activityTimeline = options.webhookActivity
+      ? [...existingIssue.activityTimeline, options.webhookActivity]
+      : existingIssue.activityTimeline;
+  }
+  if (activityTimeline) {
+    activityTimeline = trimActivityTimeline(activityTimeline);
+  }
+  const incomingLastActivity = activityTimeline
+    ? computeLastActivity(activityTimeline, getActivitySettings(repository)) ?? normalizedIssue.lastActivity
+    : normalizedIssue.lastActivity;
 
-    // Update last checked time even on error to prevent constant retries
-    const repository = await ctx.db.get(args.repositoryId);
-    if (repository) {
-      await ctx.db.patch(args.repositoryId, {
-        lastChecked: Date.now(),
-      });
-    }
+  const issueData = {
+    repositoryId,
+    githubIssueId: normalizedIssue.githubIssueId,
+    title: normalizedIssue.title,
+    url: normalizedIssue.url,
+    state: normalizedIssue.state,
+    labels: normalizedIssue.labels,
+    assignee: normalizedIssue.assignee,
+    author: normalizedIssue.author ?? existingIssue?.author,
+    kind: normalizedIssue.kind,
+    pullRequest: mergePullRequestState(existingIssue?.pullRequest, normalizedIssue.pullRequest),
+    milestone: normalizedIssue.milestone,
+    commentCount: normalizedIssue.commentCount ?? existingIssue?.commentCount,
+    lastHumanCommentAt: normalizedIssue.lastHumanCommentAt ?? existingIssue?.lastHumanCommentAt,
+    reactionCount: normalizedIssue.reactionCount ?? existingIssue?.reactionCount,
+    activityTimeline,
+    // Linked pull requests are only fetched when a rule exempts them
+    linkedPullRequests: normalizedIssue.linkedPullRequests ?? existingIssue?.linkedPullRequests,
+    lastActivity: resolveLastActivity(
+      existingIssue?.lastActivity,
+      incomingLastActivity,
+      existingIssue?.staleActions
+    ),
+    updatedAt: Date.now(),
+  };
 
-    return {
-      success: false,
-      repositoryName: repository?.fullName || "Unknown",
-      error: error instanceof Error ? error.message : "Unknown error",
-      errorType: getErrorType(error),
-      duration,
-      checkType,
-    };
+  if (existingIssue) {
+    await ctx.db.patch(existingIssue._id, issueData);
+    return { issueId: existingIssue._id, inserted: false, previous: existingIssue };
   }
+
+  const issueId = await ctx.db.insert("issues", {
+    ...issueData,
+    isStale: false, // Evaluated after upsert
+    createdAt: Date.now(),
+  });
+  return { issueId, inserted: true, previous: null };
 }
 
 /**
@@ -619,46 +2329,23 @@ async function trackRepositoryError(
     await sendErrorAlert(ctx, errorLog);
   }
 
-  // Store error in database for analysis (in production, this would be a separate collection)
+  // Persist the error so it shows up in repository health and error summaries
   try {
-    // For now, we'll create a simple error tracking mechanism
-    // In production, this would be stored in a dedicated errors collection
-    const errorRecord = {
-      ...errorLog,
-      id: `err_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      resolved: false,
-      retryCount: 0,
-    };
-
-    // Log the error record for now - in production this would be stored
-    console.log("Error record created:", errorRecord);
+    await recordErrorEntry(ctx, {
+      type: error.type,
+      severity: errorLog.severity,
+      message: error.message,
+      operation: error.checkType,
+      repositoryId,
+      userId: repository?.userId,
+      details: error.details,
+      timestamp: error.timestamp,
+    });
   } catch (dbError) {
     console.error("Failed to store error record:", dbError);
   }
 }
 
-/**
- * Determine error severity based on error type
- */
-function getErrorSeverity(errorType: string): string {
-  switch (errorType) {
-    case "authentication":
-      return "high";
-    case "repository_access":
-      return "high";
-    case "rate_limit":
-      return "medium";
-    case "github_api":
-      return "medium";
-    case "database":
-      return "critical";
-    case "network":
-      return "medium";
-    default:
-      return "low";
-  }
-}
-
 /**
  * Track error patterns for monitoring and alerting
  */
@@ -724,79 +2411,9 @@ function getErrorType(error: any): string {
 }
 
 /**
- * Enhanced rule evaluation function that handles multiple rules
- */
-function evaluateIssueAgainstMultipleRules(issue: any, rules: any[]): boolean {
-  // An issue is considered stale if it matches ANY of the active rules
-  return rules.some(rule => evaluateIssueAgainstRule(issue, rule));
-}
-
-/**
- * Enhanced single rule evaluation with better logic
- */
-function evaluateIssueAgainstRule(issue: any, rule: any): boolean {
-  // Check inactivity period
-  const daysSinceActivity = calculateDaysSinceActivity(issue.lastActivity);
-  if (daysSinceActivity < rule.inactivityDays) {
-    return false;
-  }
-
-  // Check issue state
-  if (!rule.issueStates.includes(issue.state)) {
-    return false;
-  }
-
-  // Check labels (if rule specifies labels, issue must have at least one matching label)
-  if (rule.labels && rule.labels.length > 0) {
-    const hasMatchingLabel = rule.labels.some((ruleLabel: string) =>
-      issue.labels.some((issueLabel: string) =>
-        issueLabel.toLowerCase() === ruleLabel.toLowerCase()
-      )
-    );
-    if (!hasMatchingLabel) {
-      return false;
-    }
-  }
-
-  // Check assignee condition
-  switch (rule.assigneeCondition) {
-    case "any":
-      // No assignee filtering
-      break;
-    case "assigned":
-      if (!issue.assignee) {
-        return false;
-      }
-      break;
-    case "unassigned":
-      if (issue.assignee) {
-        return false;
-      }
-      break;
-    default:
-      // Specific users array
-      if (Array.isArray(rule.assigneeCondition)) {
-        if (!issue.assignee || !rule.assigneeCondition.includes(issue.assignee)) {
-          return false;
-        }
-      }
-      break;
-  }
-
-  return true;
-}
-
-/**
- * Utility function to calculate days since last activity
- */
-function calculateDaysSinceActivity(lastActivity: number): number {
-  return Math.floor((Date.now() - lastActivity) / (24 * 60 * 60 * 1000));
-}
-/**
-
  * Batch process repositories with proper error isolation and progress tracking
  */
-export const batchProcessRepositories = internalMutation({
+export const batchProcessRepositories = internalAction({
   args: {
     repositoryIds: v.array(v.id("repositories")),
     batchSize: v.optional(v.number()),
@@ -909,7 +2526,7 @@ export const batchProcessRepositories = internalMutation({
 /**
  * Process repositories with progress tracking and status updates
  */
-export const processRepositoriesWithProgress = internalMutation({
+export const processRepositoriesWithProgress = internalAction({
   args: {
     repositoryIds: v.array(v.id("repositories")),
     progressCallback: v.optional(v.string()), // Function name to call for progress updates
@@ -932,16 +2549,15 @@ export const processRepositoriesWithProgress = internalMutation({
 
       console.log(`Processing repository ${i + 1}/${totalRepositories} (${progress}%): ${repositoryId}`);
 
-      try {
-        // Get repository info for logging
-        const repository = await ctx.db.get(repositoryId);
-        const repositoryName = repository?.fullName || "Unknown";
+      let repositoryName = "Unknown";
 
+      try {
         // Process the repository
         const result = await processRepositoryInternal(ctx, {
           repositoryId,
           isScheduledCheck: false,
         });
+        repositoryName = result.repositoryName;
 
         if (result.success) {
           if ('skipped' in result && result.skipped) {
@@ -977,8 +2593,6 @@ export const processRepositoriesWithProgress = internalMutation({
 
       } catch (error) {
         errorCount++;
-        const repository = await ctx.db.get(repositoryId);
-        const repositoryName = repository?.fullName || "Unknown";
 
         console.error(`Critical error processing ${repositoryName}:`, error);
 
@@ -1094,7 +2708,7 @@ export const getProcessingStatus = internalQuery({
 /**
  * Retry failed repository processing with exponential backoff
  */
-export const retryFailedRepositories = internalMutation({
+export const retryFailedRepositories = internalAction({
   args: {
     repositoryIds: v.array(v.id("repositories")),
     maxRetries: v.optional(v.number()),
@@ -1109,8 +2723,10 @@ export const retryFailedRepositories = internalMutation({
     const results = [];
 
     for (const repositoryId of args.repositoryIds) {
-      const repository = await ctx.db.get(repositoryId);
-      const repositoryName = repository?.fullName || "Unknown";
+      const repository: Doc<"repositories"> | null = (
+        await ctx.runQuery(internal.processor.getRepositoryProcessingContext, { repositoryId })
+      ).repository;
+      const repositoryName: string = repository?.fullName || "Unknown";
 
       console.log(`Retrying repository: ${repositoryName}`);
 
@@ -1216,8 +2832,13 @@ export const performHealthCheck = internalQuery({
         .filter((q) => q.lt(q.field("lastChecked"), Date.now() - oneDay))
         .collect();
 
-      // Check for any critical errors (this would be expanded with proper error tracking)
-      const criticalErrorCount = 0; // Placeholder
+      // Unresolved critical errors from the last day
+      const criticalErrorCount = await ctx.db
+        .query("errors")
+        .withIndex("by_last_occurred", (q) => q.gt("lastOccurredAt", Date.now() - oneDay))
+        .filter((q) => q.and(q.eq(q.field("severity"), "critical"), q.eq(q.field("resolved"), false)))
+        .collect()
+        .then(errors => errors.length);
 
       const duration = Date.now() - startTime;
 
@@ -1,9 +1,15 @@
 import { v } from "convex/values";
 import { mutation, query, internalMutation, internalQuery } from "./_generated/server";
-import { Id } from "./_generated/dataModel";
+import { Doc, Id } from "./_generated/dataModel";
 import { internal } from "./_generated/api";
 import { GitHubService } from "../src/lib/github";
-import { getCurrentUser } from "./lib/auth_helpers";
+import { getAccessibleRepositories, getCurrentUser, hasRepositoryPermission } from "./lib/auth_helpers";
+import { getErrorSeverity, hasUnresolvedErrorsSince, recordErrorEntry } from "./errors";
+import { encryptToken } from "./lib/encryption";
+import { isValidSlackWebhookUrl } from "./lib/slack";
+import { STALEBOT_CONFIG_PATH } from "./lib/stalebotConfig";
+import { normalizeIgnoredLogins, validateActivitySettings } from "./lib/activity";
+import { activitySettingsValidator, repositoryPriorityValidator } from "../src/types/validators";
 
 // Repository selection and configuration functions
 
@@ -102,7 +108,7 @@ export const removeRepositoriesFromMonitoring = mutation({
     for (const repositoryId of args.repositoryIds) {
       // Verify user owns this repository
       const repository = await ctx.db.get(repositoryId);
-      if (!repository || repository.userId !== user._id) {
+      if (!repository || !(await hasRepositoryPermission(ctx, user._id, repository, "manage"))) {
         throw new Error(`Repository not found or access denied: ${repositoryId}`);
       }
 
@@ -145,6 +151,12 @@ export const updateRepositorySettings = mutation({
     repositoryId: v.id("repositories"),
     settings: v.object({
       isActive: v.optional(v.boolean()),
+      participantNotifications: v.optional(v.object({
+        assignees: v.boolean(),
+        authors: v.boolean(),
+      })),
+      activitySettings: v.optional(activitySettingsValidator),
+      priority: v.optional(repositoryPriorityValidator),
     }),
   },
   handler: async (ctx, args) => {
@@ -155,12 +167,31 @@ export const updateRepositorySettings = mutation({
 
     // Verify user owns this repository
     const repository = await ctx.db.get(args.repositoryId);
-    if (!repository || repository.userId !== user._id) {
+    if (!repository || !(await hasRepositoryPermission(ctx, user._id, repository, "manage"))) {
       throw new Error("Repository not found or access denied");
     }
 
+    const settings = { ...args.settings };
+    if (settings.activitySettings) {
+      settings.activitySettings = {
+        ...settings.activitySettings,
+        ignoredLogins: normalizeIgnoredLogins(settings.activitySettings.ignoredLogins),
+      };
+      const errors = validateActivitySettings(settings.activitySettings);
+      if (errors.length > 0) {
+        throw new Error(`Invalid activity settings: ${errors.join(", ")}`);
+      }
+    }
+
     // Update repository settings
-    await ctx.db.patch(args.repositoryId, args.settings);
+    await ctx.db.patch(args.repositoryId, settings);
+
+    // Stored issues are judged by the new activity definition right away
+    if (settings.activitySettings) {
+      await ctx.scheduler.runAfter(0, internal.processor.recomputeRepositoryActivity, {
+        repositoryId: args.repositoryId,
+      });
+    }
 
     return { success: true };
   },
@@ -177,13 +208,10 @@ export const getUserRepositories = query({
       return [];
     }
 
-    const repositories = await ctx.db
-      .query("repositories")
-      .withIndex("by_user", (q) => q.eq("userId", user._id))
-      .filter((q) => q.eq(q.field("isActive"), true))
-      .collect();
+    // Personal repositories and those shared through the user's workspaces
+    const repositories = await getAccessibleRepositories(ctx, user._id);
 
-    return repositories;
+    return repositories.filter(repository => repository.isActive);
   },
 });
 
@@ -246,7 +274,7 @@ export const validateRepositoryAccess = mutation({
     }
 
     const repository = await ctx.db.get(args.repositoryId);
-    if (!repository || repository.userId !== user._id) {
+    if (!repository || !(await hasRepositoryPermission(ctx, user._id, repository, "manage"))) {
       throw new Error("Repository not found or access denied");
     }
 
@@ -300,7 +328,7 @@ export const batchValidateRepositoryAccess = mutation({
 
     for (const repositoryId of args.repositoryIds) {
       const repository = await ctx.db.get(repositoryId);
-      if (!repository || repository.userId !== user._id) {
+      if (!repository || !(await hasRepositoryPermission(ctx, user._id, repository, "manage"))) {
         results.push({
           repositoryId,
           hasAccess: false,
@@ -382,7 +410,7 @@ export const getRepositoryWithDetails = query({
     }
 
     const repository = await ctx.db.get(args.repositoryId);
-    if (!repository || repository.userId !== user._id) {
+    if (!repository || !(await hasRepositoryPermission(ctx, user._id, repository, "view"))) {
       return null;
     }
 
@@ -454,7 +482,7 @@ export const getRepositoryHealthStatus = query({
     }
 
     const repository = await ctx.db.get(args.repositoryId);
-    if (!repository || repository.userId !== user._id) {
+    if (!repository || !(await hasRepositoryPermission(ctx, user._id, repository, "view"))) {
       return null;
     }
 
@@ -467,8 +495,8 @@ export const getRepositoryHealthStatus = query({
     const isStale = timeSinceLastCheck > oneDay;
     const isOverdue = timeSinceLastCheck > 2 * oneDay;
 
-    // Get recent error logs (this would be implemented with proper error tracking)
-    const hasRecentErrors = false; // Placeholder - would check error logs
+    // Unresolved errors recorded in the last day
+    const hasRecentErrors = await hasUnresolvedErrorsSince(ctx, repository._id, now - oneDay);
 
     // Get processing statistics
     const totalIssues = await ctx.db
@@ -487,6 +515,7 @@ export const getRepositoryHealthStatus = query({
       isStale,
       isOverdue,
       hasRecentErrors,
+      config: getConfigHealth(repository),
       statistics: {
         totalIssues: totalIssues.length,
         staleIssues: staleIssues.length,
@@ -497,6 +526,7 @@ export const getRepositoryHealthStatus = query({
         isActive: repository.isActive,
         timeSinceLastCheck,
         hasRecentErrors,
+        hasConfigErrors: (repository.configStatus?.errors.length ?? 0) > 0,
         issueCount: totalIssues.length,
       }),
     };
@@ -514,10 +544,7 @@ export const getAllRepositoriesHealthStatus = query({
       return [];
     }
 
-    const repositories = await ctx.db
-      .query("repositories")
-      .withIndex("by_user", (q) => q.eq("userId", user._id))
-      .collect();
+    const repositories = await getAccessibleRepositories(ctx, user._id);
 
     const healthStatuses = [];
 
@@ -533,6 +560,7 @@ export const getAllRepositoriesHealthStatus = query({
         .collect();
 
       const staleIssues = totalIssues.filter(issue => issue.isStale);
+      const hasRecentErrors = await hasUnresolvedErrorsSince(ctx, repository._id, now - oneDay);
 
       healthStatuses.push({
         repositoryId: repository._id,
@@ -542,6 +570,8 @@ export const getAllRepositoriesHealthStatus = query({
         timeSinceLastCheck,
         isStale: timeSinceLastCheck > oneDay,
         isOverdue: timeSinceLastCheck > 2 * oneDay,
+        hasRecentErrors,
+        config: getConfigHealth(repository),
         statistics: {
           totalIssues: totalIssues.length,
           staleIssues: staleIssues.length,
@@ -551,7 +581,8 @@ export const getAllRepositoriesHealthStatus = query({
         healthScore: calculateHealthScore({
           isActive: repository.isActive,
           timeSinceLastCheck,
-          hasRecentErrors: false, // Placeholder
+          hasRecentErrors,
+          hasConfigErrors: (repository.configStatus?.errors.length ?? 0) > 0,
           issueCount: totalIssues.length,
         }),
       });
@@ -561,6 +592,42 @@ export const getAllRepositoriesHealthStatus = query({
   },
 });
 
+/**
+ * Set or clear a repository-specific Slack webhook, overriding the user's
+ */
+export const setRepositorySlackWebhook = mutation({
+  args: {
+    repositoryId: v.id("repositories"),
+    webhookUrl: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      throw new Error("User not authenticated");
+    }
+
+    const repository = await ctx.db.get(args.repositoryId);
+    if (!repository || !(await hasRepositoryPermission(ctx, user._id, repository, "manage"))) {
+      throw new Error("Repository not found or access denied");
+    }
+
+    if (args.webhookUrl === null) {
+      await ctx.db.patch(args.repositoryId, { slackWebhookUrl: undefined });
+      return { slackConfigured: false };
+    }
+
+    const webhookUrl = args.webhookUrl.trim();
+    if (!isValidSlackWebhookUrl(webhookUrl)) {
+      throw new Error("Slack webhook URL must start with https://hooks.slack.com/services/");
+    }
+
+    await ctx.db.patch(args.repositoryId, {
+      slackWebhookUrl: await encryptToken(webhookUrl),
+    });
+    return { slackConfigured: true };
+  },
+});
+
 /**
  * Manually refresh a repository
  */
@@ -575,7 +642,7 @@ export const manualRefreshRepository = mutation({
     }
 
     const repository = await ctx.db.get(args.repositoryId);
-    if (!repository || repository.userId !== user._id) {
+    if (!repository || !(await hasRepositoryPermission(ctx, user._id, repository, "manage"))) {
       throw new Error("Repository not found or access denied");
     }
 
@@ -636,7 +703,7 @@ export const getRepositoryProcessingHistory = query({
     }
 
     const repository = await ctx.db.get(args.repositoryId);
-    if (!repository || repository.userId !== user._id) {
+    if (!repository || !(await hasRepositoryPermission(ctx, user._id, repository, "view"))) {
       return [];
     }
 
@@ -672,15 +739,16 @@ export const trackRepositoryError = internalMutation({
     }),
   },
   handler: async (ctx, args) => {
-    // In a full implementation, this would store errors in a separate collection
-    // For now, we'll log the error
     console.error(`Repository error for ${args.repositoryId}:`, args.error);
 
-    // Could implement error storage here:
-    // await ctx.db.insert("repository_errors", {
-    //   repositoryId: args.repositoryId,
-    //   ...args.error,
-    // });
+    await recordErrorEntry(ctx, {
+      type: args.error.type,
+      severity: getErrorSeverity(args.error.type),
+      message: args.error.message,
+      repositoryId: args.repositoryId,
+      details: args.error.details,
+      timestamp: args.error.timestamp,
+    });
   },
 });
 
@@ -727,11 +795,23 @@ export const batchUpdateRepositoryStatuses = internalMutation({
   },
 });
 
+// Helper function to summarise the .github/stalebot.yml sync state
+function getConfigHealth(repository: Doc<"repositories">) {
+  return {
+    path: STALEBOT_CONFIG_PATH,
+    found: repository.configStatus?.found ?? false,
+    ruleCount: repository.configStatus?.ruleCount ?? 0,
+    errors: repository.configStatus?.errors ?? [],
+    checkedAt: repository.configStatus?.checkedAt,
+  };
+}
+
 // Helper function to calculate repository health score
 function calculateHealthScore(params: {
   isActive: boolean;
   timeSinceLastCheck: number;
   hasRecentErrors: boolean;
+  hasConfigErrors: boolean;
   issueCount: number;
 }): number {
   let score = 100;
@@ -758,6 +838,11 @@ function calculateHealthScore(params: {
     score -= 20;
   }
 
+  // Deduct points for an invalid .github/stalebot.yml
+  if (params.hasConfigErrors) {
+    score -= 10;
+  }
+
   // Slight bonus for repositories with issues (they're being used)
   if (params.issueCount > 0) {
     score += 5;
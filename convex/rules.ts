@@ -1,11 +1,29 @@
 import { mutation, query } from "./_generated/server";
 import { v } from "convex/values";
 import type { QueryCtx, MutationCtx } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
 import { 
   createRuleFormValidator, 
   updateRuleFormValidator,
   validateInactivityDays 
 } from "../src/types/validators";
+import { validateStaleActionPolicy } from "./lib/staleActions";
+import { validateRuleConfiguration } from "./lib/ruleValidation";
+import { STALEBOT_CONFIG_PATH } from "./lib/stalebotConfig";
+import { getItemKind, validateItemTarget } from "./lib/pullRequests";
+import { ExemptionType, getRuleExemption, validateExemptions, withoutExemptions } from "./lib/exemptions";
+import { validateRuleExpression } from "./lib/ruleExpression";
+import { getSnoozeReason } from "./lib/issueSnooze";
+import {
+  calculateDaysSinceActivity,
+  evaluateIssue,
+  formatInactivityPeriod,
+  hasStaleEvaluationChanged,
+  matchesRule,
+  toStaleEvaluation,
+} from "./lib/rulesEngine";
+import { recordStaleTransition } from "./snapshots";
+import { getAccessibleRepositories, getAuthenticatedUser, hasRepositoryPermission, hasRulePermission } from "./lib/auth_helpers";
 
 // Create a new stale detection rule
 export const createRule = mutation({
@@ -28,7 +46,7 @@ export const createRule = mutation({
 
     // Validate repository belongs to user
     const repository = await ctx.db.get(args.repositoryId);
-    if (!repository || repository.userId !== user._id) {
+    if (!repository || !(await hasRepositoryPermission(ctx, user._id, repository, "manage"))) {
       throw new Error("Repository not found or access denied");
     }
 
@@ -48,6 +66,14 @@ export const createRule = mutation({
       labels: args.labels.map(label => label.trim()).filter(label => label.length > 0),
       issueStates: args.issueStates,
       assigneeCondition: args.assigneeCondition,
+      exemptLabels: args.exemptLabels?.map(label => label.trim()).filter(label => label.length > 0),
+      exemptMilestones: args.exemptMilestones,
+      exemptLinkedPullRequests: args.exemptLinkedPullRequests,
+      exemptIssueNumbers: args.exemptIssueNumbers,
+      condition: args.condition?.trim() || undefined,
+      itemKind: args.itemKind,
+      pullRequestCriteria: args.pullRequestCriteria,
+      actionPolicy: args.actionPolicy,
       isActive: true,
       createdAt: now,
       updatedAt: now,
@@ -86,10 +112,15 @@ export const updateRule = mutation({
 
     // Get existing rule
     const existingRule = await ctx.db.get(args.ruleId);
-    if (!existingRule || existingRule.userId !== user._id) {
+    if (!existingRule || !(await hasRulePermission(ctx, user._id, existingRule, "manage"))) {
       throw new Error("Rule not found or access denied");
     }
 
+    // Rules synced from .github/stalebot.yml are edited in the repository
+    if (existingRule.source === "config") {
+      throw new Error(`Rule is managed by ${STALEBOT_CONFIG_PATH} and is read-only`);
+    }
+
     // Prepare updates with validation
     const updates: any = { updatedAt: Date.now() };
     
@@ -122,6 +153,75 @@ export const updateRule = mutation({
       updates.assigneeCondition = args.updates.assigneeCondition;
     }
 
+    // Exemptions share the validation used when creating rules
+    const exemptionErrors = validateExemptions({
+      exemptLabels: args.updates.exemptLabels,
+      exemptMilestones: args.updates.exemptMilestones ?? undefined,
+      exemptLinkedPullRequests: args.updates.exemptLinkedPullRequests,
+      exemptIssueNumbers: args.updates.exemptIssueNumbers,
+    });
+    if (exemptionErrors.length > 0) {
+      throw new Error(`Invalid exemptions: ${exemptionErrors.join(", ")}`);
+    }
+
+    if (args.updates.exemptLabels !== undefined) {
+      updates.exemptLabels = args.updates.exemptLabels.map(label => label.trim()).filter(label => label.length > 0);
+    }
+
+    if (args.updates.exemptMilestones !== undefined) {
+      updates.exemptMilestones = args.updates.exemptMilestones ?? undefined;
+    }
+
+    if (args.updates.exemptLinkedPullRequests !== undefined) {
+      updates.exemptLinkedPullRequests = args.updates.exemptLinkedPullRequests;
+    }
+
+    if (args.updates.exemptIssueNumbers !== undefined) {
+      updates.exemptIssueNumbers = args.updates.exemptIssueNumbers;
+    }
+
+    if (args.updates.condition !== undefined) {
+      const condition = args.updates.condition?.trim() || undefined;
+      if (condition) {
+        const conditionErrors = validateRuleExpression(condition);
+        if (conditionErrors.length > 0) {
+          throw new Error(`Invalid condition: ${conditionErrors.join(", ")}`);
+        }
+      }
+      updates.condition = condition;
+    }
+
+    if (args.updates.itemKind !== undefined) {
+      updates.itemKind = args.updates.itemKind;
+    }
+
+    if (args.updates.pullRequestCriteria !== undefined) {
+      updates.pullRequestCriteria = args.updates.pullRequestCriteria ?? undefined;
+    }
+
+    // Criteria only apply to pull request rules, so check the combination after merging
+    if (args.updates.itemKind !== undefined || args.updates.pullRequestCriteria !== undefined) {
+      const targetErrors = validateItemTarget({
+        itemKind: "itemKind" in updates ? updates.itemKind : existingRule.itemKind,
+        pullRequestCriteria: "pullRequestCriteria" in updates ? updates.pullRequestCriteria : existingRule.pullRequestCriteria,
+      });
+      if (targetErrors.length > 0) {
+        throw new Error(`Invalid rule target: ${targetErrors.join(", ")}`);
+      }
+    }
+
+    if (args.updates.actionPolicy !== undefined) {
+      if (args.updates.actionPolicy === null) {
+        updates.actionPolicy = undefined;
+      } else {
+        const policyErrors = validateStaleActionPolicy(args.updates.actionPolicy);
+        if (policyErrors.length > 0) {
+          throw new Error(`Invalid action policy: ${policyErrors.join(", ")}`);
+        }
+        updates.actionPolicy = args.updates.actionPolicy;
+      }
+    }
+
     if (args.updates.isActive !== undefined) {
       updates.isActive = args.updates.isActive;
     }
@@ -154,10 +254,15 @@ export const deleteRule = mutation({
 
     // Get existing rule
     const existingRule = await ctx.db.get(args.ruleId);
-    if (!existingRule || existingRule.userId !== user._id) {
+    if (!existingRule || !(await hasRulePermission(ctx, user._id, existingRule, "manage"))) {
       throw new Error("Rule not found or access denied");
     }
 
+    // Rules synced from .github/stalebot.yml are edited in the repository
+    if (existingRule.source === "config") {
+      throw new Error(`Rule is managed by ${STALEBOT_CONFIG_PATH} and is read-only`);
+    }
+
     // Remove rule from repository's rules array
     const repository = await ctx.db.get(existingRule.repositoryId);
     if (repository) {
@@ -177,39 +282,24 @@ export const deleteRule = mutation({
 export const listUserRules = query({
   args: {},
   handler: async (ctx) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
-    }
+    const user = await getAuthenticatedUser(ctx);
 
-    // Get user from database
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_github_id", (q) => q.eq("githubId", identity.subject))
-      .first();
-    
-    if (!user) {
-      throw new Error("User not found");
+    // Rules of the user's personal repositories and of their workspaces' repositories
+    const repositories = await getAccessibleRepositories(ctx, user._id);
+    const rulesWithRepoInfo = [];
+    for (const repository of repositories) {
+      const rules = await Promise.all(repository.rules.map(ruleId => ctx.db.get(ruleId)));
+      for (const rule of rules) {
+        if (rule) {
+          rulesWithRepoInfo.push({
+            ...rule,
+            repositoryName: repository.name,
+            repositoryFullName: repository.fullName,
+          });
+        }
+      }
     }
 
-    // Get all rules for the user
-    const rules = await ctx.db
-      .query("rules")
-      .withIndex("by_user", (q) => q.eq("userId", user._id))
-      .collect();
-
-    // Get repository information for each rule
-    const rulesWithRepoInfo = await Promise.all(
-      rules.map(async (rule) => {
-        const repository = await ctx.db.get(rule.repositoryId);
-        return {
-          ...rule,
-          repositoryName: repository?.name || "Unknown",
-          repositoryFullName: repository?.fullName || "Unknown",
-        };
-      })
-    );
-
     return rulesWithRepoInfo;
   },
 });
@@ -235,7 +325,7 @@ export const listRepositoryRules = query({
 
     // Validate repository belongs to user
     const repository = await ctx.db.get(args.repositoryId);
-    if (!repository || repository.userId !== user._id) {
+    if (!repository || !(await hasRepositoryPermission(ctx, user._id, repository, "view"))) {
       throw new Error("Repository not found or access denied");
     }
 
@@ -270,7 +360,7 @@ export const getRule = query({
 
     // Get the rule
     const rule = await ctx.db.get(args.ruleId);
-    if (!rule || rule.userId !== user._id) {
+    if (!rule || !(await hasRulePermission(ctx, user._id, rule, "view"))) {
       throw new Error("Rule not found or access denied");
     }
 
@@ -308,7 +398,7 @@ export const testRule = query({
 
     // Validate repository belongs to user
     const repository = await ctx.db.get(args.repositoryId);
-    if (!repository || repository.userId !== user._id) {
+    if (!repository || !(await hasRepositoryPermission(ctx, user._id, repository, "view"))) {
       throw new Error("Repository not found or access denied");
     }
 
@@ -326,89 +416,34 @@ export const testRule = query({
       .take(50);
 
     // Apply the rule to test issues
+    const now = Date.now();
     const matchingIssues = issues.filter(issue => 
-      evaluateIssueAgainstRule(issue, args.ruleConfig)
+      matchesRule(issue, args.ruleConfig, now)
     );
 
+    // Issues that would match if it were not for an exemption
+    const exemptedIssues = findExemptedIssues(issues, [args.ruleConfig], now);
+
     return {
       totalIssuesChecked: issues.length,
       matchingIssues: matchingIssues.length,
+      exemptedIssues: exemptedIssues.length,
+      sampleExemptions: exemptedIssues.slice(0, 10),
       sampleMatches: matchingIssues.slice(0, 10).map(issue => ({
         id: issue._id,
         title: issue.title,
         url: issue.url,
+        kind: getItemKind(issue),
         state: issue.state,
         labels: issue.labels,
         assignee: issue.assignee,
         lastActivity: issue.lastActivity,
-        daysSinceActivity: Math.floor((Date.now() - issue.lastActivity) / (24 * 60 * 60 * 1000)),
+        daysSinceActivity: calculateDaysSinceActivity(issue.lastActivity, now),
       })),
     };
   },
 });
 
-// Rule validation function
-function validateRuleConfiguration(rule: any): { isValid: boolean; errors: string[] } {
-  const errors: string[] = [];
-
-  // Validate name
-  if (!rule.name || rule.name.trim().length === 0) {
-    errors.push("Rule name is required");
-  } else if (rule.name.trim().length > 100) {
-    errors.push("Rule name must be 100 characters or less");
-  }
-
-  // Validate inactivity days
-  if (!validateInactivityDays(rule.inactivityDays)) {
-    errors.push("Inactivity days must be between 1 and 365");
-  }
-
-  // Validate issue states
-  if (!rule.issueStates || rule.issueStates.length === 0) {
-    errors.push("At least one issue state must be selected");
-  } else {
-    const validStates = ["open", "closed"];
-    const invalidStates = rule.issueStates.filter((state: string) => !validStates.includes(state));
-    if (invalidStates.length > 0) {
-      errors.push(`Invalid issue states: ${invalidStates.join(", ")}`);
-    }
-  }
-
-  // Validate labels (optional, but if provided should be valid)
-  if (rule.labels && Array.isArray(rule.labels)) {
-    const invalidLabels = rule.labels.filter((label: string) => 
-      typeof label !== "string" || label.trim().length === 0
-    );
-    if (invalidLabels.length > 0) {
-      errors.push("All labels must be non-empty strings");
-    }
-  }
-
-  // Validate assignee condition
-  if (!rule.assigneeCondition) {
-    errors.push("Assignee condition is required");
-  } else {
-    const validConditions = ["any", "assigned", "unassigned"];
-    if (!validConditions.includes(rule.assigneeCondition) && !Array.isArray(rule.assigneeCondition)) {
-      errors.push("Invalid assignee condition");
-    } else if (Array.isArray(rule.assigneeCondition)) {
-      const invalidUsers = rule.assigneeCondition.filter((user: string) => 
-        typeof user !== "string" || user.trim().length === 0
-      );
-      if (invalidUsers.length > 0) {
-        errors.push("All specific assignee usernames must be non-empty strings");
-      }
-    }
-  }
-
-  return {
-    isValid: errors.length === 0,
-    errors,
-  };
-}
-
-
-
 // Toggle rule active status
 export const toggleRuleStatus = mutation({
   args: { 
@@ -433,10 +468,15 @@ export const toggleRuleStatus = mutation({
 
     // Get existing rule
     const existingRule = await ctx.db.get(args.ruleId);
-    if (!existingRule || existingRule.userId !== user._id) {
+    if (!existingRule || !(await hasRulePermission(ctx, user._id, existingRule, "manage"))) {
       throw new Error("Rule not found or access denied");
     }
 
+    // Rules synced from .github/stalebot.yml are edited in the repository
+    if (existingRule.source === "config") {
+      throw new Error(`Rule is managed by ${STALEBOT_CONFIG_PATH} and is read-only`);
+    }
+
     // Update rule status
     await ctx.db.patch(args.ruleId, {
       isActive: args.isActive,
@@ -468,7 +508,7 @@ export const duplicateRule = mutation({
 
     // Get existing rule
     const existingRule = await ctx.db.get(args.ruleId);
-    if (!existingRule || existingRule.userId !== user._id) {
+    if (!existingRule || !(await hasRulePermission(ctx, user._id, existingRule, "manage"))) {
       throw new Error("Rule not found or access denied");
     }
 
@@ -488,6 +528,13 @@ export const duplicateRule = mutation({
       labels: existingRule.labels,
       issueStates: existingRule.issueStates,
       assigneeCondition: existingRule.assigneeCondition,
+      exemptLabels: existingRule.exemptLabels,
+      exemptMilestones: existingRule.exemptMilestones,
+      exemptLinkedPullRequests: existingRule.exemptLinkedPullRequests,
+      exemptIssueNumbers: existingRule.exemptIssueNumbers,
+      condition: existingRule.condition,
+      itemKind: existingRule.itemKind,
+      pullRequestCriteria: existingRule.pullRequestCriteria,
       isActive: false, // Start duplicated rules as inactive
       createdAt: now,
       updatedAt: now,
@@ -524,7 +571,7 @@ export const evaluateRepositoryForStaleIssues = mutation({
 
     // Validate repository belongs to user
     const repository = await ctx.db.get(args.repositoryId);
-    if (!repository || repository.userId !== user._id) {
+    if (!repository || !(await hasRepositoryPermission(ctx, user._id, repository, "manage"))) {
       throw new Error("Repository not found or access denied");
     }
 
@@ -554,16 +601,23 @@ export const evaluateRepositoryForStaleIssues = mutation({
     let staleCount = 0;
 
     // Evaluate each issue against all rules
+    const now = Date.now();
     for (const issue of issues) {
       const wasStale = issue.isStale;
-      const isNowStale = evaluateIssueAgainstMultipleRules(issue, rules);
+      const evaluation = evaluateIssue(issue, rules, now);
+      const isNowStale = evaluation.isStale;
+      const staleEvaluation = toStaleEvaluation(evaluation, now);
 
-      // Update issue if staleness status changed
-      if (wasStale !== isNowStale) {
+      // Update issue if staleness status or its explanation changed
+      if (wasStale !== isNowStale || hasStaleEvaluationChanged(issue.staleEvaluation, staleEvaluation)) {
         await ctx.db.patch(issue._id, {
           isStale: isNowStale,
-          updatedAt: Date.now(),
+          staleEvaluation,
+          updatedAt: now,
         });
+      }
+      if (wasStale !== isNowStale) {
+        await recordStaleTransition(ctx, repository, { wasStale, isStale: isNowStale, state: issue.state }, now);
         updatedIssues.push(issue._id);
       }
 
@@ -602,7 +656,7 @@ export const getStaleIssuesForRepository = query({
 
     // Validate repository belongs to user
     const repository = await ctx.db.get(args.repositoryId);
-    if (!repository || repository.userId !== user._id) {
+    if (!repository || !(await hasRepositoryPermission(ctx, user._id, repository, "view"))) {
       throw new Error("Repository not found or access denied");
     }
 
@@ -615,10 +669,12 @@ export const getStaleIssuesForRepository = query({
       .collect();
 
     // Add calculated inactivity information
+    const now = Date.now();
     const staleIssuesWithInactivity = staleIssues.map(issue => ({
       ...issue,
-      daysSinceActivity: calculateDaysSinceActivity(issue.lastActivity),
-      inactivityPeriod: formatInactivityPeriod(issue.lastActivity),
+      daysSinceActivity: calculateDaysSinceActivity(issue.lastActivity, now),
+      inactivityPeriod: formatInactivityPeriod(issue.lastActivity, now),
+      staleReasons: getStaleReasons(issue),
     }));
 
     return staleIssuesWithInactivity;
@@ -629,29 +685,15 @@ export const getStaleIssuesForRepository = query({
 export const getAllStaleIssuesForUser = query({
   args: {},
   handler: async (ctx) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Not authenticated");
-    }
+    // Resolved from the auth session so the export endpoints can call this too
+    const user = await getAuthenticatedUser(ctx);
 
-    // Get user from database
-    const user = await ctx.db
-      .query("users")
-      .withIndex("by_github_id", (q) => q.eq("githubId", identity.subject))
-      .first();
-    
-    if (!user) {
-      throw new Error("User not found");
-    }
-
-    // Get all user's repositories
-    const repositories = await ctx.db
-      .query("repositories")
-      .withIndex("by_user", (q) => q.eq("userId", user._id))
-      .filter((q) => q.eq(q.field("isActive"), true))
-      .collect();
+    // Get all repositories the user can see
+    const repositories = (await getAccessibleRepositories(ctx, user._id))
+      .filter(repository => repository.isActive);
 
     const allStaleIssues = [];
+    const now = Date.now();
 
     // Get stale issues for each repository
     for (const repository of repositories) {
@@ -667,8 +709,9 @@ export const getAllStaleIssuesForUser = query({
         ...issue,
         repositoryName: repository.name,
         repositoryFullName: repository.fullName,
-        daysSinceActivity: calculateDaysSinceActivity(issue.lastActivity),
-        inactivityPeriod: formatInactivityPeriod(issue.lastActivity),
+        daysSinceActivity: calculateDaysSinceActivity(issue.lastActivity, now),
+        inactivityPeriod: formatInactivityPeriod(issue.lastActivity, now),
+        staleReasons: getStaleReasons(issue),
       }));
 
       allStaleIssues.push(...issuesWithRepoInfo);
@@ -681,6 +724,67 @@ export const getAllStaleIssuesForUser = query({
   },
 });
 
+// Explain why an issue is (or isn't) stale, from the breakdown stored at its last evaluation
+export const getIssueStaleExplanation = query({
+  args: { issueId: v.id("issues") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Not authenticated");
+    }
+
+    // Get user from database
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_github_id", (q) => q.eq("githubId", identity.subject))
+      .first();
+
+    if (!user) {
+      throw new Error("User not found");
+    }
+
+    const issue = await ctx.db.get(args.issueId);
+    if (!issue) {
+      throw new Error("Issue not found");
+    }
+
+    // Validate the issue's repository belongs to user
+    const repository = await ctx.db.get(issue.repositoryId);
+    if (!repository || !(await hasRepositoryPermission(ctx, user._id, repository, "view"))) {
+      throw new Error("Repository not found or access denied");
+    }
+
+    const now = Date.now();
+    const evaluation = issue.staleEvaluation;
+
+    return {
+      issue: {
+        id: issue._id,
+        githubIssueId: issue.githubIssueId,
+        title: issue.title,
+        url: issue.url,
+        kind: getItemKind(issue),
+        state: issue.state,
+        isStale: issue.isStale,
+        lastActivity: issue.lastActivity,
+        daysSinceActivity: calculateDaysSinceActivity(issue.lastActivity, now),
+        inactivityPeriod: formatInactivityPeriod(issue.lastActivity, now),
+        snooze: issue.snooze ?? null,
+        neverStale: issue.neverStale ?? false,
+        snoozeReason: getSnoozeReason(issue, now),
+      },
+      repository: {
+        id: repository._id,
+        fullName: repository.fullName,
+      },
+      // Issues not evaluated since explanations were stored have no breakdown yet
+      evaluatedAt: evaluation?.evaluatedAt ?? null,
+      matchedRules: evaluation ? evaluation.rules.filter(rule => rule.matched) : [],
+      rules: evaluation?.rules ?? [],
+    };
+  },
+});
+
 // Batch evaluate multiple repositories for stale issues
 export const batchEvaluateRepositories = mutation({
   args: { repositoryIds: v.array(v.id("repositories")) },
@@ -707,7 +811,7 @@ export const batchEvaluateRepositories = mutation({
       try {
         // Validate repository belongs to user
         const repository = await ctx.db.get(repositoryId);
-        if (!repository || repository.userId !== user._id) {
+        if (!repository || !(await hasRepositoryPermission(ctx, user._id, repository, "manage"))) {
           results.push({
             repositoryId,
             success: false,
@@ -717,7 +821,7 @@ export const batchEvaluateRepositories = mutation({
         }
 
         // Evaluate repository
-        const result = await evaluateRepositoryForStaleIssuesInternal(ctx, repositoryId);
+        const result = await evaluateRepositoryForStaleIssuesInternal(ctx, repository);
         results.push({
           repositoryId,
           success: true,
@@ -737,7 +841,9 @@ export const batchEvaluateRepositories = mutation({
 });
 
 // Internal helper function for repository evaluation
-async function evaluateRepositoryForStaleIssuesInternal(ctx: MutationCtx, repositoryId: string) {
+async function evaluateRepositoryForStaleIssuesInternal(ctx: MutationCtx, repository: Doc<"repositories">) {
+  const repositoryId = repository._id;
+
   // Get all active rules for the repository
   const rules = await ctx.db
     .query("rules")
@@ -764,16 +870,23 @@ async function evaluateRepositoryForStaleIssuesInternal(ctx: MutationCtx, reposi
   let staleCount = 0;
 
   // Evaluate each issue against all rules
+  const now = Date.now();
   for (const issue of issues) {
     const wasStale = issue.isStale;
-    const isNowStale = evaluateIssueAgainstMultipleRules(issue, rules);
+    const evaluation = evaluateIssue(issue, rules, now);
+    const isNowStale = evaluation.isStale;
+    const staleEvaluation = toStaleEvaluation(evaluation, now);
 
-    // Update issue if staleness status changed
-    if (wasStale !== isNowStale) {
+    // Update issue if staleness status or its explanation changed
+    if (wasStale !== isNowStale || hasStaleEvaluationChanged(issue.staleEvaluation, staleEvaluation)) {
       await ctx.db.patch(issue._id, {
         isStale: isNowStale,
-        updatedAt: Date.now(),
+        staleEvaluation,
+        updatedAt: now,
       });
+    }
+    if (wasStale !== isNowStale) {
+      await recordStaleTransition(ctx, repository, { wasStale, isStale: isNowStale, state: issue.state }, now);
       updatedIssues.push(issue._id);
     }
 
@@ -790,90 +903,34 @@ async function evaluateRepositoryForStaleIssuesInternal(ctx: MutationCtx, reposi
   };
 }
 
-// Enhanced rule evaluation function that handles multiple rules
-function evaluateIssueAgainstMultipleRules(issue: any, rules: any[]): boolean {
-  // An issue is considered stale if it matches ANY of the active rules
-  return rules.some(rule => evaluateIssueAgainstRule(issue, rule));
+// Utility function to list the summaries of the rules an issue matched at its last evaluation
+function getStaleReasons(issue: Doc<"issues">): string[] {
+  return issue.staleEvaluation?.rules.filter(rule => rule.matched).map(rule => rule.summary) ?? [];
 }
 
-// Enhanced single rule evaluation with better logic
-function evaluateIssueAgainstRule(issue: any, rule: any): boolean {
-  // Check inactivity period
-  const daysSinceActivity = calculateDaysSinceActivity(issue.lastActivity);
-  if (daysSinceActivity < rule.inactivityDays) {
-    return false;
-  }
+// Utility function to list issues saved from a rule by an exemption, with the reason
+function findExemptedIssues(issues: Doc<"issues">[], rules: any[], now: number) {
+  const exempted = [];
 
-  // Check issue state
-  if (!rule.issueStates.includes(issue.state)) {
-    return false;
-  }
-
-  // Check labels (if rule specifies labels, issue must have at least one matching label)
-  if (rule.labels && rule.labels.length > 0) {
-    const hasMatchingLabel = rule.labels.some((ruleLabel: string) =>
-      issue.labels.some((issueLabel: string) => 
-        issueLabel.toLowerCase() === ruleLabel.toLowerCase()
-      )
-    );
-    if (!hasMatchingLabel) {
-      return false;
-    }
-  }
-
-  // Check assignee condition
-  switch (rule.assigneeCondition) {
-    case "any":
-      // No assignee filtering
-      break;
-    case "assigned":
-      if (!issue.assignee) {
-        return false;
-      }
-      break;
-    case "unassigned":
-      if (issue.assignee) {
-        return false;
-      }
-      break;
-    default:
-      // Specific users array
-      if (Array.isArray(rule.assigneeCondition)) {
-        if (!issue.assignee || !rule.assigneeCondition.includes(issue.assignee)) {
-          return false;
-        }
+  for (const issue of issues) {
+    for (const rule of rules) {
+      const exemption = getRuleExemption(issue, rule);
+      if (exemption && matchesRule(issue, withoutExemptions(rule), now)) {
+        exempted.push({
+          id: issue._id,
+          githubIssueId: issue.githubIssueId,
+          title: issue.title,
+          url: issue.url,
+          ruleName: rule.name as string,
+          exemptionType: exemption.type,
+          reason: exemption.reason,
+        });
+        break;
       }
-      break;
+    }
   }
 
-  return true;
-}
-
-// Utility function to calculate days since last activity
-function calculateDaysSinceActivity(lastActivity: number): number {
-  return Math.floor((Date.now() - lastActivity) / (24 * 60 * 60 * 1000));
-}
-
-// Utility function to format inactivity period in human-readable format
-function formatInactivityPeriod(lastActivity: number): string {
-  const days = calculateDaysSinceActivity(lastActivity);
-  
-  if (days === 0) {
-    return "Today";
-  } else if (days === 1) {
-    return "1 day ago";
-  } else if (days < 7) {
-    return `${days} days ago`;
-  } else if (days < 30) {
-    const weeks = Math.floor(days / 7);
-    return weeks === 1 ? "1 week ago" : `${weeks} weeks ago`;
-  } else if (days < 365) {
-    const months = Math.floor(days / 30);
-    return months === 1 ? "1 month ago" : `${months} months ago`;
-  } else {
-    const years = Math.floor(days / 365);
-    return years === 1 ? "1 year ago" : `${years} years ago`;
-  }
+  return exempted;
 }
 
 // Get detailed stale issue analysis for a repository
@@ -897,7 +954,7 @@ export const getStaleIssueAnalysis = query({
 
     // Validate repository belongs to user
     const repository = await ctx.db.get(args.repositoryId);
-    if (!repository || repository.userId !== user._id) {
+    if (!repository || !(await hasRepositoryPermission(ctx, user._id, repository, "view"))) {
       throw new Error("Repository not found or access denied");
     }
 
@@ -927,8 +984,9 @@ export const getStaleIssueAnalysis = query({
       "6+ months": 0,
     };
 
+    const now = Date.now();
     staleIssues.forEach(issue => {
-      const days = calculateDaysSinceActivity(issue.lastActivity);
+      const days = calculateDaysSinceActivity(issue.lastActivity, now);
       if (days <= 7) {
         stalenessBuckets["1-7 days"]++;
       } else if (days <= 30) {
@@ -976,17 +1034,32 @@ export const getStaleIssueAnalysis = query({
       }
     });
 
+    // Analyze exemptions that kept otherwise matching issues from going stale
+    const exemptedIssues = findExemptedIssues(activeIssues, rules, now);
+    const exemptionAnalysis: Record<ExemptionType, number> = {
+      label: 0,
+      milestone: 0,
+      linked_pull_request: 0,
+      issue_number: 0,
+    };
+    exemptedIssues.forEach(exempted => {
+      exemptionAnalysis[exempted.exemptionType]++;
+    });
+
     return {
       summary: {
         totalIssues: issues.length,
         staleIssues: staleIssues.length,
         activeIssues: activeIssues.length,
+        exemptedIssues: exemptedIssues.length,
         stalePercentage: issues.length > 0 ? Math.round((staleIssues.length / issues.length) * 100) : 0,
         activeRules: rules.length,
       },
       stalenessBuckets,
       labelAnalysis,
       assigneeAnalysis,
+      exemptionAnalysis,
+      exemptedIssues,
       oldestStaleIssue: staleIssues.length > 0 
         ? staleIssues.reduce((oldest, issue) => 
             issue.lastActivity < oldest.lastActivity ? issue : oldest
@@ -28,12 +28,40 @@ export default defineSchema({
       bounceCount: v.optional(v.number()), // track email bounces
       lastBounceAt: v.optional(v.number()), // timestamp of last bounce
     }),
+    slackWebhookUrl: v.optional(v.string()), // encrypted Slack incoming-webhook URL
+    // Rate limit last observed for the user's OAuth token
+    rateLimit: v.optional(v.object({
+      limit: v.number(),
+      remaining: v.number(),
+      resetAt: v.number(),
+      updatedAt: v.number(),
+    })),
     createdAt: v.number(),
     lastActive: v.number(),
   })
     .index("by_github_id", ["githubId"])
     .index("email", ["email"]),
 
+  // Team workspaces sharing repositories and their rules
+  workspaces: defineTable({
+    name: v.string(),
+    createdBy: v.id("users"),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }),
+
+  // Workspace membership and role; notifications opts the member in to stale issue emails
+  workspaceMembers: defineTable({
+    workspaceId: v.id("workspaces"),
+    userId: v.id("users"),
+    role: v.union(v.literal("owner"), v.literal("admin"), v.literal("viewer")),
+    notifications: v.boolean(),
+    createdAt: v.number(),
+  })
+    .index("by_workspace", ["workspaceId"])
+    .index("by_user", ["userId"])
+    .index("by_workspace_user", ["workspaceId", "userId"]),
+
   // Monitored repositories and their configurations
   repositories: defineTable({
     userId: v.id("users"),
@@ -44,11 +72,79 @@ export default defineSchema({
     rules: v.array(v.id("rules")),
     lastChecked: v.number(),
     lastIssueCount: v.number(),
+    slackWebhookUrl: v.optional(v.string()), // encrypted; overrides the user's Slack webhook
+    // Result of the last .github/stalebot.yml sync
+    configStatus: v.optional(v.object({
+      found: v.boolean(),
+      sha: v.optional(v.string()),
+      ruleCount: v.number(),
+      errors: v.array(v.string()),
+      checkedAt: v.number(),
+    })),
+    installationId: v.optional(v.number()), // GitHub App installation covering the repository
+    workspaceId: v.optional(v.id("workspaces")), // shared with a team; personal when absent
+    // Order in which scheduled checks spend the token's rate limit; normal when absent
+    priority: v.optional(v.union(v.literal("high"), v.literal("normal"), v.literal("low"))),
+    // Who besides the owner is emailed about newly stale issues; assignees only when absent
+    participantNotifications: v.optional(v.object({
+      assignees: v.boolean(),
+      authors: v.boolean(), // asked whether their issue is still relevant
+    })),
+    // What counts as activity on the repository's issues; bots and bookkeeping are ignored when absent
+    activitySettings: v.optional(v.object({
+      ignoreBots: v.boolean(),
+      ignoredLogins: v.array(v.string()), // lowercased
+      ignoreLabelChanges: v.boolean(),
+      ignoreAssigneeChanges: v.boolean(),
+      maintainerCommentsOnly: v.boolean(),
+    })),
+    // Progress of the GraphQL issue sync
+    issueSync: v.optional(v.object({
+      syncedThrough: v.optional(v.number()), // start of the last complete sync
+      // Where an unfinished sync continues
+      resume: v.optional(v.object({
+        phase: v.union(v.literal("issues"), v.literal("pull_requests")),
+        cursor: v.optional(v.string()),
+        since: v.optional(v.number()),
+        startedAt: v.number(),
+      })),
+    })),
     createdAt: v.number(),
   })
     .index("by_user", ["userId"])
+    .index("by_workspace", ["workspaceId"])
     .index("by_github_id", ["githubId"])
-    .index("by_active", ["isActive"]),
+    .index("by_active", ["isActive"])
+    .index("by_installation", ["installationId"]),
+
+  // GitHub App installations, their cached access token and rate limit
+  githubInstallations: defineTable({
+    installationId: v.number(),
+    accountLogin: v.string(),
+    accountType: v.union(v.literal("User"), v.literal("Organization")),
+    token: v.optional(v.string()), // encrypted installation access token
+    tokenExpiresAt: v.optional(v.number()),
+    rateLimit: v.optional(v.object({
+      limit: v.number(),
+      remaining: v.number(),
+      resetAt: v.number(),
+      updatedAt: v.number(),
+    })),
+    suspendedAt: v.optional(v.number()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_installation_id", ["installationId"]),
+
+  // ETag and Last-Modified of GitHub responses, sent back so unchanged endpoints answer 304
+  githubResponseValidators: defineTable({
+    repositoryId: v.id("repositories"),
+    endpoint: v.string(),
+    etag: v.optional(v.string()),
+    lastModified: v.optional(v.string()),
+    updatedAt: v.number(),
+  })
+    .index("by_repository_endpoint", ["repositoryId", "endpoint"]),
 
   // Stale detection rules with flexible criteria
   rules: defineTable({
@@ -64,6 +160,29 @@ export default defineSchema({
       v.literal("unassigned"),
       v.array(v.string()) // specific users
     ),
+    exemptLabels: v.optional(v.array(v.string())), // issues with any of these labels are never stale
+    exemptMilestones: v.optional(v.union(v.literal("any"), v.array(v.string()))), // "any" or milestone titles
+    exemptLinkedPullRequests: v.optional(v.boolean()), // exempt issues referenced by an open pull request
+    exemptIssueNumbers: v.optional(v.array(v.number())), // issues that are never stale
+    condition: v.optional(v.string()), // rule expression AND-ed with the other criteria
+    itemKind: v.optional(v.union(v.literal("any"), v.literal("issue"), v.literal("pull_request"))), // defaults to "any"
+    // Pull request state required to match; only used when itemKind is "pull_request"
+    pullRequestCriteria: v.optional(v.object({
+      draft: v.optional(v.boolean()),
+      reviewRequested: v.optional(v.boolean()),
+      checksFailing: v.optional(v.boolean()),
+      hasConflicts: v.optional(v.boolean()),
+    })),
+    // Optional GitHub actions applied when this rule marks an issue stale
+    actionPolicy: v.optional(v.object({
+      postComment: v.boolean(),
+      commentMessage: v.optional(v.string()),
+      addLabel: v.boolean(),
+      staleLabel: v.optional(v.string()), // defaults to "stale"
+      closeIssue: v.boolean(),
+      daysUntilClose: v.optional(v.number()), // grace period after being marked stale
+    })),
+    source: v.optional(v.literal("config")), // "config" when managed by .github/stalebot.yml
     isActive: v.boolean(),
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -80,9 +199,85 @@ export default defineSchema({
     state: v.union(v.literal("open"), v.literal("closed")),
     labels: v.array(v.string()),
     assignee: v.optional(v.string()),
+    author: v.optional(v.string()), // GitHub login of whoever opened the issue
+    kind: v.optional(v.union(v.literal("issue"), v.literal("pull_request"))), // missing means issue
+    // Pull request state; unset fields have not been fetched yet
+    pullRequest: v.optional(v.object({
+      draft: v.boolean(),
+      reviewRequested: v.optional(v.boolean()),
+      checksFailing: v.optional(v.boolean()),
+      hasConflicts: v.optional(v.boolean()),
+    })),
+    milestone: v.optional(v.string()), // milestone title
+    linkedPullRequests: v.optional(v.array(v.number())), // open pull requests referencing the issue
+    commentCount: v.optional(v.number()),
+    lastHumanCommentAt: v.optional(v.number()), // known once synced through GraphQL
+    reactionCount: v.optional(v.number()),
+    // Recent activity from the GraphQL sync, replayed when the repository's activity settings change
+    activityTimeline: v.optional(v.array(v.object({
+      type: v.union(
+        v.literal("opened"),
+        v.literal("comment"),
+        v.literal("closed"),
+        v.literal("reopened"),
+        v.literal("renamed"),
+        v.literal("referenced"),
+        v.literal("labeled"),
+        v.literal("unlabeled"),
+        v.literal("assigned"),
+        v.literal("unassigned"),
+        v.literal("review"),
+        v.literal("commit")
+      ),
+      at: v.number(),
+      actor: v.optional(v.string()),
+      bot: v.optional(v.boolean()),
+      maintainer: v.optional(v.boolean()),
+    }))),
     lastActivity: v.number(),
     isStale: v.boolean(),
     lastNotified: v.optional(v.number()),
+    // Stale actions already applied on GitHub, used to keep them idempotent
+    staleActions: v.optional(v.object({
+      ruleId: v.id("rules"),
+      markedAt: v.number(),
+      commentId: v.optional(v.number()),
+      commentedAt: v.optional(v.number()),
+      labelName: v.optional(v.string()),
+      labeledAt: v.optional(v.number()),
+      closedAt: v.optional(v.number()),
+      lastActionAt: v.number(),
+    })),
+    // Maintainer overrides that keep a quiet issue from going stale
+    snooze: v.optional(v.union(
+      v.object({ type: v.literal("until_date"), until: v.number(), snoozedAt: v.number() }),
+      v.object({ type: v.literal("until_activity"), lastActivity: v.number(), snoozedAt: v.number() })
+    )),
+    neverStale: v.optional(v.boolean()),
+    // Per-rule breakdown from the last evaluation, explaining why the issue is or isn't stale
+    staleEvaluation: v.optional(v.object({
+      evaluatedAt: v.number(),
+      rules: v.array(v.object({
+        ruleId: v.id("rules"),
+        ruleName: v.string(),
+        matched: v.boolean(),
+        summary: v.string(),
+        criteria: v.array(v.object({
+          criterion: v.union(
+            v.literal("inactivity"),
+            v.literal("state"),
+            v.literal("item_kind"),
+            v.literal("labels"),
+            v.literal("exemption"),
+            v.literal("snooze"),
+            v.literal("condition"),
+            v.literal("assignee")
+          ),
+          passed: v.boolean(),
+          reason: v.string(),
+        })),
+      })),
+    })),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
@@ -95,7 +290,8 @@ export default defineSchema({
     userId: v.id("users"),
     repositoryId: v.id("repositories"),
     issueIds: v.array(v.id("issues")),
-    emailId: v.string(), // from Resend
+    channel: v.optional(v.union(v.literal("email"), v.literal("slack"))), // defaults to email
+    emailId: v.string(), // from Resend, or a delivery id for other channels
     status: v.union(
       v.literal("pending"),
       v.literal("sent"),
@@ -105,7 +301,134 @@ export default defineSchema({
     ),
     sentAt: v.number(),
     deliveredAt: v.optional(v.number()),
+    // Why the recipient was emailed; the repository owner's summary when absent
+    recipientRole: v.optional(v.union(v.literal("owner"), v.literal("assignee"), v.literal("author"))),
+    // Set when the recipient has no StaleBot account; userId is then the repository owner
+    contactId: v.optional(v.id("githubContacts")),
   })
     .index("by_user", ["userId"])
     .index("by_status", ["status"]),
+
+  // Email addresses of GitHub users without a StaleBot account, resolved for assignee and author emails
+  githubContacts: defineTable({
+    login: v.string(),
+    email: v.optional(v.string()), // absent when GitHub exposes none
+    emailSource: v.optional(v.union(v.literal("public"), v.literal("commit"))),
+    resolvedAt: v.number(),
+    unsubscribeToken: v.string(),
+    unsubscribedAt: v.optional(v.number()),
+  })
+    .index("by_login", ["login"])
+    .index("by_unsubscribe_token", ["unsubscribeToken"]),
+
+  // Verified webhook message ids, kept briefly to reject replays
+  webhookMessages: defineTable({
+    provider: v.string(), // e.g. "resend"
+    messageId: v.string(),
+    receivedAt: v.number(),
+  })
+    .index("by_provider_message", ["provider", "messageId"])
+    .index("by_received_at", ["receivedAt"]),
+
+  // Nonces of one-click issue action links that were already used
+  usedIssueActionLinks: defineTable({
+    nonce: v.string(),
+    issueId: v.id("issues"),
+    usedAt: v.number(),
+    expiresAt: v.number(), // once past, the link is rejected as expired anyway
+  })
+    .index("by_nonce", ["nonce"])
+    .index("by_expires_at", ["expiresAt"]),
+
+  // User-configured outbound webhooks for stale-issue events
+  webhookEndpoints: defineTable({
+    userId: v.id("users"),
+    repositoryId: v.optional(v.id("repositories")), // limit to one repository; all when absent
+    url: v.string(),
+    secret: v.string(), // encrypted signing secret
+    events: v.array(v.union(
+      v.literal("issue.became_stale"),
+      v.literal("issue.unstaled"),
+      v.literal("notification.failed"),
+      v.literal("repository.deactivated")
+    )),
+    description: v.optional(v.string()),
+    isActive: v.boolean(),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_user", ["userId"]),
+
+  // Delivery log for outbound webhooks
+  webhookDeliveries: defineTable({
+    endpointId: v.id("webhookEndpoints"),
+    userId: v.id("users"),
+    event: v.union(
+      v.literal("issue.became_stale"),
+      v.literal("issue.unstaled"),
+      v.literal("notification.failed"),
+      v.literal("repository.deactivated")
+    ),
+    payload: v.string(), // JSON body, signed afresh on each attempt
+    status: v.union(v.literal("pending"), v.literal("succeeded"), v.literal("failed")),
+    attempts: v.number(),
+    responseStatus: v.optional(v.number()),
+    lastError: v.optional(v.string()),
+    nextAttemptAt: v.optional(v.number()),
+    createdAt: v.number(),
+    completedAt: v.optional(v.number()),
+  })
+    .index("by_endpoint", ["endpointId"])
+    .index("by_created_at", ["createdAt"]),
+
+  // Repository processing and system errors
+  errors: defineTable({
+    type: v.string(), // e.g. "authentication", "rate_limit", "github_api"
+    severity: v.union(
+      v.literal("low"),
+      v.literal("medium"),
+      v.literal("high"),
+      v.literal("critical")
+    ),
+    message: v.string(),
+    operation: v.optional(v.string()),
+    repositoryId: v.optional(v.id("repositories")),
+    userId: v.optional(v.id("users")),
+    details: v.optional(v.any()),
+    retryCount: v.number(), // Repeat occurrences folded into this record
+    resolved: v.boolean(),
+    resolvedAt: v.optional(v.number()),
+    resolvedBy: v.optional(v.id("users")),
+    createdAt: v.number(),
+    lastOccurredAt: v.number(),
+  })
+    .index("by_repository", ["repositoryId", "resolved"])
+    .index("by_user", ["userId"])
+    .index("by_last_occurred", ["lastOccurredAt"]),
+
+  // Daily staleness snapshot per repository, charted on the dashboard
+  repositorySnapshots: defineTable({
+    repositoryId: v.id("repositories"),
+    userId: v.id("users"),
+    date: v.string(), // UTC day, YYYY-MM-DD
+    // Stale transitions, counted as they happen during the day
+    newlyStale: v.number(),
+    revived: v.number(),
+    closedWhileStale: v.number(),
+    // Totals, unset until the daily capture runs
+    openIssues: v.optional(v.number()),
+    staleIssues: v.optional(v.number()),
+    buckets: v.optional(v.object({
+      underOneWeek: v.number(),
+      oneToFourWeeks: v.number(),
+      oneToThreeMonths: v.number(),
+      threeToSixMonths: v.number(),
+      overSixMonths: v.number(),
+    })),
+    capturedAt: v.optional(v.number()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_repository_date", ["repositoryId", "date"])
+    .index("by_user_date", ["userId", "date"]),
 });
\ No newline at end of file
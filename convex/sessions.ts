@@ -1,6 +1,7 @@
 import { query, mutation } from "./_generated/server";
 import { getAuthUserId } from "@convex-dev/auth/server";
 import { v } from "convex/values";
+import { encryptToken } from "./lib/encryption";
 
 /**
  * Check if user is authenticated and return session info
@@ -168,8 +169,8 @@ export const initializeSession = mutation({
         email: githubUserData.email || existingUser.email,
         name: githubUserData.name || existingUser.name,
         avatarUrl: githubUserData.avatar_url || existingUser.avatarUrl,
-        accessToken: `encrypted:${accessToken}`,
-        refreshToken: refreshToken ? `encrypted:${refreshToken}` : existingUser.refreshToken,
+        accessToken: await encryptToken(accessToken),
+        refreshToken: refreshToken ? await encryptToken(refreshToken) : existingUser.refreshToken,
         lastActive: Date.now(),
       });
 
@@ -186,8 +187,8 @@ export const initializeSession = mutation({
       email: githubUserData.email || "",
       name: githubUserData.name || "",
       avatarUrl: githubUserData.avatar_url || "",
-      accessToken: `encrypted:${accessToken}`,
-      refreshToken: refreshToken ? `encrypted:${refreshToken}` : "",
+      accessToken: await encryptToken(accessToken),
+      refreshToken: refreshToken ? await encryptToken(refreshToken) : "",
       repositories: [],
       notificationPreferences: {
         emailFrequency: "immediate",
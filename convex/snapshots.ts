@@ -0,0 +1,159 @@
+import { internalMutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import { checkRepositoryOwnership, getAccessibleRepositories, getCurrentUser } from "./lib/auth_helpers";
+import {
+  SnapshotRecord,
+  buildStalenessTrend,
+  classifyStaleTransition,
+  countStalenessBuckets,
+  getRangeStartDate,
+  getSnapshotDate,
+} from "./lib/snapshots";
+
+const trendRangeValidator = v.union(v.literal(30), v.literal(90), v.literal(365));
+
+/**
+ * Get today's snapshot row for a repository, creating it when missing
+ */
+async function getOrCreateSnapshot(
+  ctx: any,
+  repository: Doc<"repositories">,
+  now: number
+): Promise<Doc<"repositorySnapshots">> {
+  const date = getSnapshotDate(now);
+  const existing: Doc<"repositorySnapshots"> | null = await ctx.db
+    .query("repositorySnapshots")
+    .withIndex("by_repository_date", (q: any) => q.eq("repositoryId", repository._id).eq("date", date))
+    .first();
+  if (existing) {
+    return existing;
+  }
+
+  const snapshotId: Id<"repositorySnapshots"> = await ctx.db.insert("repositorySnapshots", {
+    repositoryId: repository._id,
+    userId: repository.userId,
+    date,
+    newlyStale: 0,
+    revived: 0,
+    closedWhileStale: 0,
+    createdAt: now,
+    updatedAt: now,
+  });
+  return (await ctx.db.get(snapshotId))!;
+}
+
+/**
+ * Count a change of an issue's stale flag in today's snapshot
+ */
+export async function recordStaleTransition(
+  ctx: any,
+  repository: Doc<"repositories">,
+  transition: { wasStale: boolean; isStale: boolean; state: "open" | "closed" },
+  now: number = Date.now()
+): Promise<void> {
+  const kind = classifyStaleTransition(transition.wasStale, transition.isStale, transition.state);
+  if (!kind) {
+    return;
+  }
+
+  const snapshot = await getOrCreateSnapshot(ctx, repository, now);
+  await ctx.db.patch(snapshot._id, { [kind]: snapshot[kind] + 1, updatedAt: now });
+}
+
+/**
+ * Schedule today's snapshot capture for every active repository
+ */
+export const captureDailySnapshots = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const repositories = await ctx.db
+      .query("repositories")
+      .withIndex("by_active", (q) => q.eq("isActive", true))
+      .collect();
+
+    // One mutation per repository keeps each capture within transaction limits
+    for (const repository of repositories) {
+      await ctx.scheduler.runAfter(0, internal.snapshots.captureRepositorySnapshot, {
+        repositoryId: repository._id,
+      });
+    }
+
+    return { scheduled: repositories.length };
+  },
+});
+
+/**
+ * Record the open and stale totals and the staleness buckets of one repository for today
+ */
+export const captureRepositorySnapshot = internalMutation({
+  args: { repositoryId: v.id("repositories") },
+  handler: async (ctx, args) => {
+    const repository = await ctx.db.get(args.repositoryId);
+    if (!repository) {
+      return;
+    }
+
+    const issues = await ctx.db
+      .query("issues")
+      .withIndex("by_repository", (q) => q.eq("repositoryId", args.repositoryId))
+      .collect();
+    const openIssues = issues.filter(issue => issue.state === "open");
+
+    const now = Date.now();
+    const snapshot = await getOrCreateSnapshot(ctx, repository, now);
+    await ctx.db.patch(snapshot._id, {
+      openIssues: openIssues.length,
+      staleIssues: issues.filter(issue => issue.isStale).length,
+      buckets: countStalenessBuckets(openIssues, now),
+      capturedAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+// Daily staleness trend of one repository over the last 30, 90 or 365 days
+export const getRepositoryStalenessTrend = query({
+  args: {
+    repositoryId: v.id("repositories"),
+    range: trendRangeValidator,
+  },
+  handler: async (ctx, args) => {
+    await checkRepositoryOwnership(ctx, args.repositoryId, "view");
+
+    const startDate = getRangeStartDate(args.range, Date.now());
+    const snapshots = await ctx.db
+      .query("repositorySnapshots")
+      .withIndex("by_repository_date", (q) =>
+        q.eq("repositoryId", args.repositoryId).gte("date", startDate)
+      )
+      .collect();
+
+    return buildStalenessTrend(args.range, snapshots as SnapshotRecord[]);
+  },
+});
+
+// Daily staleness trend summed over all repositories the user can see
+export const getStalenessTrend = query({
+  args: { range: trendRangeValidator },
+  handler: async (ctx, args) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return null;
+    }
+
+    const startDate = getRangeStartDate(args.range, Date.now());
+    const snapshots: Doc<"repositorySnapshots">[] = [];
+    for (const repository of await getAccessibleRepositories(ctx, user._id)) {
+      snapshots.push(...await ctx.db
+        .query("repositorySnapshots")
+        .withIndex("by_repository_date", (q) =>
+          q.eq("repositoryId", repository._id).gte("date", startDate)
+        )
+        .collect());
+    }
+
+    return buildStalenessTrend(args.range, snapshots as SnapshotRecord[]);
+  },
+});
@@ -0,0 +1,145 @@
+import { internalMutation, internalQuery } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { v } from "convex/values";
+import { Doc } from "./_generated/dataModel";
+import {
+  getActiveKeyId,
+  getTokenKeyId,
+  isTokenEncrypted,
+  needsReencryption,
+  reencryptToken,
+} from "./lib/encryption";
+import { Logger } from "./lib/monitoring";
+
+const DEFAULT_BATCH_SIZE = 50;
+
+/**
+ * Re-encrypt legacy `encrypted:` and plaintext GitHub tokens with envelope encryption
+ * Runs in batches and reschedules itself until every user has been visited
+ */
+export const migrateLegacyTokens = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+    batchSize: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const result = await reencryptUserBatch(ctx, args.cursor ?? null, args.batchSize, (token) =>
+      !!token && !isTokenEncrypted(token)
+    );
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.tokenEncryption.migrateLegacyTokens, {
+        cursor: result.continueCursor,
+        batchSize: args.batchSize,
+      });
+    }
+
+    Logger.info("Legacy token migration batch complete", result);
+    return result;
+  },
+});
+
+/**
+ * Move every stored token to TOKEN_ENCRYPTION_ACTIVE_KEY_ID
+ * Keep the previous key in TOKEN_ENCRYPTION_KEYS until getTokenEncryptionStatus
+ * reports no tokens left under it
+ */
+export const rotateTokenKeys = internalMutation({
+  args: {
+    cursor: v.optional(v.union(v.string(), v.null())),
+    batchSize: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const result = await reencryptUserBatch(ctx, args.cursor ?? null, args.batchSize, needsReencryption);
+
+    if (!result.isDone) {
+      await ctx.scheduler.runAfter(0, internal.tokenEncryption.rotateTokenKeys, {
+        cursor: result.continueCursor,
+        batchSize: args.batchSize,
+      });
+    }
+
+    Logger.info("Token key rotation batch complete", { ...result, activeKeyId: getActiveKeyId() });
+    return result;
+  },
+});
+
+/**
+ * Count stored tokens per key id so rotations can be verified before retiring a key
+ */
+export const getTokenEncryptionStatus = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const users = await ctx.db.query("users").collect();
+    const byKeyId: Record<string, number> = {};
+    let legacy = 0;
+
+    for (const user of users) {
+      for (const token of [user.accessToken, user.refreshToken]) {
+        if (!token) {
+          continue;
+        }
+        const keyId = getTokenKeyId(token);
+        if (keyId) {
+          byKeyId[keyId] = (byKeyId[keyId] || 0) + 1;
+        } else {
+          legacy++;
+        }
+      }
+    }
+
+    return {
+      activeKeyId: getActiveKeyId(),
+      byKeyId,
+      legacy,
+      totalUsers: users.length,
+    };
+  },
+});
+
+/**
+ * Rewrite the tokens of one page of users that match the predicate
+ */
+async function reencryptUserBatch(
+  ctx: any,
+  cursor: string | null,
+  batchSize: number | undefined,
+  shouldRewrite: (token: string) => boolean
+): Promise<{ processed: number; updated: number; failed: number; isDone: boolean; continueCursor: string }> {
+  const page = await ctx.db
+    .query("users")
+    .paginate({ cursor, numItems: batchSize || DEFAULT_BATCH_SIZE });
+
+  let updated = 0;
+  let failed = 0;
+
+  for (const user of page.page as Doc<"users">[]) {
+    try {
+      const updates: Partial<Pick<Doc<"users">, "accessToken" | "refreshToken">> = {};
+
+      if (shouldRewrite(user.accessToken)) {
+        updates.accessToken = await reencryptToken(user.accessToken);
+      }
+      if (user.refreshToken && shouldRewrite(user.refreshToken)) {
+        updates.refreshToken = await reencryptToken(user.refreshToken);
+      }
+
+      if (Object.keys(updates).length > 0) {
+        await ctx.db.patch(user._id, updates);
+        updated++;
+      }
+    } catch (error) {
+      // Leave the row untouched; it stays readable with its current key
+      failed++;
+      Logger.error(`Failed to re-encrypt tokens for user ${user._id}`, error);
+    }
+  }
+
+  return {
+    processed: page.page.length,
+    updated,
+    failed,
+    isDone: page.isDone,
+    continueCursor: page.continueCursor,
+  };
+}
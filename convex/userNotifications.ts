@@ -31,6 +31,7 @@ export const getUserNotificationHistory = query({
         return {
           _id: notification._id,
           repositoryName: repository?.fullName || 'Unknown Repository',
+          channel: notification.channel || "email",
           status: notification.status,
           sentAt: notification.sentAt,
           deliveredAt: notification.deliveredAt,
@@ -1,6 +1,6 @@
 import { query } from "./_generated/server";
 import { v } from "convex/values";
-import { getCurrentUser } from "./lib/auth_helpers";
+import { getCurrentUser, hasRepositoryPermission } from "./lib/auth_helpers";
 
 /**
  * Get rules for a specific repository
@@ -13,9 +13,9 @@ export const getRulesForRepository = query({
       return [];
     }
 
-    // Validate repository belongs to user
+    // Validate the user can see the repository
     const repository = await ctx.db.get(args.repositoryId);
-    if (!repository || repository.userId !== user._id) {
+    if (!repository || !(await hasRepositoryPermission(ctx, user._id, repository, "view"))) {
       return [];
     }
 
@@ -33,8 +33,8 @@ export const createUserProfile = mutation({
         email: args.email,
         name: args.name || existingUser.name,
         avatarUrl: args.avatarUrl || existingUser.avatarUrl,
-        accessToken: encryptToken(args.accessToken),
-        refreshToken: args.refreshToken ? encryptToken(args.refreshToken) : existingUser.refreshToken,
+        accessToken: await encryptToken(args.accessToken),
+        refreshToken: args.refreshToken ? await encryptToken(args.refreshToken) : existingUser.refreshToken,
         lastActive: Date.now(),
       });
       return { userId: existingUser._id, isNew: false };
@@ -46,8 +46,8 @@ export const createUserProfile = mutation({
       email: args.email,
       name: args.name || "",
       avatarUrl: args.avatarUrl || "",
-      accessToken: encryptToken(args.accessToken),
-      refreshToken: args.refreshToken ? encryptToken(args.refreshToken) : "",
+      accessToken: await encryptToken(args.accessToken),
+      refreshToken: args.refreshToken ? await encryptToken(args.refreshToken) : "",
       repositories: [],
       notificationPreferences: {
         emailFrequency: "immediate",
@@ -263,7 +263,7 @@ export const getUserGitHubToken = query({
       return null;
     }
 
-    return decryptToken(user.accessToken);
+    return await decryptToken(user.accessToken);
   },
 });
 
@@ -282,12 +282,12 @@ export const updateGitHubTokens = mutation({
     }
 
     const updates: any = {
-      accessToken: encryptToken(args.accessToken),
+      accessToken: await encryptToken(args.accessToken),
       lastActive: Date.now(),
     };
 
     if (args.refreshToken) {
-      updates.refreshToken = encryptToken(args.refreshToken);
+      updates.refreshToken = await encryptToken(args.refreshToken);
     }
 
     await ctx.db.patch(userId, updates);
@@ -0,0 +1,281 @@
+import { internalQuery, mutation, query } from "./_generated/server";
+import { v } from "convex/values";
+import { Doc, Id } from "./_generated/dataModel";
+import {
+  checkRepositoryOwnership,
+  checkWorkspacePermission,
+  getAuthenticatedUser,
+  getCurrentUser,
+  hasRepositoryPermission,
+} from "./lib/auth_helpers";
+import { normalizeWorkspaceName, validateMembershipChange } from "./lib/workspaces";
+
+const roleValidator = v.union(v.literal("owner"), v.literal("admin"), v.literal("viewer"));
+
+const permissionValidator = v.union(v.literal("view"), v.literal("manage"), v.literal("manage_members"));
+
+async function getMembers(ctx: any, workspaceId: Id<"workspaces">): Promise<Doc<"workspaceMembers">[]> {
+  return await ctx.db
+    .query("workspaceMembers")
+    .withIndex("by_workspace", (q: any) => q.eq("workspaceId", workspaceId))
+    .collect();
+}
+
+/**
+ * Members of a repository's workspace who opted in to stale issue notifications,
+ * or the repository's owner for a personal repository
+ */
+export async function getNotificationRecipients(
+  ctx: any,
+  repository: Doc<"repositories">
+): Promise<Id<"users">[]> {
+  if (!repository.workspaceId) {
+    return [repository.userId];
+  }
+
+  const members = await getMembers(ctx, repository.workspaceId);
+  return members.filter(member => member.notifications).map(member => member.userId);
+}
+
+// Create a workspace owned by the current user
+export const createWorkspace = mutation({
+  args: { name: v.string() },
+  handler: async (ctx, args) => {
+    const user = await getAuthenticatedUser(ctx);
+    const now = Date.now();
+
+    const workspaceId = await ctx.db.insert("workspaces", {
+      name: normalizeWorkspaceName(args.name),
+      createdBy: user._id,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await ctx.db.insert("workspaceMembers", {
+      workspaceId,
+      userId: user._id,
+      role: "owner",
+      notifications: true,
+      createdAt: now,
+    });
+
+    return workspaceId;
+  },
+});
+
+// Rename a workspace
+export const renameWorkspace = mutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await checkWorkspacePermission(ctx, args.workspaceId, "manage_members");
+
+    await ctx.db.patch(args.workspaceId, {
+      name: normalizeWorkspaceName(args.name),
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+// Add a StaleBot user to a workspace by email
+export const addWorkspaceMember = mutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    email: v.string(),
+    role: roleValidator,
+  },
+  handler: async (ctx, args) => {
+    await checkWorkspacePermission(ctx, args.workspaceId, "manage_members");
+
+    const member = await ctx.db
+      .query("users")
+      .withIndex("email", (q) => q.eq("email", args.email.trim()))
+      .first();
+    if (!member) {
+      throw new Error("No StaleBot user with this email; they need to sign in once first");
+    }
+
+    const existing = await ctx.db
+      .query("workspaceMembers")
+      .withIndex("by_workspace_user", (q) => q.eq("workspaceId", args.workspaceId).eq("userId", member._id))
+      .first();
+    if (existing) {
+      throw new Error("User is already a member of this workspace");
+    }
+
+    const members = await getMembers(ctx, args.workspaceId);
+    const validation = validateMembershipChange(members.map(m => m.role), null, args.role);
+    if (validation.valid === false) {
+      throw new Error(validation.reason);
+    }
+
+    return await ctx.db.insert("workspaceMembers", {
+      workspaceId: args.workspaceId,
+      userId: member._id,
+      role: args.role,
+      notifications: true,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+// Change a member's role
+export const updateWorkspaceMemberRole = mutation({
+  args: {
+    memberId: v.id("workspaceMembers"),
+    role: roleValidator,
+  },
+  handler: async (ctx, args) => {
+    const member = await ctx.db.get(args.memberId);
+    if (!member) {
+      throw new Error("Workspace member not found");
+    }
+    await checkWorkspacePermission(ctx, member.workspaceId, "manage_members");
+
+    const members = await getMembers(ctx, member.workspaceId);
+    const validation = validateMembershipChange(members.map(m => m.role), member.role, args.role);
+    if (validation.valid === false) {
+      throw new Error(validation.reason);
+    }
+
+    await ctx.db.patch(args.memberId, { role: args.role });
+    return { success: true };
+  },
+});
+
+// Remove a member from a workspace; members may also leave on their own
+export const removeWorkspaceMember = mutation({
+  args: { memberId: v.id("workspaceMembers") },
+  handler: async (ctx, args) => {
+    const member = await ctx.db.get(args.memberId);
+    if (!member) {
+      throw new Error("Workspace member not found");
+    }
+
+    const user = await getAuthenticatedUser(ctx);
+    if (member.userId !== user._id) {
+      await checkWorkspacePermission(ctx, member.workspaceId, "manage_members");
+    }
+
+    const members = await getMembers(ctx, member.workspaceId);
+    const validation = validateMembershipChange(members.map(m => m.role), member.role, null);
+    if (validation.valid === false) {
+      throw new Error(validation.reason);
+    }
+
+    await ctx.db.delete(args.memberId);
+    return { success: true };
+  },
+});
+
+// Opt the current user in or out of a workspace's stale issue notifications
+export const setWorkspaceNotifications = mutation({
+  args: {
+    workspaceId: v.id("workspaces"),
+    enabled: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const user = await getAuthenticatedUser(ctx);
+
+    const membership = await ctx.db
+      .query("workspaceMembers")
+      .withIndex("by_workspace_user", (q) => q.eq("workspaceId", args.workspaceId).eq("userId", user._id))
+      .first();
+    if (!membership) {
+      throw new Error("You are not a member of this workspace");
+    }
+
+    await ctx.db.patch(membership._id, { notifications: args.enabled });
+    return { success: true };
+  },
+});
+
+// Share a repository with a workspace, or make it personal again when workspaceId is omitted
+export const moveRepositoryToWorkspace = mutation({
+  args: {
+    repositoryId: v.id("repositories"),
+    workspaceId: v.optional(v.id("workspaces")),
+  },
+  handler: async (ctx, args) => {
+    const { user, repository } = await checkRepositoryOwnership(ctx, args.repositoryId);
+
+    if (args.workspaceId) {
+      await checkWorkspacePermission(ctx, args.workspaceId, "manage");
+    } else if (repository.userId !== user._id) {
+      // Only the member who connected a repository can take it back out of the workspace
+      throw new Error("Only the user who connected this repository can make it personal");
+    }
+
+    await ctx.db.patch(args.repositoryId, { workspaceId: args.workspaceId });
+
+    return { success: true };
+  },
+});
+
+// Workspaces the current user belongs to, with their role
+export const getUserWorkspaces = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getCurrentUser(ctx);
+    if (!user) {
+      return [];
+    }
+
+    const memberships = await ctx.db
+      .query("workspaceMembers")
+      .withIndex("by_user", (q) => q.eq("userId", user._id))
+      .collect();
+
+    const workspaces = [];
+    for (const membership of memberships) {
+      const workspace = await ctx.db.get(membership.workspaceId);
+      if (workspace) {
+        workspaces.push({
+          ...workspace,
+          role: membership.role,
+          notifications: membership.notifications,
+        });
+      }
+    }
+
+    return workspaces;
+  },
+});
+
+// Members of a workspace with their profile
+export const getWorkspaceMembers = query({
+  args: { workspaceId: v.id("workspaces") },
+  handler: async (ctx, args) => {
+    await checkWorkspacePermission(ctx, args.workspaceId, "view");
+
+    const members = await getMembers(ctx, args.workspaceId);
+    const result = [];
+    for (const member of members) {
+      const user = await ctx.db.get(member.userId);
+      result.push({
+        ...member,
+        name: user?.name,
+        email: user?.email,
+        avatarUrl: user?.avatarUrl,
+      });
+    }
+
+    return result;
+  },
+});
+
+// Permission check for actions, which cannot read the database directly
+export const canAccessRepository = internalQuery({
+  args: {
+    userId: v.id("users"),
+    repositoryId: v.id("repositories"),
+    permission: permissionValidator,
+  },
+  handler: async (ctx, args) => {
+    const repository = await ctx.db.get(args.repositoryId);
+    return !!repository && await hasRepositoryPermission(ctx, args.userId, repository, args.permission);
+  },
+});
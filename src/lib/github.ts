@@ -1,5 +1,26 @@
 // GitHub API integration service
-import { GitHubIssue, GitHubRepository, TokenResponse } from "../types/index";
+import {
+  ActivityEvent,
+  ActivityEventType,
+  CacheValidators,
+  GitHubCommit,
+  GitHubCommitChecks,
+  GitHubGraphQLActor,
+  GitHubGraphQLItem,
+  GitHubIssue,
+  GitHubInstallation,
+  GitHubInstallationToken,
+  GitHubIssueComment,
+  GitHubPullRequest,
+  GitHubRateLimit,
+  GitHubRepository,
+  GitHubUserProfile,
+  IssueSyncResult,
+  IssueSyncResume,
+  NormalizedIssue,
+  PullRequestState,
+  TokenResponse,
+} from "../types/index";
 
 export class GitHubApiError extends Error {
   constructor(
@@ -22,6 +43,13 @@ export class AuthenticationError extends Error {
   }
 }
 
+export class NotModifiedError extends Error {
+  constructor(public endpoint: string) {
+    super(`${endpoint} has not changed since it was last fetched`);
+    this.name = "NotModifiedError";
+  }
+}
+
 export class RateLimitError extends Error {
   constructor(
     message: string,
@@ -33,31 +61,321 @@ export class RateLimitError extends Error {
   }
 }
 
+/**
+ * Reduce a GitHub API issue to the shape stored in the issues table
+ */
+export function normalizeGitHubIssue(githubIssue: GitHubIssue): NormalizedIssue {
+  return {
+    githubIssueId: githubIssue.number,
+    title: githubIssue.title,
+    url: githubIssue.html_url,
+    state: githubIssue.state,
+    labels: githubIssue.labels.map((label) => label.name),
+    assignee: githubIssue.assignee?.login,
+    author: githubIssue.user?.login,
+    milestone: githubIssue.milestone?.title,
+    commentCount: githubIssue.comments,
+    kind: githubIssue.pull_request ? "pull_request" : "issue",
+    // The issues list only carries the draft flag; other pull request state is fetched separately
+    pullRequest: githubIssue.pull_request ? { draft: githubIssue.draft === true } : undefined,
+    lastActivity: new Date(githubIssue.updated_at).getTime(),
+  };
+}
+
+// Activity event types of the GraphQL timeline items
+const TIMELINE_EVENT_TYPES: Record<string, ActivityEventType> = {
+  ClosedEvent: "closed",
+  ReopenedEvent: "reopened",
+  RenamedTitleEvent: "renamed",
+  CrossReferencedEvent: "referenced",
+  LabeledEvent: "labeled",
+  UnlabeledEvent: "unlabeled",
+  AssignedEvent: "assigned",
+  UnassignedEvent: "unassigned",
+  PullRequestReview: "review",
+  PullRequestCommit: "commit",
+};
+
+// Label and assignee edits are bookkeeping rather than activity
+const BOOKKEEPING_EVENT_TYPES: ActivityEventType[] = ["labeled", "unlabeled", "assigned", "unassigned"];
+
+// Author associations of people who maintain a repository
+const MAINTAINER_ASSOCIATIONS = ["OWNER", "MEMBER", "COLLABORATOR"];
+
+// GraphQL item types fetched as issue activity; PullRequestReview and PullRequestCommit only exist on pull requests
+const ISSUE_TIMELINE_TYPES = "CLOSED_EVENT, REOPENED_EVENT, RENAMED_TITLE_EVENT, CROSS_REFERENCED_EVENT, LABELED_EVENT, UNLABELED_EVENT, ASSIGNED_EVENT, UNASSIGNED_EVENT";
+const PULL_REQUEST_TIMELINE_TYPES = `${ISSUE_TIMELINE_TYPES}, PULL_REQUEST_REVIEW, PULL_REQUEST_COMMIT`;
+
+const GRAPHQL_ACTOR = "login __typename";
+
+// GraphQL rate limit points one sync may spend; GitHub grants 5,000 per hour
+export const DEFAULT_GRAPHQL_COST_BUDGET = 500;
+
+const graphqlItemFields = (timelineTypes: string) => `
+  number title url state createdAt updatedAt
+  author { ${GRAPHQL_ACTOR} }
+  assignees(first: 1) { nodes { login } }
+  labels(first: 50) { nodes { name } }
+  milestone { title }
+  reactions { totalCount }
+  comments(last: 30) { totalCount nodes { createdAt authorAssociation author { ${GRAPHQL_ACTOR} } } }
+  activity: timelineItems(last: 30, itemTypes: [${timelineTypes}]) {
+    nodes {
+      __typename
+      ... on ClosedEvent { createdAt actor { ${GRAPHQL_ACTOR} } }
+      ... on ReopenedEvent { createdAt actor { ${GRAPHQL_ACTOR} } }
+      ... on RenamedTitleEvent { createdAt actor { ${GRAPHQL_ACTOR} } }
+      ... on CrossReferencedEvent { createdAt actor { ${GRAPHQL_ACTOR} } }
+      ... on LabeledEvent { createdAt actor { ${GRAPHQL_ACTOR} } }
+      ... on UnlabeledEvent { createdAt actor { ${GRAPHQL_ACTOR} } }
+      ... on AssignedEvent { createdAt actor { ${GRAPHQL_ACTOR} } }
+      ... on UnassignedEvent { createdAt actor { ${GRAPHQL_ACTOR} } }
+      ... on PullRequestReview { createdAt authorAssociation author { ${GRAPHQL_ACTOR} } }
+      ... on PullRequestCommit { commit { committedDate } }
+    }
+  }
+  references: timelineItems(first: 25, itemTypes: [CROSS_REFERENCED_EVENT]) {
+    nodes { __typename ... on CrossReferencedEvent { source { __typename ... on PullRequest { number state } } } }
+  }
+`;
+
+export const ISSUES_GRAPHQL_QUERY = `
+query StaleBotIssues($owner: String!, $repo: String!, $pageSize: Int!, $cursor: String, $since: DateTime) {
+  rateLimit { cost remaining resetAt }
+  repository(owner: $owner, name: $repo) {
+    items: issues(first: $pageSize, after: $cursor, filterBy: { since: $since }, orderBy: { field: UPDATED_AT, direction: DESC }) {
+      pageInfo { hasNextPage endCursor }
+      nodes { ${graphqlItemFields(ISSUE_TIMELINE_TYPES)} }
+    }
+  }
+}`;
+
+// Pull requests cannot be filtered by update time, so paging stops at the first one older than since
+export const PULL_REQUESTS_GRAPHQL_QUERY = `
+query StaleBotPullRequests($owner: String!, $repo: String!, $pageSize: Int!, $cursor: String) {
+  rateLimit { cost remaining resetAt }
+  repository(owner: $owner, name: $repo) {
+    items: pullRequests(first: $pageSize, after: $cursor, orderBy: { field: UPDATED_AT, direction: DESC }) {
+      pageInfo { hasNextPage endCursor }
+      nodes {
+        ${graphqlItemFields(PULL_REQUEST_TIMELINE_TYPES)}
+        isDraft mergeable
+        reviewRequests { totalCount }
+        commits(last: 1) { nodes { commit { statusCheckRollup { state } } } }
+      }
+    }
+  }
+}`;
+
+/**
+ * Whether a GraphQL actor is a bot; deleted accounts count as people
+ */
+export function isBotActor(actor: GitHubGraphQLActor): boolean {
+  return !!actor && (actor.__typename === "Bot" || /\[bot\]$/i.test(actor.login));
+}
+
+/**
+ * Time of the most recent comment written by a person rather than a bot
+ */
+export function getLastHumanCommentAt(item: GitHubGraphQLItem): number | undefined {
+  const times = item.comments.nodes
+    .filter(comment => !isBotActor(comment.author))
+    .map(comment => Date.parse(comment.createdAt));
+  return times.length > 0 ? Math.max(...times) : undefined;
+}
+
+/**
+ * Opening, comments and timeline events of an issue, oldest first
+ */
+export function extractActivityTimeline(item: GitHubGraphQLItem): ActivityEvent[] {
+  const event = (
+    type: ActivityEventType,
+    at: string,
+    actor: GitHubGraphQLActor | undefined,
+    authorAssociation?: string
+  ): ActivityEvent => ({
+    type,
+    at: Date.parse(at),
+    actor: actor?.login,
+    bot: isBotActor(actor ?? null) || undefined,
+    maintainer: authorAssociation ? MAINTAINER_ASSOCIATIONS.includes(authorAssociation) : undefined,
+  });
+
+  const timeline = [event("opened", item.createdAt, item.author)];
+  for (const comment of item.comments.nodes) {
+    timeline.push(event("comment", comment.createdAt, comment.author, comment.authorAssociation));
+  }
+  for (const node of item.activity.nodes) {
+    const type = TIMELINE_EVENT_TYPES[node.__typename];
+    const at = node.commit?.committedDate ?? node.createdAt;
+    if (type && at) {
+      timeline.push(event(type, at, node.actor ?? node.author, node.authorAssociation));
+    }
+  }
+
+  return timeline.sort((a, b) => a.at - b.at);
+}
+
+/**
+ * Last time a person did something meaningful on an issue: opened it, commented, closed
+ * or reopened it, renamed it, referenced it, or reviewed or pushed to a pull request.
+ * Label and assignee edits and anything done by bots are ignored
+ */
+export function getHumanActivityAt(item: GitHubGraphQLItem): number {
+  let latest = Date.parse(item.createdAt);
+  for (const event of extractActivityTimeline(item)) {
+    if (!event.bot && !BOOKKEEPING_EVENT_TYPES.includes(event.type)) {
+      latest = Math.max(latest, event.at);
+    }
+  }
+  return latest;
+}
+
+/**
+ * Reduce an issue or pull request of the GraphQL sync to the shape stored in the issues table
+ * Unlike normalizeGitHubIssue, lastActivity reflects human activity instead of updated_at
+ */
+export function normalizeGraphQLItem(item: GitHubGraphQLItem, kind: "issue" | "pull_request"): NormalizedIssue {
+  const linkedPullRequests = item.references.nodes
+    .map(event => event.source)
+    .filter(source => source?.__typename === "PullRequest" && source.state === "OPEN" && source.number !== undefined)
+    .map(source => source!.number!);
+
+  let pullRequest: PullRequestState | undefined;
+  if (kind === "pull_request") {
+    const rollup = item.commits?.nodes[0]?.commit.statusCheckRollup;
+    pullRequest = {
+      draft: item.isDraft === true,
+      reviewRequested: (item.reviewRequests?.totalCount ?? 0) > 0,
+      checksFailing: rollup ? rollup.state === "FAILURE" || rollup.state === "ERROR" : undefined,
+      hasConflicts: item.mergeable === "UNKNOWN" || item.mergeable === undefined
+        ? undefined
+        : item.mergeable === "CONFLICTING",
+    };
+  }
+
+  return {
+    githubIssueId: item.number,
+    title: item.title,
+    url: item.url,
+    state: item.state === "OPEN" ? "open" : "closed",
+    labels: item.labels.nodes.map(label => label.name),
+    assignee: item.assignees.nodes[0]?.login,
+    author: item.author?.login,
+    milestone: item.milestone?.title,
+    commentCount: item.comments.totalCount,
+    kind,
+    pullRequest,
+    linkedPullRequests: kind === "issue" ? [...new Set(linkedPullRequests)].sort((a, b) => a - b) : undefined,
+    lastHumanCommentAt: getLastHumanCommentAt(item),
+    reactionCount: item.reactions.totalCount,
+    activityTimeline: extractActivityTimeline(item),
+    lastActivity: getHumanActivityAt(item),
+  };
+}
+
+// Check run conclusions that count as a failing CI run
+const FAILING_CHECK_CONCLUSIONS = ["failure", "timed_out", "action_required", "startup_failure"];
+
+/**
+ * Derive the stored pull request state from the pull request and its head commit checks
+ */
+export function summarizePullRequest(
+  pullRequest: GitHubPullRequest,
+  checks?: GitHubCommitChecks
+): PullRequestState {
+  const reviewRequested =
+    (pullRequest.requested_reviewers?.length ?? 0) + (pullRequest.requested_teams?.length ?? 0) > 0;
+
+  // mergeable is null until GitHub has computed it, in which case conflicts are unknown
+  let hasConflicts: boolean | undefined;
+  if (pullRequest.mergeable === false || pullRequest.mergeable_state === "dirty") {
+    hasConflicts = true;
+  } else if (pullRequest.mergeable === true) {
+    hasConflicts = false;
+  }
+
+  let checksFailing: boolean | undefined;
+  if (checks) {
+    const statusFailing = checks.statusCount > 0 &&
+      (checks.combinedState === "failure" || checks.combinedState === "error");
+    const checkRunFailing = checks.checkRunConclusions.some(
+      conclusion => conclusion !== null && FAILING_CHECK_CONCLUSIONS.includes(conclusion)
+    );
+    checksFailing = statusFailing || checkRunFailing;
+  }
+
+  return {
+    draft: pullRequest.draft === true,
+    reviewRequested,
+    checksFailing,
+    hasConflicts,
+  };
+}
+
+export interface GitHubServiceOptions {
+  // Called with the rate limit headers of every response, e.g. to track an installation's budget
+  onRateLimit?: (rateLimit: GitHubRateLimit) => void;
+  // Validators of earlier responses to conditional requests, keyed by endpoint
+  conditionalCache?: {
+    get(endpoint: string): CacheValidators | undefined;
+    set(endpoint: string, validators: CacheValidators): void;
+  };
+}
+
 export class GitHubService {
   private readonly baseUrl = "https://api.github.com";
   private readonly maxRetries = 3;
   private readonly baseDelay = 1000; // 1 second
 
+  constructor(private readonly options: GitHubServiceOptions = {}) {}
+
+  /**
+   * Choose the token to call GitHub with: the repository's GitHub App installation token
+   * when there is one, otherwise the owner's OAuth token
+   */
+  static selectAccessToken(credentials: {
+    installationToken?: string | null;
+    userToken: string;
+  }): { token: string; source: "installation" | "user" } {
+    if (credentials.installationToken) {
+      return { token: credentials.installationToken, source: "installation" };
+    }
+    return { token: credentials.userToken, source: "user" };
+  }
+
   /**
    * Make an authenticated request to the GitHub API with retry logic and automatic token refresh
+   * Conditional requests send the validators of the cached response and throw NotModifiedError
+   * when GitHub answers 304, which doesn't count against the rate limit
    */
   private async makeRequest<T>(
     endpoint: string,
     accessToken: string,
-    options: RequestInit = {},
+    options: RequestInit & { conditional?: boolean } = {},
     tokenRefreshCallback?: (newToken: string) => Promise<void>
   ): Promise<T> {
+    const { conditional, ...init } = options;
+    const validators = conditional ? this.options.conditionalCache?.get(endpoint) : undefined;
+
     return this.withRetry(async () => {
       const url = `${this.baseUrl}${endpoint}`;
       const response = await fetch(url, {
-        ...options,
+        ...init,
         headers: {
           "Authorization": `Bearer ${accessToken}`,
           "Accept": "application/vnd.github.v3+json",
           "User-Agent": "StaleBot/1.0",
-          ...options.headers,
+          ...(validators?.etag ? { "If-None-Match": validators.etag } : {}),
+          ...(validators?.lastModified ? { "If-Modified-Since": validators.lastModified } : {}),
+          ...init.headers,
         },
       });
+      this.observeRateLimit(response.headers);
+
+      if (response.status === 304) {
+        throw new NotModifiedError(endpoint);
+      }
 
       // Handle rate limiting
       if (response.status === 403) {
@@ -140,10 +458,39 @@ export class GitHubService {
         );
       }
 
+      if (conditional) {
+        const etag = response.headers.get("etag");
+        const lastModified = response.headers.get("last-modified");
+        if (etag || lastModified) {
+          this.options.conditionalCache?.set(endpoint, {
+            etag: etag ?? undefined,
+            lastModified: lastModified ?? undefined,
+          });
+        }
+      }
+
       return response.json();
     });
   }
 
+  /**
+   * Report the rate limit headers of a response to the onRateLimit observer
+   */
+  private observeRateLimit(headers: Headers): void {
+    const limit = headers.get("x-ratelimit-limit");
+    const remaining = headers.get("x-ratelimit-remaining");
+    const reset = headers.get("x-ratelimit-reset");
+    if (!this.options.onRateLimit || limit === null || remaining === null || reset === null) {
+      return;
+    }
+
+    this.options.onRateLimit({
+      limit: parseInt(limit),
+      remaining: parseInt(remaining),
+      resetAt: parseInt(reset) * 1000,
+    });
+  }
+
   /**
    * Retry wrapper with exponential backoff and jitter
    */
@@ -156,8 +503,8 @@ export class GitHubService {
       } catch (error) {
         lastError = error as Error;
 
-        // Don't retry authentication errors
-        if (error instanceof AuthenticationError) {
+        // Don't retry authentication errors or unchanged responses
+        if (error instanceof AuthenticationError || error instanceof NotModifiedError) {
           throw error;
         }
 
@@ -246,6 +593,67 @@ export class GitHubService {
     }
   }
 
+  /**
+   * Mint an installation access token, authenticating with the app's JWT
+   */
+  async createInstallationToken(appJwt: string, installationId: number): Promise<GitHubInstallationToken> {
+    return await this.makeRequest<GitHubInstallationToken>(
+      `/app/installations/${installationId}/access_tokens`,
+      appJwt,
+      { method: "POST" }
+    );
+  }
+
+  /**
+   * Find the app installation covering a repository, or null when the app is not installed on it
+   */
+  async fetchRepositoryInstallation(appJwt: string, owner: string, repo: string): Promise<GitHubInstallation | null> {
+    try {
+      return await this.makeRequest<GitHubInstallation>(`/repos/${owner}/${repo}/installation`, appJwt);
+    } catch (error) {
+      if (error instanceof GitHubApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Public profile email of a GitHub user, or null when they don't show one
+   */
+  async fetchUserPublicEmail(accessToken: string, login: string): Promise<string | null> {
+    try {
+      const profile = await this.makeRequest<GitHubUserProfile>(`/users/${encodeURIComponent(login)}`, accessToken);
+      return profile.email || null;
+    } catch (error) {
+      if (error instanceof GitHubApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Recent commits a user authored in a repository, used to find their commit email
+   */
+  async fetchCommitsByAuthor(
+    accessToken: string,
+    owner: string,
+    repo: string,
+    login: string
+  ): Promise<GitHubCommit[]> {
+    const params = new URLSearchParams({ author: login, per_page: "10" });
+    try {
+      return await this.makeRequest<GitHubCommit[]>(`/repos/${owner}/${repo}/commits?${params}`, accessToken);
+    } catch (error) {
+      // Empty repositories answer 409
+      if (error instanceof GitHubApiError && (error.status === 404 || error.status === 409)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
   /**
    * Validate if the access token is still valid
    */
@@ -356,6 +764,30 @@ export class GitHubService {
     return this.makeRequest<GitHubIssue[]>(endpoint, accessToken);
   }
 
+  /**
+   * Whether any issue or pull request of a repository changed since the cached response
+   * The most recently updated item heads the list, so its ETag changes with every update
+   */
+  async hasRepositoryIssueChanges(
+    accessToken: string,
+    owner: string,
+    repo: string
+  ): Promise<boolean> {
+    try {
+      await this.makeRequest(
+        `/repos/${owner}/${repo}/issues?state=all&sort=updated&direction=desc&per_page=1`,
+        accessToken,
+        { conditional: true }
+      );
+      return true;
+    } catch (error) {
+      if (error instanceof NotModifiedError) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
   /**
    * Validate if the user has access to a specific repository
    */
@@ -365,9 +797,13 @@ export class GitHubService {
     repo: string
   ): Promise<boolean> {
     try {
-      await this.makeRequest(`/repos/${owner}/${repo}`, accessToken);
+      await this.makeRequest(`/repos/${owner}/${repo}`, accessToken, { conditional: true });
       return true;
     } catch (error) {
+      // Unchanged since the last check, so still accessible
+      if (error instanceof NotModifiedError) {
+        return true;
+      }
       if (error instanceof GitHubApiError && (error.status === 404 || error.status === 403)) {
         return false;
       }
@@ -393,6 +829,108 @@ export class GitHubService {
     }
   }
 
+  /**
+   * Fetch a text file from the default branch; null when it does not exist
+   * Throws NotModifiedError when the file is unchanged since the cached response
+   */
+  async fetchRepositoryFile(
+    accessToken: string,
+    owner: string,
+    repo: string,
+    path: string
+  ): Promise<{ content: string; sha: string } | null> {
+    try {
+      const file = await this.makeRequest<{ type: string; content?: string; encoding?: string; sha: string }>(
+        `/repos/${owner}/${repo}/contents/${path.split("/").map(encodeURIComponent).join("/")}`,
+        accessToken,
+        { conditional: true }
+      );
+      if (file.type !== "file" || file.encoding !== "base64" || file.content === undefined) {
+        return null;
+      }
+
+      const binary = atob(file.content.replace(/\n/g, ""));
+      const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+      return { content: new TextDecoder().decode(bytes), sha: file.sha };
+    } catch (error) {
+      if (error instanceof GitHubApiError && error.status === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch review, mergeability and CI state for a pull request
+   */
+  async fetchPullRequestState(
+    accessToken: string,
+    owner: string,
+    repo: string,
+    pullNumber: number
+  ): Promise<PullRequestState> {
+    const pullRequest = await this.makeRequest<GitHubPullRequest>(
+      `/repos/${owner}/${repo}/pulls/${pullNumber}`,
+      accessToken
+    );
+
+    const ref = encodeURIComponent(pullRequest.head.sha);
+    const [status, checkRuns] = await Promise.all([
+      this.makeRequest<{ state: GitHubCommitChecks["combinedState"]; total_count: number }>(
+        `/repos/${owner}/${repo}/commits/${ref}/status`,
+        accessToken
+      ),
+      this.makeRequest<{ check_runs: Array<{ conclusion: string | null }> }>(
+        `/repos/${owner}/${repo}/commits/${ref}/check-runs?per_page=100`,
+        accessToken
+      ),
+    ]);
+
+    return summarizePullRequest(pullRequest, {
+      combinedState: status.state,
+      statusCount: status.total_count,
+      checkRunConclusions: checkRuns.check_runs.map(run => run.conclusion),
+    });
+  }
+
+  /**
+   * Numbers of open pull requests that reference an issue, from its timeline
+   */
+  async fetchLinkedPullRequests(
+    accessToken: string,
+    owner: string,
+    repo: string,
+    issueNumber: number
+  ): Promise<number[]> {
+    const linked = new Set<number>();
+    let page = 1;
+    const perPage = 100;
+
+    while (true) {
+      const events = await this.makeRequest<Array<{
+        event: string;
+        source?: { issue?: { number: number; state: "open" | "closed"; pull_request?: unknown } };
+      }>>(
+        `/repos/${owner}/${repo}/issues/${issueNumber}/timeline?page=${page}&per_page=${perPage}`,
+        accessToken
+      );
+
+      for (const event of events) {
+        const source = event.source?.issue;
+        if (event.event === "cross-referenced" && source?.pull_request && source.state === "open") {
+          linked.add(source.number);
+        }
+      }
+
+      if (events.length < perPage) {
+        break;
+      }
+      page++;
+    }
+
+    return [...linked].sort((a, b) => a - b);
+  }
+
   /**
    * Get current rate limit status
    */
@@ -511,6 +1049,121 @@ export class GitHubService {
     );
   }
 
+  /**
+   * Run a GraphQL query; errors reported in a successful response are thrown as well
+   */
+  async graphql<T>(
+    accessToken: string,
+    query: string,
+    variables: Record<string, unknown>
+  ): Promise<T> {
+    const response = await this.makeRequest<{
+      data?: T;
+      errors?: Array<{ type?: string; message: string }>;
+    }>("/graphql", accessToken, {
+      method: "POST",
+      body: JSON.stringify({ query, variables }),
+      headers: { "Content-Type": "application/json" },
+    });
+
+    if (response.errors?.length) {
+      const [error] = response.errors;
+      if (error.type === "RATE_LIMITED") {
+        throw new RateLimitError("GitHub GraphQL rate limit exceeded", Date.now() + 60 * 60 * 1000, 0);
+      }
+      throw new GitHubApiError(
+        error.type === "NOT_FOUND" ? 404 : 400,
+        error.type === "NOT_FOUND" ? "not_found" : "graphql_error",
+        error.message,
+        undefined,
+        undefined,
+        { errors: response.errors }
+      );
+    }
+
+    return response.data as T;
+  }
+
+  /**
+   * Sync issues and pull requests updated since a point in time through GraphQL, with their
+   * last human comment, timeline events, reactions, linked pull requests and milestone.
+   * Stops once the cost budget is spent and returns where to resume on the next run
+   */
+  async syncRepositoryIssues(
+    accessToken: string,
+    owner: string,
+    repo: string,
+    options: {
+      since?: number;
+      resume?: IssueSyncResume;
+      costBudget?: number;
+      pageSize?: number;
+    } = {}
+  ): Promise<IssueSyncResult> {
+    const costBudget = options.costBudget ?? DEFAULT_GRAPHQL_COST_BUDGET;
+    const pageSize = options.pageSize ?? 50;
+    const since = options.resume ? options.resume.since : options.since;
+    const startedAt = options.resume?.startedAt ?? Date.now();
+    let phase = options.resume?.phase ?? "issues";
+    let cursor = options.resume?.cursor;
+    const issues: NormalizedIssue[] = [];
+    let cost = 0;
+
+    type Page = {
+      rateLimit: { cost: number; remaining: number; resetAt: string };
+      repository: {
+        items: {
+          pageInfo: { hasNextPage: boolean; endCursor: string | null };
+          nodes: GitHubGraphQLItem[];
+        };
+      } | null;
+    };
+
+    while (true) {
+      if (cost >= costBudget) {
+        return { issues, complete: false, resume: { phase, cursor, since, startedAt }, startedAt, cost };
+      }
+
+      const page = await this.graphql<Page>(
+        accessToken,
+        phase === "issues" ? ISSUES_GRAPHQL_QUERY : PULL_REQUESTS_GRAPHQL_QUERY,
+        {
+          owner,
+          repo,
+          pageSize,
+          cursor: cursor ?? null,
+          ...(phase === "issues" ? { since: since !== undefined ? new Date(since).toISOString() : null } : {}),
+        }
+      );
+      cost += page.rateLimit.cost;
+
+      if (!page.repository) {
+        throw new GitHubApiError(404, "not_found", `Repository ${owner}/${repo} not found or access denied`);
+      }
+
+      const { nodes, pageInfo } = page.repository.items;
+      let reachedSince = false;
+      for (const node of nodes) {
+        if (phase === "pull_requests" && since !== undefined && Date.parse(node.updatedAt) < since) {
+          reachedSince = true;
+          break;
+        }
+        issues.push(normalizeGraphQLItem(node, phase === "issues" ? "issue" : "pull_request"));
+      }
+
+      if (pageInfo.hasNextPage && !reachedSince && pageInfo.endCursor) {
+        cursor = pageInfo.endCursor;
+        continue;
+      }
+      if (phase === "issues") {
+        phase = "pull_requests";
+        cursor = undefined;
+        continue;
+      }
+      return { issues, complete: true, startedAt, cost };
+    }
+  }
+
   /**
    * Fetch repositories with filtering options
    */
@@ -719,4 +1372,142 @@ export class GitHubService {
       forksCount: repoData.forks_count,
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * List comments on an issue or pull request
+   */
+  async fetchIssueComments(
+    accessToken: string,
+    owner: string,
+    repo: string,
+    issueNumber: number
+  ): Promise<GitHubIssueComment[]> {
+    const allComments: GitHubIssueComment[] = [];
+    let page = 1;
+    const perPage = 100;
+
+    while (true) {
+      const endpoint = `/repos/${owner}/${repo}/issues/${issueNumber}/comments?page=${page}&per_page=${perPage}`;
+      const comments = await this.makeRequest<GitHubIssueComment[]>(endpoint, accessToken);
+      allComments.push(...comments);
+
+      if (comments.length < perPage) {
+        break;
+      }
+      page++;
+    }
+
+    return allComments;
+  }
+
+  /**
+   * Post a comment unless one containing the marker already exists
+   * The marker is an HTML comment so it stays invisible on GitHub
+   */
+  async createIssueCommentOnce(
+    accessToken: string,
+    owner: string,
+    repo: string,
+    issueNumber: number,
+    body: string,
+    marker: string
+  ): Promise<{ commentId: number; created: boolean }> {
+    const comments = await this.fetchIssueComments(accessToken, owner, repo, issueNumber);
+    const existing = comments.find(comment => comment.body?.includes(marker));
+    if (existing) {
+      return { commentId: existing.id, created: false };
+    }
+
+    const comment = await this.makeRequest<GitHubIssueComment>(
+      `/repos/${owner}/${repo}/issues/${issueNumber}/comments`,
+      accessToken,
+      {
+        method: "POST",
+        body: JSON.stringify({ body: `${marker}\n${body}` }),
+      }
+    );
+    return { commentId: comment.id, created: true };
+  }
+
+  /**
+   * Add a label to an issue; a no-op when the label is already present
+   */
+  async addIssueLabel(
+    accessToken: string,
+    owner: string,
+    repo: string,
+    issueNumber: number,
+    label: string
+  ): Promise<{ added: boolean }> {
+    const issue = await this.makeRequest<GitHubIssue>(
+      `/repos/${owner}/${repo}/issues/${issueNumber}`,
+      accessToken
+    );
+    if (issue.labels.some(existing => existing.name.toLowerCase() === label.toLowerCase())) {
+      return { added: false };
+    }
+
+    await this.makeRequest(
+      `/repos/${owner}/${repo}/issues/${issueNumber}/labels`,
+      accessToken,
+      {
+        method: "POST",
+        body: JSON.stringify({ labels: [label] }),
+      }
+    );
+    return { added: true };
+  }
+
+  /**
+   * Remove a label from an issue; a missing label is treated as already removed
+   */
+  async removeIssueLabel(
+    accessToken: string,
+    owner: string,
+    repo: string,
+    issueNumber: number,
+    label: string
+  ): Promise<{ removed: boolean }> {
+    try {
+      await this.makeRequest(
+        `/repos/${owner}/${repo}/issues/${issueNumber}/labels/${encodeURIComponent(label)}`,
+        accessToken,
+        { method: "DELETE" }
+      );
+      return { removed: true };
+    } catch (error) {
+      if (error instanceof GitHubApiError && error.status === 404) {
+        return { removed: false };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Close an issue as not planned; a no-op when it is already closed
+   */
+  async closeIssue(
+    accessToken: string,
+    owner: string,
+    repo: string,
+    issueNumber: number
+  ): Promise<{ closed: boolean }> {
+    const issue = await this.makeRequest<GitHubIssue>(
+      `/repos/${owner}/${repo}/issues/${issueNumber}`,
+      accessToken
+    );
+    if (issue.state === "closed") {
+      return { closed: false };
+    }
+
+    await this.makeRequest(
+      `/repos/${owner}/${repo}/issues/${issueNumber}`,
+      accessToken,
+      {
+        method: "PATCH",
+        body: JSON.stringify({ state: "closed", state_reason: "not_planned" }),
+      }
+    );
+    return { closed: true };
+  }
+}
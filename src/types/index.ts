@@ -32,7 +32,8 @@ export interface NotificationPreferences {
 
 export interface Repository {
   _id: Id<"repositories">;
-  userId: Id<"users">;
+  userId: Id<"users">; // connecting user, whose token processes the repository
+  workspaceId?: Id<"workspaces">; // personal repository when absent
   githubId: number;
   name: string;
   fullName: string; // owner/repo
@@ -40,6 +41,31 @@ export interface Repository {
   rules: Id<"rules">[];
   lastChecked: number;
   lastIssueCount: number;
+  priority?: RepositoryPriority; // normal when absent
+  createdAt: number;
+}
+
+// Order in which scheduled checks spend a token's rate limit
+export type RepositoryPriority = "high" | "normal" | "low";
+
+// Team workspace sharing repositories between members
+export type WorkspaceRole = "owner" | "admin" | "viewer";
+export type WorkspacePermission = "view" | "manage" | "manage_members";
+
+export interface Workspace {
+  _id: Id<"workspaces">;
+  name: string;
+  createdBy: Id<"users">;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface WorkspaceMember {
+  _id: Id<"workspaceMembers">;
+  workspaceId: Id<"workspaces">;
+  userId: Id<"users">;
+  role: WorkspaceRole;
+  notifications: boolean; // opted in to stale issue notifications
   createdAt: number;
 }
 
@@ -52,11 +78,99 @@ export interface StaleRule {
   labels: string[]; // empty array means all labels
   issueStates: ("open" | "closed")[];
   assigneeCondition: "any" | "assigned" | "unassigned" | string[]; // specific users
+  exemptLabels?: string[]; // issues with any of these labels are never stale
+  exemptMilestones?: "any" | string[]; // "any" exempts every issue with a milestone
+  exemptLinkedPullRequests?: boolean; // exempt issues referenced by an open pull request
+  exemptIssueNumbers?: number[]; // issues that are never stale
+  condition?: string; // rule expression AND-ed with the other criteria
+  itemKind?: RuleItemKind; // defaults to "any"
+  pullRequestCriteria?: PullRequestCriteria; // only for itemKind "pull_request"
+  actionPolicy?: StaleActionPolicy;
+  source?: "config"; // managed by .github/stalebot.yml
   isActive: boolean;
   createdAt: number;
   updatedAt: number;
 }
 
+// Tracked items are issues or pull requests; GitHub's issues API returns both
+export type ItemKind = "issue" | "pull_request";
+export type RuleItemKind = ItemKind | "any";
+
+// Pull request state a rule can require; unset criteria are ignored
+export interface PullRequestCriteria {
+  draft?: boolean;
+  reviewRequested?: boolean;
+  checksFailing?: boolean;
+  hasConflicts?: boolean;
+}
+
+// Pull request state stored on tracked items; undefined fields are not known yet
+export interface PullRequestState {
+  draft: boolean;
+  reviewRequested?: boolean;
+  checksFailing?: boolean;
+  hasConflicts?: boolean;
+}
+
+// Actions taken on GitHub when a rule marks an issue stale
+export interface StaleActionPolicy {
+  postComment: boolean;
+  commentMessage?: string;
+  addLabel: boolean;
+  staleLabel?: string; // defaults to "stale"
+  closeIssue: boolean;
+  daysUntilClose?: number; // grace period after the issue is marked stale
+}
+
+// Record of stale actions already applied to an issue, used for idempotency
+export interface StaleActionState {
+  ruleId: Id<"rules">;
+  markedAt: number;
+  commentId?: number;
+  commentedAt?: number;
+  labelName?: string;
+  labeledAt?: number;
+  closedAt?: number;
+  lastActionAt: number;
+}
+
+// Maintainer snooze on one issue: until a date, or until the issue sees new activity
+export type IssueSnooze =
+  | { type: "until_date"; until: number; snoozedAt: number }
+  | { type: "until_activity"; lastActivity: number; snoozedAt: number };
+
+// Criteria a stale rule checks, in evaluation order
+export type RuleCriterion =
+  | "inactivity"
+  | "state"
+  | "item_kind"
+  | "labels"
+  | "exemption"
+  | "snooze"
+  | "condition"
+  | "assignee";
+
+export interface CriterionResult {
+  criterion: RuleCriterion;
+  passed: boolean;
+  reason: string;
+}
+
+// Outcome of one rule when an issue was last evaluated
+export interface StaleRuleResult {
+  ruleId: Id<"rules">;
+  ruleName: string;
+  matched: boolean;
+  summary: string; // e.g. "matched rule 'Bugs 30d': 41 days inactive ≥ 30, has label \"bug\""
+  criteria: CriterionResult[];
+}
+
+// Why an issue is (or isn't) stale, stored at evaluation time
+export interface StaleEvaluation {
+  evaluatedAt: number;
+  rules: StaleRuleResult[];
+}
+
 export interface TrackedIssue {
   _id: Id<"issues">;
   repositoryId: Id<"repositories">;
@@ -66,9 +180,18 @@ export interface TrackedIssue {
   state: "open" | "closed";
   labels: string[];
   assignee: string | null;
+  kind?: ItemKind; // missing on items stored before pull requests were tracked
+  pullRequest?: PullRequestState;
+  milestone?: string;
+  linkedPullRequests?: number[]; // open pull requests referencing the issue
+  commentCount?: number;
   lastActivity: number;
   isStale: boolean;
   lastNotified: number | null;
+  staleActions?: StaleActionState;
+  snooze?: IssueSnooze;
+  neverStale?: boolean; // maintainer flag: the issue is quiet on purpose
+  staleEvaluation?: StaleEvaluation;
   createdAt: number;
   updatedAt: number;
 }
@@ -97,8 +220,207 @@ export interface GitHubIssue {
   assignee: {
     login: string;
   } | null;
+  user?: { // author
+    login: string;
+  } | null;
   updated_at: string;
   created_at: string;
+  milestone?: {
+    number: number;
+    title: string;
+  } | null;
+  comments?: number;
+  draft?: boolean; // only set on pull requests
+  pull_request?: { // present when the item is a pull request
+    url: string;
+    html_url: string;
+    merged_at?: string | null;
+  };
+}
+
+export interface GitHubPullRequest {
+  number: number;
+  url: string;
+  html_url: string;
+  draft?: boolean;
+  mergeable: boolean | null; // null while GitHub computes mergeability
+  mergeable_state?: string;
+  requested_reviewers?: Array<{ login: string }>;
+  requested_teams?: Array<{ slug: string }>;
+  head: {
+    sha: string;
+  };
+}
+
+// Commit status and check run results for a pull request head
+export interface GitHubCommitChecks {
+  combinedState?: "success" | "pending" | "failure" | "error";
+  statusCount: number;
+  checkRunConclusions: Array<string | null>;
+}
+
+export interface GitHubIssueComment {
+  id: number;
+  body: string | null;
+  user: {
+    login: string;
+  } | null;
+  created_at: string;
+}
+
+// GitHub App installation, as returned by /repos/{owner}/{repo}/installation
+export interface GitHubInstallation {
+  id: number;
+  account: {
+    login: string;
+    type: "User" | "Organization";
+  } | null;
+}
+
+export interface GitHubInstallationToken {
+  token: string;
+  expires_at: string;
+}
+
+// Subset of /users/{login}; email is null unless the user made it public
+export interface GitHubUserProfile {
+  login: string;
+  email: string | null;
+}
+
+// Subset of a commit from /repos/{owner}/{repo}/commits
+export interface GitHubCommit {
+  sha: string;
+  commit: {
+    author: {
+      name: string;
+      email: string;
+    } | null;
+  };
+  author: {
+    login: string;
+  } | null;
+}
+
+// Rate limit reported in the x-ratelimit-* headers of a response
+export interface GitHubRateLimit {
+  limit: number;
+  remaining: number;
+  resetAt: number; // epoch milliseconds
+}
+
+// Validators of an earlier response, sent back so GitHub can answer 304 Not Modified
+export interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+// GitHub issue reduced to the fields stored in the issues table
+export interface NormalizedIssue {
+  githubIssueId: number;
+  title: string;
+  url: string;
+  state: "open" | "closed";
+  labels: string[];
+  assignee?: string;
+  author?: string;
+  kind: ItemKind;
+  pullRequest?: PullRequestState;
+  milestone?: string;
+  linkedPullRequests?: number[]; // undefined when not fetched
+  commentCount?: number;
+  lastHumanCommentAt?: number; // only known from the GraphQL sync
+  reactionCount?: number; // only known from the GraphQL sync
+  activityTimeline?: ActivityEvent[]; // only known from the GraphQL sync
+  lastActivity: number;
+}
+
+export type ActivityEventType =
+  | "opened"
+  | "comment"
+  | "closed"
+  | "reopened"
+  | "renamed"
+  | "referenced"
+  | "labeled"
+  | "unlabeled"
+  | "assigned"
+  | "unassigned"
+  | "review"
+  | "commit";
+
+// Something that happened on an issue, stored so lastActivity can be recomputed
+export interface ActivityEvent {
+  type: ActivityEventType;
+  at: number;
+  actor?: string; // missing for deleted accounts and commits
+  bot?: boolean;
+  maintainer?: boolean; // comment or review by an owner, member or collaborator
+}
+
+// What counts as activity on a repository's issues
+export interface ActivitySettings {
+  ignoreBots: boolean; // GitHub Apps and [bot] logins
+  ignoredLogins: string[]; // further accounts whose activity is ignored
+  ignoreLabelChanges: boolean;
+  ignoreAssigneeChanges: boolean;
+  maintainerCommentsOnly: boolean; // comments by other people don't count
+}
+
+// GraphQL actor; __typename is "Bot" for GitHub Apps, null actors are deleted accounts
+export type GitHubGraphQLActor = { login: string; __typename: string } | null;
+
+// Timeline event of an issue or pull request in the GraphQL sync
+export interface GitHubGraphQLTimelineItem {
+  __typename: string; // e.g. "ClosedEvent", "LabeledEvent", "PullRequestReview"
+  createdAt?: string;
+  actor?: GitHubGraphQLActor;
+  author?: GitHubGraphQLActor; // reviews carry an author instead of an actor
+  authorAssociation?: string; // reviews only
+  commit?: { committedDate: string }; // PullRequestCommit
+  source?: { __typename: string; number?: number; state?: string }; // CrossReferencedEvent
+}
+
+// Issue or pull request node of the GraphQL sync query
+export interface GitHubGraphQLItem {
+  number: number;
+  title: string;
+  url: string;
+  state: "OPEN" | "CLOSED" | "MERGED";
+  createdAt: string;
+  updatedAt: string;
+  author: GitHubGraphQLActor;
+  assignees: { nodes: Array<{ login: string }> };
+  labels: { nodes: Array<{ name: string }> };
+  milestone: { title: string } | null;
+  reactions: { totalCount: number };
+  comments: {
+    totalCount: number;
+    nodes: Array<{ createdAt: string; author: GitHubGraphQLActor; authorAssociation?: string }>;
+  };
+  activity: { nodes: GitHubGraphQLTimelineItem[] };
+  references: { nodes: GitHubGraphQLTimelineItem[] };
+  // Pull requests only
+  isDraft?: boolean;
+  mergeable?: "MERGEABLE" | "CONFLICTING" | "UNKNOWN";
+  reviewRequests?: { totalCount: number };
+  commits?: { nodes: Array<{ commit: { statusCheckRollup: { state: string } | null } }> };
+}
+
+// Where an incomplete GraphQL sync stopped; the next run continues from here
+export interface IssueSyncResume {
+  phase: "issues" | "pull_requests";
+  cursor?: string;
+  since?: number; // lower bound of the interrupted sync
+  startedAt: number;
+}
+
+export interface IssueSyncResult {
+  issues: NormalizedIssue[];
+  complete: boolean;
+  resume?: IssueSyncResume; // set when the cost budget ran out
+  startedAt: number; // when the sync, including runs it resumed, began
+  cost: number; // GraphQL rate limit points spent
 }
 
 export interface GitHubRepository {
@@ -131,6 +453,7 @@ export interface CreateRuleFormData {
   labels: string[];
   issueStates: ("open" | "closed")[];
   assigneeCondition: "any" | "assigned" | "unassigned" | string[];
+  actionPolicy?: StaleActionPolicy;
 }
 
 export interface UpdateRuleFormData extends Partial<Omit<CreateRuleFormData, "repositoryId">> {
@@ -217,6 +540,38 @@ export interface DashboardSummary {
   lastUpdated: number;
 }
 
+// Open issues grouped by time since last activity
+export interface StalenessBuckets {
+  underOneWeek: number;
+  oneToFourWeeks: number;
+  oneToThreeMonths: number;
+  threeToSixMonths: number;
+  overSixMonths: number;
+}
+
+export type StalenessTrendRange = 30 | 90 | 365;
+
+export interface StalenessTrendPoint {
+  date: string; // UTC day, YYYY-MM-DD
+  openIssues: number | null; // null until the day's totals are captured
+  staleIssues: number | null;
+  newlyStale: number;
+  revived: number;
+  closedWhileStale: number;
+  buckets: StalenessBuckets | null;
+}
+
+export interface StalenessTrend {
+  range: StalenessTrendRange;
+  points: StalenessTrendPoint[];
+  summary: {
+    staleChange: number | null; // stale count at the end of the range minus at its start
+    newlyStale: number;
+    revived: number;
+    closedWhileStale: number;
+  };
+}
+
 export interface DashboardManagementData {
   repositories: RepositoryWithManagementInfo[];
   rules: RuleWithRepositoryInfo[];
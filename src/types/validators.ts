@@ -23,6 +23,8 @@ export const userProfileValidator = v.object({
 });
 
 // Repository validation schemas
+export const repositoryPriorityValidator = v.union(v.literal("high"), v.literal("normal"), v.literal("low"));
+
 export const repositoryValidator = v.object({
   userId: v.id("users"),
   githubId: v.number(),
@@ -32,6 +34,7 @@ export const repositoryValidator = v.object({
   rules: v.array(v.id("rules")),
   lastChecked: v.number(),
   lastIssueCount: v.number(),
+  priority: v.optional(repositoryPriorityValidator),
   createdAt: v.number(),
 });
 
@@ -43,6 +46,35 @@ export const assigneeConditionValidator = v.union(
   v.array(v.string())
 );
 
+export const staleActionPolicyValidator = v.object({
+  postComment: v.boolean(),
+  commentMessage: v.optional(v.string()),
+  addLabel: v.boolean(),
+  staleLabel: v.optional(v.string()),
+  closeIssue: v.boolean(),
+  daysUntilClose: v.optional(v.number()),
+});
+
+export const itemKindValidator = v.union(v.literal("issue"), v.literal("pull_request"));
+
+export const ruleItemKindValidator = v.union(v.literal("any"), v.literal("issue"), v.literal("pull_request"));
+
+export const pullRequestCriteriaValidator = v.object({
+  draft: v.optional(v.boolean()),
+  reviewRequested: v.optional(v.boolean()),
+  checksFailing: v.optional(v.boolean()),
+  hasConflicts: v.optional(v.boolean()),
+});
+
+export const pullRequestStateValidator = v.object({
+  draft: v.boolean(),
+  reviewRequested: v.optional(v.boolean()),
+  checksFailing: v.optional(v.boolean()),
+  hasConflicts: v.optional(v.boolean()),
+});
+
+export const exemptMilestonesValidator = v.union(v.literal("any"), v.array(v.string()));
+
 export const staleRuleValidator = v.object({
   userId: v.id("users"),
   repositoryId: v.id("repositories"),
@@ -51,11 +83,68 @@ export const staleRuleValidator = v.object({
   labels: v.array(v.string()),
   issueStates: v.array(v.union(v.literal("open"), v.literal("closed"))),
   assigneeCondition: assigneeConditionValidator,
+  exemptLabels: v.optional(v.array(v.string())),
+  exemptMilestones: v.optional(exemptMilestonesValidator),
+  exemptLinkedPullRequests: v.optional(v.boolean()),
+  exemptIssueNumbers: v.optional(v.array(v.number())),
+  condition: v.optional(v.string()),
+  itemKind: v.optional(ruleItemKindValidator),
+  pullRequestCriteria: v.optional(pullRequestCriteriaValidator),
+  actionPolicy: v.optional(staleActionPolicyValidator),
+  source: v.optional(v.literal("config")),
   isActive: v.boolean(),
   createdAt: v.number(),
   updatedAt: v.number(),
 });
 
+// Rule definition read from .github/stalebot.yml
+export const configRuleValidator = v.object({
+  name: v.string(),
+  inactivityDays: v.number(),
+  labels: v.array(v.string()),
+  issueStates: v.array(v.union(v.literal("open"), v.literal("closed"))),
+  assigneeCondition: assigneeConditionValidator,
+  exemptLabels: v.array(v.string()),
+  exemptMilestones: v.optional(exemptMilestonesValidator),
+  exemptLinkedPullRequests: v.optional(v.boolean()),
+  exemptIssueNumbers: v.optional(v.array(v.number())),
+  condition: v.optional(v.string()),
+  itemKind: ruleItemKindValidator,
+  pullRequestCriteria: v.optional(pullRequestCriteriaValidator),
+  actionPolicy: v.optional(staleActionPolicyValidator),
+});
+
+export const issueSnoozeValidator = v.union(
+  v.object({ type: v.literal("until_date"), until: v.number(), snoozedAt: v.number() }),
+  v.object({ type: v.literal("until_activity"), lastActivity: v.number(), snoozedAt: v.number() })
+);
+
+export const ruleCriterionValidator = v.union(
+  v.literal("inactivity"),
+  v.literal("state"),
+  v.literal("item_kind"),
+  v.literal("labels"),
+  v.literal("exemption"),
+  v.literal("snooze"),
+  v.literal("condition"),
+  v.literal("assignee")
+);
+
+export const staleEvaluationValidator = v.object({
+  evaluatedAt: v.number(),
+  rules: v.array(v.object({
+    ruleId: v.id("rules"),
+    ruleName: v.string(),
+    matched: v.boolean(),
+    summary: v.string(),
+    criteria: v.array(v.object({
+      criterion: ruleCriterionValidator,
+      passed: v.boolean(),
+      reason: v.string(),
+    })),
+  })),
+});
+
 // Issue validation schemas
 export const trackedIssueValidator = v.object({
   repositoryId: v.id("repositories"),
@@ -65,13 +154,79 @@ export const trackedIssueValidator = v.object({
   state: v.union(v.literal("open"), v.literal("closed")),
   labels: v.array(v.string()),
   assignee: v.optional(v.string()),
+  kind: v.optional(itemKindValidator),
+  pullRequest: v.optional(pullRequestStateValidator),
+  milestone: v.optional(v.string()),
+  linkedPullRequests: v.optional(v.array(v.number())),
+  commentCount: v.optional(v.number()),
   lastActivity: v.number(),
   isStale: v.boolean(),
   lastNotified: v.optional(v.number()),
+  snooze: v.optional(issueSnoozeValidator),
+  neverStale: v.optional(v.boolean()),
+  staleEvaluation: v.optional(staleEvaluationValidator),
   createdAt: v.number(),
   updatedAt: v.number(),
 });
 
+// Activity definition schemas
+export const activityEventValidator = v.object({
+  type: v.union(
+    v.literal("opened"),
+    v.literal("comment"),
+    v.literal("closed"),
+    v.literal("reopened"),
+    v.literal("renamed"),
+    v.literal("referenced"),
+    v.literal("labeled"),
+    v.literal("unlabeled"),
+    v.literal("assigned"),
+    v.literal("unassigned"),
+    v.literal("review"),
+    v.literal("commit")
+  ),
+  at: v.number(),
+  actor: v.optional(v.string()),
+  bot: v.optional(v.boolean()),
+  maintainer: v.optional(v.boolean()),
+});
+
+export const activitySettingsValidator = v.object({
+  ignoreBots: v.boolean(),
+  ignoredLogins: v.array(v.string()),
+  ignoreLabelChanges: v.boolean(),
+  ignoreAssigneeChanges: v.boolean(),
+  maintainerCommentsOnly: v.boolean(),
+});
+
+// Normalized GitHub issue handed from fetch actions to write mutations
+export const normalizedIssueValidator = v.object({
+  githubIssueId: v.number(),
+  title: v.string(),
+  url: v.string(),
+  state: v.union(v.literal("open"), v.literal("closed")),
+  labels: v.array(v.string()),
+  assignee: v.optional(v.string()),
+  author: v.optional(v.string()),
+  kind: itemKindValidator,
+  pullRequest: v.optional(pullRequestStateValidator),
+  milestone: v.optional(v.string()),
+  linkedPullRequests: v.optional(v.array(v.number())),
+  commentCount: v.optional(v.number()),
+  lastHumanCommentAt: v.optional(v.number()),
+  reactionCount: v.optional(v.number()),
+  activityTimeline: v.optional(v.array(activityEventValidator)),
+  lastActivity: v.number(),
+});
+
+// Where an unfinished GraphQL issue sync continues
+export const issueSyncResumeValidator = v.object({
+  phase: v.union(v.literal("issues"), v.literal("pull_requests")),
+  cursor: v.optional(v.string()),
+  since: v.optional(v.number()),
+  startedAt: v.number(),
+});
+
 // Notification validation schemas
 export const notificationStatusValidator = v.union(
   v.literal("pending"),
@@ -99,6 +254,14 @@ export const createRuleFormValidator = v.object({
   labels: v.array(v.string()),
   issueStates: v.array(v.union(v.literal("open"), v.literal("closed"))),
   assigneeCondition: assigneeConditionValidator,
+  exemptLabels: v.optional(v.array(v.string())),
+  exemptMilestones: v.optional(exemptMilestonesValidator),
+  exemptLinkedPullRequests: v.optional(v.boolean()),
+  exemptIssueNumbers: v.optional(v.array(v.number())),
+  condition: v.optional(v.string()),
+  itemKind: v.optional(ruleItemKindValidator),
+  pullRequestCriteria: v.optional(pullRequestCriteriaValidator),
+  actionPolicy: v.optional(staleActionPolicyValidator),
 });
 
 export const updateRuleFormValidator = v.object({
@@ -107,6 +270,14 @@ export const updateRuleFormValidator = v.object({
   labels: v.optional(v.array(v.string())),
   issueStates: v.optional(v.array(v.union(v.literal("open"), v.literal("closed")))),
   assigneeCondition: v.optional(assigneeConditionValidator),
+  exemptLabels: v.optional(v.array(v.string())),
+  exemptMilestones: v.optional(v.union(exemptMilestonesValidator, v.null())), // null removes the exemption
+  exemptLinkedPullRequests: v.optional(v.boolean()),
+  exemptIssueNumbers: v.optional(v.array(v.number())),
+  condition: v.optional(v.union(v.string(), v.null())), // null removes the condition
+  itemKind: v.optional(ruleItemKindValidator),
+  pullRequestCriteria: v.optional(v.union(pullRequestCriteriaValidator, v.null())), // null removes the criteria
+  actionPolicy: v.optional(v.union(staleActionPolicyValidator, v.null())), // null removes the policy
   isActive: v.optional(v.boolean()),
 });
 
@@ -140,6 +311,17 @@ export const githubIssueValidator = v.object({
   })),
   updated_at: v.string(),
   created_at: v.string(),
+  milestone: v.optional(v.union(v.object({
+    number: v.number(),
+    title: v.string(),
+  }), v.null())),
+  comments: v.optional(v.number()),
+  draft: v.optional(v.boolean()),
+  pull_request: v.optional(v.object({
+    url: v.string(),
+    html_url: v.string(),
+    merged_at: v.optional(v.union(v.string(), v.null())),
+  })),
 });
 
 export const githubRepositoryValidator = v.object({
@@ -210,6 +392,8 @@ export const testRuleConfigValidator = v.object({
   labels: v.array(v.string()),
   issueStates: v.array(v.union(v.literal("open"), v.literal("closed"))),
   assigneeCondition: assigneeConditionValidator,
+  itemKind: v.optional(ruleItemKindValidator),
+  pullRequestCriteria: v.optional(pullRequestCriteriaValidator),
 });
 
 // Rule status toggle validation
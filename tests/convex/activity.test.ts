@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_ACTIVITY_SETTINGS,
+  MAX_ACTIVITY_TIMELINE,
+  computeLastActivity,
+  countsAsActivity,
+  getActivitySettings,
+  normalizeIgnoredLogins,
+  trimActivityTimeline,
+  validateActivitySettings,
+} from "../../convex/lib/activity";
+import { toActivityEvent } from "../../convex/lib/githubWebhook";
+import { extractActivityTimeline } from "../../src/lib/github";
+import { ActivityEvent } from "../../src/types/index";
+
+const timeline: ActivityEvent[] = [
+  { type: "opened", at: 1000, actor: "octocat" },
+  { type: "comment", at: 2000, actor: "contributor", maintainer: false },
+  { type: "comment", at: 3000, actor: "maintainer", maintainer: true },
+  { type: "labeled", at: 4000, actor: "maintainer" },
+  { type: "assigned", at: 5000, actor: "maintainer" },
+  { type: "comment", at: 6000, actor: "stalebot[bot]", bot: true, maintainer: false },
+  { type: "comment", at: 7000, actor: "Release-Robot", maintainer: true },
+];
+
+describe("Activity Definition", () => {
+
+  describe("Settings", () => {
+    it("should ignore bots, StaleBot and bookkeeping by default", () => {
+      expect(getActivitySettings({})).toEqual(DEFAULT_ACTIVITY_SETTINGS);
+      expect(DEFAULT_ACTIVITY_SETTINGS.ignoredLogins).toContain("stalebot[bot]");
+    });
+
+    it("should normalize and validate ignored logins", () => {
+      expect(normalizeIgnoredLogins([" Release-Robot ", "release-robot", "", "renovate[bot]"]))
+        .toEqual(["release-robot", "renovate[bot]"]);
+
+      expect(validateActivitySettings({ ...DEFAULT_ACTIVITY_SETTINGS, ignoredLogins: ["renovate[bot]"] })).toEqual([]);
+      expect(validateActivitySettings({ ...DEFAULT_ACTIVITY_SETTINGS, ignoredLogins: ["not a login"] }))
+        .toEqual(['"not a login" is not a valid GitHub login']);
+    });
+  });
+
+  describe("Last activity", () => {
+    it("should skip bots, ignored accounts, labels and assignees by default", () => {
+      const settings = { ...DEFAULT_ACTIVITY_SETTINGS, ignoredLogins: ["release-robot"] };
+      expect(computeLastActivity(timeline, settings)).toBe(3000);
+    });
+
+    it("should count label and assignee changes when enabled", () => {
+      const settings = { ...DEFAULT_ACTIVITY_SETTINGS, ignoreLabelChanges: false, ignoreAssigneeChanges: false };
+      expect(computeLastActivity(timeline.slice(0, 5), settings)).toBe(5000);
+    });
+
+    it("should count bot comments when bots aren't ignored", () => {
+      const settings = { ...DEFAULT_ACTIVITY_SETTINGS, ignoreBots: false, ignoredLogins: [] };
+      expect(computeLastActivity(timeline.slice(0, 6), settings)).toBe(6000);
+    });
+
+    it("should only count maintainer comments when enabled", () => {
+      const settings = { ...DEFAULT_ACTIVITY_SETTINGS, maintainerCommentsOnly: true };
+      expect(computeLastActivity(timeline.slice(0, 2), settings)).toBe(1000);
+      expect(countsAsActivity(timeline[2], settings)).toBe(true);
+    });
+
+    it("should always count the opening of an issue", () => {
+      expect(countsAsActivity({ type: "opened", at: 1, actor: "dependabot[bot]", bot: true }, DEFAULT_ACTIVITY_SETTINGS)).toBe(true);
+      expect(computeLastActivity([], DEFAULT_ACTIVITY_SETTINGS)).toBeUndefined();
+    });
+
+    it("should keep the opening and the most recent events of long timelines", () => {
+      const long: ActivityEvent[] = [
+        { type: "opened", at: 0 },
+        ...Array.from({ length: MAX_ACTIVITY_TIMELINE + 10 }, (_, i) => ({ type: "comment" as const, at: i + 1 })),
+      ];
+      const trimmed = trimActivityTimeline(long);
+
+      expect(trimmed).toHaveLength(MAX_ACTIVITY_TIMELINE);
+      expect(trimmed[0].type).toBe("opened");
+      expect(trimmed[trimmed.length - 1].at).toBe(MAX_ACTIVITY_TIMELINE + 10);
+    });
+  });
+
+  describe("Timeline sources", () => {
+    it("should record maintainer comments from the GraphQL sync", () => {
+      const events = extractActivityTimeline({
+        number: 1,
+        title: "Bug",
+        url: "https://github.com/octo/repo/issues/1",
+        state: "OPEN",
+        createdAt: "2024-01-01T00:00:00Z",
+        updatedAt: "2024-01-03T00:00:00Z",
+        author: { login: "octocat", __typename: "User" },
+        assignees: { nodes: [] },
+        labels: { nodes: [] },
+        milestone: null,
+        reactions: { totalCount: 0 },
+        comments: {
+          totalCount: 1,
+          nodes: [{ createdAt: "2024-01-02T00:00:00Z", author: { login: "lead", __typename: "User" }, authorAssociation: "MEMBER" }],
+        },
+        activity: { nodes: [{ __typename: "LabeledEvent", createdAt: "2024-01-03T00:00:00Z", actor: { login: "lead", __typename: "User" } }] },
+        references: { nodes: [] },
+      });
+
+      expect(events.map(event => event.type)).toEqual(["opened", "comment", "labeled"]);
+      expect(events[1]).toMatchObject({ actor: "lead", maintainer: true });
+    });
+
+    it("should turn webhooks into activity events", () => {
+      expect(toActivityEvent("issue_comment", {
+        action: "created",
+        issue: { updated_at: "2024-01-05T00:00:00Z" },
+        comment: { created_at: "2024-01-04T00:00:00Z", user: { login: "renovate[bot]", type: "Bot" }, author_association: "NONE" },
+      })).toEqual({ type: "comment", at: Date.parse("2024-01-04T00:00:00Z"), actor: "renovate[bot]", bot: true, maintainer: false });
+
+      expect(toActivityEvent("issues", {
+        action: "edited",
+        changes: { title: { from: "Old" } },
+        issue: { updated_at: "2024-01-05T00:00:00Z" },
+        sender: { login: "octocat", type: "User" },
+      })).toMatchObject({ type: "renamed", actor: "octocat" });
+
+      expect(toActivityEvent("issues", { action: "milestoned", issue: { updated_at: "2024-01-05T00:00:00Z" } })).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { GitHubService, NotModifiedError } from "../../src/lib/github";
+import { CacheValidators } from "../../src/types/index";
+
+const createCache = (entries: Array<[string, CacheValidators]> = []) => {
+  const stored = new Map<string, CacheValidators>(entries);
+  return {
+    stored,
+    cache: {
+      get: (endpoint: string) => stored.get(endpoint),
+      set: (endpoint: string, validators: CacheValidators) => stored.set(endpoint, validators),
+    },
+  };
+};
+
+const sentHeaders = (fetchMock: ReturnType<typeof vi.fn>, call = 0) =>
+  fetchMock.mock.calls[call][1].headers as Record<string, string>;
+
+const issuesEndpoint = "/repos/octo/repo/issues?state=all&sort=updated&direction=desc&per_page=1";
+
+describe("Conditional Requests", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should store the validators of a changed response", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response("[]", {
+      status: 200,
+      headers: { etag: 'W/"abc"', "last-modified": "Fri, 01 Mar 2024 12:00:00 GMT" },
+    }));
+    vi.stubGlobal("fetch", fetchMock);
+    const { stored, cache } = createCache();
+
+    const changed = await new GitHubService({ conditionalCache: cache }).hasRepositoryIssueChanges("token", "octo", "repo");
+
+    expect(changed).toBe(true);
+    expect(sentHeaders(fetchMock)["If-None-Match"]).toBeUndefined();
+    expect(stored.get(issuesEndpoint)).toEqual({ etag: 'W/"abc"', lastModified: "Fri, 01 Mar 2024 12:00:00 GMT" });
+  });
+
+  it("should send cached validators and treat 304 as unchanged", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 304 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const { cache } = createCache([
+      [issuesEndpoint, { etag: 'W/"abc"', lastModified: "Fri, 01 Mar 2024 12:00:00 GMT" }],
+      ["/repos/octo/repo", { etag: 'W/"repo"' }],
+    ]);
+    const githubService = new GitHubService({ conditionalCache: cache });
+
+    expect(await githubService.hasRepositoryIssueChanges("token", "octo", "repo")).toBe(false);
+    expect(sentHeaders(fetchMock)).toMatchObject({
+      "If-None-Match": 'W/"abc"',
+      "If-Modified-Since": "Fri, 01 Mar 2024 12:00:00 GMT",
+    });
+
+    expect(await githubService.validateRepositoryAccess("token", "octo", "repo")).toBe(true);
+    expect(sentHeaders(fetchMock, 1)["If-None-Match"]).toBe('W/"repo"');
+
+    // Unchanged responses are not retried
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("should fetch the config file conditionally", async () => {
+    const configEndpoint = "/repos/octo/repo/contents/.github/stalebot.yml";
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 304 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const { cache } = createCache([[configEndpoint, { etag: '"config"' }]]);
+
+    await expect(
+      new GitHubService({ conditionalCache: cache }).fetchRepositoryFile("token", "octo", "repo", ".github/stalebot.yml")
+    ).rejects.toBeInstanceOf(NotModifiedError);
+    expect(sentHeaders(fetchMock)["If-None-Match"]).toBe('"config"');
+  });
+
+  it("should not make other requests conditional", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ rate: { limit: 5000, remaining: 4000, reset: 1 } }), {
+      status: 200,
+      headers: { etag: 'W/"rate"' },
+    }));
+    vi.stubGlobal("fetch", fetchMock);
+    const { stored, cache } = createCache([["/rate_limit", { etag: 'W/"old"' }]]);
+
+    await new GitHubService({ conditionalCache: cache }).getRateLimitStatus("token");
+
+    expect(sentHeaders(fetchMock)["If-None-Match"]).toBeUndefined();
+    expect(stored.get("/rate_limit")).toEqual({ etag: 'W/"old"' });
+  });
+});
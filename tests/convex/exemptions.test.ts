@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import {
+  getRuleExemption,
+  rulesNeedLinkedPullRequests,
+  validateExemptions,
+  withoutExemptions,
+} from "../../convex/lib/exemptions";
+import { normalizeGitHubIssue } from "../../src/lib/github";
+
+const createTestIssue = (overrides: any = {}) => ({
+  githubIssueId: 7,
+  labels: ["bug", "Security"],
+  milestone: "v2.0",
+  linkedPullRequests: [12, 15],
+  ...overrides,
+});
+
+describe("Rule Exemptions", () => {
+
+  it("should not exempt issues from rules without exemptions", () => {
+    expect(getRuleExemption(createTestIssue(), {})).toBeNull();
+  });
+
+  it("should exempt labels case-insensitively", () => {
+    expect(getRuleExemption(createTestIssue(), { exemptLabels: ["security"] })).toEqual({
+      type: "label",
+      reason: 'Has exempt label "Security"',
+    });
+    expect(getRuleExemption(createTestIssue(), { exemptLabels: ["pinned"] })).toBeNull();
+  });
+
+  it("should exempt any or specific milestones", () => {
+    expect(getRuleExemption(createTestIssue(), { exemptMilestones: "any" })).toEqual({
+      type: "milestone",
+      reason: 'In milestone "v2.0"',
+    });
+    expect(getRuleExemption(createTestIssue(), { exemptMilestones: ["V2.0"] })?.type).toBe("milestone");
+    expect(getRuleExemption(createTestIssue(), { exemptMilestones: ["v3.0"] })).toBeNull();
+    expect(getRuleExemption(createTestIssue({ milestone: undefined }), { exemptMilestones: "any" })).toBeNull();
+  });
+
+  it("should exempt issues with linked open pull requests", () => {
+    expect(getRuleExemption(createTestIssue(), { exemptLinkedPullRequests: true })).toEqual({
+      type: "linked_pull_request",
+      reason: "Linked to open pull request #12, #15",
+    });
+    expect(getRuleExemption(createTestIssue({ linkedPullRequests: [] }), { exemptLinkedPullRequests: true })).toBeNull();
+    expect(getRuleExemption(createTestIssue({ linkedPullRequests: undefined }), { exemptLinkedPullRequests: true })).toBeNull();
+  });
+
+  it("should always exempt listed issue numbers first", () => {
+    expect(getRuleExemption(createTestIssue(), { exemptIssueNumbers: [7], exemptLabels: ["bug"] })).toEqual({
+      type: "issue_number",
+      reason: "Issue #7 is always exempt",
+    });
+  });
+
+  it("should strip exemptions from a rule", () => {
+    const rule = { name: "Bugs", exemptLabels: ["bug"], exemptMilestones: "any" as const, exemptIssueNumbers: [7] };
+    const stripped = withoutExemptions(rule);
+
+    expect(stripped.name).toBe("Bugs");
+    expect(getRuleExemption(createTestIssue(), stripped)).toBeNull();
+  });
+
+  it("should only request linked pull requests when a rule uses them", () => {
+    expect(rulesNeedLinkedPullRequests([{ exemptLabels: ["bug"] }])).toBe(false);
+    expect(rulesNeedLinkedPullRequests([{}, { exemptLinkedPullRequests: true }])).toBe(true);
+  });
+
+  it("should validate exemption fields", () => {
+    expect(validateExemptions({
+      exemptLabels: ["security"],
+      exemptMilestones: "any",
+      exemptLinkedPullRequests: true,
+      exemptIssueNumbers: [1, 42],
+    })).toEqual([]);
+    expect(validateExemptions({
+      exemptLabels: [""],
+      exemptMilestones: "some",
+      exemptLinkedPullRequests: "yes",
+      exemptIssueNumbers: [0, 1.5],
+    })).toEqual([
+      "All exempt labels must be non-empty strings",
+      "Exempt milestones must be \"any\" or a list of milestone titles",
+      "Exempting issues with linked pull requests must be true or false",
+      "Exempt issue numbers must be positive whole numbers",
+    ]);
+  });
+
+  it("should keep the milestone title when normalizing issues", () => {
+    const normalized = normalizeGitHubIssue({
+      id: 1,
+      number: 7,
+      title: "Crash",
+      html_url: "https://github.com/octo/repo/issues/7",
+      state: "open",
+      labels: [],
+      assignee: null,
+      milestone: { number: 3, title: "v2.0" },
+      updated_at: "2024-03-01T12:00:00Z",
+      created_at: "2024-01-01T00:00:00Z",
+    });
+
+    expect(normalized.milestone).toBe("v2.0");
+  });
+});
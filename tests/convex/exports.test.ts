@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import {
+  ExportFilters,
+  NOTIFICATION_STATUSES,
+  STALE_ISSUE_COLUMNS,
+  STALE_ISSUE_STATUSES,
+  escapeCsvValue,
+  filterNotifications,
+  filterStaleIssues,
+  getExportFilename,
+  parseExportFilters,
+  toCsvLines,
+} from "../../convex/lib/exports";
+
+const JUNE_1 = Date.UTC(2024, 5, 1);
+const DAY = 24 * 60 * 60 * 1000;
+
+const staleIssue = (overrides: Record<string, any> = {}) => ({
+  repositoryFullName: "owner/repo",
+  githubIssueId: 42,
+  title: "Crash on start",
+  url: "https://github.com/owner/repo/issues/42",
+  state: "open" as const,
+  labels: ["bug"],
+  lastActivity: JUNE_1,
+  daysSinceActivity: 41,
+  staleReasons: ["matched rule 'Bugs': 41 days inactive ≥ 30"],
+  ...overrides,
+});
+
+const notification = (overrides: Record<string, any> = {}) => ({
+  sentAt: JUNE_1,
+  status: "delivered",
+  repository: { name: "repo", fullName: "owner/repo" },
+  issues: [{ title: "Crash on start", url: "https://github.com/owner/repo/issues/42", labels: ["bug"] }],
+  issueCount: 1,
+  ...overrides,
+});
+
+const parse = (query: string, statuses: readonly string[] = STALE_ISSUE_STATUSES) =>
+  parseExportFilters(new URLSearchParams(query), statuses);
+
+describe("Exports", () => {
+  describe("filter parsing", () => {
+    it("should default to CSV without filters", () => {
+      expect(parse("")).toEqual({ valid: true, filters: { format: "csv" } });
+    });
+
+    it("should read filters and make the date range inclusive", () => {
+      expect(parse("format=json&repository=owner/repo&label=bug&status=open&from=2024-06-01&to=2024-06-01")).toEqual({
+        valid: true,
+        filters: {
+          format: "json",
+          repository: "owner/repo",
+          label: "bug",
+          status: "open",
+          from: JUNE_1,
+          to: JUNE_1 + DAY - 1,
+        },
+      });
+    });
+
+    it("should reject invalid values", () => {
+      expect(parse("format=xml")).toEqual({ valid: false, reason: "format must be csv or json" });
+      expect(parse("from=06/01/2024")).toEqual({ valid: false, reason: "from must be a date formatted YYYY-MM-DD" });
+      expect(parse("from=2024-06-02&to=2024-06-01")).toEqual({ valid: false, reason: "from must not be after to" });
+      expect(parse("status=delivered")).toEqual({ valid: false, reason: "status must be one of open, closed" });
+      expect(parse("status=delivered", NOTIFICATION_STATUSES).valid).toBe(true);
+    });
+  });
+
+  describe("filtering", () => {
+    const filters = (overrides: Partial<ExportFilters>): ExportFilters => ({ format: "csv", ...overrides });
+
+    it("should filter stale issues by repository, label, last activity and state", () => {
+      const issues = [
+        staleIssue(),
+        staleIssue({ githubIssueId: 1, repositoryFullName: "owner/other" }),
+        staleIssue({ githubIssueId: 2, labels: ["docs"] }),
+        staleIssue({ githubIssueId: 3, lastActivity: JUNE_1 - DAY }),
+        staleIssue({ githubIssueId: 4, state: "closed" }),
+      ];
+
+      const result = filterStaleIssues(issues, filters({ repository: "owner/repo", label: "bug", from: JUNE_1, status: "open" }));
+      expect(result.map(issue => issue.githubIssueId)).toEqual([42]);
+    });
+
+    it("should filter notifications by the labels of their issues", () => {
+      const notifications = [
+        notification(),
+        notification({ issues: [{ title: "Docs", url: "u", labels: ["docs"] }] }),
+        notification({ status: "failed" }),
+        notification({ repository: null }),
+      ];
+
+      expect(filterNotifications(notifications, filters({ label: "bug" }))).toHaveLength(3);
+      expect(filterNotifications(notifications, filters({ status: "delivered", repository: "owner/repo" }))).toHaveLength(2);
+    });
+  });
+
+  describe("CSV", () => {
+    it("should quote separators and guard against spreadsheet formulas", () => {
+      expect(escapeCsvValue("plain")).toBe("plain");
+      expect(escapeCsvValue('Say "hi", then\nleave')).toBe('"Say ""hi"", then\nleave"');
+      expect(escapeCsvValue("=HYPERLINK(\"x\")")).toBe("\"'=HYPERLINK(\"\"x\"\")\"");
+      expect(escapeCsvValue(-3)).toBe("-3");
+      expect(escapeCsvValue(undefined)).toBe("");
+    });
+
+    it("should write a header and one line per stale issue", () => {
+      const lines = [...toCsvLines(STALE_ISSUE_COLUMNS, [staleIssue({ labels: ["bug", "p1"] })])];
+
+      expect(lines).toHaveLength(2);
+      expect(lines[0]).toBe(
+        "repository,number,title,url,kind,state,labels,assignee,last_activity,days_inactive,last_notified,stale_reasons\r\n"
+      );
+      expect(lines[1]).toBe(
+        "owner/repo,42,Crash on start,https://github.com/owner/repo/issues/42,issue,open,bug; p1,," +
+        "2024-06-01T00:00:00.000Z,41,,matched rule 'Bugs': 41 days inactive ≥ 30\r\n"
+      );
+    });
+
+    it("should name downloads after the export and day", () => {
+      expect(getExportFilename("stale-issues", "csv", JUNE_1)).toBe("stale-issues-2024-06-01.csv");
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { generateKeyPairSync, verify } from "node:crypto";
+import {
+  INSTALLATION_TOKEN_REFRESH_MARGIN_MS,
+  createAppJwt,
+  getGitHubAppConfig,
+  isRateLimitExhausted,
+  needsInstallationToken,
+  toPkcs8,
+} from "../../convex/lib/githubApp";
+import { GitHubService } from "../../src/lib/github";
+
+const NOW = Date.UTC(2024, 5, 1);
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const PKCS1_PEM = privateKey.export({ type: "pkcs1", format: "pem" }).toString();
+const PKCS8_PEM = privateKey.export({ type: "pkcs8", format: "pem" }).toString();
+
+const decodeSegment = (segment: string) => JSON.parse(Buffer.from(segment, "base64url").toString());
+
+describe("GitHub App Authentication", () => {
+  describe("app JWT", () => {
+    it("should sign an RS256 JWT verifiable with the app's public key", async () => {
+      const jwt = await createAppJwt({ appId: "12345", privateKey: PKCS1_PEM }, NOW);
+      const [header, payload, signature] = jwt.split(".");
+
+      expect(decodeSegment(header)).toEqual({ alg: "RS256", typ: "JWT" });
+      expect(decodeSegment(payload)).toEqual({
+        iat: NOW / 1000 - 60,
+        exp: NOW / 1000 + 9 * 60,
+        iss: "12345",
+      });
+      expect(verify("sha256", Buffer.from(`${header}.${payload}`), publicKey, Buffer.from(signature, "base64url"))).toBe(true);
+    });
+
+    it("should accept PKCS#8 keys as well as GitHub's PKCS#1 keys", async () => {
+      expect(Buffer.from(toPkcs8(PKCS1_PEM))).toEqual(
+        privateKey.export({ type: "pkcs8", format: "der" })
+      );
+      const jwt = await createAppJwt({ appId: "12345", privateKey: PKCS8_PEM }, NOW);
+      expect(jwt.split(".")).toHaveLength(3);
+    });
+  });
+
+  describe("configuration", () => {
+    const saved = { ...process.env };
+
+    beforeEach(() => {
+      delete process.env.GITHUB_APP_ID;
+      delete process.env.GITHUB_APP_PRIVATE_KEY;
+    });
+
+    afterEach(() => {
+      process.env = { ...saved };
+    });
+
+    it("should be off until both the app id and private key are set", () => {
+      process.env.GITHUB_APP_ID = "12345";
+      expect(getGitHubAppConfig()).toBeNull();
+    });
+
+    it("should unescape newlines in the private key", () => {
+      process.env.GITHUB_APP_ID = "12345";
+      process.env.GITHUB_APP_PRIVATE_KEY = PKCS1_PEM.replace(/\n/g, "\\n");
+
+      expect(getGitHubAppConfig()).toEqual({ appId: "12345", privateKey: PKCS1_PEM });
+    });
+  });
+
+  describe("installation tokens", () => {
+    it("should mint a token when none is cached or it is about to expire", () => {
+      expect(needsInstallationToken(undefined, NOW)).toBe(true);
+      expect(needsInstallationToken(NOW + INSTALLATION_TOKEN_REFRESH_MARGIN_MS, NOW)).toBe(true);
+      expect(needsInstallationToken(NOW + 60 * 60 * 1000, NOW)).toBe(false);
+    });
+
+    it("should prefer the installation token over the owner's token", () => {
+      expect(GitHubService.selectAccessToken({ installationToken: "ghs_app", userToken: "gho_user" }))
+        .toEqual({ token: "ghs_app", source: "installation" });
+      expect(GitHubService.selectAccessToken({ installationToken: null, userToken: "gho_user" }))
+        .toEqual({ token: "gho_user", source: "user" });
+    });
+  });
+
+  describe("installation rate limits", () => {
+    const rateLimit = { limit: 5000, remaining: 0, resetAt: NOW + 1000, updatedAt: NOW };
+
+    it("should be exhausted only while no requests remain before the reset", () => {
+      expect(isRateLimitExhausted(rateLimit, NOW)).toBe(true);
+      expect(isRateLimitExhausted(rateLimit, NOW + 1000)).toBe(false);
+      expect(isRateLimitExhausted({ ...rateLimit, remaining: 1 }, NOW)).toBe(false);
+      expect(isRateLimitExhausted(undefined, NOW)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  GitHubApiError,
+  GitHubService,
+  getHumanActivityAt,
+  getLastHumanCommentAt,
+  isBotActor,
+  normalizeGraphQLItem,
+} from "../../src/lib/github";
+import { GitHubGraphQLItem } from "../../src/types/index";
+
+const person = { login: "octocat", __typename: "User" };
+const bot = { login: "dependabot", __typename: "Bot" };
+
+const item = (overrides: Partial<GitHubGraphQLItem> = {}): GitHubGraphQLItem => ({
+  number: 7,
+  title: "Crash on startup",
+  url: "https://github.com/octo/repo/issues/7",
+  state: "OPEN",
+  createdAt: "2024-01-01T00:00:00Z",
+  updatedAt: "2024-03-01T00:00:00Z",
+  author: person,
+  assignees: { nodes: [{ login: "hubot" }] },
+  labels: { nodes: [{ name: "bug" }] },
+  milestone: { title: "v2" },
+  reactions: { totalCount: 4 },
+  comments: { totalCount: 0, nodes: [] },
+  activity: { nodes: [] },
+  references: { nodes: [] },
+  ...overrides,
+});
+
+const page = (nodes: GitHubGraphQLItem[], hasNextPage = false, cost = 1) => ({
+  data: {
+    rateLimit: { cost, remaining: 4000, resetAt: "2024-03-01T01:00:00Z" },
+    repository: { items: { pageInfo: { hasNextPage, endCursor: hasNextPage ? "next" : null }, nodes } },
+  },
+});
+
+const respond = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+
+describe("GraphQL Issue Sync", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("Human activity", () => {
+    it("should recognize bots by type and login", () => {
+      expect(isBotActor(bot)).toBe(true);
+      expect(isBotActor({ login: "renovate[bot]", __typename: "User" })).toBe(true);
+      expect(isBotActor(person)).toBe(false);
+      expect(isBotActor(null)).toBe(false);
+    });
+
+    it("should ignore bot comments", () => {
+      const issue = item({
+        comments: {
+          totalCount: 2,
+          nodes: [
+            { createdAt: "2024-02-01T00:00:00Z", author: person },
+            { createdAt: "2024-02-20T00:00:00Z", author: bot },
+          ],
+        },
+      });
+
+      expect(getLastHumanCommentAt(issue)).toBe(Date.parse("2024-02-01T00:00:00Z"));
+      expect(getHumanActivityAt(issue)).toBe(Date.parse("2024-02-01T00:00:00Z"));
+    });
+
+    it("should ignore label and assignee changes", () => {
+      const issue = item({
+        activity: {
+          nodes: [
+            { __typename: "LabeledEvent", createdAt: "2024-02-10T00:00:00Z", actor: person },
+            { __typename: "AssignedEvent", createdAt: "2024-02-11T00:00:00Z", actor: person },
+          ],
+        },
+      });
+
+      expect(getHumanActivityAt(issue)).toBe(Date.parse("2024-01-01T00:00:00Z"));
+    });
+
+    it("should count human timeline events and pushed commits", () => {
+      const issue = item({
+        activity: {
+          nodes: [
+            { __typename: "ReopenedEvent", createdAt: "2024-02-05T00:00:00Z", actor: person },
+            { __typename: "ClosedEvent", createdAt: "2024-02-25T00:00:00Z", actor: bot },
+            { __typename: "PullRequestCommit", commit: { committedDate: "2024-02-15T00:00:00Z" } },
+          ],
+        },
+      });
+
+      expect(getHumanActivityAt(issue)).toBe(Date.parse("2024-02-15T00:00:00Z"));
+    });
+  });
+
+  describe("Normalization", () => {
+    it("should normalize an issue with its linked pull requests and reactions", () => {
+      const normalized = normalizeGraphQLItem(item({
+        references: {
+          nodes: [
+            { __typename: "CrossReferencedEvent", source: { __typename: "PullRequest", number: 9, state: "OPEN" } },
+            { __typename: "CrossReferencedEvent", source: { __typename: "PullRequest", number: 3, state: "MERGED" } },
+            { __typename: "CrossReferencedEvent", source: { __typename: "Issue", number: 4, state: "OPEN" } },
+          ],
+        },
+      }), "issue");
+
+      expect(normalized).toMatchObject({
+        githubIssueId: 7,
+        state: "open",
+        labels: ["bug"],
+        assignee: "hubot",
+        author: "octocat",
+        milestone: "v2",
+        kind: "issue",
+        linkedPullRequests: [9],
+        reactionCount: 4,
+        lastActivity: Date.parse("2024-01-01T00:00:00Z"),
+      });
+    });
+
+    it("should summarize pull request state", () => {
+      const normalized = normalizeGraphQLItem(item({
+        state: "MERGED",
+        isDraft: false,
+        mergeable: "CONFLICTING",
+        reviewRequests: { totalCount: 1 },
+        commits: { nodes: [{ commit: { statusCheckRollup: { state: "FAILURE" } } }] },
+      }), "pull_request");
+
+      expect(normalized.state).toBe("closed");
+      expect(normalized.linkedPullRequests).toBeUndefined();
+      expect(normalized.pullRequest).toEqual({
+        draft: false,
+        reviewRequested: true,
+        checksFailing: true,
+        hasConflicts: true,
+      });
+    });
+  });
+
+  describe("Pagination", () => {
+    it("should page through issues and then pull requests until reaching since", async () => {
+      const since = Date.parse("2024-02-01T00:00:00Z");
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(respond(page([item({ number: 1 })], true)))
+        .mockResolvedValueOnce(respond(page([item({ number: 2 })])))
+        .mockResolvedValueOnce(respond(page([
+          item({ number: 3 }),
+          item({ number: 4, updatedAt: "2024-01-15T00:00:00Z" }),
+        ], true)));
+      vi.stubGlobal("fetch", fetchMock);
+
+      const result = await new GitHubService().syncRepositoryIssues("token", "octo", "repo", { since });
+
+      expect(result.complete).toBe(true);
+      expect(result.issues.map(issue => [issue.githubIssueId, issue.kind])).toEqual([
+        [1, "issue"],
+        [2, "issue"],
+        [3, "pull_request"],
+      ]);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(JSON.parse(fetchMock.mock.calls[1][1].body).variables.cursor).toBe("next");
+    });
+
+    it("should stop at the cost budget and resume where it stopped", async () => {
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValueOnce(respond(page([item({ number: 1 })], true, 5))));
+
+      const paused = await new GitHubService().syncRepositoryIssues("token", "octo", "repo", { costBudget: 5 });
+      expect(paused.complete).toBe(false);
+      expect(paused.resume).toMatchObject({ phase: "issues", cursor: "next" });
+
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(respond(page([item({ number: 2 })])))
+        .mockResolvedValueOnce(respond(page([])));
+      vi.stubGlobal("fetch", fetchMock);
+
+      const resumed = await new GitHubService().syncRepositoryIssues("token", "octo", "repo", { resume: paused.resume });
+      expect(resumed.complete).toBe(true);
+      expect(resumed.startedAt).toBe(paused.startedAt);
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).variables.cursor).toBe("next");
+    });
+
+    it("should throw errors reported in a successful response", async () => {
+      vi.stubGlobal("fetch", vi.fn().mockResolvedValue(respond({ errors: [{ type: "INTERNAL", message: "Something went wrong" }] })));
+
+      await expect(new GitHubService().graphql("token", "query {}", {})).rejects.toBeInstanceOf(GitHubApiError);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeGitHubSignature,
+  verifyGitHubSignature,
+  isSupportedGitHubEvent,
+  parseGitHubWebhook,
+} from "../../convex/lib/githubWebhook";
+
+const SECRET = "It's a Secret to Everybody";
+const BODY = "Hello, World!";
+// Test vector from GitHub's webhook validation documentation
+const EXPECTED_SIGNATURE = "sha256=757107ea0eb2509fc211221cce984b8a37570b6d7586c22c46f4379c8b043e17";
+
+describe("GitHub Webhook Ingestion", () => {
+
+  describe("Signature verification", () => {
+    it("should compute the documented signature", async () => {
+      expect(await computeGitHubSignature(SECRET, BODY)).toBe(EXPECTED_SIGNATURE);
+    });
+
+    it("should accept a valid signature", async () => {
+      expect(await verifyGitHubSignature(SECRET, BODY, EXPECTED_SIGNATURE)).toBe(true);
+    });
+
+    it("should reject missing, malformed or mismatched signatures", async () => {
+      expect(await verifyGitHubSignature(SECRET, BODY, null)).toBe(false);
+      expect(await verifyGitHubSignature(SECRET, BODY, EXPECTED_SIGNATURE.replace("sha256=", "sha1="))).toBe(false);
+      expect(await verifyGitHubSignature(SECRET, BODY + " ", EXPECTED_SIGNATURE)).toBe(false);
+      expect(await verifyGitHubSignature("other-secret", BODY, EXPECTED_SIGNATURE)).toBe(false);
+    });
+  });
+
+  describe("Event filtering", () => {
+    it("should accept supported events only", () => {
+      expect(isSupportedGitHubEvent("issues")).toBe(true);
+      expect(isSupportedGitHubEvent("issue_comment")).toBe(true);
+      expect(isSupportedGitHubEvent("pull_request")).toBe(true);
+      expect(isSupportedGitHubEvent("label")).toBe(true);
+      expect(isSupportedGitHubEvent("installation")).toBe(true);
+      expect(isSupportedGitHubEvent("installation_repositories")).toBe(true);
+      expect(isSupportedGitHubEvent("push")).toBe(false);
+      expect(isSupportedGitHubEvent(null)).toBe(false);
+    });
+  });
+
+  describe("Payload parsing", () => {
+    const repository = { id: 42, full_name: "octo/repo" };
+    const issue = {
+      id: 1001,
+      number: 7,
+      title: "Crash on startup",
+      html_url: "https://github.com/octo/repo/issues/7",
+      state: "open",
+      labels: [{ name: "bug" }],
+      assignee: { login: "octocat" },
+      updated_at: "2024-03-01T12:00:00Z",
+      created_at: "2024-01-01T00:00:00Z",
+    };
+
+    it("should normalize the issue of an issue_comment event", () => {
+      const update = parseGitHubWebhook("issue_comment", { action: "created", repository, issue });
+
+      expect(update).toEqual({
+        kind: "issue",
+        githubRepoId: 42,
+        issue: {
+          githubIssueId: 7,
+          title: "Crash on startup",
+          url: "https://github.com/octo/repo/issues/7",
+          state: "open",
+          labels: ["bug"],
+          assignee: "octocat",
+          kind: "issue",
+          lastActivity: Date.parse("2024-03-01T12:00:00Z"),
+        },
+      });
+    });
+
+    it("should normalize the pull request of a pull_request event", () => {
+      const update = parseGitHubWebhook("pull_request", {
+        action: "synchronize",
+        repository,
+        pull_request: {
+          ...issue,
+          number: 8,
+          assignee: null,
+          draft: true,
+          mergeable: false,
+          requested_reviewers: [{ login: "reviewer" }],
+          head: { sha: "abc123" },
+        },
+      });
+
+      expect(update?.kind).toBe("issue");
+      if (update?.kind === "issue") {
+        expect(update.issue.githubIssueId).toBe(8);
+        expect(update.issue.assignee).toBeUndefined();
+        expect(update.issue.kind).toBe("pull_request");
+        expect(update.issue.pullRequest).toEqual({
+          draft: true,
+          reviewRequested: true,
+          checksFailing: undefined,
+          hasConflicts: true,
+        });
+      }
+    });
+
+    it("should parse label renames and deletions", () => {
+      expect(parseGitHubWebhook("label", {
+        action: "edited",
+        repository,
+        label: { name: "defect" },
+        changes: { name: { from: "bug" } },
+      })).toEqual({ kind: "label", githubRepoId: 42, action: "edited", labelName: "defect", previousName: "bug" });
+
+      expect(parseGitHubWebhook("label", {
+        action: "deleted",
+        repository,
+        label: { name: "wontfix" },
+      })).toEqual({ kind: "label", githubRepoId: 42, action: "deleted", labelName: "wontfix" });
+    });
+
+    it("should parse app installations and their repositories", () => {
+      const installation = { id: 99, account: { login: "octo-org", type: "Organization" } };
+
+      expect(parseGitHubWebhook("installation", {
+        action: "created",
+        installation,
+        repositories: [{ id: 42 }, { id: 43 }],
+      })).toEqual({
+        kind: "installation",
+        action: "created",
+        installationId: 99,
+        account: { login: "octo-org", type: "Organization" },
+        addedRepoIds: [42, 43],
+        removedRepoIds: [],
+      });
+
+      expect(parseGitHubWebhook("installation_repositories", {
+        action: "removed",
+        installation,
+        repositories_added: [],
+        repositories_removed: [{ id: 42 }],
+      })).toMatchObject({ action: "removed", addedRepoIds: [], removedRepoIds: [42] });
+
+      expect(parseGitHubWebhook("installation", { action: "new_permissions_accepted", installation })).toBeNull();
+    });
+
+    it("should ignore payloads that do not affect stored issues", () => {
+      expect(parseGitHubWebhook("label", { action: "created", repository, label: { name: "new" } })).toBeNull();
+      expect(parseGitHubWebhook("label", { action: "edited", repository, label: { name: "bug" }, changes: {} })).toBeNull();
+      expect(parseGitHubWebhook("issues", { action: "opened", issue })).toBeNull();
+      expect(parseGitHubWebhook("issues", { action: "opened", repository })).toBeNull();
+    });
+  });
+});
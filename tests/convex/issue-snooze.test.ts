@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import {
+  ISSUE_ACTION_LINK_TTL_MS,
+  createIssueActionToken,
+  describeIssueAction,
+  getSnoozeReason,
+  snoozeUntilActivity,
+  snoozeUntilDate,
+  verifyIssueActionToken,
+} from "../../convex/lib/issueSnooze";
+import { evaluateRule } from "../../convex/lib/rulesEngine";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 5, 1);
+const SECRET = "issue-action-secret";
+
+describe("Issue snooze", () => {
+  const issue = {
+    githubIssueId: 7,
+    state: "open" as const,
+    labels: ["bug"],
+    lastActivity: NOW - 40 * DAY,
+  };
+  const rule = {
+    name: "Bugs 30d",
+    inactivityDays: 30,
+    labels: [],
+    issueStates: ["open" as const],
+    assigneeCondition: "any" as const,
+  };
+
+  describe("getSnoozeReason", () => {
+    it("should keep a date snooze until the date passes", () => {
+      const snooze = snoozeUntilDate(NOW + 10 * DAY, NOW);
+
+      expect(getSnoozeReason({ ...issue, snooze }, NOW)).toBe("Snoozed until 2024-06-11");
+      expect(getSnoozeReason({ ...issue, snooze }, NOW + 10 * DAY)).toBeNull();
+    });
+
+    it("should keep an activity snooze until the issue sees new activity", () => {
+      const snooze = snoozeUntilActivity(issue.lastActivity, NOW);
+
+      expect(getSnoozeReason({ ...issue, snooze }, NOW + 100 * DAY)).toBe("Snoozed until next activity");
+      expect(getSnoozeReason({ ...issue, snooze, lastActivity: NOW + DAY }, NOW + 2 * DAY)).toBeNull();
+    });
+
+    it("should always keep never-stale issues quiet", () => {
+      expect(getSnoozeReason({ ...issue, neverStale: true }, NOW)).toBe("Marked as never stale");
+      expect(getSnoozeReason(issue, NOW)).toBeNull();
+    });
+  });
+
+  describe("snoozeUntilDate", () => {
+    it("should reject dates in the past or more than a year ahead", () => {
+      expect(() => snoozeUntilDate(NOW - DAY, NOW)).toThrow("Snooze date must be in the future");
+      expect(() => snoozeUntilDate(NOW + 400 * DAY, NOW)).toThrow("at most 365 days");
+    });
+  });
+
+  describe("rule evaluation", () => {
+    it("should not match snoozed or never-stale issues", () => {
+      expect(evaluateRule(issue, rule, NOW).matched).toBe(true);
+
+      const snoozed = evaluateRule({ ...issue, snooze: snoozeUntilDate(NOW + DAY, NOW) }, rule, NOW);
+      expect(snoozed.matched).toBe(false);
+      expect(snoozed.criteria.find(criterion => criterion.criterion === "snooze")).toEqual({
+        criterion: "snooze",
+        passed: false,
+        reason: "Snoozed until 2024-06-02",
+      });
+
+      expect(evaluateRule({ ...issue, neverStale: true }, rule, NOW).matched).toBe(false);
+    });
+
+    it("should match again once a snooze lapses", () => {
+      const snoozed = { ...issue, snooze: snoozeUntilDate(NOW + DAY, NOW) };
+      expect(evaluateRule(snoozed, rule, NOW + 2 * DAY).matched).toBe(true);
+    });
+  });
+
+  describe("action link tokens", () => {
+    const payload = { issueId: "issue-123", action: "snooze" as const, days: 30, nonce: "nonce-1", expiresAt: NOW + ISSUE_ACTION_LINK_TTL_MS };
+
+    it("should round-trip a signed payload", async () => {
+      const token = await createIssueActionToken(SECRET, payload);
+
+      expect(await verifyIssueActionToken(SECRET, token, NOW)).toEqual({ valid: true, payload });
+    });
+
+    it("should reject tampered tokens and other secrets", async () => {
+      const token = await createIssueActionToken(SECRET, payload);
+      const [, signature] = token.split(".");
+      const forged = `${Buffer.from(JSON.stringify({ ...payload, action: "never_stale" })).toString("base64url")}.${signature}`;
+
+      expect(await verifyIssueActionToken(SECRET, forged, NOW)).toEqual({ valid: false, reason: "Invalid signature" });
+      expect(await verifyIssueActionToken("other-secret", token, NOW)).toEqual({ valid: false, reason: "Invalid signature" });
+      expect(await verifyIssueActionToken(SECRET, null, NOW)).toEqual({ valid: false, reason: "Missing token" });
+    });
+
+    it("should reject expired links", async () => {
+      const token = await createIssueActionToken(SECRET, payload);
+
+      expect(await verifyIssueActionToken(SECRET, token, payload.expiresAt)).toEqual({ valid: false, reason: "Link has expired" });
+    });
+
+    it("should reject tokens without a nonce", async () => {
+      const { nonce: _nonce, ...withoutNonce } = payload;
+      const token = await createIssueActionToken(SECRET, withoutNonce as typeof payload);
+
+      expect(await verifyIssueActionToken(SECRET, token, NOW)).toEqual({ valid: false, reason: "Malformed token" });
+    });
+
+    it("should describe the action on the confirmation page", () => {
+      expect(describeIssueAction(payload)).toBe("Snooze this issue for 30 days");
+      expect(describeIssueAction({ action: "snooze_until_activity" })).toBe("Snooze this issue until its next activity");
+      expect(describeIssueAction({ action: "never_stale" })).toBe("Never mark this issue as stale");
+    });
+  });
+});
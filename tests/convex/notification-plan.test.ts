@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { RecipientUser, planNotificationRecipients } from "../../convex/lib/notificationPlan";
+import { DEFAULT_NOTIFICATION_PREFERENCES } from "../../convex/notificationPreferences";
+
+const NOW = Date.UTC(2024, 5, 1, 12);
+
+const user = (email: string, preferences: Partial<RecipientUser["notificationPreferences"]> = {}): RecipientUser => ({
+  email,
+  notificationPreferences: { ...DEFAULT_NOTIFICATION_PREFERENCES, ...preferences },
+});
+
+describe("Simulated Notification Recipients", () => {
+  const issues = [
+    { _id: "1", assignee: "alice", author: "carol" },
+    { _id: "2", author: "dave" },
+  ];
+  const participants = new Map([
+    ["alice", { user: user("alice@example.com", { emailFrequency: "daily" }) }],
+    ["carol", { contact: { email: "carol@example.com", resolvedAt: NOW } }],
+    ["dave", { contact: { resolvedAt: NOW, unsubscribedAt: NOW } }],
+  ]);
+
+  it("should email every workspace member by their own preferences", () => {
+    const recipients = planNotificationRecipients({
+      issues,
+      members: [user("owner@example.com"), user("admin@example.com", { emailFrequency: "weekly" })],
+      participants: new Map(),
+      settings: { assignees: false, authors: false },
+      now: NOW,
+    });
+
+    expect(recipients).toEqual([
+      expect.objectContaining({ role: "member", name: "owner@example.com", delivery: "immediate", content: "issues", issueCount: 2, wouldSend: true }),
+      expect.objectContaining({ role: "member", name: "admin@example.com", delivery: "weekly", wouldSend: true, reason: "Queued for the weekly digest" }),
+    ]);
+  });
+
+  it("should email assignees and authors and send members a summary", () => {
+    const recipients = planNotificationRecipients({
+      issues,
+      members: [user("owner@example.com", { pauseNotifications: true })],
+      participants,
+      settings: { assignees: true, authors: true },
+      now: NOW,
+    });
+
+    expect(recipients).toEqual([
+      expect.objectContaining({ role: "member", content: "summary", wouldSend: false, reason: "Notifications are paused" }),
+      expect.objectContaining({ role: "assignee", name: "alice", email: "alice@example.com", delivery: "daily", issueCount: 1, wouldSend: true }),
+      expect.objectContaining({ role: "author", name: "carol", email: "carol@example.com", delivery: "immediate", wouldSend: true }),
+      expect.objectContaining({ role: "author", name: "dave", wouldSend: false, reason: "Unsubscribed from StaleBot emails" }),
+    ]);
+  });
+
+  it("should flag participants whose email is not known yet", () => {
+    const recipients = planNotificationRecipients({
+      issues: [{ _id: "1", assignee: "erin" }],
+      members: [],
+      participants: new Map(),
+      settings: { assignees: true, authors: false },
+      now: NOW,
+    });
+
+    expect(recipients).toEqual([
+      expect.objectContaining({ role: "assignee", name: "erin", wouldSend: false, reason: "Email would be looked up on GitHub first" }),
+    ]);
+  });
+
+  it("should plan nothing without issues to notify about", () => {
+    expect(planNotificationRecipients({
+      issues: [],
+      members: [user("owner@example.com")],
+      participants,
+      settings: { assignees: true, authors: true },
+      now: NOW,
+    })).toEqual([]);
+  });
+});
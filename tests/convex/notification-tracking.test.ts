@@ -1,5 +1,8 @@
 import { describe, it, expect } from "vitest";
 import {
+    generateAuthorCheckInEmailHtml,
+    generateOwnerSummaryEmailHtml,
+    generateOwnerSummaryEmailText,
     generateStaleIssueEmailHtml,
     generateStaleIssueEmailText
 } from "../../convex/notifications";
@@ -51,6 +54,51 @@ describe("Notification Tracking and History", () => {
         expect(emailHtml).toContain("test-token-123");
     });
 
+    it("should explain why each issue is stale and link to the dashboard", () => {
+        const staleIssues = [
+            {
+                id: "issue-123",
+                title: "Test Issue 1",
+                url: "https://github.com/test/repo/issues/1",
+                lastActivity: Date.now() - (41 * 24 * 60 * 60 * 1000),
+                labels: ["bug"],
+                staleReasons: ["matched rule 'Bugs 30d': 41 days inactive ≥ 30, has label \"bug\""],
+            },
+        ];
+
+        const emailHtml = generateStaleIssueEmailHtml("test/repo", staleIssues, { emailTemplate: "default" });
+        const emailText = generateStaleIssueEmailText("test/repo", staleIssues);
+
+        expect(emailHtml).toContain("Why stale: matched rule &#39;Bugs 30d&#39;: 41 days inactive ≥ 30, has label &quot;bug&quot;");
+        expect(emailHtml).toContain("/dashboard?issue=issue-123");
+        expect(emailText).toContain("Why stale: matched rule 'Bugs 30d': 41 days inactive ≥ 30, has label \"bug\"");
+        expect(emailText).toContain("Details: https://stalebot.dev/dashboard?issue=issue-123");
+    });
+
+    it("should include one-click snooze links when they are available", () => {
+        const staleIssues = [
+            {
+                title: "Test Issue 1",
+                url: "https://github.com/test/repo/issues/1",
+                lastActivity: Date.now() - (30 * 24 * 60 * 60 * 1000),
+                labels: [],
+                actionLinks: {
+                    snooze: "https://example.convex.site/issues/action?token=snooze",
+                    snoozeUntilActivity: "https://example.convex.site/issues/action?token=activity",
+                    neverStale: "https://example.convex.site/issues/action?token=never",
+                },
+            },
+        ];
+
+        const emailHtml = generateStaleIssueEmailHtml("test/repo", staleIssues, { emailTemplate: "default" });
+        const emailText = generateStaleIssueEmailText("test/repo", staleIssues);
+
+        expect(emailHtml).toContain('href="https://example.convex.site/issues/action?token=snooze"');
+        expect(emailHtml).toContain("Snooze until next activity");
+        expect(emailHtml).toContain("Never mark stale");
+        expect(emailText).toContain("Never mark stale: https://example.convex.site/issues/action?token=never");
+    });
+
     it("should generate proper plain text email", () => {
         const staleIssues = [
             {
@@ -259,4 +307,38 @@ describe("Notification Tracking and History", () => {
         const emailText = generateStaleIssueEmailText("test/repo", staleIssues);
         expect(emailText).toContain("<script>alert('xss')</script>"); // Plain text preserves original
     });
+
+    it("should summarize assigned issues for the owner and list only the rest", () => {
+        const summary = {
+            total: 3,
+            assigned: [{ login: "alice", count: 2 }],
+            unassignedIssues: [{
+                title: "Nobody owns this",
+                url: "https://github.com/test/repo/issues/3",
+                lastActivity: Date.now() - (40 * 24 * 60 * 60 * 1000),
+            }],
+        };
+
+        const emailHtml = generateOwnerSummaryEmailHtml("test/repo", summary, "token-123");
+        expect(emailHtml).toContain("3 issues went stale in test/repo");
+        expect(emailHtml).toContain("@alice: 2 issues");
+        expect(emailHtml).toContain("Nobody owns this");
+        expect(emailHtml).toContain("unsubscribe?token=token-123");
+
+        const emailText = generateOwnerSummaryEmailText("test/repo", summary);
+        expect(emailText).toContain("@alice: 2 issues");
+        expect(emailText).toContain("https://github.com/test/repo/issues/3");
+    });
+
+    it("should ask authors whether their issue is still relevant, escaping its title", () => {
+        const emailHtml = generateAuthorCheckInEmailHtml("test/repo", [{
+            title: "<b>Old</b> request",
+            url: "https://github.com/test/repo/issues/4",
+            lastActivity: Date.now() - (60 * 24 * 60 * 60 * 1000),
+        }]);
+
+        expect(emailHtml).toContain("Is this still relevant?");
+        expect(emailHtml).toContain("&lt;b&gt;Old&lt;/b&gt; request");
+        expect(emailHtml).toContain("60 days inactive");
+    });
 });
\ No newline at end of file
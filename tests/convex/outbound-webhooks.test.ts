@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildWebhookPayload,
+  computeWebhookSignature,
+  generateWebhookSecret,
+  getWebhookRetryDelayMs,
+  isOutboundWebhookEvent,
+  isValidWebhookUrl,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from "../../convex/lib/outboundWebhooks";
+
+const SECRET = "whsec_test-secret";
+const NOW = Date.UTC(2024, 0, 31, 12, 0, 0);
+const BODY = JSON.stringify(buildWebhookPayload("evt_1", "issue.became_stale", { issue: { id: "i1" } }, NOW));
+
+describe("Outbound Webhooks", () => {
+
+  it("should build a typed JSON payload", () => {
+    expect(JSON.parse(BODY)).toEqual({
+      id: "evt_1",
+      type: "issue.became_stale",
+      createdAt: "2024-01-31T12:00:00.000Z",
+      data: { issue: { id: "i1" } },
+    });
+  });
+
+  it("should sign the timestamp and body with HMAC-SHA256", async () => {
+    const header = await signWebhookPayload(SECRET, BODY, NOW);
+    const timestamp = Math.floor(NOW / 1000);
+
+    expect(header).toBe(`t=${timestamp},v1=${await computeWebhookSignature(SECRET, timestamp, BODY)}`);
+    expect(header).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+  });
+
+  it("should verify its own signatures", async () => {
+    const header = await signWebhookPayload(SECRET, BODY, NOW);
+
+    expect(await verifyWebhookSignature(SECRET, header, BODY, 300, NOW)).toBe(true);
+    expect(await verifyWebhookSignature(SECRET, header, BODY + " ", 300, NOW)).toBe(false);
+    expect(await verifyWebhookSignature("whsec_other", header, BODY, 300, NOW)).toBe(false);
+    expect(await verifyWebhookSignature(SECRET, null, BODY, 300, NOW)).toBe(false);
+  });
+
+  it("should reject signatures outside the tolerance", async () => {
+    const header = await signWebhookPayload(SECRET, BODY, NOW);
+
+    expect(await verifyWebhookSignature(SECRET, header, BODY, 300, NOW + 301 * 1000)).toBe(false);
+  });
+
+  it("should generate distinct prefixed secrets", () => {
+    const first = generateWebhookSecret();
+
+    expect(first).toMatch(/^whsec_[A-Za-z0-9_-]{43}$/);
+    expect(generateWebhookSecret()).not.toBe(first);
+  });
+
+  it("should only accept https endpoints and known events", () => {
+    expect(isValidWebhookUrl("https://example.com/hook")).toBe(true);
+    expect(isValidWebhookUrl("http://example.com/hook")).toBe(false);
+    expect(isValidWebhookUrl("not a url")).toBe(false);
+    expect(isOutboundWebhookEvent("issue.unstaled")).toBe(true);
+    expect(isOutboundWebhookEvent("issue.closed")).toBe(false);
+  });
+
+  it("should back off exponentially up to an hour", () => {
+    expect(getWebhookRetryDelayMs(1)).toBe(30 * 1000);
+    expect(getWebhookRetryDelayMs(2)).toBe(60 * 1000);
+    expect(getWebhookRetryDelayMs(4)).toBe(4 * 60 * 1000);
+    expect(getWebhookRetryDelayMs(20)).toBe(60 * 60 * 1000);
+  });
+});
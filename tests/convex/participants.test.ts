@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  CONTACT_REFRESH_MS,
+  DEFAULT_PARTICIPANT_NOTIFICATIONS,
+  getParticipantSettings,
+  groupIssuesByParticipant,
+  needsContactLookup,
+  selectCommitEmail,
+  summarizeForOwner,
+} from "../../convex/lib/participants";
+import { GitHubCommit } from "../../src/types/index";
+
+const NOW = Date.UTC(2024, 5, 1);
+
+const commit = (login: string | null, email: string): GitHubCommit => ({
+  sha: "abc123",
+  commit: { author: { name: "Someone", email } },
+  author: login ? { login } : null,
+});
+
+describe("Issue Participant Notifications", () => {
+  const issues = [
+    { _id: "i1", assignee: "alice", author: "carol" },
+    { _id: "i2", assignee: "alice", author: "alice" },
+    { _id: "i3", author: "carol" },
+    { _id: "i4", assignee: "dependabot[bot]", author: "bob" },
+  ];
+
+  describe("settings", () => {
+    it("should email assignees but not authors by default", () => {
+      expect(getParticipantSettings({})).toEqual(DEFAULT_PARTICIPANT_NOTIFICATIONS);
+      expect(DEFAULT_PARTICIPANT_NOTIFICATIONS).toEqual({ assignees: true, authors: false });
+    });
+  });
+
+  describe("grouping", () => {
+    it("should give each assignee one list of their issues and skip bots", () => {
+      expect(groupIssuesByParticipant(issues, { assignees: true, authors: false })).toEqual([
+        { login: "alice", role: "assignee", issueIds: ["i1", "i2"] },
+      ]);
+    });
+
+    it("should ask authors about issues they are not already emailed about as assignee", () => {
+      expect(groupIssuesByParticipant(issues, { assignees: true, authors: true })).toEqual([
+        { login: "alice", role: "assignee", issueIds: ["i1", "i2"] },
+        { login: "carol", role: "author", issueIds: ["i1", "i3"] },
+        { login: "bob", role: "author", issueIds: ["i4"] },
+      ]);
+    });
+
+    it("should email nobody when both participant kinds are off", () => {
+      expect(groupIssuesByParticipant(issues, { assignees: false, authors: false })).toEqual([]);
+    });
+  });
+
+  describe("owner summary", () => {
+    it("should count issues per emailed assignee and list the rest in full", () => {
+      expect(summarizeForOwner(issues, { assignees: true, authors: true })).toEqual({
+        total: 4,
+        assigned: [{ login: "alice", count: 2 }],
+        unassignedIssueIds: ["i3", "i4"],
+      });
+    });
+
+    it("should list every issue when assignees are not emailed", () => {
+      expect(summarizeForOwner(issues, { assignees: false, authors: true }).unassignedIssueIds)
+        .toEqual(["i1", "i2", "i3", "i4"]);
+    });
+  });
+
+  describe("contact emails", () => {
+    it("should take the email of the user's own most recent commit", () => {
+      const commits = [
+        commit(null, "unlinked@example.com"),
+        commit("Alice", "12345+alice@users.noreply.github.com"),
+        commit("alice", "alice@example.com"),
+      ];
+      expect(selectCommitEmail(commits, "alice")).toBe("alice@example.com");
+    });
+
+    it("should find no email when every commit uses a noreply address", () => {
+      expect(selectCommitEmail([commit("alice", "noreply@github.com")], "alice")).toBeNull();
+    });
+
+    it("should look contacts up again once their email is a month old", () => {
+      expect(needsContactLookup(null, NOW)).toBe(true);
+      expect(needsContactLookup({ resolvedAt: NOW - 1000 }, NOW)).toBe(false);
+      expect(needsContactLookup({ resolvedAt: NOW - CONTACT_REFRESH_MS }, NOW)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import {
+  getItemKind,
+  matchesItemTarget,
+  mergePullRequestState,
+  rulesNeedPullRequestDetails,
+  validateItemTarget,
+} from "../../convex/lib/pullRequests";
+import { normalizeGitHubIssue, summarizePullRequest } from "../../src/lib/github";
+
+const githubIssue = {
+  id: 1,
+  number: 12,
+  title: "Add caching",
+  html_url: "https://github.com/octo/repo/pull/12",
+  state: "open" as const,
+  labels: [],
+  assignee: null,
+  updated_at: "2024-03-01T12:00:00Z",
+  created_at: "2024-01-01T00:00:00Z",
+};
+
+const pullRequest = {
+  number: 12,
+  url: "https://api.github.com/repos/octo/repo/pulls/12",
+  html_url: "https://github.com/octo/repo/pull/12",
+  draft: false,
+  mergeable: true,
+  requested_reviewers: [],
+  requested_teams: [],
+  head: { sha: "abc123" },
+};
+
+describe("Pull Request Tracking", () => {
+
+  describe("Normalization", () => {
+    it("should tell issues and pull requests apart", () => {
+      expect(normalizeGitHubIssue(githubIssue).kind).toBe("issue");
+      expect(normalizeGitHubIssue(githubIssue).pullRequest).toBeUndefined();
+
+      const normalized = normalizeGitHubIssue({
+        ...githubIssue,
+        draft: true,
+        pull_request: { url: pullRequest.url, html_url: pullRequest.html_url },
+      });
+      expect(normalized.kind).toBe("pull_request");
+      expect(normalized.pullRequest).toEqual({ draft: true });
+    });
+
+    it("should treat items stored without a kind as issues", () => {
+      expect(getItemKind({})).toBe("issue");
+      expect(getItemKind({ kind: "pull_request" })).toBe("pull_request");
+    });
+  });
+
+  describe("Pull request state", () => {
+    it("should summarize reviews, conflicts and failing checks", () => {
+      expect(summarizePullRequest(
+        { ...pullRequest, mergeable: false, requested_teams: [{ slug: "core" }] },
+        { combinedState: "pending", statusCount: 0, checkRunConclusions: ["success", "failure"] }
+      )).toEqual({ draft: false, reviewRequested: true, checksFailing: true, hasConflicts: true });
+    });
+
+    it("should leave unknown state undefined", () => {
+      expect(summarizePullRequest({ ...pullRequest, mergeable: null })).toEqual({
+        draft: false,
+        reviewRequested: false,
+        checksFailing: undefined,
+        hasConflicts: undefined,
+      });
+    });
+
+    it("should ignore the pending combined status of commits without statuses", () => {
+      expect(summarizePullRequest(pullRequest, {
+        combinedState: "failure",
+        statusCount: 0,
+        checkRunConclusions: [null, "success", "skipped"],
+      }).checksFailing).toBe(false);
+    });
+
+    it("should keep fetched details when the issues list only refreshes the draft flag", () => {
+      expect(mergePullRequestState(
+        { draft: false, reviewRequested: true, checksFailing: true },
+        { draft: true }
+      )).toEqual({ draft: true, reviewRequested: true, checksFailing: true });
+      expect(mergePullRequestState({ draft: false }, undefined)).toEqual({ draft: false });
+    });
+  });
+
+  describe("Rule targeting", () => {
+    const issue = { kind: "issue" as const };
+    const draftPr = { kind: "pull_request" as const, pullRequest: { draft: true, checksFailing: true } };
+
+    it("should match both kinds by default", () => {
+      expect(matchesItemTarget(issue, {})).toBe(true);
+      expect(matchesItemTarget(draftPr, { itemKind: "any" })).toBe(true);
+      expect(matchesItemTarget({}, { itemKind: "issue" })).toBe(true);
+    });
+
+    it("should restrict rules to one kind", () => {
+      expect(matchesItemTarget(issue, { itemKind: "pull_request" })).toBe(false);
+      expect(matchesItemTarget(draftPr, { itemKind: "issue" })).toBe(false);
+      expect(matchesItemTarget(draftPr, { itemKind: "pull_request" })).toBe(true);
+    });
+
+    it("should require every set criterion to match known state", () => {
+      const rule = { itemKind: "pull_request" as const, pullRequestCriteria: { draft: true, checksFailing: true } };
+      expect(matchesItemTarget(draftPr, rule)).toBe(true);
+      expect(matchesItemTarget(draftPr, { ...rule, pullRequestCriteria: { draft: false } })).toBe(false);
+      expect(matchesItemTarget(draftPr, { ...rule, pullRequestCriteria: { hasConflicts: false } })).toBe(false);
+    });
+
+    it("should only fetch details for criteria the issues list cannot answer", () => {
+      expect(rulesNeedPullRequestDetails([{}, { pullRequestCriteria: { draft: true } }])).toBe(false);
+      expect(rulesNeedPullRequestDetails([{ pullRequestCriteria: { reviewRequested: true } }])).toBe(true);
+    });
+  });
+
+  describe("Validation", () => {
+    it("should accept valid targets", () => {
+      expect(validateItemTarget({})).toEqual([]);
+      expect(validateItemTarget({ itemKind: "pull_request", pullRequestCriteria: { hasConflicts: true } })).toEqual([]);
+    });
+
+    it("should reject invalid kinds and criteria", () => {
+      expect(validateItemTarget({ itemKind: "discussion" })).toEqual(["Item kind must be any, issue or pull_request"]);
+      expect(validateItemTarget({ itemKind: "issue", pullRequestCriteria: { draft: true } })).toEqual([
+        "Pull request criteria require the rule to target pull requests",
+      ]);
+      expect(validateItemTarget({ itemKind: "pull_request", pullRequestCriteria: { stale: true, draft: "yes" } })).toEqual([
+        "Unknown pull request criterion: stale",
+        "Pull request criterion draft must be true or false",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import {
+  evaluateRuleExpression,
+  formatExpressionError,
+  matchesRuleCondition,
+  parseRuleExpression,
+  validateRuleExpression,
+} from "../../convex/lib/ruleExpression";
+import { validateRuleConfiguration } from "../../convex/lib/ruleValidation";
+
+const NOW = Date.UTC(2024, 5, 1);
+const DAY = 24 * 60 * 60 * 1000;
+
+const createTestIssue = (overrides: any = {}) => ({
+  labels: ["bug"],
+  state: "open" as const,
+  kind: "issue" as const,
+  assignee: null,
+  milestone: undefined,
+  commentCount: 1,
+  lastActivity: NOW - 40 * DAY,
+  ...overrides,
+});
+
+function evaluate(source: string, issue = createTestIssue()): boolean {
+  const result = parseRuleExpression(source);
+  if (result.valid === false) {
+    throw new Error(result.errors.map(formatExpressionError).join("; "));
+  }
+  return evaluateRuleExpression(result.expression, issue, NOW);
+}
+
+describe("Rule Expressions", () => {
+
+  describe("Evaluation", () => {
+    const example = "label:bug AND NOT label:wontfix AND (unassigned OR assignee in [alice, bob]) AND comments < 3";
+
+    it("should evaluate the documented example", () => {
+      expect(evaluate(example)).toBe(true);
+      expect(evaluate(example, createTestIssue({ assignee: "alice" }))).toBe(true);
+      expect(evaluate(example, createTestIssue({ assignee: "carol" }))).toBe(false);
+      expect(evaluate(example, createTestIssue({ labels: ["bug", "wontfix"] }))).toBe(false);
+      expect(evaluate(example, createTestIssue({ commentCount: 3 }))).toBe(false);
+    });
+
+    it("should bind AND tighter than OR", () => {
+      expect(evaluate("label:feature OR label:bug AND state:closed")).toBe(false);
+      expect(evaluate("(label:feature OR label:bug) AND state:open")).toBe(true);
+    });
+
+    it("should match values case-insensitively, including quoted ones", () => {
+      expect(evaluate('label:"Help Wanted"', createTestIssue({ labels: ["help wanted"] }))).toBe(true);
+      expect(evaluate("LABEL:BUG and not Kind:pull_request")).toBe(true);
+    });
+
+    it("should compare inactivity and support milestones and drafts", () => {
+      expect(evaluate("days_inactive >= 40")).toBe(true);
+      expect(evaluate("days_inactive > 40")).toBe(false);
+      expect(evaluate("milestone:v2", createTestIssue({ milestone: "V2" }))).toBe(true);
+      expect(evaluate("draft", createTestIssue({ kind: "pull_request", pullRequest: { draft: true } }))).toBe(true);
+    });
+
+    it("should not match comparisons on unknown comment counts", () => {
+      expect(evaluate("comments < 3", createTestIssue({ commentCount: undefined }))).toBe(false);
+      expect(evaluate("NOT comments >= 3", createTestIssue({ commentCount: undefined }))).toBe(true);
+    });
+
+    it("should treat missing or invalid conditions as matching or not matching", () => {
+      expect(matchesRuleCondition(createTestIssue(), undefined, NOW)).toBe(true);
+      expect(matchesRuleCondition(createTestIssue(), "  ", NOW)).toBe(true);
+      expect(matchesRuleCondition(createTestIssue(), "label:bug AND", NOW)).toBe(false);
+    });
+  });
+
+  describe("Errors", () => {
+    function errorsOf(source: string) {
+      const result = parseRuleExpression(source);
+      return result.valid === false ? result.errors : [];
+    }
+
+    it("should report syntax errors with their position", () => {
+      expect(errorsOf("label:bug AND")).toEqual([
+        { message: "Expected a condition but found end of condition", span: { start: 13, end: 13 } },
+      ]);
+      expect(errorsOf("(label:bug OR unassigned")).toEqual([
+        { message: "Expected \")\" but found end of condition", span: { start: 24, end: 24 } },
+      ]);
+      expect(errorsOf("label:")[0].message).toBe("Expected a value after \"label:\" but found end of condition");
+      expect(errorsOf('label:"bug')[0]).toEqual({ message: "Unterminated string", span: { start: 6, end: 10 } });
+      expect(errorsOf("label:bug label:docs")[0].span).toEqual({ start: 10, end: 15 });
+    });
+
+    it("should collect type errors for unknown fields and values", () => {
+      expect(errorsOf("status:open AND state:merged AND label < 3")).toEqual([
+        { message: "Unknown field \"status\"; expected one of label, assignee, milestone, state, kind", span: { start: 0, end: 6 } },
+        { message: "Invalid state \"merged\"; expected open or closed", span: { start: 22, end: 28 } },
+        { message: "\"label\" cannot be compared; use comments or days_inactive", span: { start: 33, end: 38 } },
+      ]);
+      expect(errorsOf("stale")[0].message).toBe("Unknown condition \"stale\"");
+      expect(errorsOf("")[0].message).toBe("Condition is empty");
+    });
+
+    it("should format errors with 1-based columns", () => {
+      expect(validateRuleExpression("label:bug OR")).toEqual([
+        "Condition column 13: Expected a condition but found end of condition",
+      ]);
+    });
+
+    it("should plug into rule configuration validation", () => {
+      const rule = {
+        name: "Expression rule",
+        inactivityDays: 30,
+        labels: [],
+        issueStates: ["open"],
+        assigneeCondition: "any",
+      };
+
+      expect(validateRuleConfiguration({ ...rule, condition: "label:bug AND comments < 3" }).isValid).toBe(true);
+      expect(validateRuleConfiguration({ ...rule, condition: "comments <" }).errors).toEqual([
+        "Condition column 11: Expected a whole number after \"<\" but found end of condition",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  BASE_CHECK_COST,
+  DEFAULT_RATE_LIMIT,
+  MIN_CHECK_INTERVAL_MS,
+  RATE_LIMIT_RESERVE,
+  compareRepositories,
+  estimateCheckCost,
+  getBudgetKey,
+  needsRateLimitRefresh,
+  planRepositoryChecks,
+} from "../../convex/lib/scheduler";
+
+const now = Date.parse("2024-03-01T12:00:00Z");
+const hourAgo = now - 60 * 60 * 1000;
+
+describe("Rate Limit Aware Scheduling", () => {
+
+  describe("Budgets", () => {
+    it("should share one budget per installation or owner token", () => {
+      expect(getBudgetKey({ userId: "user1" }, 42)).toBe("installation:42");
+      expect(getBudgetKey({ userId: "user1" })).toBe("user:user1");
+    });
+
+    it("should refresh budgets that are unknown or past their reset", () => {
+      expect(needsRateLimitRefresh(undefined, now)).toBe(true);
+      expect(needsRateLimitRefresh({ limit: 5000, remaining: 10, resetAt: now - 1 }, now)).toBe(true);
+      expect(needsRateLimitRefresh({ limit: 5000, remaining: 10, resetAt: now + 1 }, now)).toBe(false);
+    });
+
+    it("should estimate a page of issues per hundred issues", () => {
+      expect(estimateCheckCost({})).toBe(BASE_CHECK_COST);
+      expect(estimateCheckCost({ lastIssueCount: 250 })).toBe(BASE_CHECK_COST + 3);
+    });
+  });
+
+  describe("Ordering", () => {
+    it("should check higher priority and longest unchecked repositories first", () => {
+      const repositories = [
+        { id: "a", budgetKey: "user:1", lastChecked: hourAgo },
+        { id: "b", budgetKey: "user:1", lastChecked: hourAgo - 1000, priority: "low" as const },
+        { id: "c", budgetKey: "user:1", lastChecked: hourAgo - 2000 },
+        { id: "d", budgetKey: "user:1", lastChecked: hourAgo, priority: "high" as const },
+      ];
+
+      expect([...repositories].sort(compareRepositories).map(r => r.id)).toEqual(["d", "c", "a", "b"]);
+      expect(planRepositoryChecks(repositories, new Map(), now).scheduled).toEqual(["d", "c", "a", "b"]);
+    });
+  });
+
+  describe("Planning", () => {
+    it("should defer repositories once their budget is spent until it resets", () => {
+      const resetAt = now + 20 * 60 * 1000;
+      const budgets = new Map([
+        ["installation:1", { limit: 5000, remaining: RATE_LIMIT_RESERVE + BASE_CHECK_COST, resetAt }],
+      ]);
+      const plan = planRepositoryChecks([
+        { id: "a", budgetKey: "installation:1", lastChecked: hourAgo },
+        { id: "b", budgetKey: "installation:1", lastChecked: hourAgo + 1 },
+        { id: "c", budgetKey: "user:2", lastChecked: hourAgo },
+      ], budgets, now);
+
+      expect(plan.scheduled).toEqual(["a", "c"]);
+      expect(plan.deferred).toEqual([{ id: "b", budgetKey: "installation:1", until: resetAt }]);
+      expect(plan.resumeAt).toBe(resetAt);
+    });
+
+    it("should treat a budget past its reset as full", () => {
+      const budgets = new Map([["user:1", { limit: DEFAULT_RATE_LIMIT, remaining: 0, resetAt: now - 1 }]]);
+      const plan = planRepositoryChecks([{ id: "a", budgetKey: "user:1", lastChecked: hourAgo }], budgets, now);
+
+      expect(plan.scheduled).toEqual(["a"]);
+      expect(plan.resumeAt).toBeUndefined();
+    });
+
+    it("should skip recently checked repositories unless forced", () => {
+      const repositories = [{ id: "a", budgetKey: "user:1", lastChecked: now - MIN_CHECK_INTERVAL_MS / 2 }];
+
+      expect(planRepositoryChecks(repositories, new Map(), now).skipped).toEqual(["a"]);
+      expect(planRepositoryChecks(repositories, new Map(), now, { force: true }).scheduled).toEqual(["a"]);
+    });
+  });
+});
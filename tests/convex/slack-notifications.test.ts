@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildStaleIssueSlackMessage,
+  isValidSlackWebhookUrl,
+  MAX_SLACK_ISSUES,
+} from "../../convex/lib/slack";
+import { getRetryDelayMs, isRetryableStatus } from "../../convex/lib/delivery";
+
+const NOW = Date.UTC(2024, 0, 31);
+const DAY = 24 * 60 * 60 * 1000;
+
+const issue = (overrides: Partial<{ title: string; labels: string[]; assignee: string }> = {}) => ({
+  title: "Crash on startup",
+  url: "https://github.com/acme/widgets/issues/42",
+  lastActivity: NOW - 45 * DAY,
+  labels: [] as string[],
+  ...overrides,
+});
+
+describe("Slack Notifications", () => {
+
+  it("should only accept Slack incoming webhook URLs", () => {
+    expect(isValidSlackWebhookUrl("https://hooks.slack.com/services/T000/B000/XXXX")).toBe(true);
+    expect(isValidSlackWebhookUrl("http://hooks.slack.com/services/T000/B000/XXXX")).toBe(false);
+    expect(isValidSlackWebhookUrl("https://example.com/services/T000/B000/XXXX")).toBe(false);
+    expect(isValidSlackWebhookUrl("https://hooks.slack.com.evil.test/services/T000")).toBe(false);
+  });
+
+  it("should list issues with links, inactivity, assignee and labels", () => {
+    const message = buildStaleIssueSlackMessage(
+      "acme/widgets",
+      [issue({ labels: ["bug", "p1"], assignee: "octocat" })],
+      NOW
+    );
+
+    expect(message.text).toBe("1 stale issue in acme/widgets");
+    expect(message.blocks[0]).toEqual({
+      type: "header",
+      text: { type: "plain_text", text: "1 stale issue in acme/widgets", emoji: true },
+    });
+    expect(message.blocks[1].text.text).toBe(
+      "*<https://github.com/acme/widgets/issues/42|Crash on startup>*\nInactive for 45 days · assigned to octocat"
+    );
+    expect(message.blocks[2].elements[0].text).toBe("`bug` `p1`");
+  });
+
+  it("should escape Slack control characters in titles", () => {
+    const message = buildStaleIssueSlackMessage("acme/widgets", [issue({ title: "<script> & friends" })], NOW);
+
+    expect(message.blocks[1].text.text).toContain("&lt;script&gt; &amp; friends");
+  });
+
+  it("should stay within Slack's block limit for long lists", () => {
+    const issues = Array.from({ length: 30 }, () => issue({ labels: ["bug"] }));
+    const message = buildStaleIssueSlackMessage("acme/widgets", issues, NOW);
+
+    expect(message.text).toBe("30 stale issues in acme/widgets");
+    expect(message.blocks.length).toBeLessThanOrEqual(50);
+    expect(message.blocks[message.blocks.length - 1].elements[0].text)
+      .toBe(`…and ${30 - MAX_SLACK_ISSUES} more`);
+  });
+
+  it("should retry rate limits and server errors only", () => {
+    expect(isRetryableStatus(429)).toBe(true);
+    expect(isRetryableStatus(500)).toBe(true);
+    expect(isRetryableStatus(503)).toBe(true);
+    expect(isRetryableStatus(400)).toBe(false);
+    expect(isRetryableStatus(404)).toBe(false);
+  });
+
+  it("should back off exponentially unless Retry-After is given", () => {
+    expect(getRetryDelayMs(1)).toBe(2000);
+    expect(getRetryDelayMs(2)).toBe(4000);
+    expect(getRetryDelayMs(1, "30")).toBe(30000);
+    expect(getRetryDelayMs(1, "3600")).toBe(5 * 60 * 1000);
+    expect(getRetryDelayMs(2, "soon")).toBe(4000);
+  });
+});
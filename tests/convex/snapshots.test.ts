@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildStalenessTrend,
+  classifyStaleTransition,
+  countStalenessBuckets,
+  getRangeStartDate,
+  getSnapshotDate,
+  getStalenessBucket,
+  mergeSnapshotsByDate,
+} from "../../convex/lib/snapshots";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2024, 5, 1, 12);
+
+const buckets = (values: number[]) => ({
+  underOneWeek: values[0],
+  oneToFourWeeks: values[1],
+  oneToThreeMonths: values[2],
+  threeToSixMonths: values[3],
+  overSixMonths: values[4],
+});
+
+describe("Repository Snapshots", () => {
+  describe("dates", () => {
+    it("should use the UTC day of a timestamp", () => {
+      expect(getSnapshotDate(NOW)).toBe("2024-06-01");
+      expect(getSnapshotDate(Date.UTC(2024, 5, 1, 23, 59))).toBe("2024-06-01");
+    });
+
+    it("should include today in a range", () => {
+      expect(getRangeStartDate(30, NOW)).toBe("2024-05-03");
+      expect(getRangeStartDate(365, NOW)).toBe("2023-06-03");
+    });
+  });
+
+  describe("staleness buckets", () => {
+    it("should bucket days since activity", () => {
+      expect(getStalenessBucket(0)).toBe("underOneWeek");
+      expect(getStalenessBucket(7)).toBe("oneToFourWeeks");
+      expect(getStalenessBucket(30)).toBe("oneToThreeMonths");
+      expect(getStalenessBucket(90)).toBe("threeToSixMonths");
+      expect(getStalenessBucket(180)).toBe("overSixMonths");
+    });
+
+    it("should count issues per bucket", () => {
+      const issues = [1, 3, 10, 45, 100, 400].map(days => ({ lastActivity: NOW - days * DAY }));
+
+      expect(countStalenessBuckets(issues, NOW)).toEqual(buckets([2, 1, 1, 1, 1]));
+    });
+  });
+
+  describe("stale transitions", () => {
+    it("should classify stale flag changes", () => {
+      expect(classifyStaleTransition(false, true, "open")).toBe("newlyStale");
+      expect(classifyStaleTransition(true, false, "open")).toBe("revived");
+      expect(classifyStaleTransition(true, false, "closed")).toBe("closedWhileStale");
+    });
+
+    it("should ignore unchanged flags", () => {
+      expect(classifyStaleTransition(true, true, "open")).toBeNull();
+      expect(classifyStaleTransition(false, false, "closed")).toBeNull();
+    });
+  });
+
+  describe("trends", () => {
+    const snapshot = (date: string, stale?: number) => ({
+      date,
+      openIssues: stale === undefined ? undefined : stale * 2,
+      staleIssues: stale,
+      newlyStale: 1,
+      revived: 0,
+      closedWhileStale: 1,
+      buckets: stale === undefined ? undefined : buckets([1, 1, 1, 1, stale]),
+    });
+
+    it("should sum repositories per day in date order", () => {
+      const points = mergeSnapshotsByDate([snapshot("2024-06-01", 3), snapshot("2024-05-31", 2), snapshot("2024-06-01", 4)]);
+
+      expect(points.map(point => point.date)).toEqual(["2024-05-31", "2024-06-01"]);
+      expect(points[1]).toEqual({
+        date: "2024-06-01",
+        openIssues: 14,
+        staleIssues: 7,
+        newlyStale: 2,
+        revived: 0,
+        closedWhileStale: 2,
+        buckets: buckets([2, 2, 2, 2, 7]),
+      });
+    });
+
+    it("should leave totals empty until every repository captured them", () => {
+      const [point] = mergeSnapshotsByDate([snapshot("2024-06-01", 3), snapshot("2024-06-01")]);
+
+      expect(point.staleIssues).toBeNull();
+      expect(point.buckets).toBeNull();
+      expect(point.newlyStale).toBe(2);
+    });
+
+    it("should summarize the range", () => {
+      const trend = buildStalenessTrend(30, [snapshot("2024-05-30", 5), snapshot("2024-05-31", 8), snapshot("2024-06-01")]);
+
+      expect(trend.range).toBe(30);
+      expect(trend.summary).toEqual({ staleChange: 3, newlyStale: 3, revived: 0, closedWhileStale: 3 });
+      expect(buildStalenessTrend(90, [snapshot("2024-06-01")]).summary.staleChange).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import {
+  planStaleActions,
+  resolveLastActivity,
+  validateStaleActionPolicy,
+  getStaleCommentMarker,
+  DEFAULT_STALE_COMMENT,
+  BOT_ACTIVITY_WINDOW_MS,
+} from "../../convex/lib/staleActions";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse("2024-06-01T00:00:00Z");
+
+const fullPolicy = {
+  postComment: true,
+  addLabel: true,
+  staleLabel: "stale",
+  closeIssue: true,
+  daysUntilClose: 7,
+};
+
+describe("Stale Actions", () => {
+
+  describe("planStaleActions", () => {
+    it("should plan a comment and label for a newly stale issue", () => {
+      const plan = planStaleActions({ state: "open", labels: ["bug"], isStale: true }, fullPolicy, NOW);
+
+      expect(plan.resetState).toBe(false);
+      expect(plan.actions).toEqual([
+        { type: "comment", body: DEFAULT_STALE_COMMENT, marker: getStaleCommentMarker(NOW) },
+        { type: "label", label: "stale" },
+      ]);
+    });
+
+    it("should not repeat actions that were already applied", () => {
+      const plan = planStaleActions({
+        state: "open",
+        labels: ["bug", "Stale"],
+        isStale: true,
+        staleActions: {
+          ruleId: "rule1" as any,
+          markedAt: NOW - DAY,
+          commentedAt: NOW - DAY,
+          labelName: "stale",
+          labeledAt: NOW - DAY,
+          lastActionAt: NOW - DAY,
+        },
+      }, fullPolicy, NOW);
+
+      expect(plan.actions).toEqual([]);
+    });
+
+    it("should close once the grace period has elapsed", () => {
+      const staleActions = {
+        ruleId: "rule1" as any,
+        markedAt: NOW - 7 * DAY,
+        commentedAt: NOW - 7 * DAY,
+        labelName: "stale",
+        lastActionAt: NOW - 7 * DAY,
+      };
+
+      const plan = planStaleActions({ state: "open", labels: ["stale"], isStale: true, staleActions }, fullPolicy, NOW);
+      expect(plan.actions).toEqual([{ type: "close" }]);
+
+      const early = planStaleActions(
+        { state: "open", labels: ["stale"], isStale: true, staleActions: { ...staleActions, markedAt: NOW - DAY } },
+        fullPolicy,
+        NOW
+      );
+      expect(early.actions).toEqual([]);
+    });
+
+    it("should remove the stale label when activity returns", () => {
+      const plan = planStaleActions({
+        state: "open",
+        labels: ["stale"],
+        isStale: false,
+        staleActions: { ruleId: "rule1" as any, markedAt: NOW - DAY, labelName: "stale", lastActionAt: NOW - DAY },
+      }, fullPolicy, NOW);
+
+      expect(plan).toEqual({ actions: [{ type: "unlabel", label: "stale" }], resetState: true });
+    });
+
+    it("should leave issues closed by StaleBot untouched", () => {
+      const plan = planStaleActions({
+        state: "closed",
+        labels: ["stale"],
+        isStale: false,
+        staleActions: { ruleId: "rule1" as any, markedAt: NOW - 8 * DAY, closedAt: NOW - DAY, lastActionAt: NOW - DAY },
+      }, fullPolicy, NOW);
+
+      expect(plan).toEqual({ actions: [], resetState: false });
+    });
+
+    it("should unlabel and reset issues reopened after StaleBot closed them", () => {
+      const staleActions = {
+        ruleId: "rule1" as any,
+        markedAt: NOW - 8 * DAY,
+        commentedAt: NOW - 8 * DAY,
+        labelName: "stale",
+        closedAt: NOW - DAY,
+        lastActionAt: NOW - DAY,
+      };
+      const reopened = { state: "open" as const, labels: ["stale"], isStale: false, staleActions };
+
+      expect(planStaleActions(reopened, fullPolicy, NOW)).toEqual({
+        actions: [{ type: "unlabel", label: "stale" }],
+        resetState: true,
+      });
+      // Going stale again before the reset ran still starts a new stale period first
+      expect(planStaleActions({ ...reopened, isStale: true }, fullPolicy, NOW)).toEqual({
+        actions: [{ type: "unlabel", label: "stale" }],
+        resetState: true,
+      });
+    });
+  });
+
+  describe("resolveLastActivity", () => {
+    const staleActions = { ruleId: "rule1" as any, markedAt: NOW, lastActionAt: NOW };
+
+    it("should ignore activity caused by StaleBot", () => {
+      expect(resolveLastActivity(NOW - 30 * DAY, NOW + 1000, staleActions)).toBe(NOW - 30 * DAY);
+    });
+
+    it("should accept later activity", () => {
+      const later = NOW + BOT_ACTIVITY_WINDOW_MS + 1;
+      expect(resolveLastActivity(NOW - 30 * DAY, later, staleActions)).toBe(later);
+      expect(resolveLastActivity(NOW - 30 * DAY, NOW, undefined)).toBe(NOW);
+    });
+  });
+
+  describe("validateStaleActionPolicy", () => {
+    it("should accept a complete policy", () => {
+      expect(validateStaleActionPolicy(fullPolicy)).toEqual([]);
+    });
+
+    it("should reject empty policies and invalid close periods", () => {
+      expect(validateStaleActionPolicy({ postComment: false, addLabel: false, closeIssue: false })).toHaveLength(1);
+      expect(validateStaleActionPolicy({ ...fullPolicy, daysUntilClose: undefined })).toHaveLength(1);
+      expect(validateStaleActionPolicy({ ...fullPolicy, daysUntilClose: 400 })).toHaveLength(1);
+      expect(validateStaleActionPolicy({ ...fullPolicy, staleLabel: "  " })).toHaveLength(1);
+    });
+  });
+});
@@ -1,4 +1,16 @@
 import { describe, it, expect } from "vitest";
+import {
+  calculateDaysSinceActivity,
+  describeRuleResult,
+  evaluateIssue,
+  evaluateRule,
+  formatInactivityPeriod,
+  hasStaleEvaluationChanged,
+  matchesRule,
+  toStaleEvaluation,
+} from "../../convex/lib/rulesEngine";
+
+const NOW = Date.UTC(2024, 5, 1);
 
 // Test the stale issue identification logic
 describe("Stale Issue Identification Logic", () => {
@@ -12,10 +24,10 @@ describe("Stale Issue Identification Logic", () => {
     state: "open" as const,
     labels: ["bug"],
     assignee: null,
-    lastActivity: Date.now() - (30 * 24 * 60 * 60 * 1000), // 30 days ago
+    lastActivity: NOW - (30 * 24 * 60 * 60 * 1000), // 30 days ago
     isStale: false,
-    createdAt: Date.now(),
-    updatedAt: Date.now(),
+    createdAt: NOW,
+    updatedAt: NOW,
     ...overrides,
   });
 
@@ -29,115 +41,34 @@ describe("Stale Issue Identification Logic", () => {
     issueStates: ["open"] as const,
     assigneeCondition: "any" as const,
     isActive: true,
-    createdAt: Date.now(),
-    updatedAt: Date.now(),
+    createdAt: NOW,
+    updatedAt: NOW,
     ...overrides,
   });
 
-  // Mock the evaluation functions (these would be imported from the actual file)
-  const calculateDaysSinceActivity = (lastActivity: number): number => {
-    return Math.floor((Date.now() - lastActivity) / (24 * 60 * 60 * 1000));
-  };
-
-  const evaluateIssueAgainstRule = (issue: any, rule: any): boolean => {
-    // Check inactivity period
-    const daysSinceActivity = calculateDaysSinceActivity(issue.lastActivity);
-    if (daysSinceActivity < rule.inactivityDays) {
-      return false;
-    }
-
-    // Check issue state
-    if (!rule.issueStates.includes(issue.state)) {
-      return false;
-    }
-
-    // Check labels (if rule specifies labels, issue must have at least one matching label)
-    if (rule.labels && rule.labels.length > 0) {
-      const hasMatchingLabel = rule.labels.some((ruleLabel: string) =>
-        issue.labels.some((issueLabel: string) => 
-          issueLabel.toLowerCase() === ruleLabel.toLowerCase()
-        )
-      );
-      if (!hasMatchingLabel) {
-        return false;
-      }
-    }
-
-    // Check assignee condition
-    switch (rule.assigneeCondition) {
-      case "any":
-        break;
-      case "assigned":
-        if (!issue.assignee) {
-          return false;
-        }
-        break;
-      case "unassigned":
-        if (issue.assignee) {
-          return false;
-        }
-        break;
-      default:
-        if (Array.isArray(rule.assigneeCondition)) {
-          if (!issue.assignee || !rule.assigneeCondition.includes(issue.assignee)) {
-            return false;
-          }
-        }
-        break;
-    }
-
-    return true;
-  };
-
-  const evaluateIssueAgainstMultipleRules = (issue: any, rules: any[]): boolean => {
-    return rules.some(rule => evaluateIssueAgainstRule(issue, rule));
-  };
-
-  const formatInactivityPeriod = (lastActivity: number): string => {
-    const days = calculateDaysSinceActivity(lastActivity);
-    
-    if (days === 0) {
-      return "Today";
-    } else if (days === 1) {
-      return "1 day ago";
-    } else if (days < 7) {
-      return `${days} days ago`;
-    } else if (days < 30) {
-      const weeks = Math.floor(days / 7);
-      return weeks === 1 ? "1 week ago" : `${weeks} weeks ago`;
-    } else if (days < 365) {
-      const months = Math.floor(days / 30);
-      return months === 1 ? "1 month ago" : `${months} months ago`;
-    } else {
-      const years = Math.floor(days / 365);
-      return years === 1 ? "1 year ago" : `${years} years ago`;
-    }
-  };
-
   describe("calculateDaysSinceActivity", () => {
     it("should calculate days correctly", () => {
-      const now = Date.now();
-      const oneDayAgo = now - (24 * 60 * 60 * 1000);
-      const thirtyDaysAgo = now - (30 * 24 * 60 * 60 * 1000);
+      const oneDayAgo = NOW - (24 * 60 * 60 * 1000);
+      const thirtyDaysAgo = NOW - (30 * 24 * 60 * 60 * 1000);
 
-      expect(calculateDaysSinceActivity(oneDayAgo)).toBe(1);
-      expect(calculateDaysSinceActivity(thirtyDaysAgo)).toBe(30);
-      expect(calculateDaysSinceActivity(now)).toBe(0);
+      expect(calculateDaysSinceActivity(oneDayAgo, NOW)).toBe(1);
+      expect(calculateDaysSinceActivity(thirtyDaysAgo, NOW)).toBe(30);
+      expect(calculateDaysSinceActivity(NOW, NOW)).toBe(0);
     });
   });
 
-  describe("evaluateIssueAgainstRule", () => {
+  describe("matchesRule", () => {
     it("should identify stale issues based on inactivity", () => {
       const staleIssue = createTestIssue({
-        lastActivity: Date.now() - (30 * 24 * 60 * 60 * 1000), // 30 days ago
+        lastActivity: NOW - (30 * 24 * 60 * 60 * 1000), // 30 days ago
       });
       const recentIssue = createTestIssue({
-        lastActivity: Date.now() - (10 * 24 * 60 * 60 * 1000), // 10 days ago
+        lastActivity: NOW - (10 * 24 * 60 * 60 * 1000), // 10 days ago
       });
       const rule = createTestRule({ inactivityDays: 25 });
 
-      expect(evaluateIssueAgainstRule(staleIssue, rule)).toBe(true);
-      expect(evaluateIssueAgainstRule(recentIssue, rule)).toBe(false);
+      expect(matchesRule(staleIssue, rule, NOW)).toBe(true);
+      expect(matchesRule(recentIssue, rule, NOW)).toBe(false);
     });
 
     it("should filter by issue state", () => {
@@ -146,9 +77,9 @@ describe("Stale Issue Identification Logic", () => {
       const openOnlyRule = createTestRule({ issueStates: ["open"] });
       const closedOnlyRule = createTestRule({ issueStates: ["closed"] });
 
-      expect(evaluateIssueAgainstRule(openIssue, openOnlyRule)).toBe(true);
-      expect(evaluateIssueAgainstRule(closedIssue, openOnlyRule)).toBe(false);
-      expect(evaluateIssueAgainstRule(closedIssue, closedOnlyRule)).toBe(true);
+      expect(matchesRule(openIssue, openOnlyRule, NOW)).toBe(true);
+      expect(matchesRule(closedIssue, openOnlyRule, NOW)).toBe(false);
+      expect(matchesRule(closedIssue, closedOnlyRule, NOW)).toBe(true);
     });
 
     it("should filter by labels when specified", () => {
@@ -160,11 +91,11 @@ describe("Stale Issue Identification Logic", () => {
       const enhancementRule = createTestRule({ labels: ["enhancement"] });
       const noLabelRule = createTestRule({ labels: [] });
 
-      expect(evaluateIssueAgainstRule(bugIssue, bugRule)).toBe(true);
-      expect(evaluateIssueAgainstRule(enhancementIssue, bugRule)).toBe(false);
-      expect(evaluateIssueAgainstRule(multiLabelIssue, bugRule)).toBe(true);
-      expect(evaluateIssueAgainstRule(multiLabelIssue, enhancementRule)).toBe(true);
-      expect(evaluateIssueAgainstRule(bugIssue, noLabelRule)).toBe(true); // No label filter
+      expect(matchesRule(bugIssue, bugRule, NOW)).toBe(true);
+      expect(matchesRule(enhancementIssue, bugRule, NOW)).toBe(false);
+      expect(matchesRule(multiLabelIssue, bugRule, NOW)).toBe(true);
+      expect(matchesRule(multiLabelIssue, enhancementRule, NOW)).toBe(true);
+      expect(matchesRule(bugIssue, noLabelRule, NOW)).toBe(true); // No label filter
     });
 
     it("should handle assignee conditions", () => {
@@ -178,26 +109,26 @@ describe("Stale Issue Identification Logic", () => {
       const otherUserRule = createTestRule({ assigneeCondition: ["user2"] });
 
       // Test "any" condition
-      expect(evaluateIssueAgainstRule(assignedIssue, anyRule)).toBe(true);
-      expect(evaluateIssueAgainstRule(unassignedIssue, anyRule)).toBe(true);
+      expect(matchesRule(assignedIssue, anyRule, NOW)).toBe(true);
+      expect(matchesRule(unassignedIssue, anyRule, NOW)).toBe(true);
 
       // Test "assigned" condition
-      expect(evaluateIssueAgainstRule(assignedIssue, assignedRule)).toBe(true);
-      expect(evaluateIssueAgainstRule(unassignedIssue, assignedRule)).toBe(false);
+      expect(matchesRule(assignedIssue, assignedRule, NOW)).toBe(true);
+      expect(matchesRule(unassignedIssue, assignedRule, NOW)).toBe(false);
 
       // Test "unassigned" condition
-      expect(evaluateIssueAgainstRule(assignedIssue, unassignedRule)).toBe(false);
-      expect(evaluateIssueAgainstRule(unassignedIssue, unassignedRule)).toBe(true);
+      expect(matchesRule(assignedIssue, unassignedRule, NOW)).toBe(false);
+      expect(matchesRule(unassignedIssue, unassignedRule, NOW)).toBe(true);
 
       // Test specific user condition
-      expect(evaluateIssueAgainstRule(assignedIssue, specificUserRule)).toBe(true);
-      expect(evaluateIssueAgainstRule(assignedIssue, otherUserRule)).toBe(false);
-      expect(evaluateIssueAgainstRule(unassignedIssue, specificUserRule)).toBe(false);
+      expect(matchesRule(assignedIssue, specificUserRule, NOW)).toBe(true);
+      expect(matchesRule(assignedIssue, otherUserRule, NOW)).toBe(false);
+      expect(matchesRule(unassignedIssue, specificUserRule, NOW)).toBe(false);
     });
 
     it("should handle complex rule combinations", () => {
       const issue = createTestIssue({
-        lastActivity: Date.now() - (45 * 24 * 60 * 60 * 1000), // 45 days ago
+        lastActivity: NOW - (45 * 24 * 60 * 60 * 1000), // 45 days ago
         state: "open",
         labels: ["bug", "priority-high"],
         assignee: "maintainer1",
@@ -210,7 +141,7 @@ describe("Stale Issue Identification Logic", () => {
         assigneeCondition: ["maintainer1", "maintainer2"],
       });
 
-      expect(evaluateIssueAgainstRule(issue, complexRule)).toBe(true);
+      expect(matchesRule(issue, complexRule, NOW)).toBe(true);
 
       // Change one condition to make it not match
       const nonMatchingRule = createTestRule({
@@ -220,14 +151,14 @@ describe("Stale Issue Identification Logic", () => {
         assigneeCondition: ["maintainer1"],
       });
 
-      expect(evaluateIssueAgainstRule(issue, nonMatchingRule)).toBe(false);
+      expect(matchesRule(issue, nonMatchingRule, NOW)).toBe(false);
     });
   });
 
-  describe("evaluateIssueAgainstMultipleRules", () => {
+  describe("evaluateIssue", () => {
     it("should return true if any rule matches", () => {
       const issue = createTestIssue({
-        lastActivity: Date.now() - (30 * 24 * 60 * 60 * 1000),
+        lastActivity: NOW - (30 * 24 * 60 * 60 * 1000),
         labels: ["bug"],
       });
 
@@ -242,52 +173,170 @@ describe("Stale Issue Identification Logic", () => {
       });
 
       const rules = [nonMatchingRule, matchingRule];
-      expect(evaluateIssueAgainstMultipleRules(issue, rules)).toBe(true);
+      expect(evaluateIssue(issue, rules, NOW).isStale).toBe(true);
     });
 
     it("should return false if no rules match", () => {
       const issue = createTestIssue({
-        lastActivity: Date.now() - (10 * 24 * 60 * 60 * 1000), // Too recent
+        lastActivity: NOW - (10 * 24 * 60 * 60 * 1000), // Too recent
       });
 
       const rule1 = createTestRule({ inactivityDays: 25 });
       const rule2 = createTestRule({ inactivityDays: 30 });
 
       const rules = [rule1, rule2];
-      expect(evaluateIssueAgainstMultipleRules(issue, rules)).toBe(false);
+      expect(evaluateIssue(issue, rules, NOW).isStale).toBe(false);
     });
 
     it("should handle empty rules array", () => {
       const issue = createTestIssue();
-      expect(evaluateIssueAgainstMultipleRules(issue, [])).toBe(false);
+      expect(evaluateIssue(issue, [], NOW).isStale).toBe(false);
+    });
+
+    it("should return a result for every rule and list the matched ones", () => {
+      const issue = createTestIssue({ labels: ["bug"] });
+      const bugRule = createTestRule({ name: "Bugs", labels: ["bug"] });
+      const docsRule = createTestRule({ name: "Docs", labels: ["docs"] });
+
+      const evaluation = evaluateIssue(issue, [bugRule, docsRule], NOW);
+
+      expect(evaluation.daysSinceActivity).toBe(30);
+      expect(evaluation.results.map(result => result.matched)).toEqual([true, false]);
+      expect(evaluation.matchedRules.map(rule => rule.name)).toEqual(["Bugs"]);
+    });
+  });
+
+  describe("evaluateRule", () => {
+    it("should explain each criterion of a matching rule", () => {
+      const issue = createTestIssue({
+        lastActivity: NOW - (41 * 24 * 60 * 60 * 1000),
+        labels: ["Bug"],
+        assignee: "user1",
+      });
+      const rule = createTestRule({ inactivityDays: 30, labels: ["bug"], assigneeCondition: "assigned" });
+
+      const result = evaluateRule(issue, rule, NOW);
+
+      expect(result.matched).toBe(true);
+      expect(result.exemption).toBeNull();
+      expect(result.criteria).toEqual([
+        { criterion: "inactivity", passed: true, reason: "41 days inactive ≥ 30" },
+        { criterion: "state", passed: true, reason: "State is open" },
+        { criterion: "item_kind", passed: true, reason: "Issue matches rule target: issues and pull requests" },
+        { criterion: "labels", passed: true, reason: "Has label \"bug\"" },
+        { criterion: "exemption", passed: true, reason: "No exemption applies" },
+        { criterion: "snooze", passed: true, reason: "Not snoozed" },
+        { criterion: "assignee", passed: true, reason: "Assigned to user1" },
+      ]);
+    });
+
+    it("should report every failing criterion, not just the first", () => {
+      const issue = createTestIssue({
+        lastActivity: NOW - (10 * 24 * 60 * 60 * 1000),
+        labels: ["enhancement"],
+      });
+      const rule = createTestRule({ inactivityDays: 30, labels: ["bug"], assigneeCondition: ["user1"] });
+
+      const result = evaluateRule(issue, rule, NOW);
+      const failed = result.criteria.filter(criterion => !criterion.passed);
+
+      expect(result.matched).toBe(false);
+      expect(failed).toEqual([
+        { criterion: "inactivity", passed: false, reason: "10 days inactive < 30" },
+        { criterion: "labels", passed: false, reason: "Has none of the labels bug" },
+        { criterion: "assignee", passed: false, reason: "Not assigned, rule requires user1" },
+      ]);
+    });
+
+    it("should fail on exemptions and conditions with their reasons", () => {
+      const issue = createTestIssue({ labels: ["bug", "pinned"], commentCount: 5 });
+      const rule = createTestRule({ exemptLabels: ["pinned"], condition: "comments < 3" });
+
+      const result = evaluateRule(issue, rule, NOW);
+
+      expect(result.matched).toBe(false);
+      expect(result.exemption).toEqual({ type: "label", reason: "Has exempt label \"pinned\"" });
+      expect(result.criteria.find(criterion => criterion.criterion === "condition")).toEqual({
+        criterion: "condition",
+        passed: false,
+        reason: "Does not match condition \"comments < 3\"",
+      });
+    });
+
+    it("should use the given clock rather than the current time", () => {
+      const issue = createTestIssue({ lastActivity: NOW });
+      const rule = createTestRule({ inactivityDays: 25 });
+
+      expect(matchesRule(issue, rule, NOW)).toBe(false);
+      expect(matchesRule(issue, rule, NOW + (25 * 24 * 60 * 60 * 1000))).toBe(true);
+    });
+  });
+
+  describe("stale explanations", () => {
+    const issue = createTestIssue({
+      lastActivity: NOW - (41 * 24 * 60 * 60 * 1000),
+      labels: ["bug"],
+    });
+
+    it("should summarise the criteria a matching rule constrains", () => {
+      const rule = createTestRule({ name: "Bugs 30d", inactivityDays: 30, labels: ["bug"] });
+
+      expect(describeRuleResult(evaluateRule(issue, rule, NOW)))
+        .toBe("matched rule 'Bugs 30d': 41 days inactive ≥ 30, has label \"bug\"");
+    });
+
+    it("should summarise the failing criteria of a rule that did not match", () => {
+      const rule = createTestRule({ name: "Old docs", inactivityDays: 60, labels: ["docs"] });
+
+      expect(describeRuleResult(evaluateRule(issue, rule, NOW)))
+        .toBe("did not match rule 'Old docs': 41 days inactive < 60, has none of the labels docs");
+    });
+
+    it("should store a breakdown for every rule", () => {
+      const bugRule = createTestRule({ _id: "rule-bugs", name: "Bugs 30d", inactivityDays: 30, labels: ["bug"] });
+      const docsRule = createTestRule({ _id: "rule-docs", name: "Docs", labels: ["docs"] });
+
+      const stored = toStaleEvaluation(evaluateIssue(issue, [bugRule, docsRule], NOW), NOW);
+
+      expect(stored.evaluatedAt).toBe(NOW);
+      expect(stored.rules.map(rule => [rule.ruleId, rule.matched])).toEqual([["rule-bugs", true], ["rule-docs", false]]);
+      expect(stored.rules[0].criteria).toHaveLength(7);
+    });
+
+    it("should only report a change when the explanation differs", () => {
+      const rule = createTestRule({ _id: "rule-bugs", name: "Bugs 30d", inactivityDays: 30 });
+      const today = toStaleEvaluation(evaluateIssue(issue, [rule], NOW), NOW);
+      const later = toStaleEvaluation(evaluateIssue(issue, [rule], NOW + 1000), NOW + 1000);
+      const tomorrow = toStaleEvaluation(evaluateIssue(issue, [rule], NOW + (24 * 60 * 60 * 1000)), NOW);
+
+      expect(hasStaleEvaluationChanged(undefined, today)).toBe(true);
+      expect(hasStaleEvaluationChanged(today, later)).toBe(false);
+      expect(hasStaleEvaluationChanged(today, tomorrow)).toBe(true);
     });
   });
 
   describe("formatInactivityPeriod", () => {
     it("should format periods correctly", () => {
-      const now = Date.now();
-      
-      expect(formatInactivityPeriod(now)).toBe("Today");
-      expect(formatInactivityPeriod(now - (24 * 60 * 60 * 1000))).toBe("1 day ago");
-      expect(formatInactivityPeriod(now - (3 * 24 * 60 * 60 * 1000))).toBe("3 days ago");
-      expect(formatInactivityPeriod(now - (7 * 24 * 60 * 60 * 1000))).toBe("1 week ago");
-      expect(formatInactivityPeriod(now - (14 * 24 * 60 * 60 * 1000))).toBe("2 weeks ago");
-      expect(formatInactivityPeriod(now - (30 * 24 * 60 * 60 * 1000))).toBe("1 month ago");
-      expect(formatInactivityPeriod(now - (60 * 24 * 60 * 60 * 1000))).toBe("2 months ago");
-      expect(formatInactivityPeriod(now - (365 * 24 * 60 * 60 * 1000))).toBe("1 year ago");
-      expect(formatInactivityPeriod(now - (730 * 24 * 60 * 60 * 1000))).toBe("2 years ago");
+      expect(formatInactivityPeriod(NOW, NOW)).toBe("Today");
+      expect(formatInactivityPeriod(NOW - (24 * 60 * 60 * 1000), NOW)).toBe("1 day ago");
+      expect(formatInactivityPeriod(NOW - (3 * 24 * 60 * 60 * 1000), NOW)).toBe("3 days ago");
+      expect(formatInactivityPeriod(NOW - (7 * 24 * 60 * 60 * 1000), NOW)).toBe("1 week ago");
+      expect(formatInactivityPeriod(NOW - (14 * 24 * 60 * 60 * 1000), NOW)).toBe("2 weeks ago");
+      expect(formatInactivityPeriod(NOW - (30 * 24 * 60 * 60 * 1000), NOW)).toBe("1 month ago");
+      expect(formatInactivityPeriod(NOW - (60 * 24 * 60 * 60 * 1000), NOW)).toBe("2 months ago");
+      expect(formatInactivityPeriod(NOW - (365 * 24 * 60 * 60 * 1000), NOW)).toBe("1 year ago");
+      expect(formatInactivityPeriod(NOW - (730 * 24 * 60 * 60 * 1000), NOW)).toBe("2 years ago");
     });
   });
 
   describe("Stale Issue Analysis Logic", () => {
     it("should categorize issues by staleness buckets", () => {
-      const now = Date.now();
-      const issues = [
-        createTestIssue({ lastActivity: now - (3 * 24 * 60 * 60 * 1000) }), // 3 days
-        createTestIssue({ lastActivity: now - (14 * 24 * 60 * 60 * 1000) }), // 2 weeks
-        createTestIssue({ lastActivity: now - (60 * 24 * 60 * 60 * 1000) }), // 2 months
-        createTestIssue({ lastActivity: now - (120 * 24 * 60 * 60 * 1000) }), // 4 months
-        createTestIssue({ lastActivity: now - (400 * 24 * 60 * 60 * 1000) }), // 13+ months
+            const issues = [
+        createTestIssue({ lastActivity: NOW - (3 * 24 * 60 * 60 * 1000) }), // 3 days
+        createTestIssue({ lastActivity: NOW - (14 * 24 * 60 * 60 * 1000) }), // 2 weeks
+        createTestIssue({ lastActivity: NOW - (60 * 24 * 60 * 60 * 1000) }), // 2 months
+        createTestIssue({ lastActivity: NOW - (120 * 24 * 60 * 60 * 1000) }), // 4 months
+        createTestIssue({ lastActivity: NOW - (400 * 24 * 60 * 60 * 1000) }), // 13+ months
       ];
 
       const stalenessBuckets = {
@@ -299,7 +348,7 @@ describe("Stale Issue Identification Logic", () => {
       };
 
       issues.forEach(issue => {
-        const days = calculateDaysSinceActivity(issue.lastActivity);
+        const days = calculateDaysSinceActivity(issue.lastActivity, NOW);
         if (days <= 7) {
           stalenessBuckets["1-7 days"]++;
         } else if (days <= 30) {
@@ -0,0 +1,169 @@
+import { describe, it, expect } from "vitest";
+import { parseStalebotConfig } from "../../convex/lib/stalebotConfig";
+
+describe("Stalebot Config", () => {
+
+  it("should parse a valid config", () => {
+    const result = parseStalebotConfig(`
+rules:
+  - name: Stale bugs
+    inactivityDays: 30
+    labels: [bug]
+    issueStates: [open]
+    assigneeCondition: unassigned
+    exemptions:
+      labels: [pinned, security]
+    actions:
+      addLabel: true
+      staleLabel: stale
+`);
+
+    expect(result).toEqual({
+      valid: true,
+      rules: [{
+        name: "Stale bugs",
+        inactivityDays: 30,
+        labels: ["bug"],
+        issueStates: ["open"],
+        assigneeCondition: "unassigned",
+        exemptLabels: ["pinned", "security"],
+        itemKind: "any",
+        actionPolicy: {
+          postComment: false,
+          commentMessage: undefined,
+          addLabel: true,
+          staleLabel: "stale",
+          closeIssue: false,
+          daysUntilClose: undefined,
+        },
+      }],
+    });
+  });
+
+  it("should apply defaults for optional fields", () => {
+    const result = parseStalebotConfig("rules:\n  - name: Everything\n    inactivityDays: 60\n");
+
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(result.rules[0]).toEqual({
+        name: "Everything",
+        inactivityDays: 60,
+        labels: [],
+        issueStates: ["open"],
+        assigneeCondition: "any",
+        exemptLabels: [],
+        itemKind: "any",
+      });
+    }
+  });
+
+  it("should validate pull request rule targets", () => {
+    const result = parseStalebotConfig(`
+rules:
+  - name: Abandoned PRs
+    inactivityDays: 14
+    itemKind: pull_request
+    pullRequestCriteria:
+      draft: false
+      checksFailing: true
+  - name: Wrong target
+    inactivityDays: 14
+    itemKind: issue
+    pullRequestCriteria:
+      draft: true
+`);
+
+    expect(result).toEqual({
+      valid: false,
+      errors: ['rules[1] "Wrong target": Pull request criteria require the rule to target pull requests'],
+    });
+  });
+
+  it("should map exemptions onto rule fields", () => {
+    const result = parseStalebotConfig(`
+rules:
+  - name: Everything
+    inactivityDays: 60
+    exemptions:
+      labels: [roadmap]
+      milestones: any
+      linkedPullRequests: true
+      issues: [1, 42]
+`);
+
+    expect(result.valid).toBe(true);
+    if (result.valid) {
+      expect(result.rules[0]).toMatchObject({
+        exemptLabels: ["roadmap"],
+        exemptMilestones: "any",
+        exemptLinkedPullRequests: true,
+        exemptIssueNumbers: [1, 42],
+      });
+    }
+  });
+
+  it("should report YAML syntax errors with their position", () => {
+    const result = parseStalebotConfig("rules:\n  - name: Broken\n    labels: [bug\n");
+
+    expect(result.valid).toBe(false);
+    if (result.valid === false) {
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toMatch(/^Invalid YAML \(line \d+, column \d+\)/);
+    }
+  });
+
+  it("should reject unknown keys", () => {
+    const result = parseStalebotConfig(`
+version: 2
+rules:
+  - name: Typo
+    inactivityDays: 30
+    lables: [bug]
+    exemptions:
+      milestone: true
+`);
+
+    expect(result).toEqual({
+      valid: false,
+      errors: [
+        "Unknown top-level key `version`",
+        'rules[0] "Typo": Unknown key `lables`',
+        'rules[0] "Typo": Unknown key `exemptions.milestone`',
+      ],
+    });
+  });
+
+  it("should reject duplicate rule names", () => {
+    const result = parseStalebotConfig(`
+rules:
+  - name: Same
+    inactivityDays: 30
+  - name: Same
+    inactivityDays: 60
+`);
+
+    expect(result).toEqual({ valid: false, errors: ['rules[1] "Same": Duplicate rule name "Same"'] });
+  });
+
+  it("should run rule validation on each entry", () => {
+    const result = parseStalebotConfig(`
+rules:
+  - inactivityDays: 0
+    issueStates: [pending]
+`);
+
+    expect(result.valid).toBe(false);
+    if (result.valid === false) {
+      expect(result.errors.every(error => error.startsWith("rules[0]: "))).toBe(true);
+      expect(result.errors.length).toBeGreaterThanOrEqual(3);
+    }
+  });
+
+  it("should require a rules list", () => {
+    expect(parseStalebotConfig("rules: nope")).toEqual({ valid: false, errors: ["`rules` must be a list"] });
+    expect(parseStalebotConfig("- just a list")).toEqual({
+      valid: false,
+      errors: ["Config must be a mapping with a top-level `rules` list"],
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeSvixSignature,
+  verifySvixSignature,
+  SVIX_TIMESTAMP_TOLERANCE_SECONDS,
+} from "../../convex/lib/svixWebhook";
+
+// Test vector from the Svix webhook verification documentation
+const SECRET = "whsec_MfKQ9r8GKYqrTwjUPD8ILPZIo2LaLaSw";
+const MESSAGE_ID = "msg_p5jXN8AQM9LWM0D4loKWxJek";
+const TIMESTAMP = "1614265330";
+const PAYLOAD = '{"test": 2432232314}';
+const SIGNATURE = "g0hM9SsE+OTPJTGt/tmIKtSyZlE3uFJELVlNIOLJ1OE=";
+const NOW = parseInt(TIMESTAMP, 10) * 1000;
+
+const headers = (overrides: Partial<{ id: string | null; timestamp: string | null; signature: string | null }> = {}) => ({
+  id: MESSAGE_ID,
+  timestamp: TIMESTAMP,
+  signature: `v1,${SIGNATURE}`,
+  ...overrides,
+});
+
+describe("Resend Webhook Verification", () => {
+
+  it("should compute the documented signature", async () => {
+    expect(await computeSvixSignature(SECRET, MESSAGE_ID, TIMESTAMP, PAYLOAD)).toBe(SIGNATURE);
+  });
+
+  it("should accept a valid signature", async () => {
+    const result = await verifySvixSignature(SECRET, headers(), PAYLOAD, NOW);
+
+    expect(result).toEqual({ valid: true, messageId: MESSAGE_ID, timestamp: 1614265330 });
+  });
+
+  it("should accept a valid signature among several during secret rotation", async () => {
+    const result = await verifySvixSignature(
+      SECRET,
+      headers({ signature: `v1,c29tZXRoaW5nIGVsc2U= v1,${SIGNATURE}` }),
+      PAYLOAD,
+      NOW
+    );
+
+    expect(result.valid).toBe(true);
+  });
+
+  it("should reject unsigned requests", async () => {
+    expect(await verifySvixSignature(SECRET, headers({ signature: null }), PAYLOAD, NOW))
+      .toEqual({ valid: false, reason: "Missing signature headers" });
+    expect(await verifySvixSignature(SECRET, headers({ id: null }), PAYLOAD, NOW))
+      .toEqual({ valid: false, reason: "Missing signature headers" });
+  });
+
+  it("should reject tampered payloads and wrong secrets", async () => {
+    expect(await verifySvixSignature(SECRET, headers(), '{"test": 2432232315}', NOW))
+      .toEqual({ valid: false, reason: "Signature mismatch" });
+    expect(await verifySvixSignature("whsec_c2VjcmV0", headers(), PAYLOAD, NOW))
+      .toEqual({ valid: false, reason: "Signature mismatch" });
+    expect(await verifySvixSignature(SECRET, headers({ signature: `v2,${SIGNATURE}` }), PAYLOAD, NOW))
+      .toEqual({ valid: false, reason: "Signature mismatch" });
+  });
+
+  it("should reject a signature bound to a different message id", async () => {
+    expect(await verifySvixSignature(SECRET, headers({ id: "msg_other" }), PAYLOAD, NOW))
+      .toEqual({ valid: false, reason: "Signature mismatch" });
+  });
+
+  it("should enforce the timestamp tolerance", async () => {
+    const tolerance = SVIX_TIMESTAMP_TOLERANCE_SECONDS * 1000;
+
+    expect((await verifySvixSignature(SECRET, headers(), PAYLOAD, NOW + tolerance)).valid).toBe(true);
+    expect(await verifySvixSignature(SECRET, headers(), PAYLOAD, NOW + tolerance + 1000))
+      .toEqual({ valid: false, reason: "Timestamp outside tolerance" });
+    expect(await verifySvixSignature(SECRET, headers(), PAYLOAD, NOW - tolerance - 1000))
+      .toEqual({ valid: false, reason: "Timestamp outside tolerance" });
+    expect(await verifySvixSignature(SECRET, headers({ timestamp: "abc" }), PAYLOAD, NOW))
+      .toEqual({ valid: false, reason: "Invalid timestamp" });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import {
+  MAX_WORKSPACE_NAME_LENGTH,
+  hasWorkspacePermission,
+  normalizeWorkspaceName,
+  validateMembershipChange,
+} from "../../convex/lib/workspaces";
+
+describe("Team Workspaces", () => {
+  describe("role permissions", () => {
+    it("should let only owners manage members", () => {
+      expect(hasWorkspacePermission("owner", "manage_members")).toBe(true);
+      expect(hasWorkspacePermission("admin", "manage_members")).toBe(false);
+      expect(hasWorkspacePermission("viewer", "manage_members")).toBe(false);
+    });
+
+    it("should let owners and admins manage repositories and rules", () => {
+      expect(hasWorkspacePermission("owner", "manage")).toBe(true);
+      expect(hasWorkspacePermission("admin", "manage")).toBe(true);
+      expect(hasWorkspacePermission("viewer", "manage")).toBe(false);
+    });
+
+    it("should let every member view and non-members nothing", () => {
+      expect(hasWorkspacePermission("viewer", "view")).toBe(true);
+      expect(hasWorkspacePermission(null, "view")).toBe(false);
+    });
+  });
+
+  describe("membership changes", () => {
+    it("should not demote or remove the last owner", () => {
+      expect(validateMembershipChange(["owner", "viewer"], "owner", "admin")).toEqual({
+        valid: false,
+        reason: "A workspace needs at least one owner",
+      });
+      expect(validateMembershipChange(["owner"], "owner", null).valid).toBe(false);
+    });
+
+    it("should allow an owner to step down while another owner remains", () => {
+      expect(validateMembershipChange(["owner", "owner"], "owner", "viewer")).toEqual({ valid: true });
+      expect(validateMembershipChange(["owner", "admin"], "admin", null)).toEqual({ valid: true });
+      expect(validateMembershipChange(["owner"], null, "admin")).toEqual({ valid: true });
+    });
+
+    it("should reject unknown roles", () => {
+      expect(validateMembershipChange(["owner"], null, "guest" as any).valid).toBe(false);
+    });
+  });
+
+  describe("workspace names", () => {
+    it("should trim names and reject empty or overly long ones", () => {
+      expect(normalizeWorkspaceName("  Platform team ")).toBe("Platform team");
+      expect(() => normalizeWorkspaceName("   ")).toThrow("Workspace name is required");
+      expect(() => normalizeWorkspaceName("x".repeat(MAX_WORKSPACE_NAME_LENGTH + 1))).toThrow();
+    });
+  });
+});